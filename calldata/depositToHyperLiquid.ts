@@ -3,9 +3,7 @@ import {
   loadMultiChainAccounts,
   prepareCallQuoteV3,
   fetchCallQuoteV3,
-  executeQuoteV3,
   getQuoteV3,
-  monitorTransactionCompletion,
   signAllOperations,
   signOperation,
   checkAssetBalance,
@@ -13,9 +11,17 @@ import {
   fetchAggregatedBalanceV3,
   buildAccountParam,
   getChainIdentifier,
+  getAssetRegistry,
+  getChainRegistry,
+  normalizeDecimals,
+  calculateNonDestinationBalance,
+  ExecutionJournal,
+  type AssetRegistry,
+  type JournalRun,
   type QuoteRequestV3,
   type PrepareCallRequestV3,
   type CallRequestV3,
+  type CallQuoteResponseV3,
   ContractAccountType,
   type Hex,
   type TargetCallQuoteV3,
@@ -37,43 +43,18 @@ import {
  * WHY: Hyperliquid bridge only credits deposits from user accounts.
  * Cross-chain handlers become sender → bridge rejects.
  * Calldata keeps user as sender → bridge accepts.
+ *
+ * Every quote is journaled (helpers/.journal/executions.jsonl). Rerunning with the same
+ * amount after a crash resumes the unfinished run: completed steps are skipped and a
+ * submitted quote is monitored instead of being executed again.
  */
 
 // Configuration
 const ARBITRUM_CHAIN = 'eip155:42161';
 const ARBITRUM_USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const ARBITRUM_USDC_ASSET = `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`;
 const HYPERLIQUID_BRIDGE = '0x2Df1c51E09aECF9cacB7bc98cB1742757f163dF7';
 
-// Get native decimals for a specific chain's USDC
-function getNativeDecimals(chainId: string): number {
-  return chainId === '56' ? 18 : 6; // BSC has 18 decimals, others have 6
-}
-
-// Calculate balance excluding destination chain
-function calculateNonDestinationBalance(
-  asset: any,
-  destinationChainId: string,
-  targetDecimals: number,
-): bigint {
-  let nonDestinationBalance = 0n;
-
-  for (const balance of asset.individualAssetBalances) {
-    const amount = BigInt(balance.balance);
-    const chainId = getChainIdentifier(balance.assetType);
-    const nativeDecimals = getNativeDecimals(chainId);
-    const isDestination = chainId === destinationChainId;
-
-    if (!isDestination) {
-      // Normalize to target decimals before adding
-      const decimalDiff = targetDecimals - nativeDecimals;
-      const normalizedAmount = amount * 10n ** BigInt(decimalDiff);
-      nonDestinationBalance += normalizedAmount;
-    }
-  }
-
-  return nonDestinationBalance;
-}
-
 // Determines if two-step flow is needed based on callType and source balances
 // Returns true if funds are on multiple chains (EIP-7702 limitation)
 function needsTwoStepFlow(preparedQuote: TargetCallQuoteV3): boolean {
@@ -87,57 +68,55 @@ function needsTwoStepFlow(preparedQuote: TargetCallQuoteV3): boolean {
   return sourceBalances.length > 1;
 }
 
-// Signs, executes, and monitors a call quote
+// Fetches, signs, executes, and monitors a call quote as a journaled step
 async function executeCallQuote(
-  quote: any,
+  run: JournalRun,
+  step: string,
+  fetchQuote: () => Promise<CallQuoteResponseV3>,
   signerKey: any,
   solanaKeypair: any,
   solanaAccount: any,
   flowType: 'atomic' | 'two-step',
 ) {
-  console.log('\n📋 Signing origin chain operations...');
-  const signedQuote = await signAllOperations(
-    quote,
-    signerKey,
-    solanaKeypair,
-    solanaAccount,
-    ContractAccountType.KernelV33,
-  );
-  console.log('✅ All operations signed\n');
-
-  console.log(`⚡ Executing ${flowType} deposit...`);
-  const result = await executeQuoteV3(signedQuote);
-
-  if (!result.success) {
-    throw new Error(result.error || `${flowType} deposit execution failed`);
-  }
-
-  console.log('✅ Deposit executed successfully!\n');
-
-  // Monitor completion
-  console.log('📋 Monitoring transaction...');
-  await monitorTransactionCompletion(quote);
+  console.log(`\n⚡ Executing ${flowType} deposit...`);
+  const execution = await run.executeQuote(step, {
+    fetch: fetchQuote,
+    sign: async (quote) => {
+      console.log('\n📋 Signing origin chain operations...');
+      const signedQuote = await signAllOperations(
+        quote,
+        signerKey,
+        solanaKeypair,
+        solanaAccount,
+        ContractAccountType.KernelV33,
+      );
+      console.log('✅ All operations signed\n');
+      return signedQuote;
+    },
+  });
 
-  return result;
+  console.log(`✅ Deposit ${execution.result.status.toLowerCase()}!\n`);
+  return execution;
 }
 
 // OPTION 1: Atomic deposit (single-input scenarios)
 async function depositAtomic(
+  run: JournalRun,
   accounts: any[],
   evmAccount: any,
   signerKey: any,
   solanaKeypair: any,
   solanaAccount: any,
   amount: string,
-  decimals: number,
+  registry: AssetRegistry,
   slippageTolerance: number,
 ) {
+  const decimals = registry.decimalsOf('ob:usdc');
   console.log('\n💡 Using ATOMIC flow (single-input detected)\n');
 
   // Convert amount from aggregated decimals to native token decimals
-  const nativeDecimals = 6; // Arbitrum USDC has 6 decimals
-  const decimalDiff = decimals - nativeDecimals;
-  const amountInNativeDecimals = BigInt(amount) / 10n ** BigInt(decimalDiff);
+  const nativeDecimals = registry.decimalsOf(ARBITRUM_USDC_ASSET);
+  const amountInNativeDecimals = normalizeDecimals(BigInt(amount), decimals, nativeDecimals);
 
   console.log('📋 Preparing transfer to Hyperliquid bridge...');
   const transferAbi = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
@@ -151,54 +130,65 @@ async function depositAtomic(
   console.log(`  - To: ${HYPERLIQUID_BRIDGE}`);
   console.log(`  - Amount: ${formatUnits(BigInt(amount), decimals)} USDC\n`);
 
-  console.log('📋 Preparing call quote...');
-  const prepareRequest: PrepareCallRequestV3 = {
-    accounts,
-    targetChain: ARBITRUM_CHAIN,
-    calls: [
-      {
-        to: ARBITRUM_USDC as Hex,
-        data: transferCallData,
-        value: '0x0',
-      },
-    ],
-    tokensRequired: [
-      {
-        assetType: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
-        amount: amountInNativeDecimals.toString(),
-      },
-    ],
-  };
+  // Prepare, sign and fetch the call quote; skipped when resuming a submitted deposit
+  const fetchQuote = async () => {
+    console.log('📋 Preparing call quote...');
+    const prepareRequest: PrepareCallRequestV3 = {
+      accounts,
+      targetChain: ARBITRUM_CHAIN,
+      calls: [
+        {
+          to: ARBITRUM_USDC as Hex,
+          data: transferCallData,
+          value: '0x0',
+        },
+      ],
+      tokensRequired: [
+        {
+          assetType: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
+          amount: amountInNativeDecimals.toString(),
+        },
+      ],
+    };
 
-  console.log('Prepare call request:', JSON.stringify(prepareRequest, null, 2));
-  const preparedQuote = await prepareCallQuoteV3(prepareRequest);
-  console.log('\n✅ Prepared quote response:', JSON.stringify(preparedQuote, null, 2));
+    console.log('Prepare call request:', JSON.stringify(prepareRequest, null, 2));
+    const preparedQuote = await prepareCallQuoteV3(prepareRequest);
+    console.log('\n✅ Prepared quote response:', JSON.stringify(preparedQuote, null, 2));
 
-  // Sign target chain operation
-  console.log('\n📋 Signing target chain operation...');
-  const signedChainOp = await signOperation(
-    preparedQuote.chainOperation,
-    signerKey.privateKey,
-    ContractAccountType.KernelV33,
-  );
-  console.log('✅ Target chain operation signed\n');
-
-  // Get call quote with cross-chain routing
-  console.log('📋 Getting call quote...');
-  const callRequest: CallRequestV3 = {
-    fromAggregatedAssetId: 'ob:usdc', // Pull from single source chain
-    accounts,
-    tamperProofSignature: preparedQuote.tamperProofSignature,
-    chainOperation: signedChainOp,
-    slippageTolerance,
-  };
+    // Sign target chain operation
+    console.log('\n📋 Signing target chain operation...');
+    const signedChainOp = await signOperation(
+      preparedQuote.chainOperation,
+      signerKey.privateKey,
+      ContractAccountType.KernelV33,
+    );
+    console.log('✅ Target chain operation signed\n');
 
-  console.log('Call quote request:', JSON.stringify(callRequest, null, 2));
-  const quote = await fetchCallQuoteV3(callRequest);
-  console.log('\n✅ Call quote response:', JSON.stringify(quote, null, 2));
+    // Get call quote with cross-chain routing
+    console.log('📋 Getting call quote...');
+    const callRequest: CallRequestV3 = {
+      fromAggregatedAssetId: 'ob:usdc', // Pull from single source chain
+      accounts,
+      tamperProofSignature: preparedQuote.tamperProofSignature,
+      chainOperation: signedChainOp,
+      slippageTolerance,
+    };
+
+    console.log('Call quote request:', JSON.stringify(callRequest, null, 2));
+    const quote = await fetchCallQuoteV3(callRequest);
+    console.log('\n✅ Call quote response:', JSON.stringify(quote, null, 2));
+    return quote;
+  };
 
-  // Execute call quote
-  const result = await executeCallQuote(quote, signerKey, solanaKeypair, solanaAccount, 'atomic');
+  const result = await executeCallQuote(
+    run,
+    'deposit',
+    fetchQuote,
+    signerKey,
+    solanaKeypair,
+    solanaAccount,
+    'atomic',
+  );
 
   console.log('\n✅ Atomic deposit completed!');
   return { success: true, flow: 'atomic', result };
@@ -206,66 +196,86 @@ async function depositAtomic(
 
 // OPTION 2: Two-step deposit (multi-input scenarios)
 async function depositTwoStep(
+  run: JournalRun,
   accounts: any[],
   evmAccount: any,
   signerKey: any,
   solanaKeypair: any,
   solanaAccount: any,
   amount: string,
-  decimals: number,
+  registry: AssetRegistry,
   slippageTolerance: number,
 ) {
+  const decimals = registry.decimalsOf('ob:usdc');
+  const arbitrumDecimals = registry.decimalsOf(ARBITRUM_USDC_ASSET);
   console.log('\n💡 Using TWO-STEP flow (multi-input detected)\n');
   console.log('📊 STEP 1: Consolidating funds to Arbitrum...');
 
-  // Fetch balance
-  const accountParam = buildAccountParam(evmAccount, solanaAccount);
-  const balanceResponse = await fetchAggregatedBalanceV3(accountParam, 'ob:usdc');
+  const requestedAmount = BigInt(amount);
 
-  const asset = balanceResponse.balanceByAggregatedAsset?.find(
-    (a) => a.aggregatedAssetId === 'ob:usdc',
-  );
+  // Balances change once the swap lands, so the plan is journaled and reused on resume
+  const plan = await run.step('plan', async () => {
+    // Fetch balance
+    const accountParam = buildAccountParam(evmAccount, solanaAccount);
+    const balanceResponse = await fetchAggregatedBalanceV3(accountParam, 'ob:usdc');
 
-  if (!asset) {
-    throw new Error('No USDC balance found');
-  }
-
-  const requestedAmount = BigInt(amount);
+    const asset = balanceResponse.balanceByAggregatedAsset?.find(
+      (a) => a.aggregatedAssetId === 'ob:usdc',
+    );
 
-  // Calculate Arbitrum balance and show breakdown
-  let arbitrumBalance = 0n;
-  console.log('\n💰 Balance breakdown:');
-  for (const balance of asset.individualAssetBalances) {
-    const chainId = getChainIdentifier(balance.assetType);
-    const nativeDecimals = getNativeDecimals(chainId);
-    const balanceAmount = BigInt(balance.balance);
+    if (!asset) {
+      throw new Error('No USDC balance found');
+    }
 
-    console.log(`  - Chain ${chainId}: ${formatUnits(balanceAmount, nativeDecimals)} USDC`);
+    // Calculate Arbitrum balance and show breakdown
+    let arbitrumBalance = 0n;
+    const chains = await getChainRegistry();
+    console.log('\n💰 Balance breakdown:');
+    for (const balance of asset.individualAssetBalances) {
+      const chainId = getChainIdentifier(balance.assetType);
+      const nativeDecimals = registry.decimalsOf(balance.assetType);
+      const balanceAmount = BigInt(balance.balance);
+
+      console.log(
+        `  - ${chains.nameOf(balance.assetType)}: ${formatUnits(balanceAmount, nativeDecimals)} USDC`,
+      );
 
-    if (chainId === '42161') {
-      // Normalize to aggregated decimals
-      const decimalDiff = decimals - nativeDecimals;
-      arbitrumBalance += balanceAmount * 10n ** BigInt(decimalDiff);
+      if (chainId === '42161') {
+        // Normalize to aggregated decimals
+        arbitrumBalance += normalizeDecimals(balanceAmount, nativeDecimals, decimals);
+      }
     }
-  }
 
-  const availableNonArbitrum = calculateNonDestinationBalance(asset, '42161', decimals);
+    const availableNonArbitrum = calculateNonDestinationBalance(
+      asset.individualAssetBalances,
+      '42161',
+      decimals,
+      registry,
+    );
 
-  console.log(`\n💱 Consolidation plan:`);
-  console.log(`   Requested for deposit: ${formatUnits(requestedAmount, decimals)} USDC`);
-  console.log(`   Already on Arbitrum: ${formatUnits(arbitrumBalance, decimals)} USDC`);
-  console.log(
-    `   Available from other chains: ${formatUnits(availableNonArbitrum, decimals)} USDC`,
-  );
+    console.log(`\n💱 Consolidation plan:`);
+    console.log(`   Requested for deposit: ${formatUnits(requestedAmount, decimals)} USDC`);
+    console.log(`   Already on Arbitrum: ${formatUnits(arbitrumBalance, decimals)} USDC`);
+    console.log(
+      `   Available from other chains: ${formatUnits(availableNonArbitrum, decimals)} USDC`,
+    );
 
-  // Calculate how much we need to consolidate
-  const needToConsolidate =
-    requestedAmount > arbitrumBalance ? requestedAmount - arbitrumBalance : 0n;
-  const amountToConsolidate =
-    needToConsolidate < availableNonArbitrum ? needToConsolidate : availableNonArbitrum;
+    // Calculate how much we need to consolidate
+    const needToConsolidate =
+      requestedAmount > arbitrumBalance ? requestedAmount - arbitrumBalance : 0n;
+    const amountToConsolidate =
+      needToConsolidate < availableNonArbitrum ? needToConsolidate : availableNonArbitrum;
 
-  console.log(`   Need to consolidate: ${formatUnits(needToConsolidate, decimals)} USDC`);
-  console.log(`   Will consolidate: ${formatUnits(amountToConsolidate, decimals)} USDC\n`);
+    console.log(`   Need to consolidate: ${formatUnits(needToConsolidate, decimals)} USDC`);
+    console.log(`   Will consolidate: ${formatUnits(amountToConsolidate, decimals)} USDC\n`);
+
+    return {
+      arbitrumBalance: arbitrumBalance.toString(),
+      amountToConsolidate: amountToConsolidate.toString(),
+    };
+  });
+  const arbitrumBalance = BigInt(plan.arbitrumBalance);
+  const amountToConsolidate = BigInt(plan.amountToConsolidate);
 
   const swapQuoteRequest: QuoteRequestV3 = {
     from: {
@@ -280,44 +290,36 @@ async function depositTwoStep(
     slippageTolerance,
   };
 
-  console.log('📋 Getting swap quote...');
-  console.log('Swap quote request:', JSON.stringify(swapQuoteRequest, null, 2));
+  const { quote: swapQuote, result: swapResult } = await run.executeQuote('consolidate', {
+    fetch: async () => {
+      console.log('📋 Getting swap quote...');
+      console.log('Swap quote request:', JSON.stringify(swapQuoteRequest, null, 2));
 
-  const swapQuote = await getQuoteV3(swapQuoteRequest);
+      const quote = await getQuoteV3(swapQuoteRequest);
 
-  console.log('\n✅ Swap quote response:', JSON.stringify(swapQuote, null, 2));
+      console.log('\n✅ Swap quote response:', JSON.stringify(quote, null, 2));
+      return quote;
+    },
+    sign: (quote) => {
+      console.log('\n📋 Signing swap operations...');
+      return signAllOperations(
+        quote,
+        signerKey,
+        solanaKeypair,
+        solanaAccount,
+        ContractAccountType.KernelV33,
+      );
+    },
+  });
 
   console.log('\n✅ Swap quote received:');
   console.log(`  - Quote ID: ${swapQuote.id}`);
   console.log(`  - From: ${swapQuote.originToken?.aggregatedAssetId || 'unknown'}`);
   console.log(`  - To: ${swapQuote.destinationToken?.assetType || 'unknown'}`);
 
-  // Get actual output amount from swap (in native decimals - 6 for Arbitrum USDC)
+  // Get actual output amount from swap (in Arbitrum USDC native decimals)
   const swapOutputAmount = swapQuote.destinationToken?.amount || '0';
-  console.log(`  - Amount out: ${formatUnits(BigInt(swapOutputAmount), 6)} USDC`);
-
-  // Sign swap operations
-  console.log('\n📋 Signing swap operations...');
-  const signedSwapQuote = await signAllOperations(
-    swapQuote,
-    signerKey,
-    solanaKeypair,
-    solanaAccount,
-    ContractAccountType.KernelV33,
-  );
-
-  console.log('⚡ Executing swap...');
-  const swapResult = await executeQuoteV3(signedSwapQuote);
-
-  if (!swapResult.success) {
-    throw new Error(swapResult.error || 'Swap execution failed');
-  }
-
-  console.log('✅ Swap executed successfully!');
-
-  // Monitor swap completion
-  console.log('📋 Monitoring swap...');
-  await monitorTransactionCompletion(swapQuote);
+  console.log(`  - Amount out: ${formatUnits(BigInt(swapOutputAmount), arbitrumDecimals)} USDC`);
   console.log('✅ Funds consolidated on Arbitrum!\n');
 
   // Wait a moment for balance to update
@@ -328,20 +330,18 @@ async function depositTwoStep(
 
   // Calculate actual available after consolidation (arbBalance + swapOutput)
   const swapOutputBigInt = BigInt(swapOutputAmount);
-  const nativeDecimals = 6;
-  const decimalDiff = decimals - nativeDecimals;
-  const arbitrumBalanceNative = arbitrumBalance / 10n ** BigInt(decimalDiff);
+  const arbitrumBalanceNative = normalizeDecimals(arbitrumBalance, decimals, arbitrumDecimals);
   const actualAvailable = arbitrumBalanceNative + swapOutputBigInt;
-  const requestedDepositNative = requestedAmount / 10n ** BigInt(decimalDiff);
+  const requestedDepositNative = normalizeDecimals(requestedAmount, decimals, arbitrumDecimals);
 
   // Use min(requested, actualAvailable) accounting for fees/slippage
   const depositAmount = (
     requestedDepositNative < actualAvailable ? requestedDepositNative : actualAvailable
   ).toString();
 
-  console.log(`💰 Available for deposit: ${formatUnits(actualAvailable, 6)} USDC`);
-  console.log(`   Requested: ${formatUnits(requestedDepositNative, 6)} USDC`);
-  console.log(`   Will deposit: ${formatUnits(BigInt(depositAmount), 6)} USDC\n`);
+  console.log(`💰 Available for deposit: ${formatUnits(actualAvailable, arbitrumDecimals)} USDC`);
+  console.log(`   Requested: ${formatUnits(requestedDepositNative, arbitrumDecimals)} USDC`);
+  console.log(`   Will deposit: ${formatUnits(BigInt(depositAmount), arbitrumDecimals)} USDC\n`);
 
   console.log('📋 Preparing transfer to Hyperliquid bridge...');
   const transferAbi = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
@@ -353,70 +353,75 @@ async function depositTwoStep(
 
   console.log('✅ Transfer calldata encoded');
   console.log(`  - To: ${HYPERLIQUID_BRIDGE}`);
-  console.log(`  - Amount: ${formatUnits(BigInt(depositAmount), 6)} USDC\n`);
-
-  // Prepare call quote (same-chain operation on Arbitrum)
-  console.log('\n📋 Preparing call quote...');
-  const prepareRequest: PrepareCallRequestV3 = {
-    accounts,
-    targetChain: ARBITRUM_CHAIN,
-    calls: [
-      {
-        to: ARBITRUM_USDC as Hex,
-        data: transferCallData,
-        value: '0x0',
-      },
-    ],
-    tokensRequired: [
-      {
-        assetType: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
-        amount: depositAmount, // Use actual consolidated amount
-      },
-    ],
-  };
+  console.log(`  - Amount: ${formatUnits(BigInt(depositAmount), arbitrumDecimals)} USDC\n`);
 
-  console.log('Prepare call request:', JSON.stringify(prepareRequest, null, 2));
+  // Prepare, sign and fetch the call quote; skipped when resuming a submitted deposit
+  const fetchQuote = async () => {
+    // Prepare call quote (same-chain operation on Arbitrum)
+    console.log('\n📋 Preparing call quote...');
+    const prepareRequest: PrepareCallRequestV3 = {
+      accounts,
+      targetChain: ARBITRUM_CHAIN,
+      calls: [
+        {
+          to: ARBITRUM_USDC as Hex,
+          data: transferCallData,
+          value: '0x0',
+        },
+      ],
+      tokensRequired: [
+        {
+          assetType: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
+          amount: depositAmount, // Use actual consolidated amount
+        },
+      ],
+    };
 
-  const preparedQuote = await prepareCallQuoteV3(prepareRequest);
+    console.log('Prepare call request:', JSON.stringify(prepareRequest, null, 2));
 
-  console.log('\n✅ Prepared quote response:', JSON.stringify(preparedQuote, null, 2));
+    const preparedQuote = await prepareCallQuoteV3(prepareRequest);
 
-  console.log('\n✅ Prepared quote received');
+    console.log('\n✅ Prepared quote response:', JSON.stringify(preparedQuote, null, 2));
 
-  // Sign target chain operation
-  console.log('📋 Signing target chain operation...');
-  const signedChainOp = await signOperation(
-    preparedQuote.chainOperation,
-    signerKey.privateKey,
-    ContractAccountType.KernelV33,
-  );
-  console.log('✅ Target chain operation signed\n');
-
-  // Get call quote (should be same-chain, no cross-chain routing)
-  console.log('\n📋 Getting call quote...');
-  const callRequest: CallRequestV3 = {
-    // Use specific Arbitrum USDC (not aggregated) since we just swapped
-    fromAssetId: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
-    accounts,
-    tamperProofSignature: preparedQuote.tamperProofSignature,
-    chainOperation: signedChainOp,
-    slippageTolerance,
-  };
+    console.log('\n✅ Prepared quote received');
 
-  console.log('Call quote request:', JSON.stringify(callRequest, null, 2));
+    // Sign target chain operation
+    console.log('📋 Signing target chain operation...');
+    const signedChainOp = await signOperation(
+      preparedQuote.chainOperation,
+      signerKey.privateKey,
+      ContractAccountType.KernelV33,
+    );
+    console.log('✅ Target chain operation signed\n');
 
-  const quote = await fetchCallQuoteV3(callRequest);
+    // Get call quote (should be same-chain, no cross-chain routing)
+    console.log('\n📋 Getting call quote...');
+    const callRequest: CallRequestV3 = {
+      // Use specific Arbitrum USDC (not aggregated) since we just swapped
+      fromAssetId: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
+      accounts,
+      tamperProofSignature: preparedQuote.tamperProofSignature,
+      chainOperation: signedChainOp,
+      slippageTolerance,
+    };
 
-  console.log('\n✅ Call quote response:', JSON.stringify(quote, null, 2));
+    console.log('Call quote request:', JSON.stringify(callRequest, null, 2));
 
-  console.log('\n✅ Call quote received:');
-  console.log(`  - Quote ID: ${quote.id}`);
-  console.log(`  - Call type: ${(preparedQuote as any).callType || 'same-chain'}`);
-  console.log(`  - Origin operations: ${quote.originChainsOperations?.length || 0}`);
+    const quote = await fetchCallQuoteV3(callRequest);
+
+    console.log('\n✅ Call quote response:', JSON.stringify(quote, null, 2));
+
+    console.log('\n✅ Call quote received:');
+    console.log(`  - Quote ID: ${quote.id}`);
+    console.log(`  - Call type: ${(preparedQuote as any).callType || 'same-chain'}`);
+    console.log(`  - Origin operations: ${quote.originChainsOperations?.length || 0}`);
+    return quote;
+  };
 
-  // Execute call quote
   const depositResult = await executeCallQuote(
-    quote,
+    run,
+    'deposit',
+    fetchQuote,
     signerKey,
     solanaKeypair,
     solanaAccount,
@@ -426,10 +431,10 @@ async function depositTwoStep(
   console.log('\n🎉 Two-step deposit completed!');
   console.log(`\n💡 Summary:`);
   console.log(
-    `   1. Consolidated ${formatUnits(amountToConsolidate, decimals)} USDC from other chains → got ${formatUnits(BigInt(swapOutputAmount), 6)} USDC`,
+    `   1. Consolidated ${formatUnits(amountToConsolidate, decimals)} USDC from other chains → got ${formatUnits(BigInt(swapOutputAmount), arbitrumDecimals)} USDC`,
   );
   console.log(
-    `   2. Deposited ${formatUnits(BigInt(depositAmount), 6)} USDC to Hyperliquid bridge`,
+    `   2. Deposited ${formatUnits(BigInt(depositAmount), arbitrumDecimals)} USDC to Hyperliquid bridge`,
   );
   console.log(`   Sender: ${evmAccount?.accountAddress}`);
   console.log(`   Bridge: ${HYPERLIQUID_BRIDGE}\n`);
@@ -439,13 +444,17 @@ async function depositTwoStep(
 
 // Smart router: detects single vs multi-input and chooses optimal flow
 async function depositToHyperLiquid(
-  amount: string,
-  decimals: number,
+  amount: string, // In USDC, e.g. '1.5'
   slippageTolerance: number = 50,
 ) {
   try {
     console.log('🚀 Starting smart Hyperliquid deposit...\n');
 
+    // ob:usdc decimals depend on the deployment, so read them from the asset list
+    const registry = await getAssetRegistry();
+    const decimals = registry.decimalsOf('ob:usdc');
+    const baseAmount = parseUnits(amount, decimals).toString();
+
     // Load EIP-7702 + Solana accounts (ob:usdc can include Solana USDC)
     const { accounts, evmAccount, signerKey, solanaKeypair, solanaAccount } =
       await loadMultiChainAccounts({
@@ -463,78 +472,100 @@ async function depositToHyperLiquid(
     const balanceAddress = getBalanceCheckAddress('ob:usdc', evmAccount, solanaAccount);
     await checkAssetBalance(balanceAddress, 'ob:usdc', decimals);
 
-    // Prepare a test quote to detect multi-input scenario
-    console.log('\n🔍 Detecting fund distribution...');
-
-    // Convert amount from aggregated decimals to native token decimals (6 for USDC)
-    const nativeDecimals = 6; // Arbitrum USDC has 6 decimals
-    const decimalDiff = decimals - nativeDecimals;
-    const amountInNativeDecimals = BigInt(amount) / 10n ** BigInt(decimalDiff);
-
-    // Generate transfer calldata for test
-    const transferAbi = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
-    const testTransferCallData = encodeFunctionData({
-      abi: transferAbi,
-      functionName: 'transfer',
-      args: [HYPERLIQUID_BRIDGE as Hex, amountInNativeDecimals],
+    // Resume an unfinished deposit of the same amount, or start a new one
+    const run = new ExecutionJournal().startOrResume('hyperliquid-deposit', {
+      amount: baseAmount,
+      slippageTolerance,
     });
 
-    const testPrepareRequest: PrepareCallRequestV3 = {
-      accounts,
-      targetChain: ARBITRUM_CHAIN,
-      calls: [
-        {
-          to: ARBITRUM_USDC as Hex,
-          data: testTransferCallData,
-          value: '0x0',
-        },
-      ],
-      tokensRequired: [
-        {
-          assetType: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
-          amount: amountInNativeDecimals.toString(),
-        },
-      ],
-    };
+    // Consolidating changes the fund distribution, so the detected flow is journaled
+    const needsTwoStep = await run.step('detect', async () => {
+      // Prepare a test quote to detect multi-input scenario
+      console.log('\n🔍 Detecting fund distribution...');
 
-    const testPrepare: TargetCallQuoteV3 = await prepareCallQuoteV3(testPrepareRequest);
-    console.log('Test prepare:', JSON.stringify(testPrepare, null, 2));
+      // Convert amount from aggregated decimals to native token decimals
+      const nativeDecimals = registry.decimalsOf(ARBITRUM_USDC_ASSET);
+      const amountInNativeDecimals = normalizeDecimals(
+        BigInt(baseAmount),
+        decimals,
+        nativeDecimals,
+      );
 
-    const needsTwoStep = needsTwoStepFlow(testPrepare);
-    const sourceChains = testPrepare.sourceAssetBalances?.length || 0;
-    const callType = testPrepare.callType || 'unknown';
+      // Generate transfer calldata for test
+      const transferAbi = parseAbi([
+        'function transfer(address to, uint256 amount) returns (bool)',
+      ]);
+      const testTransferCallData = encodeFunctionData({
+        abi: transferAbi,
+        functionName: 'transfer',
+        args: [HYPERLIQUID_BRIDGE as Hex, amountInNativeDecimals],
+      });
 
-    console.log(`\n📊 Detection results:`);
-    console.log(`  - Call type: ${callType}`);
-    console.log(`  - Source chains: ${sourceChains}`);
-    console.log(`  - Flow: ${needsTwoStep ? 'TWO-STEP' : 'ATOMIC'}\n`);
+      const testPrepareRequest: PrepareCallRequestV3 = {
+        accounts,
+        targetChain: ARBITRUM_CHAIN,
+        calls: [
+          {
+            to: ARBITRUM_USDC as Hex,
+            data: testTransferCallData,
+            value: '0x0',
+          },
+        ],
+        tokensRequired: [
+          {
+            assetType: `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
+            amount: amountInNativeDecimals.toString(),
+          },
+        ],
+      };
+
+      const testPrepare: TargetCallQuoteV3 = await prepareCallQuoteV3(testPrepareRequest);
+      console.log('Test prepare:', JSON.stringify(testPrepare, null, 2));
+
+      const needsTwoStep = needsTwoStepFlow(testPrepare);
+      const sourceChains = testPrepare.sourceAssetBalances?.length || 0;
+      const callType = testPrepare.callType || 'unknown';
+
+      console.log(`\n📊 Detection results:`);
+      console.log(`  - Call type: ${callType}`);
+      console.log(`  - Source chains: ${sourceChains}`);
+      console.log(`  - Flow: ${needsTwoStep ? 'TWO-STEP' : 'ATOMIC'}\n`);
+
+      return needsTwoStep;
+    });
 
     if (needsTwoStep) {
       console.log('✓ Multi-input scenario detected');
       console.log('→ Using two-step consolidation flow\n');
-      return await depositTwoStep(
+      const result = await depositTwoStep(
+        run,
         accounts,
         evmAccount,
         signerKey,
         solanaKeypair,
         solanaAccount,
-        amount,
-        decimals,
+        baseAmount,
+        registry,
         slippageTolerance,
       );
+      run.complete();
+      return result;
     } else {
       console.log('✓ Single-input scenario detected');
       console.log('→ Using atomic calldata flow\n');
-      return await depositAtomic(
+      const result = await depositAtomic(
+        run,
         accounts,
         evmAccount,
         signerKey,
         solanaKeypair,
         solanaAccount,
-        amount,
-        decimals,
+        baseAmount,
+        registry,
         slippageTolerance,
       );
+      run.complete();
+      return result;
     }
   } catch (error) {
     console.error('\n❌ Deposit failed:', (error as Error).message);
@@ -549,11 +580,7 @@ async function main() {
     // Automatically detects single-input vs multi-input scenario
     // and chooses optimal flow (atomic vs two-step)
 
-    await depositToHyperLiquid(
-      parseUnits('1.5', 18).toString(), // 1.5 USDC
-      18, // Balance decimals
-      50,
-    );
+    await depositToHyperLiquid('1.5', 50);
   } catch (error) {
     console.error('Failed:', error);
     process.exit(1);
@@ -65,7 +65,7 @@ async function loadAccount(): Promise<{ signerKey: EOAKeyPair; account: Standard
 async function verifyBalance(accountAddress: string): Promise<void> {
   console.log('📋 Step 2: Checking USDC balance...');
 
-  const usdcBalance = await checkAssetBalance(accountAddress, 'ob:usdc', 6);
+  const usdcBalance = await checkAssetBalance(accountAddress, 'ob:usdc');
 
   if (usdcBalance === 0) {
     throw new Error('No USDC balance found. Please fund your account first.');
@@ -8,6 +8,14 @@ import {
   monitorTransactionCompletion,
   signAllOperations,
   fetchAggregatedBalanceV3,
+  getAssetRegistry,
+  getChainRegistry,
+  calculateNonDestinationBalance,
+  getPortfolio,
+  explainPortfolioChange,
+  type AssetRegistry,
+  type ChainRegistry,
+  type AggregatedAssetBalance,
   type QuoteRequestV3,
   ContractAccountType,
 } from '../helpers';
@@ -24,51 +32,43 @@ import {
  * - Request 10 USDC → consolidates 5 USDC from Base + Solana (excludes destination)
  *
  * Balance decimals: Public API uses 6, custom APIs may use 18.
- * Use parseUnits(amount, decimals) matching your API configuration.
+ * Decimals are looked up in the asset registry, so amounts are given in token units.
  */
 
 const ARBITRUM_CHAIN = 'eip155:42161';
 const BASE_CHAIN = 'eip155:8453';
 const BSC_CHAIN = 'eip155:56';
-const ARBITRUM_USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831'; // has 6 decimals
+const ARBITRUM_USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
 const BASE_USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
-const BSC_USDC = '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d'; // has 18 decimals
+const BSC_USDC = '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d';
 
-// Get native decimals for a specific chain's USDC
-function getNativeDecimals(chainId: string): number {
-  // BSC USDC has 18 decimals, Solana USDC has 6, most EVM chains have 6
-  return chainId === '56' ? 18 : 6;
-}
-
-// Calculate balance excluding destination chain
-function calculateNonDestinationBalance(
-  asset: any,
+// Log the per-chain balance breakdown and return what is available outside the destination
+function logBalanceBreakdown(
+  asset: AggregatedAssetBalance,
   destinationChainId: string,
   assetSymbol: string,
   targetDecimals: number, // Aggregated decimals (6 or 18)
+  registry: AssetRegistry,
+  chains: ChainRegistry,
 ): { nonDestinationBalance: bigint } {
-  let nonDestinationBalance = 0n;
-
   console.log('\n💰 Balance breakdown:');
   for (const balance of asset.individualAssetBalances) {
-    const amount = BigInt(balance.balance);
     const chainId = getChainIdentifier(balance.assetType);
-    const nativeDecimals = getNativeDecimals(chainId);
-    const isDestination = chainId === destinationChainId;
-
-    const status = isDestination ? 'excluded' : 'included';
+    const nativeDecimals = registry.decimalsOf(balance.assetType);
+    const status = chainId === destinationChainId ? 'excluded' : 'included';
     console.log(
-      `  - Chain ${chainId}: ${formatUnits(amount, nativeDecimals)} ${assetSymbol} (${status})`,
+      `  - ${chains.nameOf(balance.assetType)}: ${formatUnits(BigInt(balance.balance), nativeDecimals)} ${assetSymbol} (${status})`,
     );
-
-    if (!isDestination) {
-      // Normalize to target decimals before adding
-      const decimalDiff = targetDecimals - nativeDecimals;
-      const normalizedAmount = amount * 10n ** BigInt(decimalDiff);
-      nonDestinationBalance += normalizedAmount;
-    }
   }
 
+  // Normalized to target decimals
+  const nonDestinationBalance = calculateNonDestinationBalance(
+    asset.individualAssetBalances,
+    destinationChainId,
+    targetDecimals,
+    registry,
+  );
+
   console.log(
     `\n📈 Available: ${formatUnits(nonDestinationBalance, targetDecimals)} ${assetSymbol}\n`,
   );
@@ -79,19 +79,20 @@ function calculateNonDestinationBalance(
 async function consolidateStablecoin(
   fromAssetId: string,
   toAssetId: string,
-  amount: string,
-  balanceDecimals: number, // Aggregated balance decimals (6 or 18)
+  amount: string, // In token units, e.g. '3' for 3 USDC
   slippageTolerance: number = 50,
 ) {
   try {
-    const assetSymbol = fromAssetId.replace('ob:', '').toUpperCase();
-    const destinationChainId = toAssetId.match(/eip155:(\d+)/)?.[1];
+    const registry = await getAssetRegistry();
+    const balanceDecimals = registry.decimalsOf(fromAssetId); // Aggregated balance decimals
+    const assetSymbol = registry.symbolOf(fromAssetId);
+    const destinationChainId = getChainIdentifier(toAssetId);
 
-    if (!destinationChainId) {
+    if (destinationChainId === 'unknown' || destinationChainId === 'solana') {
       throw new Error(`Invalid destination asset format: ${toAssetId}`);
     }
 
-    const requestedAmount = BigInt(amount);
+    const requestedAmount = parseUnits(amount, balanceDecimals);
     console.log(
       `🚀 Consolidating ${formatUnits(requestedAmount, balanceDecimals)} ${assetSymbol} to chain ${destinationChainId}...\n`,
     );
@@ -125,11 +126,13 @@ async function consolidateStablecoin(
       `💰 Total balance: ${formatUnits(BigInt(asset.balance), balanceDecimals)} ${assetSymbol}\n`,
     );
 
-    const { nonDestinationBalance } = calculateNonDestinationBalance(
+    const { nonDestinationBalance } = logBalanceBreakdown(
       asset,
       destinationChainId,
       assetSymbol,
       balanceDecimals,
+      registry,
+      await getChainRegistry(),
     );
 
     if (nonDestinationBalance === 0n) {
@@ -183,12 +186,15 @@ async function consolidateStablecoin(
 
     console.log('\n✅ Swap quote response:', JSON.stringify(swapQuote, null, 2));
 
-    const destDecimals = getNativeDecimals(destinationChainId);
+    const destDecimals = registry.decimalsOf(toAssetId);
     console.log(`\n✅ Quote ID: ${swapQuote.id}`);
     console.log(
       `   Amount out: ${formatUnits(BigInt(swapQuote.destinationToken?.amount || 0), destDecimals)} ${assetSymbol}`,
     );
 
+    // Snapshot before executing to check afterwards what the quote actually moved
+    const before = await getPortfolio(accounts);
+
     console.log('\n📋 Signing and executing...');
     const signedSwapQuote = await signAllOperations(
       swapQuote,
@@ -207,6 +213,29 @@ async function consolidateStablecoin(
     console.log('⚡ Executed, monitoring...');
     await monitorTransactionCompletion(swapQuote);
 
+    const report = await explainPortfolioChange(before, await getPortfolio(accounts), [swapQuote]);
+    const [attribution] = report.quotes;
+    console.log('\n🔎 Balance change check:');
+    for (const change of report.diff.assets.flatMap((entry) => entry.chains)) {
+      console.log(
+        `  - ${change.chainName}: ${change.formattedDelta ?? change.delta} ${assetSymbol}`,
+      );
+    }
+    const { sent, received } = attribution;
+    if (sent?.observed && received?.observed) {
+      console.log(
+        `  Sent ${formatUnits(BigInt(sent.observed), balanceDecimals)} of ${formatUnits(BigInt(sent.expected), balanceDecimals)} ${assetSymbol}, ` +
+          `received ${formatUnits(BigInt(received.observed), destDecimals)} of ${formatUnits(BigInt(received.expected), destDecimals)} ${assetSymbol}`,
+      );
+    }
+    const fees = attribution.feesUSD === undefined ? 'n/a' : `$${attribution.feesUSD.toFixed(2)}`;
+    console.log(
+      `  Fiat change: $${report.diff.fiatDelta.toFixed(2)} (fees ${fees}, unexplained $${report.unexplainedFiatDelta.toFixed(2)})`,
+    );
+    if (attribution.fulfilled === false) {
+      console.warn('⚠️  Balances moved less than the quote promised');
+    }
+
     console.log(
       `\n✅ Consolidated ${formatUnits(amountToConsolidate, balanceDecimals)} ${assetSymbol} to chain ${destinationChainId}\n`,
     );
@@ -220,21 +249,11 @@ async function consolidateStablecoin(
 
 async function main() {
   try {
-    // Example 1: Public API (6 decimals)
-    // await consolidateStablecoin(
-    //   'ob:usdc',
-    //   `${BSC_CHAIN}/erc20:${BSC_USDC}`,
-    //   parseUnits('1', 6).toString(),
-    //   6,
-    // );
-
-    // Example 2: Team API (18 decimals)
-    await consolidateStablecoin(
-      'ob:usdc',
-      `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`,
-      parseUnits('3', 18).toString(),
-      18,
-    );
+    // Example 1: Consolidate to BSC
+    // await consolidateStablecoin('ob:usdc', `${BSC_CHAIN}/erc20:${BSC_USDC}`, '1');
+
+    // Example 2: Consolidate to Arbitrum
+    await consolidateStablecoin('ob:usdc', `${ARBITRUM_CHAIN}/erc20:${ARBITRUM_USDC}`, '3');
   } catch (error) {
     console.error('Failed:', error);
     process.exit(1);
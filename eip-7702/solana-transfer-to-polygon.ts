@@ -6,7 +6,8 @@ import {
   executeQuoteV3,
   monitorTransactionCompletion,
   signAllOperations,
-  checkAssetBalance,
+  getAssetBalance,
+  hasSufficientBalance,
   displayTransferQuote,
   type EIP7702Account,
   type SolanaAccount,
@@ -34,7 +35,7 @@ const USDC_AGGREGATED = 'ob:usdc';
 async function transferSolanaToPolygon(
   solanaAccount: SolanaAccount,
   eip7702Account: EIP7702Account,
-  amount: number,
+  amount: string, // In USDC, e.g. '0.4'
 ) {
   console.log('\n🚀 Starting Solana → Polygon USDC Transfer...');
   console.log(`   From: Solana (${solanaAccount.accountAddress}...)`);
@@ -42,14 +43,11 @@ async function transferSolanaToPolygon(
   console.log(`   Amount: ${amount} USDC\n`);
 
   // Step 1: Check balance
-  const balance = await checkAssetBalance(
-    solanaAccount.accountAddress,
-    USDC_AGGREGATED,
-    6, // USDC has 6 decimals
-  );
+  const balance = await getAssetBalance(solanaAccount.accountAddress, USDC_AGGREGATED);
+  console.log(`💰 Available balance: ${balance.formatted} ${balance.symbol}`);
 
-  if (balance < amount) {
-    throw new Error(`Insufficient balance. Need ${amount} USDC, have ${balance} USDC`);
+  if (!hasSufficientBalance(balance, amount)) {
+    throw new Error(`Insufficient balance. Need ${amount} USDC, have ${balance.formatted} USDC`);
   }
 
   // Step 2: Get quote for Solana → Polygon
@@ -64,7 +62,7 @@ async function transferSolanaToPolygon(
       asset: {
         assetId: USDC_SOLANA_ASSET_ID, // Specify exact Solana USDC
       },
-      amount: parseUnits(amount.toString(), 6).toString(), // USDC has 6 decimals
+      amount: parseUnits(amount, 6).toString(), // USDC has 6 decimals
     },
     to: {
       asset: {
@@ -81,7 +79,7 @@ async function transferSolanaToPolygon(
   displayTransferQuote({
     quote,
     assetId: USDC_SOLANA_ASSET_ID,
-    amount: parseUnits(amount.toString(), 6).toString(),
+    amount: parseUnits(amount, 6).toString(),
     decimals: 6,
     recipientAccount: `eip155:137:${eip7702Account.accountAddress}`,
   });
@@ -99,7 +97,7 @@ async function transferSolanaToPolygon(
 async function transferPolygonToSolana(
   eip7702Account: EIP7702Account,
   solanaAccount: SolanaAccount,
-  amount: number,
+  amount: string, // In USDC, e.g. '0.4'
 ) {
   console.log('\n🚀 Starting Polygon → Solana USDC Transfer...');
   console.log(`   From: Polygon (${eip7702Account.accountAddress})`);
@@ -107,14 +105,11 @@ async function transferPolygonToSolana(
   console.log(`   Amount: ${amount} USDC\n`);
 
   // Step 1: Check balance
-  const balance = await checkAssetBalance(
-    eip7702Account.accountAddress,
-    USDC_AGGREGATED,
-    6, // USDC has 6 decimals
-  );
+  const balance = await getAssetBalance(eip7702Account.accountAddress, USDC_AGGREGATED);
+  console.log(`💰 Available balance: ${balance.formatted} ${balance.symbol}`);
 
-  if (balance < amount) {
-    throw new Error(`Insufficient balance. Need ${amount} USDC, have ${balance} USDC`);
+  if (!hasSufficientBalance(balance, amount)) {
+    throw new Error(`Insufficient balance. Need ${amount} USDC, have ${balance.formatted} USDC`);
   }
 
   // Step 2: Get quote for Polygon → Solana
@@ -129,7 +124,7 @@ async function transferPolygonToSolana(
       asset: {
         assetId: USDC_POLYGON_ASSET_ID, // Specify exact Polygon USDC
       },
-      amount: parseUnits(amount.toString(), 6).toString(), // USDC has 6 decimals
+      amount: parseUnits(amount, 6).toString(), // USDC has 6 decimals
     },
     to: {
       asset: {
@@ -144,7 +139,7 @@ async function transferPolygonToSolana(
   displayTransferQuote({
     quote,
     assetId: USDC_POLYGON_ASSET_ID,
-    amount: parseUnits(amount.toString(), 6).toString(),
+    amount: parseUnits(amount, 6).toString(),
     decimals: 6,
     recipientAccount: `solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:${solanaAccount.accountAddress}`,
   });
@@ -161,7 +156,7 @@ async function exampleSolanaToPolygon(
   eip7702Account: EIP7702Account,
   signerKey: any,
   keypair: any,
-  amount: number,
+  amount: string, // In USDC, e.g. '0.4'
 ) {
   console.log('═══════════════════════════════════════════════════════');
   console.log('Example 1: Transfer USDC from Solana to Polygon');
@@ -199,7 +194,7 @@ async function examplePolygonToSolana(
   solanaAccount: SolanaAccount,
   signerKey: any,
   keypair: any,
-  amount: number,
+  amount: string, // In USDC, e.g. '0.4'
 ) {
   console.log('═══════════════════════════════════════════════════════');
   console.log('Example 2: Transfer USDC from Polygon to Solana');
@@ -256,10 +251,10 @@ async function main() {
 
   try {
     // Example 1: Solana → Polygon
-    await exampleSolanaToPolygon(solanaAccount, eip7702Account, signerKey, keypair, 0.4);
+    await exampleSolanaToPolygon(solanaAccount, eip7702Account, signerKey, keypair, '0.4');
 
     // Example 2: Polygon → Solana
-    await examplePolygonToSolana(eip7702Account, solanaAccount, signerKey, keypair, 0.3);
+    await examplePolygonToSolana(eip7702Account, solanaAccount, signerKey, keypair, '0.3');
 
     console.log('✨ All examples completed successfully!');
   } catch (error) {
@@ -10,6 +10,10 @@ import {
   getBalanceCheckAddress,
   type QuoteRequestV3,
   ContractAccountType,
+  NoRouteError,
+  SOLANA_MAINNET,
+  formatAccountId,
+  formatAssetId,
 } from '../helpers';
 
 /**
@@ -58,7 +62,11 @@ type XStockSymbol = keyof typeof XSTOCKS;
  */
 function getXStockAssetId(symbol: XStockSymbol): string {
   const token = XSTOCKS[symbol];
-  return `solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/token:${token.solana}`;
+  return formatAssetId({
+    chainId: SOLANA_MAINNET,
+    assetNamespace: 'token',
+    assetReference: token.solana,
+  });
 }
 
 /**
@@ -105,7 +113,10 @@ async function tradeXStock(
         asset: { assetId: toAssetId },
         // Add recipient account for cross-chain to Solana
         ...(solanaAccount && {
-          account: `solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:${solanaAccount.accountAddress}`,
+          account: formatAccountId({
+            chainId: SOLANA_MAINNET,
+            address: solanaAccount.accountAddress,
+          }),
         }),
       },
       slippageTolerance,
@@ -148,6 +159,9 @@ async function tradeXStock(
 
     return result;
   } catch (error) {
+    if (error instanceof NoRouteError) {
+      console.error('\n❌ No route found - xStocks only trade on Solana');
+    }
     console.error('\n❌ Failed to trade xStock:', (error as Error).message);
     throw error;
   }
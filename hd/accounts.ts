@@ -0,0 +1,53 @@
+import { EvmAccountType, MNEMONIC_ENV, predictHDAccounts } from '../helpers';
+
+/**
+ * List the accounts of the HD wallet
+ *
+ * Derives the session keys of the first account indices from the HD wallet mnemonic
+ * (ONEBALANCE_MNEMONIC, or the encrypted helpers/keys/mnemonic-key.json, generated on first
+ * use) and prints their predicted OneBalance addresses, so they can be funded before use.
+ * Pass an index to loadAccounts or loadMultiChainAccounts to use one of them.
+ *
+ * Usage: pnpm run hd:accounts [count] [standard|eip7702]
+ */
+
+async function listAccounts(count: number, evmAccountType: EvmAccountType) {
+  const indices = Array.from({ length: count }, (_, index) => index);
+  const accounts = await predictHDAccounts(indices, { evmAccountType });
+
+  console.log(
+    `🌱 ${count} HD account(s) from ${process.env[MNEMONIC_ENV] ? MNEMONIC_ENV : 'the key store mnemonic'}:`,
+  );
+  for (const { index, evmPath, solanaPath, evmAccount, solanaAccount } of accounts) {
+    console.log(`\n#${index}`);
+    console.log(`  EVM signer (${evmPath}): ${evmAccount.signerAddress}`);
+    console.log(
+      `  ${evmAccountType === 'eip7702' ? 'EIP-7702' : 'Standard'} account: ${evmAccount.accountAddress}`,
+    );
+    console.log(`  Solana (${solanaPath}): ${solanaAccount.accountAddress}`);
+  }
+}
+
+async function main() {
+  const count = Number(process.argv[2] ?? 5);
+  const evmAccountType = (process.argv[3] ?? 'standard') as EvmAccountType;
+  if (!Number.isInteger(count) || count < 1) {
+    console.error(`Invalid account count: ${process.argv[2]}`);
+    process.exit(1);
+  }
+  if (evmAccountType !== 'standard' && evmAccountType !== 'eip7702') {
+    console.error(`Invalid account type: ${evmAccountType} (expected standard or eip7702)`);
+    process.exit(1);
+  }
+
+  try {
+    await listAccounts(count, evmAccountType);
+  } catch (error) {
+    console.error('Listing HD accounts failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { buildAccountParam, getChainIdentifier, loadMultiChainAccounts } from './account';
+import { getDefaultClient, setDefaultClient } from './api';
+import { OneBalanceClient } from './client';
+import { MNEMONIC_ENV, deriveAccountKeys } from './hd';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { EIP7702Account, SolanaAccount } from './types';
+
+const evmAccount: EIP7702Account = {
+  type: 'kernel-v3.3-ecdsa',
+  deploymentType: 'EIP7702',
+  signerAddress: '0x1111111111111111111111111111111111111111',
+  accountAddress: '0x1111111111111111111111111111111111111111',
+};
+
+const solanaAccount: SolanaAccount = {
+  type: 'solana',
+  accountAddress: 'J5CCzBULFax899tcirb6wMbenQUd8whbaetG7EfSick5',
+};
+
+describe('getChainIdentifier', () => {
+  it('returns the chain id of EVM asset types', () => {
+    expect(
+      getChainIdentifier('eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831'),
+    ).toBe('42161');
+    expect(getChainIdentifier('eip155:1/slip44:60')).toBe('1');
+  });
+
+  it("returns 'solana' for Solana asset types", () => {
+    expect(getChainIdentifier('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501')).toBe('solana');
+  });
+
+  it("returns 'unknown' otherwise", () => {
+    expect(getChainIdentifier('ob:usdc')).toBe('unknown');
+  });
+});
+
+describe('buildAccountParam', () => {
+  it('joins EVM and Solana CAIP-10 ids', () => {
+    expect(buildAccountParam(evmAccount, solanaAccount)).toBe(
+      'eip155:1:0x1111111111111111111111111111111111111111,' +
+        'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:J5CCzBULFax899tcirb6wMbenQUd8whbaetG7EfSick5',
+    );
+  });
+
+  it('accepts a single account', () => {
+    expect(buildAccountParam(evmAccount, null)).toBe(
+      'eip155:1:0x1111111111111111111111111111111111111111',
+    );
+    expect(buildAccountParam(null, solanaAccount)).toBe(
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:J5CCzBULFax899tcirb6wMbenQUd8whbaetG7EfSick5',
+    );
+  });
+
+  it('requires at least one account', () => {
+    expect(() => buildAccountParam(null, null)).toThrow('At least one account is required');
+  });
+});
+
+describe('loadMultiChainAccounts', () => {
+  const mnemonic = 'test test test test test test test test test test test junk';
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    setDefaultClient(new OneBalanceClient({ baseUrl: await server.start() }));
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('derives the accounts of an HD wallet index', async () => {
+    vi.stubEnv(MNEMONIC_ENV, mnemonic);
+    const { signerKey, solanaKey } = deriveAccountKeys(mnemonic, 3);
+
+    const loaded = await loadMultiChainAccounts({
+      needsSolana: true,
+      accountIndex: 3,
+      evmAccountType: 'eip7702',
+    });
+
+    expect(loaded.signerKey).toEqual(signerKey);
+    expect(loaded.evmAccount?.accountAddress).toBe(signerKey.address);
+    expect(loaded.solanaAccount?.accountAddress).toBe(solanaKey.publicKey);
+    expect(loaded.solanaKeypair?.secretKey).toEqual(solanaKey.keypair.secretKey);
+  });
+
+  it('deploys standard accounts through ERC-4337', async () => {
+    vi.stubEnv(MNEMONIC_ENV, mnemonic);
+
+    const { evmAccount, solanaAccount } = await loadMultiChainAccounts({ accountIndex: 0 });
+
+    expect(evmAccount).toMatchObject({
+      type: 'kernel-v3.1-ecdsa',
+      deploymentType: 'ERC4337',
+      signerAddress: deriveAccountKeys(mnemonic, 0).signerKey.address,
+    });
+    expect(evmAccount?.accountAddress).toMatch(/^0x[0-9a-fA-F]{40}$/);
+    expect(solanaAccount).toBeNull();
+  });
+});
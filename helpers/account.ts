@@ -1,12 +1,16 @@
-import { readOrCacheEOAKey, loadSolanaKey } from './crypto';
+import { readOrCacheEOAKey, loadSolanaKey, loadMnemonic } from './crypto';
+import { deriveEvmKey, deriveSolanaKey, evmDerivationPath, solanaDerivationPath } from './hd';
+import { getLogger } from './logger';
 import { predictStandardAddress } from './onebalance';
-import { isSolanaInvolved } from './solana';
+import { isSolanaAsset, isSolanaInvolved } from './solana';
+import { SOLANA_MAINNET, evmChain, formatAccountId, getChainOf, parseAccountId } from './caip';
 import {
   Account,
   StandardAccount,
   EIP7702Account,
   SolanaAccount,
   EOAKeyPair,
+  SolanaKeyPair,
   SwapParams,
   Hex,
 } from './types';
@@ -37,50 +41,83 @@ export interface LoadMultiChainAccountsResult {
   solanaKeypair: Keypair | null;
 }
 
+/**
+ * Accounts of one HD wallet index, with their predicted OneBalance addresses
+ */
+export interface HDAccount {
+  index: number;
+  evmPath: string;
+  solanaPath: string;
+  evmAccount: StandardAccount | EIP7702Account;
+  solanaAccount: SolanaAccount;
+}
+
+// Session key from a key file name, or derived from the HD wallet mnemonic for an account index
+function loadSessionKey(sessionKey: string | number): EOAKeyPair {
+  if (typeof sessionKey === 'string') {
+    return readOrCacheEOAKey(sessionKey);
+  }
+  getLogger().info(`HD account ${sessionKey}: ${evmDerivationPath(sessionKey)}`);
+  return deriveEvmKey(loadMnemonic(), sessionKey);
+}
+
+// Solana key of the same HD account index, or the 'solana' key file for named session keys
+function loadSolanaSessionKey(sessionKey: string | number): SolanaKeyPair {
+  if (typeof sessionKey === 'string') {
+    return loadSolanaKey();
+  }
+  getLogger().info(`HD account ${sessionKey}: ${solanaDerivationPath(sessionKey)}`);
+  return deriveSolanaKey(loadMnemonic(), sessionKey);
+}
+
+async function toEvmAccount(
+  signerAddress: Hex,
+  accountType: EvmAccountType,
+): Promise<StandardAccount | EIP7702Account> {
+  if (accountType === 'eip7702') {
+    // EIP-7702: EOA is the account address
+    return {
+      type: 'kernel-v3.3-ecdsa' as const,
+      deploymentType: 'EIP7702' as const,
+      accountAddress: signerAddress,
+      signerAddress,
+    };
+  }
+
+  // Standard account: predict smart account address
+  const accountAddress = await predictStandardAddress('kernel-v3.1-ecdsa', signerAddress);
+  return {
+    type: 'kernel-v3.1-ecdsa' as const,
+    deploymentType: 'ERC4337' as const,
+    signerAddress,
+    accountAddress: accountAddress as Hex,
+  };
+}
+
 /**
  * Load and configure accounts (EVM and Solana if needed) for swap operations
  *
  * @param swapParams - The swap parameters to determine which accounts are needed
- * @param sessionKeyName - Name of the session key to use (default: 'session')
+ * @param sessionKey - Name of the session key file, or an account index in the HD wallet
+ *   (default: 'session')
  * @param accountType - Type of EVM account to use: 'standard' or 'eip7702' (default: 'standard')
  * @returns Object containing all loaded accounts and keys
  */
 export async function loadAccounts(
   swapParams: SwapParams,
-  sessionKeyName: string = 'session',
+  sessionKey: string | number = 'session',
   accountType: EvmAccountType = 'standard',
 ): Promise<LoadAccountsResult> {
-  console.log('🔑 Loading accounts...');
+  const logger = getLogger();
+  logger.info('🔑 Loading accounts...');
 
   // Load EVM signer key
-  const signerKey = readOrCacheEOAKey(sessionKeyName);
-  console.log(`EVM Signer: ${signerKey.address}`);
-
-  let evmAccount: StandardAccount | EIP7702Account;
-
-  if (accountType === 'eip7702') {
-    // EIP-7702: EOA is the account address
-    const accountAddress = signerKey.address as Hex;
-    console.log(`EIP-7702 Account: ${accountAddress}`);
+  const signerKey = loadSessionKey(sessionKey);
+  logger.info(`EVM Signer: ${signerKey.address}`);
 
-    evmAccount = {
-      type: 'kernel-v3.3-ecdsa' as const,
-      deploymentType: 'EIP7702' as const,
-      accountAddress,
-      signerAddress: accountAddress,
-    };
-  } else {
-    // Standard account: predict smart account address
-    const evmAccountAddress = await predictStandardAddress('kernel-v3.1-ecdsa', signerKey.address);
-    console.log(`Standard Account: ${evmAccountAddress}`);
-
-    evmAccount = {
-      type: 'kernel-v3.1-ecdsa' as const,
-      deploymentType: 'ERC4337' as const,
-      signerAddress: signerKey.address as Hex,
-      accountAddress: evmAccountAddress as Hex,
-    };
-  }
+  const accountTypeLabel = accountType === 'eip7702' ? 'EIP-7702' : 'Standard';
+  const evmAccount = await toEvmAccount(signerKey.address as Hex, accountType);
+  logger.info(`${accountTypeLabel} Account: ${evmAccount.accountAddress}`);
 
   // Check if Solana is needed and load if required
   const needsSolana = isSolanaInvolved(swapParams.fromAssetId, swapParams.toAssetId);
@@ -88,13 +125,13 @@ export async function loadAccounts(
   let solanaKeypair = null;
 
   if (needsSolana) {
-    const { keypair, publicKey } = loadSolanaKey();
+    const { keypair, publicKey } = loadSolanaSessionKey(sessionKey);
     solanaKeypair = keypair;
     solanaAccount = {
       type: 'solana' as const,
       accountAddress: publicKey,
     };
-    console.log(`Solana Account: ${publicKey}`);
+    logger.info(`Solana Account: ${publicKey}`);
   }
 
   const accounts: Account[] = [evmAccount];
@@ -102,8 +139,7 @@ export async function loadAccounts(
     accounts.push(solanaAccount);
   }
 
-  const accountTypeLabel = accountType === 'eip7702' ? 'EIP-7702' : 'Standard';
-  console.log(
+  logger.info(
     `✅ Loaded ${accounts.length} account(s): ${accountTypeLabel}${needsSolana ? ' + Solana' : ''}`,
   );
 
@@ -126,63 +162,45 @@ export async function loadMultiChainAccounts(options: {
   needsEvm?: boolean;
   needsSolana?: boolean;
   sessionKeyName?: string;
+  /** Account index in the HD wallet, used instead of sessionKeyName and the 'solana' key file */
+  accountIndex?: number;
   evmAccountType?: EvmAccountType;
 }): Promise<LoadMultiChainAccountsResult> {
   const {
     needsEvm = true,
     needsSolana = false,
     sessionKeyName = 'session',
+    accountIndex,
     evmAccountType = 'standard',
   } = options;
+  const sessionKey = accountIndex ?? sessionKeyName;
 
-  console.log('🔑 Loading multi-chain accounts...');
+  const logger = getLogger();
+  logger.info('🔑 Loading multi-chain accounts...');
 
   let evmAccount: StandardAccount | EIP7702Account | null = null;
   let signerKey = null;
 
   if (needsEvm) {
-    signerKey = readOrCacheEOAKey(sessionKeyName);
-
-    if (evmAccountType === 'eip7702') {
-      // EIP-7702: EOA is the account address
-      const accountAddress = signerKey.address as Hex;
-      console.log(`EVM Signer: ${signerKey.address}`);
-      console.log(`EIP-7702 Account: ${accountAddress}`);
-
-      evmAccount = {
-        type: 'kernel-v3.3-ecdsa' as const,
-        deploymentType: 'EIP7702' as const,
-        accountAddress,
-        signerAddress: accountAddress,
-      };
-    } else {
-      // Standard account: predict smart account address
-      const evmAccountAddress = await predictStandardAddress(
-        'kernel-v3.1-ecdsa',
-        signerKey.address,
-      );
-      console.log(`EVM Signer: ${signerKey.address}`);
-      console.log(`Standard Account: ${evmAccountAddress}`);
-
-      evmAccount = {
-        type: 'kernel-v3.1-ecdsa' as const,
-        signerAddress: signerKey.address as `0x${string}`,
-        accountAddress: evmAccountAddress as `0x${string}`,
-      };
-    }
+    signerKey = loadSessionKey(sessionKey);
+    logger.info(`EVM Signer: ${signerKey.address}`);
+
+    evmAccount = await toEvmAccount(signerKey.address as Hex, evmAccountType);
+    const accountTypeLabel = evmAccountType === 'eip7702' ? 'EIP-7702' : 'Standard';
+    logger.info(`${accountTypeLabel} Account: ${evmAccount.accountAddress}`);
   }
 
   let solanaAccount: SolanaAccount | null = null;
   let solanaKeypair = null;
 
   if (needsSolana) {
-    const { keypair, publicKey } = loadSolanaKey();
+    const { keypair, publicKey } = loadSolanaSessionKey(sessionKey);
     solanaKeypair = keypair;
     solanaAccount = {
       type: 'solana' as const,
       accountAddress: publicKey,
     };
-    console.log(`Solana Account: ${publicKey}`);
+    logger.info(`Solana Account: ${publicKey}`);
   }
 
   const accounts: Account[] = [];
@@ -195,7 +213,7 @@ export async function loadMultiChainAccounts(options: {
   }
   if (needsSolana) accountTypes.push('Solana');
 
-  console.log(`✅ Loaded ${accounts.length} account(s): ${accountTypes.join(' + ')}`);
+  logger.info(`✅ Loaded ${accounts.length} account(s): ${accountTypes.join(' + ')}`);
 
   return {
     accounts,
@@ -206,6 +224,38 @@ export async function loadMultiChainAccounts(options: {
   };
 }
 
+/**
+ * Derive the accounts of HD wallet indices and predict their OneBalance addresses, e.g. to
+ * fund them before use. No key files are read or written.
+ *
+ * @param indices - Account indices
+ * @param options - Mnemonic (default: the HD wallet mnemonic) and EVM account type
+ * @returns The accounts of each index
+ */
+export async function predictHDAccounts(
+  indices: number[],
+  options: { mnemonic?: string; evmAccountType?: EvmAccountType } = {},
+): Promise<HDAccount[]> {
+  const mnemonic = options.mnemonic ?? loadMnemonic();
+  const accounts: HDAccount[] = [];
+
+  for (const index of indices) {
+    const signerKey = deriveEvmKey(mnemonic, index);
+    const solanaKey = deriveSolanaKey(mnemonic, index);
+    accounts.push({
+      index,
+      evmPath: evmDerivationPath(index),
+      solanaPath: solanaDerivationPath(index),
+      evmAccount: await toEvmAccount(
+        signerKey.address as Hex,
+        options.evmAccountType ?? 'standard',
+      ),
+      solanaAccount: { type: 'solana' as const, accountAddress: solanaKey.publicKey },
+    });
+  }
+  return accounts;
+}
+
 /**
  * Get the appropriate account address for balance checking based on asset type
  *
@@ -219,9 +269,7 @@ export function getBalanceCheckAddress(
   evmAccount: StandardAccount | EIP7702Account,
   solanaAccount: SolanaAccount | null,
 ): string {
-  const isSolanaAsset = assetId.startsWith('solana:') || assetId === 'ob:sol';
-
-  if (isSolanaAsset && solanaAccount) {
+  if (isSolanaAsset(assetId) && solanaAccount) {
     return solanaAccount.accountAddress;
   }
 
@@ -235,14 +283,30 @@ export function getBalanceCheckAddress(
  * @returns Chain identifier (chainId for EVM, 'solana' for Solana)
  */
 export function getChainIdentifier(assetType: string): string {
-  const evmMatch = assetType.match(/eip155:(\d+)/);
-  if (evmMatch) return evmMatch[1];
+  const chainId = getChainOf(assetType);
 
-  if (assetType.startsWith('solana:')) return 'solana';
+  if (chainId?.namespace === 'eip155') return chainId.reference;
+  if (chainId?.namespace === 'solana') return 'solana';
 
   return 'unknown';
 }
 
+/**
+ * CAIP-10 id of an account; EVM accounts share an address across chains, so mainnet is used
+ *
+ * @param account - Account object or CAIP-10 account id (validated)
+ * @returns CAIP-10 account identifier
+ */
+export function toAccountId(account: Account | string): string {
+  if (typeof account === 'string') {
+    parseAccountId(account);
+    return account;
+  }
+
+  const chainId = account.type === 'solana' ? SOLANA_MAINNET : evmChain(1);
+  return formatAccountId({ chainId, address: account.accountAddress });
+}
+
 /**
  * Build CAIP-10 account parameter for V3 aggregated balance endpoint
  *
@@ -257,12 +321,13 @@ export function buildAccountParam(
   const accountIds: string[] = [];
 
   if (evmAccount) {
-    accountIds.push(`eip155:1:${evmAccount.accountAddress}`);
+    accountIds.push(formatAccountId({ chainId: evmChain(1), address: evmAccount.accountAddress }));
   }
 
   if (solanaAccount) {
-    // Solana CAIP-10 format: solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:address
-    accountIds.push(`solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:${solanaAccount.accountAddress}`);
+    accountIds.push(
+      formatAccountId({ chainId: SOLANA_MAINNET, address: solanaAccount.accountAddress }),
+    );
   }
 
   if (accountIds.length === 0) {
@@ -1,21 +1,23 @@
-import axios, { AxiosResponse } from 'axios';
-import dotenv from 'dotenv';
+import { OneBalanceClient, RequestOptions } from './client';
 
-// Load environment variables
-dotenv.config();
+// Default client used by the free helper functions, created on first use
+let defaultClient: OneBalanceClient | null = null;
 
-const BASE_URL = 'https://be.onebalance.io';
+export function getDefaultClient(): OneBalanceClient {
+  if (!defaultClient) {
+    defaultClient = new OneBalanceClient();
+  }
+  return defaultClient;
+}
 
-// Note: Using the production API endpoint will produce a different predicted address
-const API_KEY =
-  process.env.ONEBALANCE_API_KEY ||
-  '42bb629272001ee1163ca0dbbbc07bcbb0ef57a57baf16c4b1d4672db4562c11';
+// Replace the client used by the free helper functions
+export function setDefaultClient(client: OneBalanceClient): void {
+  defaultClient = client;
+}
 
 // Helper function to create authenticated headers
 export function createAuthHeaders(): Record<string, string> {
-  return {
-    'x-api-key': API_KEY,
-  };
+  return getDefaultClient().createAuthHeaders();
 }
 
 export async function apiRequest<RequestData, ResponseData>(
@@ -23,40 +25,30 @@ export async function apiRequest<RequestData, ResponseData>(
   endpoint: string,
   data: RequestData,
   isParams = false,
+  options?: RequestOptions,
 ): Promise<ResponseData> {
-  try {
-    const config = {
-      headers: createAuthHeaders(),
-      ...(isParams ? { params: data } : {}),
-    };
-
-    const url = `${BASE_URL}${endpoint}`;
-
-    const response: AxiosResponse<ResponseData> =
-      method === 'post'
-        ? await axios.post(url, data, config)
-        : await axios.get(url, { ...config, params: data });
-
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error) && error.response) {
-      throw new Error(JSON.stringify(error.response.data));
-    }
-    throw error;
-  }
+  return getDefaultClient().request<RequestData, ResponseData>(
+    method,
+    endpoint,
+    data,
+    isParams,
+    options,
+  );
 }
 
 // API methods
 export async function apiPost<RequestData, ResponseData>(
   endpoint: string,
   data: RequestData,
+  options?: RequestOptions,
 ): Promise<ResponseData> {
-  return apiRequest<RequestData, ResponseData>('post', endpoint, data);
+  return apiRequest<RequestData, ResponseData>('post', endpoint, data, false, options);
 }
 
 export async function apiGet<RequestData, ResponseData>(
   endpoint: string,
   params: RequestData,
+  options?: RequestOptions,
 ): Promise<ResponseData> {
-  return apiRequest<RequestData, ResponseData>('get', endpoint, params, true);
+  return apiRequest<RequestData, ResponseData>('get', endpoint, params, true, options);
 }
@@ -0,0 +1,156 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AssetRegistry, getAssetRegistry } from './assets';
+import { OneBalanceClient } from './client';
+import { AggregatedAsset } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BSC_USDC = 'eip155:56/erc20:0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d';
+const SOLANA_SOL = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501';
+
+const assets: AggregatedAsset[] = [
+  {
+    aggregatedAssetId: 'ob:usdc',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 18,
+    aggregatedEntities: [
+      { assetType: ARBITRUM_USDC, decimals: 6, name: 'USD Coin', symbol: 'USDC' },
+      { assetType: BSC_USDC, decimals: 18, name: 'USD Coin', symbol: 'USDC' },
+    ],
+  },
+  {
+    aggregatedAssetId: 'ob:sol',
+    symbol: 'SOL',
+    name: 'Solana',
+    decimals: 9,
+    aggregatedEntities: [{ assetType: SOLANA_SOL, decimals: 9, name: 'Solana', symbol: 'SOL' }],
+  },
+];
+
+function fakeClient(baseUrl = 'https://api.example.test') {
+  const listAggregatedAssets = vi.fn(async () => assets);
+  const client = { baseUrl, listAggregatedAssets } as unknown as OneBalanceClient;
+  return { client, listAggregatedAssets };
+}
+
+describe('AssetRegistry', () => {
+  const registry = new AssetRegistry(assets);
+
+  it('looks up decimals of aggregated and chain-specific assets', () => {
+    expect(registry.decimalsOf('ob:usdc')).toBe(18);
+    expect(registry.decimalsOf(ARBITRUM_USDC)).toBe(6);
+    expect(registry.decimalsOf(BSC_USDC)).toBe(18);
+    expect(registry.decimalsOf(SOLANA_SOL)).toBe(9);
+  });
+
+  it('ignores EVM address casing', () => {
+    expect(registry.decimalsOf(ARBITRUM_USDC.toLowerCase())).toBe(6);
+    expect(registry.has(BSC_USDC.toLowerCase())).toBe(true);
+  });
+
+  it('throws for unknown assets, or returns undefined from findDecimals', () => {
+    expect(() => registry.decimalsOf('ob:doge')).toThrow('Unknown asset: ob:doge');
+    expect(registry.findDecimals('eip155:1/slip44:60')).toBeUndefined();
+    expect(registry.has('ob:doge')).toBe(false);
+  });
+
+  it('answers symbols, parents and entities', () => {
+    expect(registry.symbolOf('ob:sol')).toBe('SOL');
+    expect(registry.symbolOf(BSC_USDC)).toBe('USDC');
+    expect(registry.aggregatedIdOf(ARBITRUM_USDC)).toBe('ob:usdc');
+    expect(registry.aggregatedIdOf('eip155:1/slip44:60')).toBeUndefined();
+    expect(registry.entitiesOf('ob:usdc').map((e) => e.assetType)).toEqual([
+      ARBITRUM_USDC,
+      BSC_USDC,
+    ]);
+    expect(() => registry.entitiesOf('ob:doge')).toThrow('Unknown aggregated asset');
+  });
+});
+
+describe('AssetRegistry.load', () => {
+  let dir: string;
+  let cacheFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'assets-'));
+    cacheFile = join(dir, 'assets.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fetches once and then serves the cache', async () => {
+    const { client, listAggregatedAssets } = fakeClient();
+
+    await AssetRegistry.load({ client, cacheFile });
+    const registry = await AssetRegistry.load({ client, cacheFile });
+
+    expect(listAggregatedAssets).toHaveBeenCalledTimes(1);
+    expect(registry.decimalsOf('ob:usdc')).toBe(18);
+    expect(JSON.parse(readFileSync(cacheFile, 'utf8')).baseUrl).toBe(client.baseUrl);
+  });
+
+  it('refetches once the cache is older than the TTL', async () => {
+    const { client, listAggregatedAssets } = fakeClient();
+    writeFileSync(
+      cacheFile,
+      JSON.stringify({ baseUrl: client.baseUrl, fetchedAt: Date.now() - 10_000, assets }),
+    );
+
+    await AssetRegistry.load({ client, cacheFile, ttlMs: 60_000 });
+    expect(listAggregatedAssets).not.toHaveBeenCalled();
+
+    await AssetRegistry.load({ client, cacheFile, ttlMs: 5_000 });
+    expect(listAggregatedAssets).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a cache written for another deployment', async () => {
+    const { client, listAggregatedAssets } = fakeClient();
+    writeFileSync(
+      cacheFile,
+      JSON.stringify({ baseUrl: 'https://other.example.test', fetchedAt: Date.now(), assets: [] }),
+    );
+
+    const registry = await AssetRegistry.load({ client, cacheFile });
+
+    expect(listAggregatedAssets).toHaveBeenCalledTimes(1);
+    expect(registry.has('ob:usdc')).toBe(true);
+  });
+
+  it('always fetches when the cache is disabled', async () => {
+    const { client, listAggregatedAssets } = fakeClient();
+
+    await AssetRegistry.load({ client, cacheFile: false });
+    await AssetRegistry.load({ client, cacheFile: false });
+
+    expect(listAggregatedAssets).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getAssetRegistry', () => {
+  it('loads once per client', async () => {
+    const { client, listAggregatedAssets } = fakeClient();
+
+    const [a, b] = await Promise.all([
+      getAssetRegistry({ client, cacheFile: false }),
+      getAssetRegistry({ client, cacheFile: false }),
+    ]);
+
+    expect(a).toBe(b);
+    expect(listAggregatedAssets).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries after a failed load', async () => {
+    const { client, listAggregatedAssets } = fakeClient();
+    listAggregatedAssets.mockRejectedValueOnce(new Error('network down'));
+
+    await expect(getAssetRegistry({ client, cacheFile: false })).rejects.toThrow('network down');
+    const registry = await getAssetRegistry({ client, cacheFile: false });
+
+    expect(registry.decimalsOf('ob:sol')).toBe(9);
+  });
+});
@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { getDefaultClient } from './api';
+import { isAggregatedAssetId, normalizeAssetId } from './caip';
+import { OneBalanceClient } from './client';
+import { AggregatedAsset, IndividualAsset } from './types';
+
+/**
+ * Asset metadata registry backed by listAggregatedAssets
+ */
+
+export const DEFAULT_ASSET_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** The asset is not in the asset list of the deployment */
+export class UnknownAssetError extends Error {
+  readonly assetId: string;
+
+  constructor(assetId: string) {
+    super(`Unknown asset: ${assetId}`);
+    this.name = 'UnknownAssetError';
+    this.assetId = assetId;
+  }
+}
+
+export interface AssetRegistryOptions {
+  /** Client used to fetch the asset list (default: the default client) */
+  client?: OneBalanceClient;
+  /**
+   * Cache file, or false to disable the disk cache
+   * (default: helpers/.cache/assets-<deployment>.json, one file per base URL)
+   */
+  cacheFile?: string | false;
+  /** How long a cached asset list stays fresh, in milliseconds (default: 1 hour) */
+  ttlMs?: number;
+}
+
+interface AssetCache {
+  baseUrl: string;
+  fetchedAt: number;
+  assets: AggregatedAsset[];
+}
+
+// Asset ids are compared with checksummed EVM addresses
+function assetKey(assetId: string): string {
+  try {
+    return normalizeAssetId(assetId);
+  } catch {
+    return assetId;
+  }
+}
+
+function defaultCacheFile(baseUrl: string): string {
+  const deployment = createHash('sha256').update(baseUrl).digest('hex').slice(0, 12);
+  return join(__dirname, '.cache', `assets-${deployment}.json`);
+}
+
+function readCache(file: string, baseUrl: string, ttlMs: number): AggregatedAsset[] | undefined {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  try {
+    const cache = JSON.parse(readFileSync(file, 'utf8')) as AssetCache;
+    const fresh = Date.now() - cache.fetchedAt < ttlMs;
+    return cache.baseUrl === baseUrl && fresh ? cache.assets : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeCache(file: string, baseUrl: string, assets: AggregatedAsset[]): void {
+  const cache: AssetCache = { baseUrl, fetchedAt: Date.now(), assets };
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(cache, null, 2));
+}
+
+/**
+ * Decimals, symbols and aggregation membership for every asset the backend knows about.
+ * Decimals differ between deployments (e.g. ob:usdc has 6 on the public API and 18 on
+ * some custom ones), so they are always looked up rather than hardcoded.
+ */
+export class AssetRegistry {
+  private readonly aggregated = new Map<string, AggregatedAsset>();
+  private readonly individual = new Map<string, IndividualAsset>();
+  private readonly parents = new Map<string, string>();
+
+  constructor(readonly assets: AggregatedAsset[]) {
+    for (const asset of assets) {
+      this.aggregated.set(asset.aggregatedAssetId, asset);
+
+      for (const entity of asset.aggregatedEntities) {
+        const key = assetKey(entity.assetType);
+        this.individual.set(key, entity);
+        // An asset type can belong to several aggregated assets; keep the first
+        if (!this.parents.has(key)) {
+          this.parents.set(key, asset.aggregatedAssetId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Load the asset list from the disk cache, or from the API when the cache is stale
+   *
+   * @param options - Client, cache file and TTL
+   * @returns A registry over the current asset list
+   */
+  static async load(options: AssetRegistryOptions = {}): Promise<AssetRegistry> {
+    const client = options.client || getDefaultClient();
+    const ttlMs = options.ttlMs ?? DEFAULT_ASSET_CACHE_TTL_MS;
+    const cacheFile =
+      options.cacheFile === undefined ? defaultCacheFile(client.baseUrl) : options.cacheFile;
+
+    const cached = cacheFile ? readCache(cacheFile, client.baseUrl, ttlMs) : undefined;
+    if (cached) {
+      return new AssetRegistry(cached);
+    }
+
+    const assets = await client.listAggregatedAssets();
+    if (cacheFile) {
+      writeCache(cacheFile, client.baseUrl, assets);
+    }
+    return new AssetRegistry(assets);
+  }
+
+  has(assetId: string): boolean {
+    return this.aggregated.has(assetId) || this.individual.has(assetKey(assetId));
+  }
+
+  /**
+   * Decimals of an aggregated asset (ob:usdc) or chain-specific asset type
+   *
+   * @throws UnknownAssetError if the asset is unknown
+   */
+  decimalsOf(assetId: string): number {
+    const decimals = this.findDecimals(assetId);
+    if (decimals === undefined) {
+      throw new UnknownAssetError(assetId);
+    }
+    return decimals;
+  }
+
+  /**
+   * Like decimalsOf, but returns undefined for unknown assets
+   */
+  findDecimals(assetId: string): number | undefined {
+    return this.lookup(assetId)?.decimals;
+  }
+
+  /**
+   * Symbol of an aggregated asset or chain-specific asset type
+   *
+   * @throws UnknownAssetError if the asset is unknown
+   */
+  symbolOf(assetId: string): string {
+    const asset = this.lookup(assetId);
+    if (!asset) {
+      throw new UnknownAssetError(assetId);
+    }
+    return asset.symbol;
+  }
+
+  /**
+   * Aggregated asset a chain-specific asset type belongs to
+   *
+   * @returns The aggregated asset id, or undefined if the asset type is not aggregated
+   */
+  aggregatedIdOf(assetType: string): string | undefined {
+    return this.parents.get(assetKey(assetType));
+  }
+
+  /**
+   * Chain-specific assets making up an aggregated asset
+   *
+   * @throws Error if the aggregated asset is unknown
+   */
+  entitiesOf(aggregatedAssetId: string): IndividualAsset[] {
+    const asset = this.aggregated.get(aggregatedAssetId);
+    if (!asset) {
+      throw new Error(`Unknown aggregated asset: ${aggregatedAssetId}`);
+    }
+    return asset.aggregatedEntities;
+  }
+
+  private lookup(assetId: string): { decimals: number; symbol: string } | undefined {
+    return isAggregatedAssetId(assetId)
+      ? this.aggregated.get(assetId)
+      : this.individual.get(assetKey(assetId));
+  }
+}
+
+// Registry per client, loaded on first use
+const registries = new WeakMap<OneBalanceClient, Promise<AssetRegistry>>();
+
+/**
+ * Shared asset registry for a client (default: the default client), loaded once per process
+ *
+ * @param options - Client, cache file and TTL used on first load
+ * @returns The registry
+ */
+export function getAssetRegistry(options: AssetRegistryOptions = {}): Promise<AssetRegistry> {
+  const client = options.client || getDefaultClient();
+
+  let registry = registries.get(client);
+  if (!registry) {
+    registry = AssetRegistry.load({ ...options, client });
+    // Allow a retry after a failed load
+    registry.catch(() => registries.delete(client));
+    registries.set(client, registry);
+  }
+  return registry;
+}
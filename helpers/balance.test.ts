@@ -0,0 +1,224 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { getDefaultClient, setDefaultClient } from './api';
+import { AssetRegistry, UnknownAssetError, getAssetRegistry } from './assets';
+import {
+  calculateNonDestinationBalance,
+  compareAmounts,
+  getAssetBalance,
+  hasSufficientBalance,
+  normalizeDecimals,
+} from './balance';
+import { OneBalanceClient } from './client';
+import { LogFields, getLogger, setLogger, silentLogger } from './logger';
+
+describe('normalizeDecimals', () => {
+  it('scales up to more decimals', () => {
+    expect(normalizeDecimals(1_500_000n, 6, 18)).toBe(1_500_000_000_000_000_000n);
+  });
+
+  it('truncates down to fewer decimals', () => {
+    expect(normalizeDecimals(1_500_000_000_000_000_001n, 18, 6)).toBe(1_500_000n);
+  });
+
+  it('keeps the amount when decimals match', () => {
+    expect(normalizeDecimals(42n, 6, 6)).toBe(42n);
+  });
+});
+
+describe('calculateNonDestinationBalance', () => {
+  const balances = [
+    {
+      assetType: 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      balance: '8000000',
+      fiatValue: 8,
+    },
+    {
+      assetType: 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+      balance: '3000000',
+      fiatValue: 3,
+    },
+    {
+      assetType: 'eip155:56/erc20:0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+      balance: '2000000000000000000',
+      fiatValue: 2,
+    },
+  ];
+
+  const entity = (assetType: string, decimals: number) => ({
+    assetType,
+    decimals,
+    name: 'USD Coin',
+    symbol: 'USDC',
+  });
+
+  const registry = new AssetRegistry([
+    {
+      aggregatedAssetId: 'ob:usdc',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      aggregatedEntities: balances.map((b) =>
+        entity(b.assetType, b.assetType.startsWith('eip155:56/') ? 18 : 6),
+      ),
+    },
+  ]);
+
+  it('sums other chains in aggregated decimals', () => {
+    expect(calculateNonDestinationBalance(balances, '42161', 6, registry)).toBe(5_000_000n);
+    expect(calculateNonDestinationBalance(balances, '42161', 18, registry)).toBe(5n * 10n ** 18n);
+  });
+
+  it('excludes the destination chain', () => {
+    expect(calculateNonDestinationBalance(balances, '56', 6, registry)).toBe(11_000_000n);
+  });
+
+  it('uses the native decimals from the registry', () => {
+    const custom = new AssetRegistry([
+      {
+        aggregatedAssetId: 'ob:usdc',
+        symbol: 'USDC',
+        name: 'USD Coin',
+        decimals: 6,
+        aggregatedEntities: balances.slice(0, 2).map((b) => entity(b.assetType, 3)),
+      },
+    ]);
+
+    expect(calculateNonDestinationBalance(balances.slice(0, 2), '1', 6, custom)).toBe(
+      11_000_000_000n,
+    );
+  });
+
+  it('names asset types missing from the registry', () => {
+    const assetType = 'eip155:10/erc20:0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85';
+
+    const error = (() => {
+      try {
+        calculateNonDestinationBalance(
+          [...balances, { assetType, balance: '1', fiatValue: 0 }],
+          '42161',
+          6,
+          registry,
+        );
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(UnknownAssetError);
+    expect(error).toMatchObject({ assetId: assetType, message: `Unknown asset: ${assetType}` });
+  });
+});
+
+describe('compareAmounts', () => {
+  it('compares amounts across decimals', () => {
+    expect(
+      compareAmounts({ raw: 1_000_000n, decimals: 6 }, { raw: 10n ** 18n, decimals: 18 }),
+    ).toBe(0);
+    expect(compareAmounts({ raw: 999_999n, decimals: 6 }, { raw: 10n ** 18n, decimals: 18 })).toBe(
+      -1,
+    );
+    expect(
+      compareAmounts({ raw: 10n ** 18n + 1n, decimals: 18 }, { raw: 1_000_000n, decimals: 6 }),
+    ).toBe(1);
+  });
+});
+
+describe('hasSufficientBalance', () => {
+  const balance = { raw: 400_000_000_000_000_001n, decimals: 18 };
+
+  it('accepts token units without float rounding', () => {
+    expect(hasSufficientBalance(balance, '0.4')).toBe(true);
+    expect(hasSufficientBalance(balance, '0.400000000000000001')).toBe(true);
+    expect(hasSufficientBalance(balance, '0.400000000000000002')).toBe(false);
+  });
+
+  it('accepts smallest-unit amounts', () => {
+    expect(hasSufficientBalance(balance, 400_000_000_000_000_001n)).toBe(true);
+    expect(hasSufficientBalance(balance, 400_000_000_000_000_002n)).toBe(false);
+  });
+});
+
+describe('getAssetBalance', () => {
+  const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+  const BSC_USDC = 'eip155:56/erc20:0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d';
+  const ACCOUNT = '0x2222222222222222222222222222222222222222';
+
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+  const warnings: Array<{ message: string; fields?: LogFields }> = [];
+
+  beforeAll(async () => {
+    setLogger({ ...silentLogger, warn: (message, fields) => warnings.push({ message, fields }) });
+    const client = new OneBalanceClient({ baseUrl: await server.start() });
+    setDefaultClient(client);
+    // Keep the asset list out of the on-disk cache
+    await getAssetRegistry({ client, cacheFile: false });
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    warnings.length = 0;
+  });
+
+  it('returns exact aggregated balances with a per-chain breakdown', async () => {
+    server.setBalance(ARBITRUM_USDC, 1_500_000n, 1.5);
+    server.setBalance(BSC_USDC, 2n * 10n ** 18n + 1n, 2);
+
+    const balance = await getAssetBalance(ACCOUNT, 'ob:usdc');
+
+    expect(balance).toMatchObject({
+      assetId: 'ob:usdc',
+      raw: 3_500_000n,
+      decimals: 6,
+      formatted: '3.5',
+      symbol: 'USDC',
+      fiatValue: 3.5,
+    });
+    expect(
+      balance.perChain.map(({ chainName, raw, decimals }) => ({ chainName, raw, decimals })),
+    ).toEqual([
+      { chainName: 'Arbitrum', raw: 1_500_000n, decimals: 6 },
+      { chainName: 'BNB Smart Chain', raw: 2n * 10n ** 18n + 1n, decimals: 18 },
+    ]);
+  });
+
+  it('returns chain-specific balances', async () => {
+    server.setBalance(BSC_USDC, 2n * 10n ** 18n + 1n, 2);
+
+    const balance = await getAssetBalance(ACCOUNT, BSC_USDC.toLowerCase());
+
+    expect(balance.raw).toBe(2n * 10n ** 18n + 1n);
+    expect(balance.formatted).toBe('2.000000000000000001');
+    expect(balance.perChain).toHaveLength(1);
+    expect(balance.perChain[0].chainId).toBe('eip155:56');
+  });
+
+  it('returns zero when nothing is held', async () => {
+    const balance = await getAssetBalance(ACCOUNT, 'ob:usdt');
+
+    expect(balance.raw).toBe(0n);
+    expect(balance.formatted).toBe('0');
+    expect(balance.perChain).toEqual([]);
+  });
+
+  it('assumes 18 decimals for assets missing from the asset list', async () => {
+    const unlisted = 'eip155:42161/erc20:0x1111111111111111111111111111111111111111';
+    server.setBalance(unlisted, 15n * 10n ** 17n, 1.5);
+
+    const balance = await getAssetBalance(ACCOUNT, unlisted);
+
+    expect(balance).toMatchObject({ raw: 15n * 10n ** 17n, decimals: 18, formatted: '1.5' });
+    expect(warnings).toEqual([
+      { message: expect.stringContaining('assuming 18 decimals'), fields: { assetId: unlisted } },
+    ]);
+    expect((await getAssetBalance(ACCOUNT, unlisted, 6)).formatted).toBe('1500000000000');
+  });
+});
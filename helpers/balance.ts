@@ -1,6 +1,22 @@
-import { formatUnits } from 'viem';
+import { formatUnits, parseUnits } from 'viem';
 import { fetchAggregatedBalanceV3 } from './onebalance';
 import { isSolanaAsset, formatSolanaAssetSymbol } from './solana';
+import { getChainIdentifier } from './account';
+import { AssetRegistry, getAssetRegistry } from './assets';
+import { getChainRegistry } from './chains';
+import { getLogger } from './logger';
+import {
+  SOLANA_MAINNET,
+  evmChain,
+  formatAccountId,
+  formatChainId,
+  getChainOf,
+  isAccountId,
+  isAggregatedAssetId,
+  isSameAssetId,
+  tryParseAssetId,
+} from './caip';
+import { IndividualAssetBalance } from './types';
 
 /**
  * Balance-related utility functions for OneBalance operations
@@ -16,233 +32,336 @@ function isSolanaAddress(address: string): boolean {
   return !address.startsWith('0x') && address.length >= 32 && address.length <= 44;
 }
 
+// Common SLIP-44 codes for display
+const SLIP44_SYMBOLS: Record<string, string> = {
+  '60': 'ETH',
+  '501': 'SOL',
+  '0': 'BTC',
+};
+
 /**
- * Universal balance checker that works with both aggregated assets and regular asset IDs
+ * Display symbol for an aggregated or chain-specific asset id
+ */
+export function formatAssetSymbol(assetId: string): string {
+  if (isAggregatedAssetId(assetId)) {
+    return assetId.replace('ob:', '').toUpperCase();
+  }
+
+  if (isSolanaAsset(assetId)) {
+    return formatSolanaAssetSymbol(assetId);
+  }
+
+  const asset = tryParseAssetId(assetId);
+  if (!asset) {
+    return assetId;
+  }
+
+  // Show first 6 chars of token addresses
+  switch (asset.assetNamespace) {
+    case 'token':
+      return `TOKEN-${asset.assetReference.slice(0, 6)}...`;
+    case 'erc20':
+      return `ERC20-${asset.assetReference.slice(0, 6)}...`;
+    case 'slip44':
+      return SLIP44_SYMBOLS[asset.assetReference] || `SLIP44-${asset.assetReference}`;
+    default:
+      return asset.assetReference.toUpperCase();
+  }
+}
+
+export interface ChainBalance {
+  assetType: string;
+  /** CAIP-2 chain id, e.g. 'eip155:42161' */
+  chainId: string;
+  chainName: string;
+  raw: bigint;
+  decimals: number;
+  formatted: string;
+  fiatValue: number;
+}
+
+/**
+ * Exact balance of an aggregated or chain-specific asset
+ */
+export interface Balance {
+  assetId: string;
+  /** Amount in the smallest unit */
+  raw: bigint;
+  decimals: number;
+  /** `raw` formatted with `decimals`, without rounding */
+  formatted: string;
+  symbol: string;
+  fiatValue: number;
+  /** Balance on each chain; a single entry for chain-specific assets */
+  perChain: ChainBalance[];
+}
+
+// CAIP-10 account to query an asset's balance with
+function resolveAccountIdentifier(accountAddress: string, assetId: string): string {
+  const assetChain = getChainOf(assetId);
+
+  if (isAccountId(accountAddress)) {
+    // Already a CAIP-10 account id
+    return accountAddress;
+  }
+  if (isSolanaAddress(accountAddress)) {
+    return formatAccountId({ chainId: SOLANA_MAINNET, address: accountAddress });
+  }
+  if (assetChain?.namespace === 'eip155') {
+    // For chain-specific EIP-155 assets, use the asset's chain
+    return formatAccountId({ chainId: assetChain, address: accountAddress });
+  }
+  // For aggregated assets or other cases, use Arbitrum as default chain for EVM
+  return formatAccountId({ chainId: evmChain(42161), address: accountAddress });
+}
+
+// Decimals assumed for assets missing from the asset list, as before the registry existed
+const FALLBACK_DECIMALS = 18;
+
+async function fetchAssetBalance(
+  accountIdentifier: string,
+  assetId: string,
+  decimals: number | undefined,
+): Promise<Balance> {
+  const [registry, chains] = await Promise.all([getAssetRegistry(), getChainRegistry()]);
+  let assetDecimals = decimals ?? registry.findDecimals(assetId);
+  if (assetDecimals === undefined) {
+    getLogger().warn(
+      `⚠️ ${assetId} is not in the asset list, assuming ${FALLBACK_DECIMALS} decimals`,
+      { assetId },
+    );
+    assetDecimals = FALLBACK_DECIMALS;
+  }
+  const symbol = registry.has(assetId) ? registry.symbolOf(assetId) : formatAssetSymbol(assetId);
+
+  const chainBalance = (assetType: string, balance: string, fiatValue: number): ChainBalance => {
+    // Individual balances are in the chain-specific asset's own decimals
+    const chainDecimals = registry.findDecimals(assetType) ?? assetDecimals;
+    const chain = getChainOf(assetType);
+    const raw = BigInt(balance);
+    return {
+      assetType,
+      chainId: chain ? formatChainId(chain) : '',
+      chainName: chains.nameOf(assetType),
+      raw,
+      decimals: chainDecimals,
+      formatted: formatUnits(raw, chainDecimals),
+      fiatValue,
+    };
+  };
+
+  let entry: { balance: string; fiatValue: number; perChain: ChainBalance[] } | undefined;
+
+  // Call API with correct parameter based on asset type
+  if (isAggregatedAssetId(assetId)) {
+    const response = await fetchAggregatedBalanceV3(accountIdentifier, assetId);
+    const aggregated = response.balanceByAggregatedAsset?.find(
+      (asset) => asset.aggregatedAssetId === assetId,
+    );
+    if (aggregated) {
+      entry = {
+        ...aggregated,
+        perChain: (aggregated.individualAssetBalances ?? []).map((individual) =>
+          chainBalance(individual.assetType, individual.balance, individual.fiatValue),
+        ),
+      };
+    }
+  } else {
+    const response = await fetchAggregatedBalanceV3(accountIdentifier, undefined, assetId);
+    const specific = response.balanceBySpecificAsset?.find((asset) =>
+      isSameAssetId(asset.assetType, assetId),
+    );
+    if (specific) {
+      entry = {
+        ...specific,
+        perChain: [chainBalance(specific.assetType, specific.balance, specific.fiatValue)],
+      };
+    }
+  }
+
+  const raw = BigInt(entry?.balance ?? 0);
+  return {
+    assetId,
+    raw,
+    decimals: assetDecimals,
+    formatted: formatUnits(raw, assetDecimals),
+    symbol,
+    fiatValue: entry?.fiatValue ?? 0,
+    perChain: entry?.perChain ?? [],
+  };
+}
+
+/**
+ * Exact balance of an aggregated or chain-specific asset
  * Supports both EVM and Solana accounts automatically
  *
+ * @param accountAddress - The account address or CAIP-10 account id to check balance for
+ * @param assetId - The asset ID to check (aggregated or specific)
+ * @param decimals - Number of decimals for the asset
+ *   (default: looked up in the asset registry, 18 for unlisted assets)
+ * @returns The balance, with a zero amount if the account holds none
+ */
+export async function getAssetBalance(
+  accountAddress: string,
+  assetId: string,
+  decimals?: number,
+): Promise<Balance> {
+  return fetchAssetBalance(resolveAccountIdentifier(accountAddress, assetId), assetId, decimals);
+}
+
+/**
+ * Exact balance of an asset across an EVM and a Solana account
+ *
+ * @param evmAccountAddress - The EVM account address
+ * @param solanaAccountAddress - The Solana account address
+ * @param assetId - The asset ID to check (aggregated or specific)
+ * @param decimals - Number of decimals for the asset
+ *   (default: looked up in the asset registry, 18 for unlisted assets)
+ * @returns The combined balance, with a zero amount if the accounts hold none
+ */
+export async function getCrossChainBalance(
+  evmAccountAddress: string,
+  solanaAccountAddress: string,
+  assetId: string,
+  decimals?: number,
+): Promise<Balance> {
+  // Format account identifier for multi-chain query
+  const accountIdentifier = [
+    formatAccountId({ chainId: evmChain(42161), address: evmAccountAddress }),
+    formatAccountId({ chainId: SOLANA_MAINNET, address: solanaAccountAddress }),
+  ].join(',');
+
+  return fetchAssetBalance(accountIdentifier, assetId, decimals);
+}
+
+/**
+ * Exact balances of several assets, fetched concurrently
+ *
+ * @param accountAddress - The account address to check balances for
+ * @param assets - Assets to check, each with assetId and optional decimals
+ * @returns The balances, in the order of `assets`
+ */
+export async function getMultipleAssetBalances(
+  accountAddress: string,
+  assets: Array<{ assetId: string; decimals?: number }>,
+): Promise<Balance[]> {
+  return Promise.all(
+    assets.map((asset) => getAssetBalance(accountAddress, asset.assetId, asset.decimals)),
+  );
+}
+
+/**
+ * Universal balance checker that works with both aggregated assets and regular asset IDs
+ * Supports both EVM and Solana accounts automatically.
+ * Convenience wrapper around getAssetBalance; the number loses precision for large amounts.
+ *
  * @param accountAddress - The account address to check balance for
  * @param assetId - The asset ID to check (aggregated or specific)
- * @param decimals - Number of decimals for the asset (default: 18)
+ * @param decimals - Number of decimals for the asset
+ *   (default: looked up in the asset registry, 18 for unlisted assets)
  * @returns The formatted balance as a number
  */
 export async function checkAssetBalance(
   accountAddress: string,
   assetId: string,
-  decimals: number = 18,
+  decimals?: number,
 ): Promise<number> {
+  const logger = getLogger();
   try {
-    console.log(`🔍 Checking balance for asset: ${assetId}...`);
-
-    // Determine account format based on account address type
-    let accountIdentifier: string;
-    const isSolana = isSolanaAddress(accountAddress);
-
-    if (isSolana) {
-      // For Solana accounts, use solana: prefix
-      accountIdentifier = accountAddress.startsWith('solana:')
-        ? accountAddress
-        : `solana:${accountAddress}`;
-    } else if (assetId.startsWith('eip155:')) {
-      // For chain-specific EIP-155 assets, extract the chain ID
-      const chainId = assetId.split('/')[0]; // Gets 'eip155:42161' from 'eip155:42161/erc20:...'
-      accountIdentifier = `${chainId}:${accountAddress}`;
-    } else {
-      // For aggregated assets or other cases, use Arbitrum as default chain for EVM
-      accountIdentifier = `eip155:42161:${accountAddress}`;
-    }
-
-    // Call API with correct parameter based on asset type
-    let response;
-    if (assetId.startsWith('ob:')) {
-      // For aggregated assets, pass as aggregatedAssetId
-      response = await fetchAggregatedBalanceV3(accountIdentifier, assetId);
-    } else {
-      // For specific assets, pass as assetId (third parameter)
-      response = await fetchAggregatedBalanceV3(accountIdentifier, undefined, assetId);
-    }
-
-    let balance: string | undefined;
-    let assetSymbol: string = assetId;
-
-    // Check if it's an aggregated asset (starts with 'ob:')
-    if (assetId.startsWith('ob:')) {
-      const aggregatedBalance = response.balanceByAggregatedAsset?.find(
-        (asset) => asset.aggregatedAssetId === assetId,
-      );
-      if (aggregatedBalance) {
-        balance = aggregatedBalance.balance;
-        assetSymbol = assetId.replace('ob:', '').toUpperCase();
-      }
-    } else {
-      // For specific asset IDs, check in balanceBySpecificAsset
-      const specificBalance = response.balanceBySpecificAsset?.find(
-        (asset) => asset.assetType === assetId,
-      );
-      if (specificBalance) {
-        balance = specificBalance.balance;
-
-        // Format symbol based on asset type
-        if (isSolanaAsset(assetId)) {
-          assetSymbol = formatSolanaAssetSymbol(assetId);
-        } else {
-          // Extract symbol from EVM asset ID for display
-          if (assetId.includes('/token:')) {
-            const tokenAddress = assetId.split('/token:')[1];
-            assetSymbol = `TOKEN-${tokenAddress.slice(0, 6)}...`; // Show first 6 chars of token address
-          } else if (assetId.includes('/erc20:')) {
-            const tokenAddress = assetId.split('/erc20:')[1];
-            assetSymbol = `ERC20-${tokenAddress.slice(0, 6)}...`; // Show first 6 chars of token address
-          } else if (assetId.includes('/slip44:')) {
-            const slip44Code = assetId.split('/slip44:')[1];
-            // Common SLIP-44 codes for display
-            const slip44Map: Record<string, string> = {
-              '60': 'ETH',
-              '501': 'SOL',
-              '0': 'BTC',
-            };
-            assetSymbol = slip44Map[slip44Code] || `SLIP44-${slip44Code}`;
-          } else {
-            assetSymbol = assetId.split(':').pop()?.toUpperCase() || assetId;
-          }
-        }
-      }
-    }
+    logger.info(`🔍 Checking balance for asset: ${assetId}...`, { assetId });
 
-    if (!balance) {
-      console.log(`❌ No balance found for asset: ${assetId}`);
+    const balance = await getAssetBalance(accountAddress, assetId, decimals);
+    if (balance.raw === 0n) {
+      logger.info(`❌ No balance found for asset: ${assetId}`, { assetId, balance: '0' });
       return 0;
     }
 
-    const formattedBalance = parseFloat(formatUnits(BigInt(balance), decimals));
-    console.log(
-      `💰 Available ${assetSymbol} balance: ${formattedBalance.toFixed(6)} ${assetSymbol}`,
+    const formattedBalance = parseFloat(balance.formatted);
+    logger.info(
+      `💰 Available ${balance.symbol} balance: ${formattedBalance.toFixed(6)} ${balance.symbol}`,
+      { assetId, balance: balance.formatted },
     );
 
     return formattedBalance;
   } catch (error) {
-    console.error(`Failed to check balance for ${assetId}:`, error);
+    logger.error(`Failed to check balance for ${assetId}:`, { assetId, error });
     throw error;
   }
 }
 
 /**
  * Checks asset balance across both EVM and Solana accounts
- * Supports both aggregated assets (ob:usdc) and specific assets (chain:address/token:address)
+ * Supports both aggregated assets (ob:usdc) and specific assets (chain:address/token:address).
+ * Convenience wrapper around getCrossChainBalance; the number loses precision for large amounts.
  *
  * @param evmAccountAddress - The EVM account address
  * @param solanaAccountAddress - The Solana account address
  * @param assetId - The asset ID to check (aggregated or specific)
- * @param decimals - Number of decimals for the asset (default: 18)
+ * @param decimals - Number of decimals for the asset
+ *   (default: looked up in the asset registry, 18 for unlisted assets)
  * @returns The total balance across both chains
  */
 export async function checkCrossChainBalance(
   evmAccountAddress: string,
   solanaAccountAddress: string,
   assetId: string,
-  decimals: number = 18,
+  decimals?: number,
 ): Promise<number> {
+  const logger = getLogger();
   try {
-    console.log(`🔍 Checking cross-chain balance for ${assetId}...`);
-
-    // Format account identifier for multi-chain query
-    const accountIdentifier = `eip155:42161:${evmAccountAddress},solana:${solanaAccountAddress}`;
+    logger.info(`🔍 Checking cross-chain balance for ${assetId}...`, { assetId });
 
-    // Determine if this is an aggregated asset or specific asset
-    const isAggregatedAsset = assetId.startsWith('ob:');
-
-    // Call API with correct parameter based on asset type
-    let response;
-    if (isAggregatedAsset) {
-      response = await fetchAggregatedBalanceV3(accountIdentifier, assetId);
-    } else {
-      response = await fetchAggregatedBalanceV3(accountIdentifier, undefined, assetId);
+    const balance = await getCrossChainBalance(
+      evmAccountAddress,
+      solanaAccountAddress,
+      assetId,
+      decimals,
+    );
+    if (balance.raw === 0n) {
+      logger.info(`❌ No balance found for ${assetId}`, { assetId, balance: '0' });
+      return 0;
     }
 
-    let balance: string | undefined;
-    let symbol: string = assetId;
+    const formattedBalance = parseFloat(balance.formatted);
 
-    if (isAggregatedAsset) {
-      // Handle aggregated asset response
-      const aggregatedBalance = response.balanceByAggregatedAsset?.find(
-        (asset) => asset.aggregatedAssetId === assetId,
-      );
-
-      if (!aggregatedBalance) {
-        console.log(`❌ No balance found for ${assetId}`);
-        return 0;
-      }
-
-      balance = aggregatedBalance.balance;
-      symbol = assetId.replace('ob:', '').toUpperCase();
-
-      const formattedBalance = parseFloat(formatUnits(BigInt(balance), decimals));
-
-      console.log(`💰 Total ${symbol} balance: ${formattedBalance.toFixed(6)}`);
-      console.log(`   EVM chains: ${response.accounts?.evm || evmAccountAddress}`);
-      console.log(`   Solana: ${response.accounts?.solana || solanaAccountAddress}`);
+    if (isAggregatedAssetId(assetId)) {
+      logger.info(`💰 Total ${balance.symbol} balance: ${formattedBalance.toFixed(6)}`, {
+        assetId,
+        balance: balance.formatted,
+      });
+      logger.info(`   EVM chains: ${evmAccountAddress}`);
+      logger.info(`   Solana: ${solanaAccountAddress}`);
 
       // Show breakdown by chain
-      if (aggregatedBalance.individualAssetBalances?.length > 0) {
-        console.log(`\n   Distribution:`);
-        aggregatedBalance.individualAssetBalances.forEach((chainBalance) => {
-          if (parseFloat(chainBalance.balance) > 0) {
-            const amount = parseFloat(formatUnits(BigInt(chainBalance.balance), decimals));
-            const chainName = chainBalance.assetType.includes('solana')
-              ? 'Solana'
-              : chainBalance.assetType.split('/')[0].replace('eip155:', 'Chain ');
-            console.log(`     ${chainName}: ${amount.toFixed(6)} ${symbol}`);
-          }
+      const held = balance.perChain.filter((chain) => chain.raw > 0n);
+      if (held.length > 0) {
+        logger.info(`\n   Distribution:`);
+        held.forEach((chain) => {
+          const amount = parseFloat(chain.formatted);
+          logger.info(`     ${chain.chainName}: ${amount.toFixed(6)} ${balance.symbol}`, {
+            assetType: chain.assetType,
+            balance: chain.formatted,
+          });
         });
       }
-
-      return formattedBalance;
     } else {
-      // Handle specific asset response
-      const specificBalance = response.balanceBySpecificAsset?.find(
-        (asset) => asset.assetType === assetId,
-      );
-
-      if (!specificBalance) {
-        console.log(`❌ No balance found for ${assetId}`);
-        return 0;
-      }
-
-      balance = specificBalance.balance;
-
-      // Format symbol based on asset type
-      if (isSolanaAsset(assetId)) {
-        symbol = formatSolanaAssetSymbol(assetId);
-      } else if (assetId.includes('/erc20:')) {
-        const tokenAddress = assetId.split('/erc20:')[1];
-        symbol = `ERC20-${tokenAddress.slice(0, 6)}...`;
-      } else if (assetId.includes('/token:')) {
-        const tokenAddress = assetId.split('/token:')[1];
-        symbol = `TOKEN-${tokenAddress.slice(0, 6)}...`;
-      } else if (assetId.includes('/slip44:')) {
-        const slip44Code = assetId.split('/slip44:')[1];
-        const slip44Map: Record<string, string> = {
-          '60': 'ETH',
-          '501': 'SOL',
-          '0': 'BTC',
-        };
-        symbol = slip44Map[slip44Code] || `SLIP44-${slip44Code}`;
-      }
-
-      const formattedBalance = parseFloat(formatUnits(BigInt(balance), decimals));
-
-      console.log(`💰 Available ${symbol} balance: ${formattedBalance.toFixed(6)}`);
-      console.log(`   Asset: ${assetId}`);
-
-      return formattedBalance;
+      logger.info(`💰 Available ${balance.symbol} balance: ${formattedBalance.toFixed(6)}`, {
+        assetId,
+        balance: balance.formatted,
+      });
+      logger.info(`   Asset: ${assetId}`);
     }
+
+    return formattedBalance;
   } catch (error) {
-    console.error(`Failed to check cross-chain balance:`, error);
+    logger.error(`Failed to check cross-chain balance:`, { assetId, error });
     throw error;
   }
 }
 
 /**
  * Checks multiple asset balances concurrently
+ * Convenience wrapper; use getMultipleAssetBalances for exact amounts.
  *
  * @param accountAddress - The account address to check balances for
  * @param assets - Array of assets to check, each with assetId and optional decimals
@@ -257,10 +376,8 @@ export async function checkMultipleAssetBalances(
       const balance = await checkAssetBalance(accountAddress, asset.assetId, asset.decimals);
       let symbol = asset.assetId;
 
-      if (asset.assetId.startsWith('ob:')) {
-        symbol = asset.assetId.replace('ob:', '').toUpperCase();
-      } else if (isSolanaAsset(asset.assetId)) {
-        symbol = formatSolanaAssetSymbol(asset.assetId);
+      if (isAggregatedAssetId(asset.assetId) || isSolanaAsset(asset.assetId)) {
+        symbol = formatAssetSymbol(asset.assetId);
       }
 
       return {
@@ -269,7 +386,10 @@ export async function checkMultipleAssetBalances(
         symbol,
       };
     } catch (error) {
-      console.error(`Failed to check balance for ${asset.assetId}:`, error);
+      getLogger().error(`Failed to check balance for ${asset.assetId}:`, {
+        assetId: asset.assetId,
+        error,
+      });
       return {
         assetId: asset.assetId,
         balance: 0,
@@ -296,3 +416,78 @@ export function formatBalanceDisplay(
 ): string {
   return `${balance.toFixed(maxDecimals)} ${symbol}`;
 }
+
+/**
+ * Converts an amount between decimal precisions, truncating when precision is reduced
+ *
+ * @param amount - The amount in `fromDecimals`
+ * @param fromDecimals - Current number of decimals
+ * @param toDecimals - Target number of decimals
+ * @returns The amount expressed in `toDecimals`
+ */
+export function normalizeDecimals(
+  amount: bigint,
+  fromDecimals: number,
+  toDecimals: number,
+): bigint {
+  const diff = toDecimals - fromDecimals;
+  return diff >= 0 ? amount * 10n ** BigInt(diff) : amount / 10n ** BigInt(-diff);
+}
+
+/**
+ * Compares two amounts that may use different decimals
+ *
+ * @param a - Smallest-unit amount and its decimals, e.g. a Balance
+ * @param b - Smallest-unit amount and its decimals
+ * @returns -1, 0 or 1 as `a` is less than, equal to or greater than `b`
+ */
+export function compareAmounts(
+  a: Pick<Balance, 'raw' | 'decimals'>,
+  b: Pick<Balance, 'raw' | 'decimals'>,
+): -1 | 0 | 1 {
+  const decimals = Math.max(a.decimals, b.decimals);
+  const left = normalizeDecimals(a.raw, a.decimals, decimals);
+  const right = normalizeDecimals(b.raw, b.decimals, decimals);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Whether a balance covers an amount
+ *
+ * @param balance - The balance to check
+ * @param amount - Token units as a decimal string (e.g. '0.4'), or a smallest-unit
+ *                 amount in the balance's decimals
+ * @returns True if the balance is at least `amount`
+ */
+export function hasSufficientBalance(
+  balance: Pick<Balance, 'raw' | 'decimals'>,
+  amount: string | bigint,
+): boolean {
+  const raw = typeof amount === 'bigint' ? amount : parseUnits(amount, balance.decimals);
+  return balance.raw >= raw;
+}
+
+/**
+ * Sums the per-chain balances of an aggregated asset outside the destination chain
+ *
+ * @param individualAssetBalances - Per-chain balances of the aggregated asset
+ * @param destinationChainId - Chain to exclude, as returned by getChainIdentifier
+ * @param targetDecimals - Decimals of the result (the aggregated asset decimals)
+ * @param registry - Asset registry providing the native decimals of each asset type
+ * @returns The summed balance in `targetDecimals`
+ * @throws UnknownAssetError naming the first asset type missing from the registry
+ */
+export function calculateNonDestinationBalance(
+  individualAssetBalances: IndividualAssetBalance[],
+  destinationChainId: string,
+  targetDecimals: number,
+  registry: AssetRegistry,
+): bigint {
+  return individualAssetBalances.reduce((total, balance) => {
+    if (getChainIdentifier(balance.assetType) === destinationChainId) {
+      return total;
+    }
+    const nativeDecimals = registry.decimalsOf(balance.assetType);
+    return total + normalizeDecimals(BigInt(balance.balance), nativeDecimals, targetDecimals);
+  }, 0n);
+}
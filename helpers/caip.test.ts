@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SOLANA_MAINNET,
+  evmChain,
+  formatAccountId,
+  formatAssetId,
+  getChainOf,
+  isAccountId,
+  isAggregatedAssetId,
+  isAssetId,
+  isSameAssetId,
+  normalizeAccountId,
+  normalizeAssetId,
+  parseAccountId,
+  parseAssetId,
+  parseChainId,
+} from './caip';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const SOLANA_USDC =
+  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOLANA_ADDRESS = 'J5CCzBULFax899tcirb6wMbenQUd8whbaetG7EfSick5';
+
+describe('parseChainId', () => {
+  it('parses eip155 and solana chains', () => {
+    expect(parseChainId('eip155:42161')).toEqual({ namespace: 'eip155', reference: '42161' });
+    expect(parseChainId('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')).toEqual(SOLANA_MAINNET);
+  });
+
+  it('rejects malformed and namespace-invalid chains', () => {
+    expect(() => parseChainId('eip155')).toThrow('Invalid CAIP-2 chain id');
+    expect(() => parseChainId('eip155:arbitrum')).toThrow('Invalid eip155 chain reference');
+    expect(() => parseChainId('solana:mainnet')).toThrow('Invalid solana chain reference');
+  });
+});
+
+describe('parseAccountId', () => {
+  it('parses EVM and Solana accounts', () => {
+    expect(parseAccountId('eip155:1:0x1111111111111111111111111111111111111111')).toEqual({
+      chainId: { namespace: 'eip155', reference: '1' },
+      address: '0x1111111111111111111111111111111111111111',
+    });
+    expect(parseAccountId(`solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:${SOLANA_ADDRESS}`)).toEqual({
+      chainId: SOLANA_MAINNET,
+      address: SOLANA_ADDRESS,
+    });
+  });
+
+  it('validates addresses for their namespace', () => {
+    expect(() => parseAccountId('eip155:1:0x1234')).toThrow('Invalid EVM address');
+    expect(() => parseAccountId('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:0x1234')).toThrow(
+      'Invalid Solana address',
+    );
+    expect(isAccountId(`solana:${SOLANA_ADDRESS}`)).toBe(false);
+  });
+});
+
+describe('parseAssetId', () => {
+  it('parses ERC-20, SLIP-44 and SPL token assets', () => {
+    expect(parseAssetId(ARBITRUM_USDC)).toEqual({
+      chainId: { namespace: 'eip155', reference: '42161' },
+      assetNamespace: 'erc20',
+      assetReference: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    });
+    expect(parseAssetId('eip155:1/slip44:60').assetReference).toBe('60');
+    expect(parseAssetId(SOLANA_USDC).chainId).toEqual(SOLANA_MAINNET);
+  });
+
+  it('rejects aggregated and malformed ids', () => {
+    expect(isAssetId('ob:usdc')).toBe(false);
+    expect(() => parseAssetId('eip155:1/erc20:0x1234')).toThrow('Invalid ERC-20 address');
+    expect(() => parseAssetId('eip155:1/slip44:eth')).toThrow('Invalid SLIP-44 coin type');
+  });
+});
+
+describe('formatting', () => {
+  it('round-trips parsed ids', () => {
+    expect(formatAssetId(parseAssetId(SOLANA_USDC))).toBe(SOLANA_USDC);
+    expect(
+      formatAccountId({
+        chainId: evmChain(137),
+        address: '0x1111111111111111111111111111111111111111',
+      }),
+    ).toBe('eip155:137:0x1111111111111111111111111111111111111111');
+  });
+
+  it('refuses to format invalid ids', () => {
+    expect(() => formatAccountId({ chainId: SOLANA_MAINNET, address: '' })).toThrow();
+  });
+});
+
+describe('getChainOf', () => {
+  it('extracts the chain of chain, account and asset ids', () => {
+    expect(getChainOf('eip155:8453')).toEqual(evmChain(8453));
+    expect(getChainOf('eip155:8453:0x1111111111111111111111111111111111111111')).toEqual(
+      evmChain(8453),
+    );
+    expect(getChainOf(SOLANA_USDC)).toEqual(SOLANA_MAINNET);
+    expect(getChainOf('ob:usdc')).toBeUndefined();
+  });
+});
+
+describe('normalisation', () => {
+  it('checksums EVM addresses', () => {
+    expect(normalizeAssetId(ARBITRUM_USDC.toLowerCase())).toBe(ARBITRUM_USDC);
+    expect(normalizeAccountId('eip155:1:0xaf88d065e77c8cc2239327c5edb3a432268e5831')).toBe(
+      'eip155:1:0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    );
+  });
+
+  it('compares asset ids ignoring EVM address case', () => {
+    expect(isSameAssetId(ARBITRUM_USDC, ARBITRUM_USDC.toLowerCase())).toBe(true);
+    expect(
+      isSameAssetId(ARBITRUM_USDC, 'eip155:8453/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831'),
+    ).toBe(false);
+  });
+
+  it('recognises aggregated asset ids', () => {
+    expect(isAggregatedAssetId('ob:usdc')).toBe(true);
+    expect(isAggregatedAssetId(ARBITRUM_USDC)).toBe(false);
+  });
+});
@@ -0,0 +1,295 @@
+import { getAddress, isAddress } from 'viem';
+import bs58 from 'bs58';
+
+/**
+ * CAIP identifier utilities
+ *
+ * - CAIP-2 chain ids:    eip155:42161, solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp
+ * - CAIP-10 account ids: eip155:42161:0xabc..., solana:5eykt...:J5CC...
+ * - CAIP-19 asset ids:   eip155:42161/erc20:0xaf88..., solana:5eykt.../token:EPjF...
+ * - Aggregated assets:   ob:usdc (OneBalance-specific, not CAIP)
+ */
+
+export const SOLANA_MAINNET_REFERENCE = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+export interface CaipChainId {
+  namespace: string;
+  reference: string;
+}
+
+export interface CaipAccountId {
+  chainId: CaipChainId;
+  address: string;
+}
+
+export interface CaipAssetId {
+  chainId: CaipChainId;
+  /** e.g. 'erc20', 'slip44', 'token' */
+  assetNamespace: string;
+  /** e.g. a token address or a SLIP-44 coin type */
+  assetReference: string;
+}
+
+export const SOLANA_MAINNET: CaipChainId = {
+  namespace: 'solana',
+  reference: SOLANA_MAINNET_REFERENCE,
+};
+
+/**
+ * CAIP-2 chain id for an EVM chain
+ *
+ * @param chainId - Numeric EVM chain id, e.g. 42161
+ */
+export function evmChain(chainId: number | string): CaipChainId {
+  return parseChainId(`eip155:${chainId}`);
+}
+
+// Syntax from the CAIP-2, CAIP-10 and CAIP-19 specifications
+const NAMESPACE = /^[-a-z0-9]{3,8}$/;
+const CHAIN_REFERENCE = /^[-_a-zA-Z0-9]{1,32}$/;
+const ACCOUNT_ADDRESS = /^[-.%a-zA-Z0-9]{1,128}$/;
+const ASSET_REFERENCE = /^[-.%a-zA-Z0-9]{1,128}$/;
+const AGGREGATED_ASSET_ID = /^ob:[-_.a-zA-Z0-9]+$/;
+
+function isSolanaPublicKey(value: string): boolean {
+  try {
+    return bs58.decode(value).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+function validateChainId(chainId: CaipChainId, input: string): void {
+  const { namespace, reference } = chainId;
+
+  if (!NAMESPACE.test(namespace) || !CHAIN_REFERENCE.test(reference)) {
+    throw new Error(`Invalid CAIP-2 chain id: ${input}`);
+  }
+  if (namespace === 'eip155' && !/^[1-9][0-9]*$/.test(reference)) {
+    throw new Error(`Invalid eip155 chain reference '${reference}' in ${input}`);
+  }
+  if (namespace === 'solana' && reference.length !== 32) {
+    throw new Error(`Invalid solana chain reference '${reference}' in ${input}`);
+  }
+}
+
+function validateAddress(chainId: CaipChainId, address: string, input: string): void {
+  if (!ACCOUNT_ADDRESS.test(address)) {
+    throw new Error(`Invalid account address '${address}' in ${input}`);
+  }
+  if (chainId.namespace === 'eip155' && !isAddress(address, { strict: false })) {
+    throw new Error(`Invalid EVM address '${address}' in ${input}`);
+  }
+  if (chainId.namespace === 'solana' && !isSolanaPublicKey(address)) {
+    throw new Error(`Invalid Solana address '${address}' in ${input}`);
+  }
+}
+
+function validateAsset(asset: CaipAssetId, input: string): void {
+  const { chainId, assetNamespace, assetReference } = asset;
+
+  if (!NAMESPACE.test(assetNamespace) || !ASSET_REFERENCE.test(assetReference)) {
+    throw new Error(`Invalid CAIP-19 asset id: ${input}`);
+  }
+  if (assetNamespace === 'slip44' && !/^[0-9]+$/.test(assetReference)) {
+    throw new Error(`Invalid SLIP-44 coin type '${assetReference}' in ${input}`);
+  }
+  if (
+    chainId.namespace === 'eip155' &&
+    assetNamespace === 'erc20' &&
+    !isAddress(assetReference, { strict: false })
+  ) {
+    throw new Error(`Invalid ERC-20 address '${assetReference}' in ${input}`);
+  }
+  if (chainId.namespace === 'solana' && assetNamespace === 'token') {
+    if (!isSolanaPublicKey(assetReference)) {
+      throw new Error(`Invalid Solana token address '${assetReference}' in ${input}`);
+    }
+  }
+}
+
+/**
+ * Parses a CAIP-2 chain id
+ *
+ * @param value - e.g. 'eip155:42161'
+ * @returns The namespace and reference
+ * @throws Error if the id is malformed or invalid for its namespace
+ */
+export function parseChainId(value: string): CaipChainId {
+  const [namespace, reference, ...rest] = value.split(':');
+  const chainId = { namespace, reference: reference ?? '' };
+
+  if (rest.length > 0) {
+    throw new Error(`Invalid CAIP-2 chain id: ${value}`);
+  }
+  validateChainId(chainId, value);
+  return chainId;
+}
+
+/**
+ * Parses a CAIP-10 account id
+ *
+ * @param value - e.g. 'eip155:42161:0x1234...'
+ * @returns The chain id and address, as given (not checksummed)
+ * @throws Error if the id is malformed or invalid for its namespace
+ */
+export function parseAccountId(value: string): CaipAccountId {
+  const parts = value.split(':');
+  if (parts.length !== 3) {
+    throw new Error(`Invalid CAIP-10 account id: ${value}`);
+  }
+
+  const [namespace, reference, address] = parts;
+  const chainId = { namespace, reference };
+  validateChainId(chainId, value);
+  validateAddress(chainId, address, value);
+  return { chainId, address };
+}
+
+/**
+ * Parses a CAIP-19 asset id
+ *
+ * @param value - e.g. 'eip155:42161/erc20:0xaf88...'
+ * @returns The chain id, asset namespace and asset reference, as given (not checksummed)
+ * @throws Error if the id is malformed or invalid for its namespace
+ */
+export function parseAssetId(value: string): CaipAssetId {
+  const [chainPart, assetPart, ...rest] = value.split('/');
+  if (!assetPart || rest.length > 0) {
+    throw new Error(`Invalid CAIP-19 asset id: ${value}`);
+  }
+
+  const chainId = parseChainId(chainPart);
+  const [assetNamespace, assetReference, ...extra] = assetPart.split(':');
+  if (extra.length > 0 || assetReference === undefined) {
+    throw new Error(`Invalid CAIP-19 asset id: ${value}`);
+  }
+
+  const asset = { chainId, assetNamespace, assetReference };
+  validateAsset(asset, value);
+  return asset;
+}
+
+/**
+ * Like parseAssetId, but returns undefined for aggregated ids and malformed input
+ */
+export function tryParseAssetId(value: string): CaipAssetId | undefined {
+  try {
+    return parseAssetId(value);
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatChainId(chainId: CaipChainId): string {
+  return `${chainId.namespace}:${chainId.reference}`;
+}
+
+export function formatAccountId(accountId: CaipAccountId): string {
+  const value = `${formatChainId(accountId.chainId)}:${accountId.address}`;
+  validateChainId(accountId.chainId, value);
+  validateAddress(accountId.chainId, accountId.address, value);
+  return value;
+}
+
+export function formatAssetId(assetId: CaipAssetId): string {
+  const value = `${formatChainId(assetId.chainId)}/${assetId.assetNamespace}:${assetId.assetReference}`;
+  validateChainId(assetId.chainId, value);
+  validateAsset(assetId, value);
+  return value;
+}
+
+/**
+ * Whether an id is a OneBalance aggregated asset id (ob:usdc, ob:eth, ...)
+ */
+export function isAggregatedAssetId(value: string): boolean {
+  return AGGREGATED_ASSET_ID.test(value);
+}
+
+function isValid(parse: () => unknown): boolean {
+  try {
+    parse();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isChainId(value: string): boolean {
+  return isValid(() => parseChainId(value));
+}
+
+export function isAccountId(value: string): boolean {
+  return isValid(() => parseAccountId(value));
+}
+
+export function isAssetId(value: string): boolean {
+  return isValid(() => parseAssetId(value));
+}
+
+/**
+ * Chain of a CAIP-2, CAIP-10 or CAIP-19 id
+ *
+ * @param value - Any CAIP chain, account or asset id
+ * @returns The chain id, or undefined for aggregated ids and malformed input
+ */
+export function getChainOf(value: string): CaipChainId | undefined {
+  const parse = value.includes('/')
+    ? () => parseAssetId(value).chainId
+    : value.split(':').length === 3
+      ? () => parseAccountId(value).chainId
+      : () => parseChainId(value);
+
+  try {
+    return parse();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checksums EVM addresses; other namespaces are returned unchanged
+ *
+ * @param chainId - Chain the address belongs to
+ * @param address - The address to normalise
+ */
+export function normalizeAddress(chainId: CaipChainId, address: string): string {
+  return chainId.namespace === 'eip155' ? getAddress(address) : address;
+}
+
+/**
+ * Canonical form of a CAIP-10 account id, with a checksummed EVM address
+ */
+export function normalizeAccountId(value: string): string {
+  const { chainId, address } = parseAccountId(value);
+  return formatAccountId({ chainId, address: normalizeAddress(chainId, address) });
+}
+
+/**
+ * Canonical form of a CAIP-19 asset id, with a checksummed ERC-20 address.
+ * Aggregated asset ids are returned unchanged.
+ */
+export function normalizeAssetId(value: string): string {
+  if (isAggregatedAssetId(value)) {
+    return value;
+  }
+
+  const asset = parseAssetId(value);
+  const assetReference =
+    asset.assetNamespace === 'erc20'
+      ? normalizeAddress(asset.chainId, asset.assetReference)
+      : asset.assetReference;
+  return formatAssetId({ ...asset, assetReference });
+}
+
+/**
+ * Compares two asset ids, ignoring EVM address casing
+ */
+export function isSameAssetId(a: string, b: string): boolean {
+  if (a === b) return true;
+  try {
+    return normalizeAssetId(a) === normalizeAssetId(b);
+  } catch {
+    return false;
+  }
+}
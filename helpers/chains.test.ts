@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChainRegistry, getChainRegistry } from './chains';
+import { OneBalanceClient } from './client';
+import { SupportedChain } from './types';
+
+const SOLANA = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+function supported(chain: string, isTestnet = false): SupportedChain {
+  const [namespace, reference] = chain.split(':');
+  return { chain: { chain, namespace, reference }, isTestnet };
+}
+
+describe('ChainRegistry', () => {
+  const chains = new ChainRegistry([
+    supported('eip155:42161'),
+    supported('eip155:999999'),
+    supported('eip155:84532', true),
+  ]);
+
+  it('resolves names from chain, account and asset ids', () => {
+    expect(chains.nameOf('eip155:42161')).toBe('Arbitrum');
+    expect(chains.nameOf('eip155:8453:0x2222222222222222222222222222222222222222')).toBe('Base');
+    expect(chains.nameOf(`${SOLANA}/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v`)).toBe(
+      'Solana',
+    );
+  });
+
+  it('falls back to the chain reference for chains without metadata', () => {
+    expect(chains.nameOf('eip155:999999')).toBe('Chain 999999');
+    expect(chains.nameOf('eip155:31337/slip44:60')).toBe('Chain 31337');
+    expect(chains.nameOf('ob:usdc')).toBe('ob:usdc');
+  });
+
+  it('merges the supported-chain list with the bundled metadata', () => {
+    expect(chains.isSupported('eip155:42161')).toBe(true);
+    expect(chains.isSupported('eip155:1')).toBe(false);
+    expect(chains.get('eip155:999999')?.supported).toBe(true);
+    expect(chains.get('eip155:999999')?.explorer).toBeUndefined();
+    expect(chains.get('eip155:84532')?.testnet).toBe(true);
+    expect(chains.get('eip155:42161')).toMatchObject({
+      nativeCurrency: { symbol: 'ETH', decimals: 18 },
+      blockTimeMs: 250,
+    });
+  });
+
+  it('builds explorer links', () => {
+    expect(chains.txUrl('eip155:42161', '0xabc')).toBe('https://arbiscan.io/tx/0xabc');
+    expect(chains.addressUrl(SOLANA, 'J5CC')).toBe('https://solscan.io/account/J5CC');
+    expect(chains.txUrl('eip155:999999', '0xabc')).toBeUndefined();
+  });
+});
+
+describe('getChainRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads the supported-chain list once per client', async () => {
+    const listSupportedChains = vi.fn(async () => [supported('eip155:42161')]);
+    const client = { listSupportedChains } as unknown as OneBalanceClient;
+
+    const [a, b] = await Promise.all([getChainRegistry({ client }), getChainRegistry({ client })]);
+
+    expect(a).toBe(b);
+    expect(a.isSupported('eip155:42161')).toBe(true);
+    expect(listSupportedChains).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the bundled metadata and retries when loading fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const listSupportedChains = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValueOnce([supported('eip155:42161')]);
+    const client = { listSupportedChains } as unknown as OneBalanceClient;
+
+    const fallback = await getChainRegistry({ client });
+    expect(fallback.nameOf('eip155:42161')).toBe('Arbitrum');
+    expect(fallback.isSupported('eip155:42161')).toBe(false);
+
+    const loaded = await getChainRegistry({ client });
+    expect(loaded.isSupported('eip155:42161')).toBe(true);
+  });
+});
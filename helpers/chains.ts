@@ -0,0 +1,281 @@
+import { getDefaultClient } from './api';
+import { SOLANA_MAINNET, formatChainId, getChainOf } from './caip';
+import { OneBalanceClient } from './client';
+import { getLogger } from './logger';
+import { SupportedChain } from './types';
+
+/**
+ * Chain metadata: display names, native currencies and explorer links,
+ * merged with the backend's supported-chain list
+ */
+
+export interface ChainMetadata {
+  name: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  /** Explorer URL templates with {hash} and {address} placeholders */
+  explorer?: {
+    tx: string;
+    address: string;
+  };
+  testnet: boolean;
+  /** Average block time in milliseconds */
+  blockTimeMs: number;
+}
+
+export interface ChainDescriptor extends ChainMetadata {
+  /** CAIP-2 chain id, e.g. 'eip155:42161' */
+  chainId: string;
+  namespace: string;
+  reference: string;
+  /** Whether the backend lists the chain as supported */
+  supported: boolean;
+}
+
+export interface ChainRegistryOptions {
+  /** Client used to fetch the supported-chain list (default: the default client) */
+  client?: OneBalanceClient;
+}
+
+const ETH = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+function etherscanLike(baseUrl: string): ChainMetadata['explorer'] {
+  return { tx: `${baseUrl}/tx/{hash}`, address: `${baseUrl}/address/{address}` };
+}
+
+/**
+ * Bundled metadata, keyed by CAIP-2 chain id
+ */
+export const CHAIN_METADATA: Record<string, ChainMetadata> = {
+  'eip155:1': {
+    name: 'Ethereum',
+    nativeCurrency: ETH,
+    explorer: etherscanLike('https://etherscan.io'),
+    testnet: false,
+    blockTimeMs: 12_000,
+  },
+  'eip155:10': {
+    name: 'Optimism',
+    nativeCurrency: ETH,
+    explorer: etherscanLike('https://optimistic.etherscan.io'),
+    testnet: false,
+    blockTimeMs: 2_000,
+  },
+  'eip155:56': {
+    name: 'BNB Smart Chain',
+    nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+    explorer: etherscanLike('https://bscscan.com'),
+    testnet: false,
+    blockTimeMs: 750,
+  },
+  'eip155:137': {
+    name: 'Polygon',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    explorer: etherscanLike('https://polygonscan.com'),
+    testnet: false,
+    blockTimeMs: 2_000,
+  },
+  'eip155:8453': {
+    name: 'Base',
+    nativeCurrency: ETH,
+    explorer: etherscanLike('https://basescan.org'),
+    testnet: false,
+    blockTimeMs: 2_000,
+  },
+  'eip155:42161': {
+    name: 'Arbitrum',
+    nativeCurrency: ETH,
+    explorer: etherscanLike('https://arbiscan.io'),
+    testnet: false,
+    blockTimeMs: 250,
+  },
+  'eip155:43114': {
+    name: 'Avalanche',
+    nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+    explorer: etherscanLike('https://snowtrace.io'),
+    testnet: false,
+    blockTimeMs: 2_000,
+  },
+  'eip155:59144': {
+    name: 'Linea',
+    nativeCurrency: ETH,
+    explorer: etherscanLike('https://lineascan.build'),
+    testnet: false,
+    blockTimeMs: 2_000,
+  },
+  'eip155:11155111': {
+    name: 'Sepolia',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorer: etherscanLike('https://sepolia.etherscan.io'),
+    testnet: true,
+    blockTimeMs: 12_000,
+  },
+  'eip155:84532': {
+    name: 'Base Sepolia',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorer: etherscanLike('https://sepolia.basescan.org'),
+    testnet: true,
+    blockTimeMs: 2_000,
+  },
+  'eip155:421614': {
+    name: 'Arbitrum Sepolia',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorer: etherscanLike('https://sepolia.arbiscan.io'),
+    testnet: true,
+    blockTimeMs: 250,
+  },
+  [formatChainId(SOLANA_MAINNET)]: {
+    name: 'Solana',
+    nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+    explorer: {
+      tx: 'https://solscan.io/tx/{hash}',
+      address: 'https://solscan.io/account/{address}',
+    },
+    testnet: false,
+    blockTimeMs: 400,
+  },
+};
+
+// Used for chains the backend supports but the bundled table does not know yet
+const DEFAULT_BLOCK_TIME_MS = 2_000;
+
+function unknownChainMetadata(namespace: string, reference: string): ChainMetadata {
+  return {
+    name: namespace === 'eip155' ? `Chain ${reference}` : `${namespace}:${reference}`,
+    nativeCurrency: namespace === 'eip155' ? ETH : { name: '', symbol: '', decimals: 0 },
+    testnet: false,
+    blockTimeMs: DEFAULT_BLOCK_TIME_MS,
+  };
+}
+
+/**
+ * Chains known from the bundled metadata table and, once loaded, the backend's
+ * supported-chain list. Lookups accept CAIP-2 chain ids as well as CAIP-10 account
+ * ids and CAIP-19 asset ids, and resolve to the chain they belong to.
+ */
+export class ChainRegistry {
+  private readonly chains = new Map<string, ChainDescriptor>();
+
+  /**
+   * @param supportedChains - Supported-chain list from the backend (default: none, metadata only)
+   * @param metadata - Metadata table keyed by CAIP-2 chain id (default: the bundled table)
+   */
+  constructor(
+    supportedChains: SupportedChain[] = [],
+    metadata: Record<string, ChainMetadata> = CHAIN_METADATA,
+  ) {
+    for (const [chainId, entry] of Object.entries(metadata)) {
+      const chain = getChainOf(chainId);
+      if (chain) {
+        this.chains.set(chainId, { ...entry, ...chain, chainId, supported: false });
+      }
+    }
+
+    for (const { chain, isTestnet } of supportedChains) {
+      const known = metadata[chain.chain] ?? unknownChainMetadata(chain.namespace, chain.reference);
+      this.chains.set(chain.chain, {
+        ...known,
+        chainId: chain.chain,
+        namespace: chain.namespace,
+        reference: chain.reference,
+        testnet: isTestnet,
+        supported: true,
+      });
+    }
+  }
+
+  /**
+   * Load the supported-chain list and merge it with the bundled metadata
+   *
+   * @param options - Client to fetch the list with
+   * @returns A registry over the supported chains
+   */
+  static async load(options: ChainRegistryOptions = {}): Promise<ChainRegistry> {
+    const client = options.client || getDefaultClient();
+    return new ChainRegistry(await client.listSupportedChains());
+  }
+
+  /**
+   * Chain of a CAIP-2, CAIP-10 or CAIP-19 id
+   *
+   * @returns The chain, or undefined for unknown chains, aggregated ids and malformed input
+   */
+  get(id: string): ChainDescriptor | undefined {
+    const chain = getChainOf(id);
+    return chain ? this.chains.get(formatChainId(chain)) : undefined;
+  }
+
+  /**
+   * All known chains, supported or not
+   */
+  list(): ChainDescriptor[] {
+    return [...this.chains.values()];
+  }
+
+  isSupported(id: string): boolean {
+    return this.get(id)?.supported ?? false;
+  }
+
+  /**
+   * Human-readable chain name, e.g. 'Arbitrum' for 'eip155:42161/erc20:0xaf88...'
+   *
+   * @returns The name, 'Chain <id>' for unknown EVM chains, or the input for non-CAIP ids
+   */
+  nameOf(id: string): string {
+    const known = this.get(id);
+    if (known) {
+      return known.name;
+    }
+
+    const chain = getChainOf(id);
+    return chain ? unknownChainMetadata(chain.namespace, chain.reference).name : id;
+  }
+
+  /**
+   * Explorer link for a transaction
+   *
+   * @returns The URL, or undefined when no explorer is known for the chain
+   */
+  txUrl(id: string, hash: string): string | undefined {
+    return this.get(id)?.explorer?.tx.replace('{hash}', hash);
+  }
+
+  /**
+   * Explorer link for an address
+   *
+   * @returns The URL, or undefined when no explorer is known for the chain
+   */
+  addressUrl(id: string, address: string): string | undefined {
+    return this.get(id)?.explorer?.address.replace('{address}', address);
+  }
+}
+
+// Registry per client, loaded on first use
+const registries = new WeakMap<OneBalanceClient, Promise<ChainRegistry>>();
+
+/**
+ * Shared chain registry for a client (default: the default client), loaded once per process.
+ * Chain metadata is only used for display, so when the supported-chain list cannot be
+ * fetched this logs a warning and falls back to the bundled table.
+ *
+ * @param options - Client to fetch the supported-chain list with
+ * @returns The registry
+ */
+export function getChainRegistry(options: ChainRegistryOptions = {}): Promise<ChainRegistry> {
+  const client = options.client || getDefaultClient();
+
+  let registry = registries.get(client);
+  if (!registry) {
+    registry = ChainRegistry.load({ client }).catch((error) => {
+      getLogger().warn('⚠️ Could not load supported chains, using bundled metadata:', { error });
+      // Allow a retry on the next call
+      registries.delete(client);
+      return new ChainRegistry();
+    });
+    registries.set(client, registry);
+  }
+  return registry;
+}
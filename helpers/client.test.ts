@@ -0,0 +1,132 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getDefaultClient, setDefaultClient } from './api';
+import { DEFAULT_API_KEY, DEFAULT_BASE_URL, OneBalanceClient } from './client';
+import { AuthError } from './errors';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { predictAddress } from './onebalance';
+
+const SESSION = '0x1111111111111111111111111111111111111111';
+const ADMIN = '0x2222222222222222222222222222222222222222';
+const PREDICTED = '0x3333333333333333333333333333333333333333';
+
+// Transport that records each request and answers predict-address, or fails with a status
+function transport(status = 200) {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const http = axios.create({
+    adapter: async (config) => {
+      requests.push(config);
+      const response = {
+        data: status === 200 ? { predictedAddress: PREDICTED } : { message: 'Unauthorized' },
+        status,
+        statusText: '',
+        headers: {},
+        config,
+      } as AxiosResponse;
+      if (status !== 200) {
+        throw new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, undefined, response);
+      }
+      return response;
+    },
+  });
+  return { http, requests };
+}
+
+describe('OneBalanceClient configuration', () => {
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+
+  beforeAll(() => {
+    setLogger(silentLogger);
+  });
+
+  afterAll(() => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers options over environment variables', async () => {
+    vi.stubEnv('ONEBALANCE_BASE_URL', 'https://env.onebalance.test');
+    vi.stubEnv('ONEBALANCE_API_KEY', 'env-key');
+    const { http, requests } = transport();
+
+    const client = new OneBalanceClient({
+      baseUrl: 'https://staging.onebalance.test//',
+      apiKey: 'option-key',
+      timeout: 1_000,
+      headers: { 'x-partner': 'acme', 'x-api-key': 'overridden' },
+      axiosInstance: http,
+    });
+    await client.predictAddress(SESSION, ADMIN);
+
+    expect(client.baseUrl).toBe('https://staging.onebalance.test');
+    expect(requests[0].url).toBe('https://staging.onebalance.test/api/account/predict-address');
+    expect(requests[0].timeout).toBe(1_000);
+    expect(requests[0].headers).toMatchObject({ 'x-api-key': 'option-key', 'x-partner': 'acme' });
+  });
+
+  it('reads the environment, then falls back to the public deployment', () => {
+    vi.stubEnv('ONEBALANCE_BASE_URL', 'https://env.onebalance.test/');
+    vi.stubEnv('ONEBALANCE_API_KEY', 'env-key');
+    expect(new OneBalanceClient()).toMatchObject({
+      baseUrl: 'https://env.onebalance.test',
+      apiKey: 'env-key',
+    });
+
+    vi.stubEnv('ONEBALANCE_BASE_URL', '');
+    vi.stubEnv('ONEBALANCE_API_KEY', '');
+    expect(new OneBalanceClient({ apiKey: '' })).toMatchObject({
+      baseUrl: DEFAULT_BASE_URL,
+      apiKey: DEFAULT_API_KEY,
+    });
+  });
+
+  it('keeps clients for different deployments apart', async () => {
+    const staging = transport();
+    const partner = transport();
+
+    await new OneBalanceClient({
+      baseUrl: 'https://staging.onebalance.test',
+      apiKey: 'staging-key',
+      axiosInstance: staging.http,
+    }).predictAddress(SESSION, ADMIN);
+    await new OneBalanceClient({
+      baseUrl: 'https://partner.onebalance.test',
+      apiKey: 'partner-key',
+      axiosInstance: partner.http,
+    }).predictAddress(SESSION, ADMIN);
+
+    expect(staging.requests.map(({ headers }) => headers['x-api-key'])).toEqual(['staging-key']);
+    expect(partner.requests.map(({ url }) => url)).toEqual([
+      'https://partner.onebalance.test/api/account/predict-address',
+    ]);
+  });
+
+  it('reports a missing or rejected API key as an AuthError', async () => {
+    const { http } = transport(401);
+    const client = new OneBalanceClient({
+      baseUrl: 'https://onebalance.test',
+      axiosInstance: http,
+    });
+
+    const error = await client.predictAddress(SESSION, ADMIN).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject({ status: 401, endpoint: '/api/account/predict-address' });
+  });
+
+  it('routes the free functions through the default client', async () => {
+    const { http, requests } = transport();
+    setDefaultClient(
+      new OneBalanceClient({ baseUrl: 'https://default.onebalance.test', axiosInstance: http }),
+    );
+
+    expect(await predictAddress(SESSION, ADMIN)).toBe(PREDICTED);
+    expect(requests[0].url).toBe('https://default.onebalance.test/api/account/predict-address');
+    expect(requests[0].data).toBe(JSON.stringify({ sessionAddress: SESSION, adminAddress: ADMIN }));
+  });
+});
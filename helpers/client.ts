@@ -0,0 +1,496 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import dotenv from 'dotenv';
+import {
+  PrepareCallRequest,
+  TargetCallQuote,
+  CallRequest,
+  Quote,
+  BundleResponse,
+  HistoryResponse,
+  HistoryRequestV3,
+  HistoryResponseV3,
+  ExecutionStatusResponse,
+  Hex,
+  PredictAddressRoleBasedRequest,
+  PredictAddressStandardRequest,
+  PredictAddressResponse,
+  QuoteRequestV1,
+  QuoteResponseV1,
+  QuoteRequestV3,
+  QuoteResponseV3,
+  AggregatedBalanceResponseV2,
+  AggregatedBalanceRequestV3,
+  AggregatedBalanceResponseV3,
+  AggregatedAsset,
+  AggregatedAssetBalance,
+  SupportedChain,
+  PrepareCallRequestV3,
+  TargetCallQuoteV3,
+  CallRequestV3,
+  CallQuoteResponseV3,
+} from './types';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryOption,
+  RetryPolicy,
+  resolveRetryPolicy,
+  withRetry,
+} from './retry';
+import { submissionFromStatusError, toOneBalanceError } from './errors';
+import { ValidationMode, validateResponse } from './schemas';
+import { verifySignedQuote } from './verification';
+import {
+  FixtureOptions,
+  FixtureRecorder,
+  FixtureReplayer,
+  fixtureOptionsFromEnv,
+} from './recorder';
+
+// Load environment variables
+dotenv.config();
+
+export const DEFAULT_BASE_URL = 'https://be.onebalance.io';
+
+// Note: Using the production API endpoint will produce a different predicted address
+export const DEFAULT_API_KEY = '42bb629272001ee1163ca0dbbbc07bcbb0ef57a57baf16c4b1d4672db4562c11';
+
+/**
+ * Configuration for a OneBalance API client
+ */
+export interface OneBalanceClientConfig {
+  /** Backend base URL (default: ONEBALANCE_BASE_URL env var, then https://be.onebalance.io) */
+  baseUrl?: string;
+  /** API key sent as `x-api-key` (default: ONEBALANCE_API_KEY env var, then the public key) */
+  apiKey?: string;
+  /** Request timeout in milliseconds (default: no timeout) */
+  timeout?: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Axios instance used for transport (default: a fresh instance) */
+  axiosInstance?: AxiosInstance;
+  /** Retry policy applied to GET requests and to POST requests that opt in */
+  retry?: Partial<RetryPolicy>;
+  /** Response schema validation: 'strict' throws, 'lenient' logs drift (default: 'lenient') */
+  validation?: ValidationMode;
+  /**
+   * Record responses to a fixture file or replay them without network access
+   * (default: ONEBALANCE_FIXTURES and ONEBALANCE_FIXTURE_FILE env vars, otherwise off)
+   */
+  fixtures?: FixtureOptions;
+  /**
+   * Recover every signature of a quote before executing it and refuse to submit on a
+   * mismatch (default: true, false when replaying fixtures)
+   */
+  verifySignatures?: boolean;
+}
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+  /**
+   * Retry transient failures (network errors, 429, 5xx).
+   * GET requests retry by default, POST requests only when this is set.
+   */
+  retry?: RetryOption;
+}
+
+/**
+ * OneBalance API client bound to a single backend deployment and API key.
+ * Several clients can be used side by side in the same process.
+ */
+export class OneBalanceClient {
+  readonly baseUrl: string;
+  readonly apiKey: string;
+  readonly timeout?: number;
+  readonly retryPolicy: RetryPolicy;
+  readonly validation: ValidationMode;
+  readonly verifySignatures: boolean;
+  private readonly headers: Record<string, string>;
+  private readonly http: AxiosInstance;
+  private readonly recorder?: FixtureRecorder;
+  private readonly replayer?: FixtureReplayer;
+
+  constructor(config: OneBalanceClientConfig = {}) {
+    this.baseUrl = (config.baseUrl || process.env.ONEBALANCE_BASE_URL || DEFAULT_BASE_URL).replace(
+      /\/+$/,
+      '',
+    );
+    this.apiKey = config.apiKey || process.env.ONEBALANCE_API_KEY || DEFAULT_API_KEY;
+    this.timeout = config.timeout;
+    this.headers = { ...config.headers };
+    this.http = config.axiosInstance || axios.create();
+    this.retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, config.retry);
+    this.validation = config.validation || 'lenient';
+
+    const fixtures = config.fixtures || fixtureOptionsFromEnv();
+    // Replayed quotes carry the recording's accounts, which the replaying keys do not match
+    this.verifySignatures = config.verifySignatures ?? fixtures?.mode !== 'replay';
+    if (fixtures?.mode === 'record') {
+      this.recorder = new FixtureRecorder(fixtures.file);
+    } else if (fixtures?.mode === 'replay') {
+      this.replayer = new FixtureReplayer(fixtures.file);
+    }
+  }
+
+  // Authenticated headers for this client
+  createAuthHeaders(): Record<string, string> {
+    return {
+      ...this.headers,
+      'x-api-key': this.apiKey,
+    };
+  }
+
+  async request<RequestData, ResponseData>(
+    method: 'get' | 'post',
+    endpoint: string,
+    data: RequestData,
+    isParams = false,
+    options: RequestOptions = {},
+  ): Promise<ResponseData> {
+    const policy = this.retryPolicyFor(method, options.retry);
+
+    try {
+      return await withRetry(
+        () => this.send<RequestData, ResponseData>(method, endpoint, data, isParams),
+        policy,
+      );
+    } catch (error) {
+      throw toOneBalanceError(error, endpoint);
+    }
+  }
+
+  async post<RequestData, ResponseData>(
+    endpoint: string,
+    data: RequestData,
+    options?: RequestOptions,
+  ): Promise<ResponseData> {
+    return this.request<RequestData, ResponseData>('post', endpoint, data, false, options);
+  }
+
+  async get<RequestData, ResponseData>(
+    endpoint: string,
+    params: RequestData,
+    options?: RequestOptions,
+  ): Promise<ResponseData> {
+    return this.request<RequestData, ResponseData>('get', endpoint, params, true, options);
+  }
+
+  // Single HTTP round trip with response validation, axios errors are passed through untouched
+  private async send<RequestData, ResponseData>(
+    method: 'get' | 'post',
+    endpoint: string,
+    data: RequestData,
+    isParams: boolean,
+  ): Promise<ResponseData> {
+    if (this.replayer) {
+      const responseData = this.replayer.respond<ResponseData>(
+        this.replayer.next(method, endpoint),
+      );
+      validateResponse(endpoint, responseData, this.validation);
+      return responseData;
+    }
+
+    const config = {
+      headers: this.createAuthHeaders(),
+      ...(this.timeout !== undefined ? { timeout: this.timeout } : {}),
+      ...(isParams ? { params: data } : {}),
+    };
+
+    const url = `${this.baseUrl}${endpoint}`;
+
+    let response: AxiosResponse<ResponseData>;
+    try {
+      response =
+        method === 'post'
+          ? await this.http.post(url, data, config)
+          : await this.http.get(url, { ...config, params: data });
+    } catch (error) {
+      if (this.recorder && axios.isAxiosError(error) && error.response) {
+        this.recorder.record({
+          method,
+          endpoint,
+          request: data,
+          status: error.response.status,
+          response: error.response.data,
+          requestId: error.response.headers?.['x-request-id'],
+        });
+      }
+      throw error;
+    }
+
+    this.recorder?.record({
+      method,
+      endpoint,
+      request: data,
+      status: response.status,
+      response: response.data,
+    });
+
+    validateResponse(endpoint, response.data, this.validation);
+
+    return response.data;
+  }
+
+  private retryPolicyFor(method: 'get' | 'post', retry: RetryOption | undefined): RetryPolicy {
+    const enabled = retry ?? method === 'get';
+
+    if (enabled === false) {
+      return { ...this.retryPolicy, maxAttempts: 1 };
+    }
+
+    return resolveRetryPolicy(this.retryPolicy, enabled === true ? undefined : enabled);
+  }
+
+  // Refuses quotes whose signatures do not match their accounts
+  private async verify(quote: QuoteResponseV1 | QuoteResponseV3): Promise<void> {
+    if (this.verifySignatures) {
+      await verifySignedQuote(quote);
+    }
+  }
+
+  /**
+   * Submit a signed quote. Execution is not idempotent, so before any resubmission the
+   * execution status is checked: if the backend already knows the quote, the earlier
+   * submission went through and it is not sent again.
+   */
+  private async submitQuote<QuoteData extends { id: string }>(
+    endpoint: string,
+    quote: QuoteData,
+    options: RequestOptions = {},
+  ): Promise<BundleResponse> {
+    if (!options.retry) {
+      return this.post<QuoteData, BundleResponse>(endpoint, quote, { retry: false });
+    }
+
+    const policy = this.retryPolicyFor('post', options.retry);
+    let alreadySubmitted = false;
+
+    try {
+      return await withRetry(
+        () => this.send<QuoteData, BundleResponse>('post', endpoint, quote, false),
+        policy,
+        {
+          shouldRetry: async () => {
+            const known = await this.isQuoteKnown(quote.id);
+            alreadySubmitted = known === true;
+            // Resubmit only when the backend confirms it has never seen the quote
+            return known === false;
+          },
+        },
+      );
+    } catch (error) {
+      if (alreadySubmitted) {
+        return { success: true, guarantees: null, error: null };
+      }
+      throw toOneBalanceError(error, endpoint);
+    }
+  }
+
+  // Whether the backend has an execution status for the quote, undefined if it cannot tell
+  private async isQuoteKnown(quoteId: string): Promise<boolean | undefined> {
+    try {
+      const status = await this.send<{ quoteId: string }, ExecutionStatusResponse>(
+        'get',
+        '/api/status/get-execution-status',
+        { quoteId },
+        true,
+      );
+      return Boolean(status?.status);
+    } catch (error) {
+      return submissionFromStatusError(error);
+    }
+  }
+
+  // OneBalance API methods
+  async predictAddress(
+    sessionAddress: string,
+    adminAddress: string,
+    options?: RequestOptions,
+  ): Promise<string> {
+    const response = await this.post<PredictAddressRoleBasedRequest, PredictAddressResponse>(
+      '/api/account/predict-address',
+      {
+        sessionAddress: sessionAddress as Hex,
+        adminAddress: adminAddress as Hex,
+      },
+      options,
+    );
+
+    return response.predictedAddress;
+  }
+
+  async predictStandardAddress(
+    type: string,
+    signerAddress: string,
+    options?: RequestOptions,
+  ): Promise<string> {
+    const response = await this.post<PredictAddressStandardRequest, PredictAddressResponse>(
+      '/api/account/predict-address',
+      {
+        type,
+        signerAddress: signerAddress as Hex,
+      },
+      options,
+    );
+
+    return response.predictedAddress;
+  }
+
+  async prepareCallQuote(
+    quoteRequest: PrepareCallRequest,
+    options?: RequestOptions,
+  ): Promise<TargetCallQuote> {
+    return this.post<PrepareCallRequest, TargetCallQuote>(
+      '/api/quotes/prepare-call-quote',
+      quoteRequest,
+      options,
+    );
+  }
+
+  async fetchCallQuote(callRequest: CallRequest, options?: RequestOptions): Promise<Quote> {
+    return this.post<CallRequest, Quote>('/api/quotes/call-quote', callRequest, options);
+  }
+
+  async getQuote(quoteRequest: QuoteRequestV1, options?: RequestOptions): Promise<QuoteResponseV1> {
+    return this.post<QuoteRequestV1, QuoteResponseV1>('/api/v1/quote', quoteRequest, options);
+  }
+
+  // Retries only after confirming via the execution status that the quote was not submitted
+  async executeQuote(quote: QuoteResponseV1, options?: RequestOptions): Promise<BundleResponse> {
+    await this.verify(quote);
+    return this.submitQuote('/api/quotes/execute-quote', quote, options);
+  }
+
+  // V3 quote endpoint that supports Solana and multi-account operations
+  async getQuoteV3(
+    quoteRequest: QuoteRequestV3,
+    options?: RequestOptions,
+  ): Promise<QuoteResponseV3> {
+    return this.post<QuoteRequestV3, QuoteResponseV3>('/api/v3/quote', quoteRequest, options);
+  }
+
+  // V3 execute quote endpoint that supports Solana and multi-account operations.
+  // Retries only after confirming via the execution status that the quote was not submitted
+  async executeQuoteV3(
+    signedQuote: QuoteResponseV3,
+    options?: RequestOptions,
+  ): Promise<BundleResponse> {
+    await this.verify(signedQuote);
+    return this.submitQuote('/api/v3/quote/execute-quote', signedQuote, options);
+  }
+
+  async fetchTransactionHistory(
+    address: string,
+    options?: RequestOptions,
+  ): Promise<HistoryResponse> {
+    return this.get<{ user: string; limit: number; sortBy: string }, HistoryResponse>(
+      '/api/status/get-tx-history',
+      {
+        user: address,
+        limit: 10,
+        sortBy: 'createdAt',
+      },
+      options,
+    );
+  }
+
+  // V3 transaction history, one page at a time; follow `continuation` for the next page
+  async fetchTransactionHistoryV3(
+    request: HistoryRequestV3,
+    options?: RequestOptions,
+  ): Promise<HistoryResponseV3> {
+    return this.get<HistoryRequestV3, HistoryResponseV3>(
+      '/api/v3/status/get-tx-history',
+      { ...request, sortBy: request.sortBy ?? 'createdAt' },
+      options,
+    );
+  }
+
+  async fetchBalances(
+    address: string,
+    options?: RequestOptions,
+  ): Promise<AggregatedBalanceResponseV2> {
+    return this.get<{ address: string }, AggregatedBalanceResponseV2>(
+      '/api/v2/balances/aggregated-balance',
+      { address },
+      options,
+    );
+  }
+
+  // V3 aggregated balance that supports Solana accounts
+  async fetchAggregatedBalanceV3(
+    account: string,
+    aggregatedAssetId?: string,
+    assetId?: string,
+    options?: RequestOptions,
+  ): Promise<AggregatedBalanceResponseV3> {
+    const params: AggregatedBalanceRequestV3 = { account };
+
+    if (aggregatedAssetId) {
+      params.aggregatedAssetId = aggregatedAssetId;
+    }
+
+    if (assetId) {
+      params.assetId = assetId;
+    }
+
+    return this.get<AggregatedBalanceRequestV3, AggregatedBalanceResponseV3>(
+      '/api/v3/balances/aggregated-balance',
+      params,
+      options,
+    );
+  }
+
+  async fetchUSDCBalance(
+    address: string,
+    options?: RequestOptions,
+  ): Promise<AggregatedAssetBalance | undefined> {
+    const response = await this.fetchBalances(address, options);
+    return response.balanceByAggregatedAsset.find((asset) => asset.aggregatedAssetId === 'ob:usdc');
+  }
+
+  async fetchExecutionStatus(
+    quoteId: string,
+    options?: RequestOptions,
+  ): Promise<ExecutionStatusResponse> {
+    return this.get<{ quoteId: string }, ExecutionStatusResponse>(
+      '/api/status/get-execution-status',
+      { quoteId },
+      options,
+    );
+  }
+
+  // List all aggregated assets
+  async listAggregatedAssets(options?: RequestOptions): Promise<AggregatedAsset[]> {
+    return this.get<{}, AggregatedAsset[]>('/api/assets/list', {}, options);
+  }
+
+  // List supported chains
+  async listSupportedChains(options?: RequestOptions): Promise<SupportedChain[]> {
+    return this.get<{}, SupportedChain[]>('/api/chains/supported-list', {}, options);
+  }
+
+  // V3 calldata endpoints
+  async prepareCallQuoteV3(
+    quoteRequest: PrepareCallRequestV3,
+    options?: RequestOptions,
+  ): Promise<TargetCallQuoteV3> {
+    return this.post<PrepareCallRequestV3, TargetCallQuoteV3>(
+      '/api/v3/quote/prepare-call-quote',
+      quoteRequest,
+      options,
+    );
+  }
+
+  async fetchCallQuoteV3(
+    callRequest: CallRequestV3,
+    options?: RequestOptions,
+  ): Promise<CallQuoteResponseV3> {
+    return this.post<CallRequestV3, CallQuoteResponseV3>(
+      '/api/v3/quote/call-quote',
+      callRequest,
+      options,
+    );
+  }
+}
@@ -1,8 +1,9 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { join } from 'node:path';
 import { HashTypedDataParameters } from 'viem';
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
 import { Keypair } from '@solana/web3.js';
+import { MNEMONIC_ENV } from './hd';
+import { getDefaultKeyStore } from './keystore';
+import { Signer, toSigner } from './signer';
 import { EOAKeyPair, SolanaKeyPair } from './types';
 
 export type Hex = `0x${string}`;
@@ -18,34 +19,17 @@ export function generateEOAKey(): EOAKeyPair {
   };
 }
 
+// Read the named key from the encrypted key store, generating it on first use
 export function readOrCacheEOAKey(key: string): EOAKeyPair {
-  // Always use the centralized keys directory in helpers/keys/
-  const keysDir = join(__dirname, 'keys');
-  const keyPath = join(keysDir, `${key}-key.json`);
-
-  // Ensure keys directory exists
-  if (!existsSync(keysDir)) {
-    mkdirSync(keysDir, { recursive: true });
-  }
-
-  if (existsSync(keyPath)) {
-    const cachedKeys = readFileSync(keyPath, 'utf8');
-    return JSON.parse(cachedKeys);
-  }
-
-  const keys = generateEOAKey();
-  writeFileSync(keyPath, JSON.stringify(keys, null, 2));
-
-  return keys;
+  return getDefaultKeyStore().loadEvmKey(key);
 }
 
-// Helper to sign typed data operations
+// Helper to sign typed data operations with a private key or Signer
 export async function signTypedData(
   typedData: HashTypedDataParameters,
-  privateKey: Hex,
+  privateKey: Hex | Signer,
 ): Promise<Hex> {
-  const account = privateKeyToAccount(privateKey);
-  return await account.signTypedData(typedData);
+  return await toSigner(privateKey).signTypedData(typedData);
 }
 
 // Generate or read cached Solana keypair
@@ -60,44 +44,10 @@ export function generateSolanaKey(): SolanaKeyPair {
 
 // Load or cache Solana keypair (similar to readOrCacheEOAKey)
 export function loadSolanaKey(): SolanaKeyPair {
-  // Always use the centralized keys directory in helpers/keys/
-  const keysDir = join(__dirname, 'keys');
-  const keyPath = join(keysDir, 'solana-key.json');
-
-  // Ensure keys directory exists
-  if (!existsSync(keysDir)) {
-    mkdirSync(keysDir, { recursive: true });
-  }
-
-  if (existsSync(keyPath)) {
-    try {
-      const keyData = JSON.parse(readFileSync(keyPath, 'utf8'));
-      // Create keypair from the secretKey array
-      const keypair = Keypair.fromSecretKey(new Uint8Array(keyData.secretKey));
-
-      return {
-        keypair,
-        publicKey: keypair.publicKey.toString(),
-        secretKey: keyData.secretKey,
-      };
-    } catch (error) {
-      console.log('⚠️ Error reading cached Solana key, generating new one...');
-    }
-  }
-
-  // Generate new key and cache it
-  const keys = generateSolanaKey();
-  writeFileSync(
-    keyPath,
-    JSON.stringify(
-      {
-        publicKey: keys.publicKey,
-        secretKey: keys.secretKey,
-      },
-      null,
-      2,
-    ),
-  );
+  return getDefaultKeyStore().loadSolanaKey();
+}
 
-  return keys;
+// HD wallet mnemonic: ONEBALANCE_MNEMONIC, else the key store's mnemonic (generated on first use)
+export function loadMnemonic(): string {
+  return process.env[MNEMONIC_ENV]?.trim() || getDefaultKeyStore().loadMnemonic();
 }
@@ -1,5 +1,6 @@
 import { formatUnits } from 'viem';
-import { QuoteResponseV3, QuoteResponseV1 } from './types';
+import { ChainRegistry } from './chains';
+import { QuoteResponseV3, QuoteResponseV1, OperationDetailsV3 } from './types';
 
 /**
  * Display utilities for OneBalance operations
@@ -12,6 +13,8 @@ interface SwapQuoteDisplayParams {
   fromAmount: string;
   fromDecimals?: number;
   toDecimals?: number;
+  /** Chain names for chain-specific assets (default: bundled chain metadata) */
+  chains?: ChainRegistry;
 }
 
 interface TransferQuoteDisplayParams {
@@ -20,6 +23,16 @@ interface TransferQuoteDisplayParams {
   amount: string;
   decimals?: number;
   recipientAccount: string;
+  /** Chain names for chain-specific assets and the recipient (default: bundled chain metadata) */
+  chains?: ChainRegistry;
+}
+
+const bundledChains = new ChainRegistry();
+
+// Appends the chain name to chain-specific asset and account ids
+function withChainName(id: string, chains: ChainRegistry): string {
+  const chain = chains.get(id);
+  return chain ? `${id} (${chain.name})` : id;
 }
 
 /**
@@ -28,7 +41,15 @@ interface TransferQuoteDisplayParams {
  * @param params - The swap quote display parameters
  */
 export function displaySwapQuote(params: SwapQuoteDisplayParams): void {
-  const { quote, fromAssetId, toAssetId, fromAmount, fromDecimals, toDecimals } = params;
+  const {
+    quote,
+    fromAssetId,
+    toAssetId,
+    fromAmount,
+    fromDecimals,
+    toDecimals,
+    chains = bundledChains,
+  } = params;
 
   const formattedFromAmount = fromDecimals
     ? formatUnits(BigInt(fromAmount), fromDecimals)
@@ -37,7 +58,7 @@ export function displaySwapQuote(params: SwapQuoteDisplayParams): void {
   const destinationDecimals = toDecimals || quote.destinationToken?.decimals || 18;
 
   const willReceive = quote.destinationToken
-    ? `${formatUnits(BigInt(quote.destinationToken.amount), destinationDecimals)} ${toAssetId}`
+    ? `${formatUnits(BigInt(quote.destinationToken.amount), destinationDecimals)} ${withChainName(toAssetId, chains)}`
     : 'Unknown amount';
 
   const fiatValue = quote.destinationToken
@@ -46,7 +67,7 @@ export function displaySwapQuote(params: SwapQuoteDisplayParams): void {
 
   console.log('✅ Quote received:', {
     id: quote.id,
-    from: `${formattedFromAmount} ${fromAssetId}`,
+    from: `${formattedFromAmount} ${withChainName(fromAssetId, chains)}`,
     willReceive,
     fiatValue,
   });
@@ -58,7 +79,7 @@ export function displaySwapQuote(params: SwapQuoteDisplayParams): void {
  * @param params - The transfer quote display parameters
  */
 export function displayTransferQuote(params: TransferQuoteDisplayParams): void {
-  const { quote, assetId, amount, decimals, recipientAccount } = params;
+  const { quote, assetId, amount, decimals, recipientAccount, chains = bundledChains } = params;
 
   const formattedAmount = decimals ? formatUnits(BigInt(amount), decimals) : amount;
 
@@ -72,9 +93,46 @@ export function displayTransferQuote(params: TransferQuoteDisplayParams): void {
 
   console.log('✅ Quote received:', {
     id: quote.id,
-    sending: `${formattedAmount} ${assetId}`,
-    to: recipientAccount,
+    sending: `${formattedAmount} ${withChainName(assetId, chains)}`,
+    to: withChainName(recipientAccount, chains),
     willReceive,
     fiatValue,
   });
 }
+
+/**
+ * One-line description of an on-chain operation: chain name and explorer link
+ *
+ * @param operation - Origin or destination chain operation from the execution status
+ * @param chains - Chain names and explorers (default: bundled chain metadata)
+ */
+export function formatChainOperation(
+  operation: OperationDetailsV3,
+  chains: ChainRegistry = bundledChains,
+): string {
+  const link = operation.explorerUrl || chains.txUrl(operation.chain, operation.hash);
+  return `${chains.nameOf(operation.chain)}: ${link ?? operation.hash}`;
+}
+
+/**
+ * Display the on-chain operations of an execution with chain names and explorer links
+ *
+ * @param operations - Origin and destination chain operations from the execution status
+ * @param chains - Chain names and explorers (default: bundled chain metadata)
+ */
+export function displayChainOperations(
+  operations: { origin?: OperationDetailsV3[]; destination?: OperationDetailsV3[] },
+  chains: ChainRegistry = bundledChains,
+): void {
+  const describe = (operation: OperationDetailsV3) =>
+    `  - ${formatChainOperation(operation, chains)}`;
+
+  if (operations.origin?.length) {
+    console.log('🔗 Origin chain transactions:');
+    operations.origin.forEach((operation) => console.log(describe(operation)));
+  }
+  if (operations.destination?.length) {
+    console.log('🔗 Destination chain transactions:');
+    operations.destination.forEach((operation) => console.log(describe(operation)));
+  }
+}
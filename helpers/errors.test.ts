@@ -0,0 +1,117 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { describe, expect, it } from 'vitest';
+import {
+  AuthError,
+  InsufficientBalanceError,
+  NetworkError,
+  NoRouteError,
+  OneBalanceApiError,
+  QuoteExpiredError,
+  RateLimitError,
+  ValidationError,
+  submissionFromStatusError,
+  toOneBalanceError,
+} from './errors';
+
+const ENDPOINT = '/api/v3/quote';
+
+// An HTTP error response as axios reports it
+const httpError = (status: number, data: unknown, headers: Record<string, string> = {}) =>
+  new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers,
+    data,
+    config: {},
+  } as AxiosResponse);
+
+const backendError = (status: number, message: string | string[]) =>
+  httpError(status, { message, statusCode: status });
+
+describe('toOneBalanceError', () => {
+  it.each([
+    [400, 'Insufficient balance', InsufficientBalanceError],
+    [400, 'insufficient funds for transfer', InsufficientBalanceError],
+    [400, 'No routes found', NoRouteError],
+    [404, 'No route available for eip155:56', NoRouteError],
+    [400, 'Quote expired', QuoteExpiredError],
+    [400, ['amount must be a string', 'to.asset is required'], ValidationError],
+    [422, 'Unprocessable', ValidationError],
+    [401, 'Unauthorized', AuthError],
+    [403, 'Insufficient balance', AuthError],
+    [429, 'No routes found', RateLimitError],
+  ])('maps a %i %j response to its error class', (status, message, ErrorClass) => {
+    expect(toOneBalanceError(backendError(status, message), ENDPOINT)).toBeInstanceOf(ErrorClass);
+  });
+
+  it('keeps status, endpoint, request id and payload', () => {
+    const payload = { message: 'Internal server error', statusCode: 500 };
+    const error = toOneBalanceError(
+      httpError(500, payload, { 'x-request-id': 'req-1' }),
+      ENDPOINT,
+    ) as OneBalanceApiError;
+
+    expect(error.constructor).toBe(OneBalanceApiError);
+    expect(error).toMatchObject({ status: 500, endpoint: ENDPOINT, requestId: 'req-1', payload });
+    expect(error.message).toBe(JSON.stringify(payload));
+    expect(error.backendMessage).toBe('Internal server error');
+    expect(error.cause).toBeInstanceOf(AxiosError);
+  });
+
+  it('reads the request id and message from the payload', () => {
+    const error = toOneBalanceError(
+      httpError(400, { error: 'Bad asset', requestId: 'req-2' }),
+      ENDPOINT,
+    ) as ValidationError;
+
+    expect(error.requestId).toBe('req-2');
+    expect(error.backendMessage).toBe('Bad asset');
+    expect(error.name).toBe('ValidationError');
+  });
+
+  it('carries the Retry-After delay of rate limits', () => {
+    const error = toOneBalanceError(
+      httpError(429, { message: 'Too many requests' }, { 'retry-after': '2' }),
+      ENDPOINT,
+    ) as RateLimitError;
+
+    expect(error.retryAfterMs).toBe(2_000);
+  });
+
+  it('reports requests without a response as network errors', () => {
+    const error = toOneBalanceError(
+      new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED'),
+      ENDPOINT,
+    );
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ status: undefined, message: 'connect ECONNREFUSED' });
+  });
+
+  it('passes other errors through', () => {
+    const plain = new Error('boom');
+    const typed = new AuthError('{}', { endpoint: ENDPOINT, status: 401 });
+
+    expect(toOneBalanceError(plain, ENDPOINT)).toBe(plain);
+    expect(toOneBalanceError(typed, ENDPOINT)).toBe(typed);
+  });
+});
+
+describe('submissionFromStatusError', () => {
+  it('reads a definite client error as not submitted', () => {
+    expect(submissionFromStatusError(httpError(404, {}))).toBe(false);
+    expect(submissionFromStatusError(toOneBalanceError(httpError(400, {}), ENDPOINT))).toBe(false);
+  });
+
+  it('cannot tell from auth, timeout, rate limit, server and network errors', () => {
+    for (const status of [401, 403, 408, 429, 500, 503]) {
+      const error = httpError(status, {});
+      expect(submissionFromStatusError(error)).toBeUndefined();
+      expect(submissionFromStatusError(toOneBalanceError(error, ENDPOINT))).toBeUndefined();
+    }
+    expect(
+      submissionFromStatusError(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED')),
+    ).toBeUndefined();
+    expect(submissionFromStatusError(new Error('boom'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import axios from 'axios';
+import { getRetryAfterMs } from './retry';
+
+/**
+ * Typed errors for OneBalance API failures
+ */
+
+export interface OneBalanceErrorDetails {
+  /** HTTP status, undefined when no response was received */
+  status?: number;
+  /** API endpoint that failed, e.g. '/api/v3/quote' */
+  endpoint: string;
+  /** Request id reported by the backend, if any */
+  requestId?: string;
+  /** Parsed backend error payload */
+  payload?: unknown;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all OneBalance API errors.
+ * The message keeps the serialized backend payload so existing log output is unchanged.
+ */
+export class OneBalanceApiError extends Error {
+  readonly status?: number;
+  readonly endpoint: string;
+  readonly requestId?: string;
+  readonly payload?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: OneBalanceErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.payload = details.payload;
+    this.cause = details.cause;
+  }
+
+  /**
+   * Human-readable message from the backend payload, if it has one
+   */
+  get backendMessage(): string | undefined {
+    return extractBackendMessage(this.payload);
+  }
+}
+
+/** Account balance does not cover the requested amount */
+export class InsufficientBalanceError extends OneBalanceApiError {}
+
+/** No route exists for the requested asset pair or chain */
+export class NoRouteError extends OneBalanceApiError {}
+
+/** The quote is past its expiration timestamp */
+export class QuoteExpiredError extends OneBalanceApiError {}
+
+/** Too many requests (HTTP 429) */
+export class RateLimitError extends OneBalanceApiError {
+  /** Delay requested by the Retry-After header, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: OneBalanceErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** Missing or invalid API key (HTTP 401/403) */
+export class AuthError extends OneBalanceApiError {}
+
+/** The request was rejected as malformed (HTTP 400/422) */
+export class ValidationError extends OneBalanceApiError {}
+
+/** No response was received (DNS failure, connection reset, timeout) */
+export class NetworkError extends OneBalanceApiError {}
+
+/** The response does not match the expected schema (strict validation mode) */
+export class ResponseValidationError extends OneBalanceApiError {
+  /** Schema mismatches as 'path: message' strings */
+  readonly issues: string[];
+
+  constructor(message: string, details: OneBalanceErrorDetails & { issues: string[] }) {
+    super(message, details);
+    this.issues = details.issues;
+  }
+}
+
+function extractBackendMessage(payload: unknown): string | undefined {
+  if (typeof payload === 'string') {
+    return payload;
+  }
+
+  if (payload && typeof payload === 'object') {
+    const { message, error } = payload as { message?: unknown; error?: unknown };
+    if (typeof message === 'string') return message;
+    if (Array.isArray(message)) return message.join(', ');
+    if (typeof error === 'string') return error;
+  }
+
+  return undefined;
+}
+
+function extractRequestId(headers: unknown, payload: unknown): string | undefined {
+  const headerValue = (headers as Record<string, unknown> | undefined)?.['x-request-id'];
+  if (typeof headerValue === 'string' && headerValue) {
+    return headerValue;
+  }
+
+  const payloadValue = (payload as { requestId?: unknown } | undefined)?.requestId;
+  return typeof payloadValue === 'string' ? payloadValue : undefined;
+}
+
+/**
+ * Convert a failed request into the matching typed error
+ *
+ * @param error - The error thrown by the HTTP layer
+ * @param endpoint - The endpoint that was called
+ * @returns A OneBalanceApiError subclass, or the original error if it did not come from axios
+ */
+export function toOneBalanceError(error: unknown, endpoint: string): unknown {
+  if (error instanceof OneBalanceApiError || !axios.isAxiosError(error)) {
+    return error;
+  }
+
+  if (!error.response) {
+    return new NetworkError(error.message, { endpoint, cause: error });
+  }
+
+  const { status, data: payload, headers } = error.response;
+  const details: OneBalanceErrorDetails = {
+    status,
+    endpoint,
+    requestId: extractRequestId(headers, payload),
+    payload,
+    cause: error,
+  };
+  const message = JSON.stringify(payload);
+  const backendMessage = extractBackendMessage(payload) || '';
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, details);
+  }
+
+  if (status === 429) {
+    return new RateLimitError(message, { ...details, retryAfterMs: getRetryAfterMs(error) });
+  }
+
+  if (/insufficient (balance|funds)/i.test(backendMessage)) {
+    return new InsufficientBalanceError(message, details);
+  }
+
+  if (/no routes? (found|available)/i.test(backendMessage)) {
+    return new NoRouteError(message, details);
+  }
+
+  if (/expired/i.test(backendMessage)) {
+    return new QuoteExpiredError(message, details);
+  }
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, details);
+  }
+
+  return new OneBalanceApiError(message, details);
+}
+
+// Client errors that say nothing about the quote: auth, request timeout and rate limit
+const INCONCLUSIVE_STATUSES = [401, 403, 408, 429];
+
+/**
+ * What a failed execution status request says about whether its quote was submitted.
+ * The status endpoint only knows submitted quotes, so a client error means the quote never
+ * arrived; auth, timeout and rate limit errors, server errors and network failures cannot tell.
+ *
+ * @param error - Error of the status request, as thrown by axios or typed by toOneBalanceError
+ * @returns false when the quote was definitely not submitted, undefined when the error cannot tell
+ */
+export function submissionFromStatusError(error: unknown): false | undefined {
+  const status =
+    error instanceof OneBalanceApiError
+      ? error.status
+      : axios.isAxiosError(error)
+        ? error.response?.status
+        : undefined;
+  if (
+    status !== undefined &&
+    status >= 400 &&
+    status < 500 &&
+    !INCONCLUSIVE_STATUSES.includes(status)
+  ) {
+    return false;
+  }
+  return undefined;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deriveAccountKeys,
+  deriveEd25519Key,
+  deriveEvmKey,
+  deriveSolanaKey,
+  evmDerivationPath,
+  generateMnemonic,
+  mnemonicToSeed,
+  solanaDerivationPath,
+  validateMnemonic,
+} from './hd';
+
+// Test mnemonic of Hardhat and Anvil, whose default accounts are well known
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('mnemonics', () => {
+  it('derives the BIP-39 seed of the reference vector', () => {
+    const mnemonic = `${'abandon '.repeat(11)}about`;
+
+    expect(mnemonicToSeed(mnemonic, 'TREZOR').toString('hex')).toBe(
+      'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+    );
+  });
+
+  it('validates words and checksum', () => {
+    expect(validateMnemonic(TEST_MNEMONIC)).toBe(true);
+    expect(validateMnemonic(generateMnemonic(256))).toBe(true);
+    expect(generateMnemonic().split(' ')).toHaveLength(12);
+
+    expect(validateMnemonic('test test test test test test test test test test test test')).toBe(
+      false,
+    );
+    expect(validateMnemonic('test test test')).toBe(false);
+    expect(() => mnemonicToSeed('not a mnemonic')).toThrow('Invalid BIP-39 mnemonic');
+  });
+});
+
+describe('HD derivation', () => {
+  it('derives the EVM accounts wallets derive', () => {
+    expect(deriveEvmKey(TEST_MNEMONIC, 0)).toEqual({
+      privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    });
+    expect(deriveEvmKey(TEST_MNEMONIC, 1).address).toBe(
+      '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    );
+  });
+
+  it('derives Ed25519 keys as SLIP-0010 specifies', () => {
+    const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+    expect(deriveEd25519Key(seed, 'm').toString('hex')).toBe(
+      '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7',
+    );
+    expect(deriveEd25519Key(seed, "m/0'").toString('hex')).toBe(
+      '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3',
+    );
+    expect(deriveEd25519Key(seed, "m/0'/1'").toString('hex')).toBe(
+      'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2',
+    );
+    expect(() => deriveEd25519Key(seed, "m/44'/501'/0")).toThrow('hardened path segments');
+  });
+
+  it('gives every account index its own keys', () => {
+    const [first, second] = [0, 1].map((index) => deriveAccountKeys(TEST_MNEMONIC, index));
+
+    expect(second).toMatchObject({ index: 1, evmPath: "m/44'/60'/0'/0/1" });
+    expect(second.solanaPath).toBe("m/44'/501'/1'/0'");
+    expect(second.signerKey.address).not.toBe(first.signerKey.address);
+    expect(second.solanaKey.publicKey).not.toBe(first.solanaKey.publicKey);
+    expect(deriveSolanaKey(TEST_MNEMONIC, 1).publicKey).toBe(second.solanaKey.publicKey);
+  });
+
+  it('rejects invalid account indices', () => {
+    expect(evmDerivationPath(2)).toBe("m/44'/60'/0'/0/2");
+    expect(() => evmDerivationPath(-1)).toThrow('Invalid HD account index: -1');
+    expect(() => solanaDerivationPath(1.5)).toThrow('Invalid HD account index: 1.5');
+    expect(() => solanaDerivationPath(2 ** 31)).toThrow('Invalid HD account index');
+  });
+});
@@ -0,0 +1,174 @@
+import { createHmac } from 'node:crypto';
+import { mnemonicToSeedSync, validateMnemonic as validateBip39Mnemonic } from '@scure/bip39';
+import { Keypair } from '@solana/web3.js';
+import {
+  english,
+  generateMnemonic as generateViemMnemonic,
+  mnemonicToAccount,
+} from 'viem/accounts';
+import { EOAKeyPair, Hex, SolanaKeyPair } from './types';
+
+/**
+ * HD wallet derivation: any number of session keys from one BIP-39 mnemonic.
+ * EVM keys follow BIP-44 (m/44'/60'/0'/0/<index>, as MetaMask and Ledger Live do) and
+ * Solana keys follow SLIP-0010 (m/44'/501'/<index>'/0', as Phantom and solana-keygen do).
+ */
+
+export const MNEMONIC_ENV = 'ONEBALANCE_MNEMONIC';
+
+const HARDENED_OFFSET = 0x80000000;
+
+/** Keys derived for one account index */
+export interface HDAccountKeys {
+  index: number;
+  evmPath: string;
+  solanaPath: string;
+  signerKey: EOAKeyPair;
+  solanaKey: SolanaKeyPair;
+}
+
+function checkIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Invalid HD account index: ${index}`);
+  }
+}
+
+// Single spaces between words, as BIP-39 hashes them
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().split(/\s+/).join(' ');
+}
+
+/**
+ * BIP-44 derivation path of the EVM key for an account index
+ *
+ * @param index - Account index
+ * @returns The derivation path, e.g. m/44'/60'/0'/0/3
+ */
+export function evmDerivationPath(index: number): string {
+  checkIndex(index);
+  return `m/44'/60'/0'/0/${index}`;
+}
+
+/**
+ * BIP-44 derivation path of the Solana key for an account index
+ *
+ * @param index - Account index
+ * @returns The derivation path, e.g. m/44'/501'/3'/0'
+ */
+export function solanaDerivationPath(index: number): string {
+  checkIndex(index);
+  return `m/44'/501'/${index}'/0'`;
+}
+
+/**
+ * Generate a new English BIP-39 mnemonic
+ *
+ * @param strength - Entropy in bits, 128 (12 words) to 256 (24 words); default 128
+ * @returns The mnemonic
+ */
+export function generateMnemonic(strength = 128): string {
+  return generateViemMnemonic(english, strength);
+}
+
+/**
+ * Whether a mnemonic is a valid English BIP-39 mnemonic, checksum included
+ *
+ * @param mnemonic - The mnemonic
+ * @returns True when every word is in the wordlist and the checksum matches
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  return validateBip39Mnemonic(normalizeMnemonic(mnemonic), english);
+}
+
+/**
+ * BIP-39 seed of a mnemonic
+ *
+ * @param mnemonic - The mnemonic (validated)
+ * @param passphrase - Optional BIP-39 passphrase ("25th word")
+ * @returns The 64-byte seed
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase = ''): Buffer {
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error('Invalid BIP-39 mnemonic');
+  }
+  return Buffer.from(mnemonicToSeedSync(normalizeMnemonic(mnemonic), passphrase));
+}
+
+/**
+ * SLIP-0010 Ed25519 derivation; Ed25519 only supports hardened paths
+ *
+ * @param seed - BIP-39 seed
+ * @param path - Derivation path with hardened segments only, e.g. m/44'/501'/0'/0'
+ * @returns The 32-byte private key
+ */
+export function deriveEd25519Key(seed: Uint8Array, path: string): Buffer {
+  const segments = path.split('/');
+  if (segments.shift() !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  let digest = createHmac('sha512', 'ed25519 seed').update(seed).digest();
+  for (const segment of segments) {
+    const match = segment.match(/^(\d+)'$/);
+    if (!match) {
+      throw new Error(`Ed25519 derivation needs hardened path segments: ${path}`);
+    }
+    const index = Buffer.alloc(4);
+    index.writeUInt32BE(Number(match[1]) + HARDENED_OFFSET);
+    digest = createHmac('sha512', digest.subarray(32))
+      .update(Buffer.concat([Buffer.alloc(1), digest.subarray(0, 32), index]))
+      .digest();
+  }
+  return digest.subarray(0, 32);
+}
+
+/**
+ * Derive the EVM key for an account index
+ *
+ * @param mnemonic - BIP-39 mnemonic
+ * @param index - Account index
+ * @returns The key pair at m/44'/60'/0'/0/<index>
+ */
+export function deriveEvmKey(mnemonic: string, index: number): EOAKeyPair {
+  checkIndex(index);
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error('Invalid BIP-39 mnemonic');
+  }
+  const account = mnemonicToAccount(normalizeMnemonic(mnemonic), { addressIndex: index });
+  const privateKey = `0x${Buffer.from(account.getHdKey().privateKey!).toString('hex')}` as Hex;
+  return { privateKey, address: account.address };
+}
+
+/**
+ * Derive the Solana key for an account index
+ *
+ * @param mnemonic - BIP-39 mnemonic
+ * @param index - Account index
+ * @returns The keypair at m/44'/501'/<index>'/0'
+ */
+export function deriveSolanaKey(mnemonic: string, index: number): SolanaKeyPair {
+  const seed = deriveEd25519Key(mnemonicToSeed(mnemonic), solanaDerivationPath(index));
+  const keypair = Keypair.fromSeed(seed);
+  return {
+    keypair,
+    publicKey: keypair.publicKey.toBase58(),
+    secretKey: Array.from(keypair.secretKey),
+  };
+}
+
+/**
+ * Derive the EVM and Solana keys for an account index
+ *
+ * @param mnemonic - BIP-39 mnemonic
+ * @param index - Account index
+ * @returns Both keys and their derivation paths
+ */
+export function deriveAccountKeys(mnemonic: string, index: number): HDAccountKeys {
+  return {
+    index,
+    evmPath: evmDerivationPath(index),
+    solanaPath: solanaDerivationPath(index),
+    signerKey: deriveEvmKey(mnemonic, index),
+    solanaKey: deriveSolanaKey(mnemonic, index),
+  };
+}
@@ -0,0 +1,245 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AssetRegistry } from './assets';
+import { ChainRegistry } from './chains';
+import {
+  HISTORY_EXPORT_COLUMNS,
+  historyToCsv,
+  historyToJsonLines,
+  toHistoryRows,
+  writeHistoryExport,
+} from './history-export';
+import { HistoryTransactionV3 } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const BSC_USDC = 'eip155:56/erc20:0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d';
+const SOLANA_USDC =
+  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const assets = new AssetRegistry([
+  {
+    aggregatedAssetId: 'ob:usdc',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    aggregatedEntities: [
+      { assetType: ARBITRUM_USDC, decimals: 6, name: 'USD Coin', symbol: 'USDC' },
+      { assetType: BASE_USDC, decimals: 6, name: 'USD Coin', symbol: 'USDC' },
+      { assetType: SOLANA_USDC, decimals: 6, name: 'USD Coin', symbol: 'USDC' },
+      { assetType: BSC_USDC, decimals: 18, name: 'USD Coin', symbol: 'USDC' },
+    ],
+  },
+]);
+
+const consolidation: HistoryTransactionV3 = {
+  quoteId: '0xquote1',
+  status: 'COMPLETED',
+  user: '0x2222222222222222222222222222222222222222',
+  recipientAccountId: 'eip155:42161:0x2222222222222222222222222222222222222222',
+  type: 'SWAP',
+  timestamp: '2026-03-01T12:00:00.000Z',
+  originChainOperations: [
+    { hash: '0xaa', chain: 'eip155:8453', explorerUrl: 'https://basescan.org/tx/0xaa' },
+    {
+      hash: 'sig',
+      chain: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      explorerUrl: 'https://solscan.io/tx/sig',
+    },
+  ],
+  destinationChainOperations: [
+    { hash: '0xbb', chain: 'eip155:42161', explorerUrl: 'https://arbiscan.io/tx/0xbb' },
+  ],
+  originToken: {
+    aggregatedAssetId: 'ob:usdc',
+    amount: '3000000',
+    assetType: [BASE_USDC, SOLANA_USDC],
+    fiatValue: [
+      { assetType: BASE_USDC, fiatValue: '2.1' },
+      { assetType: SOLANA_USDC, fiatValue: '0.9' },
+    ],
+  },
+  destinationToken: {
+    aggregatedAssetId: ARBITRUM_USDC,
+    amount: '2990000',
+    assetType: ARBITRUM_USDC,
+    fiatValue: '2.99',
+  },
+};
+
+const pending: HistoryTransactionV3 = {
+  quoteId: '0xquote2',
+  status: 'PENDING',
+  user: '0x2222222222222222222222222222222222222222',
+  recipientAccountId: 'eip155:8453:0x3333333333333333333333333333333333333333',
+  type: 'TRANSFER',
+  timestamp: '2026-03-02T08:30:00.000Z',
+  originChainOperations: [],
+};
+
+describe('toHistoryRows', () => {
+  it('flattens amounts, chains, fiat values and explorer links', () => {
+    const [row] = toHistoryRows([consolidation], { assets, chains: new ChainRegistry() });
+
+    expect(row).toEqual({
+      timestamp: '2026-03-01T12:00:00.000Z',
+      quoteId: '0xquote1',
+      type: 'SWAP',
+      status: 'COMPLETED',
+      originAsset: 'ob:usdc',
+      originSymbol: 'USDC',
+      originAmount: '3',
+      originAssetTypes: `${BASE_USDC};${SOLANA_USDC}`,
+      originChains: 'Base;Solana',
+      originFiatByAsset: `${BASE_USDC}=2.1;${SOLANA_USDC}=0.9`,
+      originFiatValue: 3,
+      destinationAsset: ARBITRUM_USDC,
+      destinationSymbol: 'USDC',
+      destinationAmount: '2.99',
+      destinationChain: 'Arbitrum',
+      destinationFiatValue: 2.99,
+      feesUSD: 0.01,
+      recipient: 'eip155:42161:0x2222222222222222222222222222222222222222',
+      originTxUrls: 'https://basescan.org/tx/0xaa;https://solscan.io/tx/sig',
+      destinationTxUrls: 'https://arbiscan.io/tx/0xbb',
+    });
+  });
+
+  it('formats delivered amounts in the native decimals of the destination asset', () => {
+    const toBsc: HistoryTransactionV3 = {
+      ...consolidation,
+      destinationToken: {
+        aggregatedAssetId: 'ob:usdc',
+        amount: '2990000000000000000',
+        assetType: BSC_USDC,
+        fiatValue: '2.99',
+      },
+    };
+
+    const withDecimals = {
+      ...toBsc,
+      destinationToken: { ...toBsc.destinationToken!, decimals: 18 },
+    };
+
+    expect(toHistoryRows([toBsc], { assets })[0]).toMatchObject({
+      originAmount: '3',
+      destinationAmount: '2.99',
+    });
+    // The decimals the backend reports need no registry
+    expect(toHistoryRows([withDecimals])[0].destinationAmount).toBe('2.99');
+    expect(toHistoryRows([toBsc])[0].destinationAmount).toBe('2990000000000000000');
+  });
+
+  it('keeps raw amounts and chain ids without registries', () => {
+    const [row] = toHistoryRows([consolidation]);
+
+    expect(row).toMatchObject({
+      originSymbol: '',
+      originAmount: '3000000',
+      originChains: 'eip155:8453;solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      destinationChain: 'eip155:42161',
+    });
+  });
+
+  it('adds cost basis, proceeds and gain when a cost basis lookup is given', () => {
+    const [row, empty] = toHistoryRows([consolidation, pending], {
+      costBasis: (transaction) => (transaction.quoteId === '0xquote1' ? 2.5 : undefined),
+    });
+
+    expect(row).toMatchObject({ costBasisUSD: 2.5, proceedsUSD: 2.99, gainUSD: 0.49 });
+    expect(empty).toMatchObject({
+      costBasisUSD: undefined,
+      proceedsUSD: undefined,
+      gainUSD: undefined,
+    });
+  });
+});
+
+describe('historyToCsv', () => {
+  it('writes a header and one quoted row per transaction', () => {
+    const csv = historyToCsv([consolidation, pending], { assets });
+    const lines = csv.trimEnd().split('\r\n');
+
+    expect(lines[0]).toBe(HISTORY_EXPORT_COLUMNS.join(','));
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe(
+      '2026-03-02T08:30:00.000Z,0xquote2,TRANSFER,PENDING,,,,,,,,,,,,,,' +
+        'eip155:8453:0x3333333333333333333333333333333333333333,,',
+    );
+  });
+
+  it('escapes separators and quotes', () => {
+    const csv = historyToCsv([{ ...pending, quoteId: 'a,"b"' }]);
+
+    expect(csv).toContain(',"a,""b""",');
+  });
+
+  it.each([
+    ['=HYPERLINK("https://evil.test")', `,"'=HYPERLINK(""https://evil.test"")",`],
+    ['+1+1', ",'+1+1,"],
+    ['-1+1', ",'-1+1,"],
+    ['@SUM(A1)', ",'@SUM(A1),"],
+  ])('neutralises the spreadsheet formula %s', (quoteId, cell) => {
+    expect(historyToCsv([{ ...pending, quoteId }])).toContain(cell);
+  });
+
+  it('keeps negative numbers numeric', () => {
+    const csv = historyToCsv([consolidation], { costBasis: () => 4 });
+
+    expect(csv.trimEnd().endsWith(',4,2.99,-1.01')).toBe(true);
+  });
+
+  it('appends cost basis columns only when asked', () => {
+    const header = (csv: string) => csv.split('\r\n')[0].split(',');
+
+    expect(header(historyToCsv([]))).not.toContain('gainUSD');
+    expect(header(historyToCsv([], { costBasis: () => 0 })).slice(-3)).toEqual([
+      'costBasisUSD',
+      'proceedsUSD',
+      'gainUSD',
+    ]);
+  });
+});
+
+describe('historyToJsonLines', () => {
+  it('writes one row object per line', () => {
+    const lines = historyToJsonLines([consolidation, pending], { assets }).trimEnd().split('\n');
+
+    expect(lines.map((line) => JSON.parse(line).quoteId)).toEqual(['0xquote1', '0xquote2']);
+    expect(JSON.parse(lines[0])).toMatchObject({ originAmount: '3', feesUSD: 0.01 });
+  });
+
+  it('is empty for no transactions', () => {
+    expect(historyToJsonLines([])).toBe('');
+  });
+});
+
+describe('writeHistoryExport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'history-export-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('picks the format from the file extension', () => {
+    writeHistoryExport(join(dir, 'out/history.csv'), [consolidation]);
+    writeHistoryExport(join(dir, 'history.jsonl'), [consolidation]);
+
+    expect(readFileSync(join(dir, 'out/history.csv'), 'utf8')).toMatch(/^timestamp,quoteId,/);
+    expect(JSON.parse(readFileSync(join(dir, 'history.jsonl'), 'utf8')).quoteId).toBe('0xquote1');
+  });
+
+  it('requires an explicit format for other extensions', () => {
+    expect(() => writeHistoryExport(join(dir, 'history.txt'), [])).toThrow(
+      'Cannot tell the export format of',
+    );
+    writeHistoryExport(join(dir, 'history.txt'), [consolidation], { format: 'csv' });
+    expect(readFileSync(join(dir, 'history.txt'), 'utf8')).toMatch(/^timestamp,/);
+  });
+});
@@ -0,0 +1,273 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, extname } from 'node:path';
+import { formatUnits } from 'viem';
+import { AssetRegistry } from './assets';
+import { ChainRegistry } from './chains';
+import { HistoryTransactionV3, OriginTokenInfo } from './types';
+
+/**
+ * Transaction history exports for spreadsheets and accounting tools (CSV, JSON Lines)
+ */
+
+export type HistoryExportFormat = 'csv' | 'jsonl';
+
+export interface HistoryExportRow {
+  timestamp: string;
+  quoteId: string;
+  type: string;
+  status: string;
+  /** Aggregated or chain-specific asset id spent */
+  originAsset: string;
+  originSymbol: string;
+  /** Token units when decimals are known, otherwise the smallest unit */
+  originAmount: string;
+  /** Chain-specific assets spent, ';'-separated */
+  originAssetTypes: string;
+  originChains: string;
+  /** Fiat value per chain-specific asset, 'assetType=value' pairs, ';'-separated */
+  originFiatByAsset: string;
+  originFiatValue?: number;
+  destinationAsset: string;
+  destinationSymbol: string;
+  destinationAmount: string;
+  destinationChain: string;
+  destinationFiatValue?: number;
+  /** Origin minus destination fiat value: fees plus slippage */
+  feesUSD?: number;
+  recipient: string;
+  originTxUrls: string;
+  destinationTxUrls: string;
+  /** Cost basis fields, present when a costBasis function is given */
+  costBasisUSD?: number;
+  proceedsUSD?: number;
+  gainUSD?: number;
+}
+
+export interface HistoryExportOptions {
+  /** Resolves symbols and decimals; amounts stay in the smallest unit without it */
+  assets?: AssetRegistry;
+  /** Resolves chain names; CAIP-2 ids are used without it */
+  chains?: ChainRegistry;
+  /**
+   * Cost basis in USD of what a transaction spent, from the caller's own lot tracking.
+   * When given, rows get costBasisUSD, proceedsUSD (destination fiat value) and gainUSD.
+   */
+  costBasis?: (transaction: HistoryTransactionV3) => number | undefined;
+}
+
+export const HISTORY_EXPORT_COLUMNS: Array<keyof HistoryExportRow> = [
+  'timestamp',
+  'quoteId',
+  'type',
+  'status',
+  'originAsset',
+  'originSymbol',
+  'originAmount',
+  'originAssetTypes',
+  'originChains',
+  'originFiatByAsset',
+  'originFiatValue',
+  'destinationAsset',
+  'destinationSymbol',
+  'destinationAmount',
+  'destinationChain',
+  'destinationFiatValue',
+  'feesUSD',
+  'recipient',
+  'originTxUrls',
+  'destinationTxUrls',
+];
+
+const FORMAT_BY_EXTENSION: Record<string, HistoryExportFormat> = {
+  '.csv': 'csv',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+};
+
+const COST_BASIS_COLUMNS: Array<keyof HistoryExportRow> = [
+  'costBasisUSD',
+  'proceedsUSD',
+  'gainUSD',
+];
+
+function formatAmount(amount: string, decimals: number | undefined): string {
+  return decimals === undefined ? amount : formatUnits(BigInt(amount), decimals);
+}
+
+function symbolOf(assetId: string, assets?: AssetRegistry): string {
+  return assets?.has(assetId) ? assets.symbolOf(assetId) : '';
+}
+
+function chainNameOf(assetType: string, chains?: ChainRegistry): string {
+  return chains ? chains.nameOf(assetType) : (assetType.split('/')[0] ?? '');
+}
+
+function fiatEntries(token: OriginTokenInfo): Array<{ assetType: string; fiatValue: number }> {
+  if (Array.isArray(token.fiatValue)) {
+    return token.fiatValue.map((entry) => ({
+      assetType: entry.assetType,
+      fiatValue: Number(entry.fiatValue),
+    }));
+  }
+  return [{ assetType: [token.assetType].flat().join(';'), fiatValue: Number(token.fiatValue) }];
+}
+
+// Strips float noise from fiat arithmetic, e.g. 0.30000000000000004
+function usd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Flattens history transactions into export rows, one per transaction
+ *
+ * @param transactions - V3 history entries, e.g. from getAllHistory
+ * @param options - Asset and chain registries for symbols, decimals and chain names
+ * @returns One row per transaction, in input order
+ */
+export function toHistoryRows(
+  transactions: HistoryTransactionV3[],
+  options: HistoryExportOptions = {},
+): HistoryExportRow[] {
+  const { assets, chains, costBasis } = options;
+
+  return transactions.map((transaction) => {
+    const origin = transaction.originToken;
+    const destination = transaction.destinationToken;
+    const originAssetTypes = origin ? [origin.assetType].flat() : [];
+    const originFiat = origin ? fiatEntries(origin) : [];
+    const originFiatValue = origin
+      ? usd(originFiat.reduce((sum, entry) => sum + entry.fiatValue, 0))
+      : undefined;
+    const destinationFiatValue = destination ? Number(destination.fiatValue) : undefined;
+
+    const row: HistoryExportRow = {
+      timestamp: transaction.timestamp,
+      quoteId: transaction.quoteId,
+      type: transaction.type,
+      status: transaction.status,
+      originAsset: origin?.aggregatedAssetId ?? '',
+      originSymbol: origin ? symbolOf(origin.aggregatedAssetId, assets) : '',
+      originAmount: origin
+        ? formatAmount(origin.amount, assets?.findDecimals(origin.aggregatedAssetId))
+        : '',
+      originAssetTypes: originAssetTypes.join(';'),
+      originChains: [...new Set(originAssetTypes.map((type) => chainNameOf(type, chains)))].join(
+        ';',
+      ),
+      originFiatByAsset: originFiat
+        .map((entry) => `${entry.assetType}=${entry.fiatValue}`)
+        .join(';'),
+      originFiatValue,
+      destinationAsset: destination?.aggregatedAssetId ?? '',
+      destinationSymbol: destination
+        ? destination.symbol || symbolOf(destination.aggregatedAssetId, assets)
+        : '',
+      // Delivered amounts are in the destination chain's native decimals
+      destinationAmount: destination
+        ? formatAmount(
+            destination.amount,
+            destination.decimals ?? assets?.findDecimals(destination.assetType),
+          )
+        : '',
+      destinationChain: destination ? chainNameOf(destination.assetType, chains) : '',
+      destinationFiatValue,
+      feesUSD:
+        originFiatValue !== undefined && destinationFiatValue !== undefined
+          ? usd(originFiatValue - destinationFiatValue)
+          : undefined,
+      recipient: transaction.recipientAccountId,
+      originTxUrls: transaction.originChainOperations.map((op) => op.explorerUrl).join(';'),
+      destinationTxUrls: (transaction.destinationChainOperations ?? [])
+        .map((op) => op.explorerUrl)
+        .join(';'),
+    };
+
+    if (costBasis) {
+      row.costBasisUSD = costBasis(transaction);
+      row.proceedsUSD = destinationFiatValue;
+      row.gainUSD =
+        row.costBasisUSD !== undefined && destinationFiatValue !== undefined
+          ? usd(destinationFiatValue - row.costBasisUSD)
+          : undefined;
+    }
+
+    return row;
+  });
+}
+
+// Spreadsheets evaluate text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks. Text that
+// would run as a formula gets a leading apostrophe; numbers (e.g. a negative gain) stay as-is.
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text =
+    typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * History as CSV with a header row
+ *
+ * @param transactions - V3 history entries
+ * @param options - Registries and optional cost basis lookup
+ * @returns CSV text, CRLF line endings, trailing newline
+ */
+export function historyToCsv(
+  transactions: HistoryTransactionV3[],
+  options: HistoryExportOptions = {},
+): string {
+  const columns = options.costBasis
+    ? [...HISTORY_EXPORT_COLUMNS, ...COST_BASIS_COLUMNS]
+    : HISTORY_EXPORT_COLUMNS;
+  const lines = [
+    columns.join(','),
+    ...toHistoryRows(transactions, options).map((row) =>
+      columns.map((column) => csvField(row[column])).join(','),
+    ),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * History as JSON Lines, one export row per line
+ *
+ * @param transactions - V3 history entries
+ * @param options - Registries and optional cost basis lookup
+ * @returns JSONL text with a trailing newline (empty string for no transactions)
+ */
+export function historyToJsonLines(
+  transactions: HistoryTransactionV3[],
+  options: HistoryExportOptions = {},
+): string {
+  return toHistoryRows(transactions, options)
+    .map((row) => JSON.stringify(row) + '\n')
+    .join('');
+}
+
+/**
+ * Writes history to a file, picking the format from the extension (.csv, .jsonl or .ndjson)
+ *
+ * @param file - Output path; parent directories are created
+ * @param transactions - V3 history entries
+ * @param options - Registries, cost basis lookup and an explicit format
+ */
+export function writeHistoryExport(
+  file: string,
+  transactions: HistoryTransactionV3[],
+  options: HistoryExportOptions & { format?: HistoryExportFormat } = {},
+): void {
+  const format = options.format ?? FORMAT_BY_EXTENSION[extname(file).toLowerCase()];
+  if (!format) {
+    throw new Error(`Cannot tell the export format of ${file}; pass format: 'csv' or 'jsonl'`);
+  }
+
+  const content =
+    format === 'csv'
+      ? historyToCsv(transactions, options)
+      : historyToJsonLines(transactions, options);
+
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
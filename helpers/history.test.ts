@@ -0,0 +1,171 @@
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { getDefaultClient, setDefaultClient } from './api';
+import { OneBalanceClient } from './client';
+import { getAllHistory, getHistoryPage, iterateHistory, matchesHistoryFilter } from './history';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { executeQuoteV3, getQuoteV3 } from './onebalance';
+import { signAllOperations } from './signing';
+import { ContractAccountType, HistoryTransactionV3, RoleBasedAccount } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+const privateKey = generatePrivateKey();
+const signer = privateKeyToAccount(privateKey);
+
+const account: RoleBasedAccount = {
+  type: 'role-based',
+  sessionAddress: signer.address,
+  adminAddress: signer.address,
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+describe('transaction history', () => {
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    setDefaultClient(new OneBalanceClient({ baseUrl: await server.start() }));
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setBalance(BASE_USDC, 100_000_000n, 100);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Executes a 1 USDC swap at the given time and returns its quote id
+  async function swapAt(time: string): Promise<string> {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(time));
+
+    const quote = await getQuoteV3({
+      from: { accounts: [account], asset: { assetId: 'ob:usdc' }, amount: '1000000' },
+      to: { asset: { assetId: ARBITRUM_USDC } },
+    });
+    const signed = await signAllOperations(
+      quote,
+      { privateKey, address: signer.address },
+      null,
+      null,
+      ContractAccountType.RoleBased,
+    );
+    await executeQuoteV3(signed);
+
+    vi.useRealTimers();
+    return quote.id;
+  }
+
+  async function swapDaily(days: number): Promise<string[]> {
+    const ids: string[] = [];
+    for (let day = 1; day <= days; day++) {
+      ids.push(await swapAt(`2026-03-0${day}T12:00:00Z`));
+    }
+    return ids;
+  }
+
+  const historyRequests = () =>
+    server.requests.filter((request) => request.path === '/api/v3/status/get-tx-history');
+
+  it('walks every page newest first', async () => {
+    const ids = await swapDaily(5);
+
+    const seen: string[] = [];
+    for await (const transaction of iterateHistory(account, { limit: 2 })) {
+      seen.push(transaction.quoteId);
+    }
+
+    expect(seen).toEqual([...ids].reverse());
+    expect(historyRequests().map((request) => request.query.continuation)).toEqual([
+      undefined,
+      '2',
+      '4',
+    ]);
+    expect(historyRequests()[0].query).toMatchObject({
+      user: 'eip155:1:0x2222222222222222222222222222222222222222',
+      limit: '2',
+      sortBy: 'createdAt',
+    });
+  });
+
+  it('returns one page with its continuation token', async () => {
+    const ids = await swapDaily(3);
+
+    const first = await getHistoryPage(account, { limit: 2 });
+    const second = await getHistoryPage(account, { limit: 2, continuation: first.continuation });
+
+    expect(first.transactions.map((transaction) => transaction.quoteId)).toEqual([ids[2], ids[1]]);
+    expect(first.continuation).toBe('2');
+    expect(second.transactions.map((transaction) => transaction.quoteId)).toEqual([ids[0]]);
+    expect(second.continuation).toBeUndefined();
+  });
+
+  it('filters by status across pages', async () => {
+    const ids = await swapDaily(4);
+    server.setStatusProgression(['FAILED'], ids[1]);
+    server.setStatusProgression(['REFUNDED'], ids[3]);
+
+    const failed = await getAllHistory(account, { statuses: ['FAILED', 'REFUNDED'], limit: 1 });
+
+    expect(failed.map((transaction) => [transaction.quoteId, transaction.status])).toEqual([
+      [ids[3], 'REFUNDED'],
+      [ids[1], 'FAILED'],
+    ]);
+  });
+
+  it('stops paging once transactions are older than the date range', async () => {
+    const ids = await swapDaily(5);
+
+    const recent = await getAllHistory(account, {
+      from: '2026-03-03T00:00:00Z',
+      to: '2026-03-05T00:00:00Z',
+      limit: 1,
+    });
+
+    expect(recent.map((transaction) => transaction.quoteId)).toEqual([ids[3], ids[2]]);
+    // Pages for 03-05, 03-04, 03-03 and the first older one on 03-02
+    expect(historyRequests()).toHaveLength(4);
+  });
+
+  it('rejects invalid dates and empty account lists', async () => {
+    await expect(getAllHistory(account, { from: 'yesterday' })).rejects.toThrow(
+      'Invalid date: yesterday',
+    );
+    await expect(getAllHistory([])).rejects.toThrow('At least one account is required');
+  });
+});
+
+describe('matchesHistoryFilter', () => {
+  const transaction = {
+    quoteId: '0x01',
+    status: 'COMPLETED',
+    type: 'SWAP',
+    timestamp: '2026-03-01T12:00:00Z',
+  } as HistoryTransactionV3;
+
+  it('matches everything without filters', () => {
+    expect(matchesHistoryFilter(transaction, {})).toBe(true);
+  });
+
+  it('applies type, status and a half-open date range', () => {
+    expect(matchesHistoryFilter(transaction, { types: ['TRANSFER', 'CALL'] })).toBe(false);
+    expect(matchesHistoryFilter(transaction, { statuses: ['COMPLETED'] })).toBe(true);
+    expect(matchesHistoryFilter(transaction, { from: new Date('2026-03-01T12:00:00Z') })).toBe(
+      true,
+    );
+    expect(matchesHistoryFilter(transaction, { to: '2026-03-01T12:00:00Z' })).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { toAccountId } from './account';
+import { RequestOptions } from './client';
+import { fetchTransactionHistoryV3 } from './onebalance';
+import {
+  Account,
+  HistoryRequestV3,
+  HistoryResponseV3,
+  HistoryTransactionV3,
+  OperationStatus,
+  TransactionType,
+} from './types';
+
+/**
+ * Paginated, filterable V3 transaction history
+ */
+
+export interface HistoryFilter {
+  /** Only these transaction types */
+  types?: TransactionType[];
+  /** Only these statuses */
+  statuses?: OperationStatus[];
+  /** Only transactions at or after this time */
+  from?: Date | string;
+  /** Only transactions before this time */
+  to?: Date | string;
+}
+
+export interface HistoryOptions extends HistoryFilter {
+  /** Page size requested from the API (default: 20) */
+  limit?: number;
+  /** Start from a continuation token returned by an earlier page */
+  continuation?: string;
+  /** Sort order, newest first (default: 'createdAt') */
+  sortBy?: HistoryRequestV3['sortBy'];
+  /** Request options for each page */
+  request?: RequestOptions;
+}
+
+export interface HistoryPage {
+  /** Transactions of the page that match the filter */
+  transactions: HistoryTransactionV3[];
+  /** Token for the next page; undefined on the last page */
+  continuation?: string;
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+
+type HistoryAccounts = Account | string | Array<Account | string>;
+
+function toUserParam(accounts: HistoryAccounts): string {
+  const list = Array.isArray(accounts) ? accounts : [accounts];
+  if (list.length === 0) {
+    throw new Error('At least one account is required');
+  }
+  return list.map(toAccountId).join(',');
+}
+
+function toTime(value: Date | string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return time;
+}
+
+function fetchPage(
+  user: string,
+  options: HistoryOptions,
+  continuation: string | undefined,
+): Promise<HistoryResponseV3> {
+  return fetchTransactionHistoryV3(
+    {
+      user,
+      limit: options.limit ?? DEFAULT_HISTORY_PAGE_SIZE,
+      continuation,
+      sortBy: options.sortBy,
+    },
+    options.request,
+  );
+}
+
+/**
+ * Whether a transaction passes the type, status and date filters
+ *
+ * @param transaction - History entry to check
+ * @param filter - Filters to apply; omitted fields match everything
+ * @returns True if the transaction matches
+ */
+export function matchesHistoryFilter(
+  transaction: HistoryTransactionV3,
+  filter: HistoryFilter,
+): boolean {
+  const time = new Date(transaction.timestamp).getTime();
+  const from = toTime(filter.from);
+  const to = toTime(filter.to);
+
+  return (
+    (!filter.types || filter.types.includes(transaction.type)) &&
+    (!filter.statuses || filter.statuses.includes(transaction.status)) &&
+    (from === undefined || time >= from) &&
+    (to === undefined || time < to)
+  );
+}
+
+/**
+ * Fetches one page of history and applies the filters to it. A filtered page can be
+ * shorter than the limit, or empty, while more pages remain.
+ *
+ * @param accounts - Account(s) whose history to read, as Account objects or CAIP-10 ids
+ * @param options - Page size, continuation token, filters and request options
+ * @returns Matching transactions and the token for the next page
+ */
+export async function getHistoryPage(
+  accounts: HistoryAccounts,
+  options: HistoryOptions = {},
+): Promise<HistoryPage> {
+  const response = await fetchPage(toUserParam(accounts), options, options.continuation);
+
+  return {
+    transactions: response.transactions.filter((transaction) =>
+      matchesHistoryFilter(transaction, options),
+    ),
+    continuation: response.continuation || undefined,
+  };
+}
+
+/**
+ * Walks every page of history, yielding matching transactions newest first.
+ * With the default createdAt order, paging stops once transactions are older than `from`.
+ *
+ * @param accounts - Account(s) whose history to read, as Account objects or CAIP-10 ids
+ * @param options - Page size, starting continuation token, filters and request options
+ * @returns Async iterator over the matching transactions
+ */
+export async function* iterateHistory(
+  accounts: HistoryAccounts,
+  options: HistoryOptions = {},
+): AsyncGenerator<HistoryTransactionV3> {
+  const user = toUserParam(accounts);
+  const from = toTime(options.from);
+  const stopsAtFrom = from !== undefined && (options.sortBy ?? 'createdAt') === 'createdAt';
+  let continuation = options.continuation;
+
+  do {
+    const response = await fetchPage(user, options, continuation);
+
+    for (const transaction of response.transactions) {
+      if (stopsAtFrom && new Date(transaction.timestamp).getTime() < from) return;
+      if (matchesHistoryFilter(transaction, options)) yield transaction;
+    }
+
+    continuation = response.continuation || undefined;
+  } while (continuation);
+}
+
+/**
+ * Collects the whole (filtered) history into an array
+ *
+ * @param accounts - Account(s) whose history to read, as Account objects or CAIP-10 ids
+ * @param options - Page size, filters and request options
+ * @returns All matching transactions, newest first
+ */
+export async function getAllHistory(
+  accounts: HistoryAccounts,
+  options: HistoryOptions = {},
+): Promise<HistoryTransactionV3[]> {
+  const transactions: HistoryTransactionV3[] = [];
+  for await (const transaction of iterateHistory(accounts, options)) {
+    transactions.push(transaction);
+  }
+  return transactions;
+}
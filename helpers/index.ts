@@ -1,5 +1,85 @@
 // API helpers
-export { createAuthHeaders, apiRequest, apiPost, apiGet } from './api';
+export {
+  createAuthHeaders,
+  apiRequest,
+  apiPost,
+  apiGet,
+  getDefaultClient,
+  setDefaultClient,
+} from './api';
+
+// Client
+export {
+  OneBalanceClient,
+  DEFAULT_BASE_URL,
+  DEFAULT_API_KEY,
+  type OneBalanceClientConfig,
+  type RequestOptions,
+} from './client';
+
+// Error types
+export {
+  OneBalanceApiError,
+  InsufficientBalanceError,
+  NoRouteError,
+  QuoteExpiredError,
+  RateLimitError,
+  AuthError,
+  ValidationError,
+  NetworkError,
+  ResponseValidationError,
+  toOneBalanceError,
+  submissionFromStatusError,
+  type OneBalanceErrorDetails,
+} from './errors';
+
+// Response schemas
+export {
+  validateResponse,
+  RESPONSE_SCHEMAS,
+  quoteResponseV1Schema,
+  quoteResponseV3Schema,
+  callQuoteResponseV3Schema,
+  quoteSchema,
+  targetCallQuoteSchema,
+  targetCallQuoteV3Schema,
+  chainOperationSchema,
+  solanaOperationSchema,
+  bundleResponseSchema,
+  predictAddressResponseSchema,
+  aggregatedBalanceResponseV2Schema,
+  aggregatedBalanceResponseV3Schema,
+  executionStatusResponseSchema,
+  executionStatusResponseV3Schema,
+  historyResponseSchema,
+  historyResponseV3Schema,
+  aggregatedAssetListSchema,
+  supportedChainListSchema,
+  type ValidationMode,
+} from './schemas';
+
+// Retry helpers
+export {
+  withRetry,
+  isRetryableError,
+  getRetryAfterMs,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  type RetryOption,
+} from './retry';
+
+// Record-and-replay fixtures
+export {
+  FixtureRecorder,
+  FixtureReplayer,
+  fixtureOptionsFromEnv,
+  redact,
+  type FixtureMode,
+  type FixtureOptions,
+  type FixtureFile,
+  type RecordedInteraction,
+} from './recorder';
 
 // Crypto helpers
 export {
@@ -8,8 +88,43 @@ export {
   signTypedData,
   generateSolanaKey,
   loadSolanaKey,
+  loadMnemonic,
 } from './crypto';
 
+// Encrypted key store
+export {
+  KeyStore,
+  getDefaultKeyStore,
+  setDefaultKeyStore,
+  encryptEvmKey,
+  encryptSolanaKey,
+  encryptMnemonic,
+  decryptKeystore,
+  PASSPHRASE_ENV,
+  type KeyStoreOptions,
+  type KeystoreFile,
+  type KeystoreKdf,
+  type KeystoreCipher,
+  type KeystoreEncryptOptions,
+  type ScryptParams,
+  type Pbkdf2Params,
+} from './keystore';
+
+// HD wallet derivation
+export {
+  generateMnemonic,
+  validateMnemonic,
+  mnemonicToSeed,
+  deriveEd25519Key,
+  deriveEvmKey,
+  deriveSolanaKey,
+  deriveAccountKeys,
+  evmDerivationPath,
+  solanaDerivationPath,
+  MNEMONIC_ENV,
+  type HDAccountKeys,
+} from './hd';
+
 // OneBalance helpers
 export {
   predictAddress,
@@ -21,6 +136,7 @@ export {
   getQuoteV3,
   executeQuoteV3,
   fetchTransactionHistory,
+  fetchTransactionHistoryV3,
   fetchBalances,
   fetchAggregatedBalanceV3,
   fetchUSDCBalance,
@@ -32,7 +148,31 @@ export {
 } from './onebalance';
 
 // Signing helpers
-export { signOperation, signSolanaOperation, signAllOperations } from './signing';
+export { signOperation, signSolanaOperation, signAllOperations, getOperationHash } from './signing';
+
+// Signature verification
+export {
+  verifySignedQuote,
+  findSignatureIssues,
+  QuoteVerificationError,
+  type SignatureIssue,
+  type SignedQuote,
+} from './verification';
+
+// Signers
+export {
+  LocalSigner,
+  KeystoreSigner,
+  RemoteSigner,
+  isSigner,
+  toSigner,
+  type Signer,
+  type SignerMethod,
+  type KeystoreSignerOptions,
+  type RemoteSignerOptions,
+  type RemoteSignerInfo,
+  type WireAuthorization,
+} from './signer';
 
 // Solana helpers
 export {
@@ -42,14 +182,111 @@ export {
   formatSolanaAssetSymbol,
 } from './solana';
 
+// CAIP identifiers
+export {
+  SOLANA_MAINNET,
+  SOLANA_MAINNET_REFERENCE,
+  evmChain,
+  parseChainId,
+  parseAccountId,
+  parseAssetId,
+  tryParseAssetId,
+  formatChainId,
+  formatAccountId,
+  formatAssetId,
+  isAggregatedAssetId,
+  isChainId,
+  isAccountId,
+  isAssetId,
+  getChainOf,
+  normalizeAddress,
+  normalizeAccountId,
+  normalizeAssetId,
+  isSameAssetId,
+  type CaipChainId,
+  type CaipAccountId,
+  type CaipAssetId,
+} from './caip';
+
+// Asset registry
+export {
+  AssetRegistry,
+  UnknownAssetError,
+  getAssetRegistry,
+  DEFAULT_ASSET_CACHE_TTL_MS,
+  type AssetRegistryOptions,
+} from './assets';
+
+// Chain registry
+export {
+  ChainRegistry,
+  getChainRegistry,
+  CHAIN_METADATA,
+  type ChainMetadata,
+  type ChainDescriptor,
+  type ChainRegistryOptions,
+} from './chains';
+
 // Balance helpers
 export {
+  getAssetBalance,
+  getCrossChainBalance,
+  getMultipleAssetBalances,
   checkAssetBalance,
   checkCrossChainBalance,
   checkMultipleAssetBalances,
   formatBalanceDisplay,
+  normalizeDecimals,
+  compareAmounts,
+  hasSufficientBalance,
+  calculateNonDestinationBalance,
+  type Balance,
+  type ChainBalance,
 } from './balance';
 
+// Portfolio snapshots
+export {
+  getPortfolio,
+  type PortfolioSnapshot,
+  type PortfolioAsset,
+  type PortfolioChainBalance,
+  type PortfolioChainAllocation,
+  type PortfolioOptions,
+} from './portfolio';
+export {
+  diffPortfolios,
+  explainPortfolioChange,
+  type PortfolioDiff,
+  type AssetChange,
+  type ChainChange,
+  type QuoteLeg,
+  type QuoteAttribution,
+  type PortfolioChangeReport,
+  type PortfolioChangeOptions,
+} from './portfolio-diff';
+
+// Transaction history
+export {
+  getHistoryPage,
+  iterateHistory,
+  getAllHistory,
+  matchesHistoryFilter,
+  DEFAULT_HISTORY_PAGE_SIZE,
+  type HistoryFilter,
+  type HistoryOptions,
+  type HistoryPage,
+} from './history';
+export {
+  toHistoryRows,
+  historyToCsv,
+  historyToJsonLines,
+  writeHistoryExport,
+  HISTORY_EXPORT_COLUMNS,
+  type HistoryExportRow,
+  type HistoryExportOptions,
+  type HistoryExportFormat,
+} from './history-export';
+
 // Account helpers
 export {
   loadAccounts,
@@ -57,6 +294,9 @@ export {
   getBalanceCheckAddress,
   getChainIdentifier,
   buildAccountParam,
+  toAccountId,
+  predictHDAccounts,
+  type HDAccount,
   type LoadAccountsResult,
   type LoadMultiChainAccountsResult,
   type EvmAccountType,
@@ -76,10 +316,65 @@ export {
   monitorMultipleTransactions,
   getTransactionStatus,
   waitForTransaction,
+  TransactionMonitor,
+  TransactionFailedError,
+  TransactionTimeoutError,
+  type ExecutionResult,
+  type TransactionMonitorEvents,
+  type TransactionMonitorOptions,
+  type MonitorEvent,
 } from './monitoring';
 
+// Status polling
+export {
+  StatusPoller,
+  DEFAULT_POLL_BACKOFF,
+  DEFAULT_MONITOR_TIMEOUT_MS,
+  estimateMonitorTimeout,
+  resolvePollBackoff,
+  nextPollDelay,
+  type PollBackoff,
+  type PollInterval,
+  type PollOutcome,
+  type PollTarget,
+  type QuoteRoute,
+  type StatusPollerOptions,
+} from './polling';
+
+// Execution journal
+export {
+  ExecutionJournal,
+  JournalRun,
+  type JournalEntry,
+  type JournalEvent,
+  type JournalOptions,
+  type JournaledExecution,
+  type InFlightQuote,
+  type ResumeOutcome,
+} from './journal';
+
 // Display helpers
-export { displaySwapQuote, displayTransferQuote } from './display';
+export {
+  displaySwapQuote,
+  displayTransferQuote,
+  displayChainOperations,
+  formatChainOperation,
+} from './display';
+
+// Logging
+export {
+  getLogger,
+  setLogger,
+  silentLogger,
+  createConsoleLogger,
+  createJsonLogger,
+  loggerFromEnv,
+  type Logger,
+  type LogLevel,
+  type LogFields,
+  type LoggerOptions,
+  type JsonLoggerOptions,
+} from './logger';
 
 // Types
 export * from './types';
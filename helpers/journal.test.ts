@@ -0,0 +1,309 @@
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_ERRORS, MockOneBalanceServer } from '../mock/server';
+import { getDefaultClient, setDefaultClient } from './api';
+import { OneBalanceClient } from './client';
+import { ExecutionJournal } from './journal';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { TransactionFailedError } from './monitoring';
+import { executeQuoteV3, getQuoteV3 } from './onebalance';
+import { signAllOperations } from './signing';
+import { ContractAccountType, QuoteResponseV3, RoleBasedAccount } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+const privateKey = generatePrivateKey();
+const signer = privateKeyToAccount(privateKey);
+
+const account: RoleBasedAccount = {
+  type: 'role-based',
+  sessionAddress: signer.address,
+  adminAddress: signer.address,
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+const fetchQuote = () =>
+  getQuoteV3({
+    from: { accounts: [account], asset: { assetId: 'ob:usdc' }, amount: '1000000' },
+    to: { asset: { assetId: ARBITRUM_USDC } },
+  });
+
+const sign = (quote: QuoteResponseV3) =>
+  signAllOperations(
+    quote,
+    { privateKey, address: signer.address },
+    null,
+    null,
+    ContractAccountType.RoleBased,
+  );
+
+describe('ExecutionJournal', () => {
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+  const monitoring = { pollInterval: 1, timeout: 5_000 };
+  let dir: string;
+  let file: string;
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    setDefaultClient(new OneBalanceClient({ baseUrl: await server.start() }));
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setBalance(BASE_USDC, 10_000_000n, 10);
+    dir = mkdtempSync(join(tmpdir(), 'journal-'));
+    file = join(dir, 'executions.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('journals every stage of a quote execution', async () => {
+    server.setStatusProgression(['IN_PROGRESS', 'COMPLETED']);
+    const journal = new ExecutionJournal({ file });
+    const run = journal.startRun('swap', { amount: '1000000' });
+
+    const { quote, result, resumed } = await run.executeQuote(
+      'swap',
+      { fetch: fetchQuote, sign },
+      monitoring,
+    );
+
+    expect(resumed).toBe(false);
+    expect(result.status).toBe('COMPLETED');
+    expect(journal.entries().map((entry) => [entry.event, entry.quoteId])).toEqual([
+      ['run-started', undefined],
+      ['quoted', quote.id],
+      ['signed', quote.id],
+      ['executed', quote.id],
+      ['finished', quote.id],
+    ]);
+    expect(journal.entries()[4]).toMatchObject({ status: 'COMPLETED', step: 'swap' });
+    expect(journal.inFlight()).toEqual([]);
+  });
+
+  it('monitors the submitted quote after a restart instead of executing again', async () => {
+    server.setStatusProgression(['IN_PROGRESS']);
+    const first = new ExecutionJournal({ file }).startOrResume('swap', { amount: '1000000' });
+    await expect(
+      first.executeQuote('swap', { fetch: fetchQuote, sign }, { pollInterval: 1, timeout: 20 }),
+    ).rejects.toThrow('timeout');
+
+    const [{ quoteId }] = new ExecutionJournal({ file }).inFlight();
+    server.setStatusProgression(['COMPLETED'], quoteId);
+    const fetch = vi.fn(fetchQuote);
+    const second = new ExecutionJournal({ file }).startOrResume('swap', { amount: '1000000' });
+    const execution = await second.executeQuote('swap', { fetch, sign }, monitoring);
+
+    expect(second.resumed).toBe(true);
+    expect(second.id).toBe(first.id);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(execution).toMatchObject({ resumed: true, quote: { id: quoteId } });
+    expect(execution.result.status).toBe('COMPLETED');
+    expect(server.requests.filter((r) => r.path === '/api/v3/quote/execute-quote')).toHaveLength(1);
+  });
+
+  it('asks the API whether a signed quote was submitted before the crash', async () => {
+    server.setStatusProgression(['COMPLETED']);
+    const journal = new ExecutionJournal({ file });
+    const run = journal.startRun('swap');
+    const quote = await fetchQuote();
+    journal.append({
+      event: 'quoted',
+      flow: 'swap',
+      run: run.id,
+      step: 'swap',
+      quoteId: quote.id,
+      quote,
+    });
+    journal.append({ event: 'signed', flow: 'swap', run: run.id, step: 'swap', quoteId: quote.id });
+    await executeQuoteV3(await sign(quote));
+
+    const fetch = vi.fn(fetchQuote);
+    const execution = await run.executeQuote('swap', { fetch, sign }, monitoring);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(execution.quote.id).toBe(quote.id);
+  });
+
+  it('fetches a new quote when the signed one never reached the API', async () => {
+    server.setStatusProgression(['COMPLETED']);
+    const journal = new ExecutionJournal({ file });
+    const run = journal.startRun('swap');
+    const stale = await fetchQuote();
+    journal.append({
+      event: 'quoted',
+      flow: 'swap',
+      run: run.id,
+      step: 'swap',
+      quoteId: stale.id,
+      quote: stale,
+    });
+    journal.append({ event: 'signed', flow: 'swap', run: run.id, step: 'swap', quoteId: stale.id });
+
+    const execution = await run.executeQuote('swap', { fetch: fetchQuote, sign }, monitoring);
+
+    expect(execution.quote.id).not.toBe(stale.id);
+    expect(journal.entries().find((entry) => entry.failReason)).toMatchObject({
+      quoteId: stale.id,
+      failReason: 'Not submitted',
+    });
+  });
+
+  it('stops instead of fetching a new quote when the API cannot tell', async () => {
+    const client = new OneBalanceClient({ baseUrl: server.url, retry: { maxAttempts: 1 } });
+    const journal = new ExecutionJournal({ file, client });
+    const run = journal.startRun('swap');
+    const quote = await fetchQuote();
+    journal.append({
+      event: 'quoted',
+      flow: 'swap',
+      run: run.id,
+      step: 'swap',
+      quoteId: quote.id,
+      quote,
+    });
+    journal.append({ event: 'signed', flow: 'swap', run: run.id, step: 'swap', quoteId: quote.id });
+    server.queueStatusOutcome(MOCK_ERRORS.serverError, MOCK_ERRORS.rateLimited);
+
+    const fetch = vi.fn(fetchQuote);
+    await expect(run.executeQuote('swap', { fetch, sign }, monitoring)).rejects.toMatchObject({
+      status: 500,
+    });
+    const [outcome] = await journal.resumeInFlight(monitoring);
+
+    expect(outcome.error).toMatchObject({ status: 429 });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(journal.entries().some((entry) => entry.failReason)).toBe(false);
+    expect(journal.inFlight()).toEqual([expect.objectContaining({ quoteId: quote.id })]);
+    expect(server.requests.some(({ path }) => path === '/api/v3/quote/execute-quote')).toBe(false);
+  });
+
+  it('records failures and retries the step with a new quote', async () => {
+    server.setStatusProgression(['FAILED']);
+    const journal = new ExecutionJournal({ file });
+    const run = journal.startRun('swap');
+
+    await expect(
+      run.executeQuote('swap', { fetch: fetchQuote, sign }, monitoring),
+    ).rejects.toBeInstanceOf(TransactionFailedError);
+    expect(journal.entries().pop()).toMatchObject({ event: 'finished', status: 'FAILED' });
+
+    server.setStatusProgression(['COMPLETED']);
+    const retry = await run.executeQuote('swap', { fetch: fetchQuote, sign }, monitoring);
+    expect(retry).toMatchObject({ resumed: false, result: { status: 'COMPLETED' } });
+  });
+
+  it('replays completed steps and finished quotes on resume', async () => {
+    server.setStatusProgression(['COMPLETED']);
+    const first = new ExecutionJournal({ file }).startOrResume('deposit', { amount: '1' });
+    await first.step('plan', async () => ({ consolidate: '1000000' }));
+    const done = await first.executeQuote('swap', { fetch: fetchQuote, sign }, monitoring);
+
+    const second = new ExecutionJournal({ file }).startOrResume('deposit', { amount: '1' });
+    const plan = vi.fn(async () => ({ consolidate: '0' }));
+    const fetch = vi.fn(fetchQuote);
+
+    expect(await second.step('plan', plan)).toEqual({ consolidate: '1000000' });
+    expect((await second.executeQuote('swap', { fetch, sign }, monitoring)).result).toEqual(
+      done.result,
+    );
+    expect(plan).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('starts a new run for other parameters or once the run completed', () => {
+    const journal = new ExecutionJournal({ file });
+    const run = journal.startOrResume('deposit', { amount: '1' });
+
+    expect(journal.startOrResume('deposit', { amount: '2' }).id).not.toBe(run.id);
+    expect(journal.startOrResume('deposit', { amount: '1' }).id).toBe(run.id);
+    run.complete();
+    expect(journal.startOrResume('deposit', { amount: '1' }).id).not.toBe(run.id);
+  });
+
+  it('skips a line torn by a crash', () => {
+    const journal = new ExecutionJournal({ file });
+    journal.startRun('swap');
+    appendFileSync(file, '{"event":"quo');
+
+    expect(journal.entries()).toHaveLength(1);
+  });
+
+  it('monitors a resumed quote with the timeout of its route', async () => {
+    server.setStatusProgression(['IN_PROGRESS', 'COMPLETED']);
+    const journal = new ExecutionJournal({ file });
+    const run = journal.startRun('swap');
+    const quote = await fetchQuote();
+    journal.append({
+      event: 'quoted',
+      flow: 'swap',
+      run: run.id,
+      step: 'swap',
+      quoteId: quote.id,
+      quote,
+    });
+    await executeQuoteV3(await sign(quote));
+    journal.append({
+      event: 'executed',
+      flow: 'swap',
+      run: run.id,
+      step: 'swap',
+      quoteId: quote.id,
+    });
+
+    // Each status takes 90 seconds: past the bare quote id default, within a cross-chain route
+    vi.useFakeTimers({ toFake: ['Date'] });
+    setLogger({
+      ...silentLogger,
+      info: (message) => {
+        if (message.startsWith('📊')) vi.setSystemTime(Date.now() + 90_000);
+      },
+    });
+    try {
+      const [outcome] = await journal.resumeInFlight({ pollInterval: 1 });
+
+      expect(outcome.result?.status).toBe('COMPLETED');
+    } finally {
+      vi.useRealTimers();
+      setLogger(silentLogger);
+    }
+  });
+
+  it('resumes every in-flight quote and records the outcome', async () => {
+    server.setStatusProgression(['IN_PROGRESS']);
+    const journal = new ExecutionJournal({ file });
+    const timeout = { pollInterval: 1, timeout: 20 };
+    const runs = [journal.startRun('a'), journal.startRun('b')];
+    for (const run of runs) {
+      await expect(
+        run.executeQuote('swap', { fetch: fetchQuote, sign }, timeout),
+      ).rejects.toThrow();
+    }
+    const [completed, failed] = journal.inFlight();
+    server.setStatusProgression(['COMPLETED'], completed.quoteId);
+    server.setStatusProgression(['REFUNDED'], failed.quoteId);
+
+    const outcomes = await journal.resumeInFlight(monitoring);
+
+    expect(outcomes.map((outcome) => [outcome.flow, outcome.result?.status])).toEqual([
+      ['a', 'COMPLETED'],
+      ['b', undefined],
+    ]);
+    expect(outcomes[1].error).toBeInstanceOf(TransactionFailedError);
+    expect(journal.inFlight()).toEqual([]);
+  });
+});
@@ -0,0 +1,432 @@
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import { getDefaultClient } from './api';
+import { OneBalanceClient } from './client';
+import { submissionFromStatusError } from './errors';
+import { getLogger } from './logger';
+import {
+  ExecutionResult,
+  monitorTransactionCompletion,
+  TransactionFailedError,
+  TransactionMonitorOptions,
+} from './monitoring';
+import { CallQuoteResponseV3, OperationStatus, QuoteResponseV3 } from './types';
+
+/**
+ * Append-only execution journal: every quote fetched, signed, executed and monitored is
+ * written to a JSON Lines file, so a script that dies halfway can pick up where it stopped.
+ */
+
+export type JournalEvent =
+  | 'run-started'
+  | 'quoted'
+  | 'signed'
+  | 'executed'
+  | 'finished'
+  | 'step-completed'
+  | 'run-completed';
+
+export interface JournalEntry {
+  /** ISO timestamp of the write */
+  at: string;
+  event: JournalEvent;
+  /** Flow name, e.g. 'hyperliquid-deposit' */
+  flow: string;
+  /** Run of the flow the entry belongs to */
+  run: string;
+  step?: string;
+  quoteId?: string;
+  status?: OperationStatus;
+  failReason?: string;
+  /** Quote as fetched (unsigned), on 'quoted' */
+  quote?: JournalQuote;
+  /** Run parameters on 'run-started', step output on 'step-completed' */
+  data?: unknown;
+  /** Execution result on 'finished' */
+  result?: ExecutionResult;
+}
+
+type JournalQuote = QuoteResponseV3 | CallQuoteResponseV3;
+
+export interface JournalOptions {
+  /** Journal file (default: helpers/.journal/executions.jsonl) */
+  file?: string;
+  /** Client used to execute and monitor quotes (default: the default client) */
+  client?: OneBalanceClient;
+}
+
+export interface JournaledExecution<Q extends JournalQuote> {
+  quote: Q;
+  result: ExecutionResult;
+  /** True when the quote came from the journal instead of being fetched again */
+  resumed: boolean;
+}
+
+export interface InFlightQuote {
+  flow: string;
+  run: string;
+  step?: string;
+  quoteId: string;
+  /** Last stage recorded before the process stopped */
+  event: 'signed' | 'executed';
+}
+
+export interface ResumeOutcome extends InFlightQuote {
+  /** Final result; undefined when the quote was never submitted */
+  result?: ExecutionResult;
+  /** Why monitoring did not finish, e.g. a failed transaction or a timeout */
+  error?: Error;
+}
+
+function defaultJournalFile(): string {
+  return join(__dirname, '.journal', 'executions.jsonl');
+}
+
+/**
+ * The status endpoint only knows quotes that were submitted. Only a definite "unknown quote"
+ * answer counts as not submitted; anything else is rethrown, since guessing wrong would
+ * submit the step a second time.
+ */
+async function wasSubmitted(client: OneBalanceClient, quoteId: string): Promise<boolean> {
+  try {
+    await client.fetchExecutionStatus(quoteId);
+    return true;
+  } catch (error) {
+    if (submissionFromStatusError(error) === false) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Execution journal backed by a JSON Lines file. Each write is one appended line;
+ * a line torn by a crash is skipped when reading.
+ */
+export class ExecutionJournal {
+  readonly file: string;
+  readonly client?: OneBalanceClient;
+
+  constructor(options: JournalOptions = {}) {
+    this.file = options.file ?? defaultJournalFile();
+    this.client = options.client;
+  }
+
+  /**
+   * Appends an entry
+   *
+   * @param entry - Entry without timestamp
+   * @returns The entry as written
+   */
+  append(entry: Omit<JournalEntry, 'at'>): JournalEntry {
+    const written: JournalEntry = { at: new Date().toISOString(), ...entry };
+    mkdirSync(dirname(this.file), { recursive: true });
+    appendFileSync(this.file, JSON.stringify(written) + '\n');
+    return written;
+  }
+
+  /**
+   * Reads every entry in write order
+   *
+   * @returns Entries, skipping lines that do not parse
+   */
+  entries(): JournalEntry[] {
+    if (!existsSync(this.file)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        getLogger().warn('⚠️ Skipping unreadable journal line', { file: this.file });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Starts a new run of a flow
+   *
+   * @param flow - Flow name
+   * @param params - Parameters of the run, used to match it on resume
+   * @returns The new run
+   */
+  startRun(flow: string, params?: unknown): JournalRun {
+    const run = new JournalRun(this, flow, randomUUID());
+    this.append({ event: 'run-started', flow, run: run.id, data: params });
+    return run;
+  }
+
+  /**
+   * Resumes the latest unfinished run of a flow started with the same parameters,
+   * or starts a new one
+   *
+   * @param flow - Flow name
+   * @param params - Parameters of the run
+   * @returns The resumed or new run; check `resumed` to tell them apart
+   */
+  startOrResume(flow: string, params?: unknown): JournalRun {
+    const entries = this.entries().filter((entry) => entry.flow === flow);
+    const completed = new Set(
+      entries.filter((entry) => entry.event === 'run-completed').map((entry) => entry.run),
+    );
+    const unfinished = entries
+      .filter((entry) => entry.event === 'run-started' && !completed.has(entry.run))
+      .filter((entry) => isDeepStrictEqual(entry.data ?? null, params ?? null))
+      .pop();
+
+    if (!unfinished) {
+      return this.startRun(flow, params);
+    }
+
+    getLogger().info(`♻️ Resuming ${flow} run ${unfinished.run} from ${unfinished.at}`);
+    return new JournalRun(this, flow, unfinished.run, true);
+  }
+
+  /**
+   * Quotes that were signed or executed but never reached a recorded final status
+   *
+   * @returns One record per quote, oldest first
+   */
+  inFlight(): InFlightQuote[] {
+    const latest = new Map<string, JournalEntry>();
+    for (const entry of this.entries()) {
+      if (entry.quoteId) latest.set(entry.quoteId, entry);
+    }
+
+    return [...latest.values()]
+      .filter((entry) => entry.event === 'signed' || entry.event === 'executed')
+      .map((entry) => ({
+        flow: entry.flow,
+        run: entry.run,
+        step: entry.step,
+        quoteId: entry.quoteId!,
+        event: entry.event as InFlightQuote['event'],
+      }));
+  }
+
+  /**
+   * Continues monitoring every in-flight quote and records the outcome.
+   * Signed quotes the API does not know were never submitted and are closed as such;
+   * those it cannot check right now stay in flight.
+   *
+   * @param options - Monitoring timeout, poll interval and early success on EXECUTED
+   * @returns One outcome per in-flight quote
+   */
+  async resumeInFlight(
+    options: Pick<TransactionMonitorOptions, 'timeout' | 'pollInterval' | 'acceptExecuted'> = {},
+  ): Promise<ResumeOutcome[]> {
+    const outcomes: ResumeOutcome[] = [];
+    const client = this.client ?? getDefaultClient();
+    const quotes = new Map(
+      this.entries()
+        .filter((entry) => entry.event === 'quoted' && entry.quote)
+        .map((entry) => [entry.quoteId!, entry.quote!]),
+    );
+
+    for (const pending of this.inFlight()) {
+      const run = new JournalRun(this, pending.flow, pending.run, true);
+      let submitted = true;
+      if (pending.event === 'signed') {
+        try {
+          submitted = await wasSubmitted(client, pending.quoteId);
+        } catch (error) {
+          // Undecided: the quote stays in flight for the next resume
+          outcomes.push({ ...pending, error: error as Error });
+          continue;
+        }
+      }
+      if (!submitted) {
+        this.append({
+          event: 'finished',
+          flow: pending.flow,
+          run: pending.run,
+          step: pending.step,
+          quoteId: pending.quoteId,
+          failReason: 'Not submitted',
+        });
+        outcomes.push(pending);
+        continue;
+      }
+
+      try {
+        const quote = quotes.get(pending.quoteId) ?? ({ id: pending.quoteId } as JournalQuote);
+        const result = await run.monitor(quote, pending.step, options);
+        outcomes.push({ ...pending, result });
+      } catch (error) {
+        outcomes.push({ ...pending, error: error as Error });
+      }
+    }
+
+    return outcomes;
+  }
+}
+
+/**
+ * One run of a flow. Steps and quote executions recorded by an earlier process
+ * are replayed from the journal instead of being repeated.
+ */
+export class JournalRun {
+  constructor(
+    readonly journal: ExecutionJournal,
+    readonly flow: string,
+    readonly id: string,
+    /** True when the run was picked up from the journal */
+    readonly resumed: boolean = false,
+  ) {}
+
+  /** Entries of this run, in write order */
+  entries(): JournalEntry[] {
+    return this.journal.entries().filter((entry) => entry.run === this.id);
+  }
+
+  /**
+   * Runs a step once per run. A step completed before returns its recorded output.
+   *
+   * @param name - Step name, unique within the flow
+   * @param fn - Step body; its result must survive JSON serialization
+   * @returns The step output
+   */
+  async step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const done = this.entries().find(
+      (entry) => entry.event === 'step-completed' && entry.step === name,
+    );
+    if (done) {
+      getLogger().info(`⏭️ Step ${name} already completed, reusing its result`);
+      return done.data as T;
+    }
+
+    const output = await fn();
+    this.record('step-completed', { step: name, data: output });
+    return output;
+  }
+
+  /**
+   * Fetches, signs, executes and monitors a quote, journaling each stage. When an earlier
+   * process got as far as submitting the step's quote, that quote is monitored instead of
+   * fetching a new one.
+   *
+   * @param step - Step name, unique within the flow
+   * @param stages - Functions that fetch and sign the quote
+   * @param options - Monitoring timeout, poll interval and early success on EXECUTED
+   * @returns The quote, its execution result and whether it came from the journal
+   */
+  async executeQuote<Q extends JournalQuote>(
+    step: string,
+    stages: { fetch: () => Promise<Q>; sign: (quote: Q) => Promise<Q> },
+    options: Pick<TransactionMonitorOptions, 'timeout' | 'pollInterval' | 'acceptExecuted'> = {},
+  ): Promise<JournaledExecution<Q>> {
+    const previous = await this.previousExecution<Q>(step);
+    if (previous) {
+      const { quote, finished } = previous;
+      const result = finished ?? (await this.monitor(quote, step, options));
+      return { quote, result, resumed: true };
+    }
+
+    const quote = await stages.fetch();
+    this.record('quoted', { step, quoteId: quote.id, quote });
+
+    const signed = await stages.sign(quote);
+    this.record('signed', { step, quoteId: quote.id });
+
+    const client = this.journal.client ?? getDefaultClient();
+    const response = await client.executeQuoteV3(signed as QuoteResponseV3);
+    if (!response.success) {
+      this.record('finished', { step, quoteId: quote.id, failReason: response.error ?? undefined });
+      throw new Error(response.error || `Execution of quote ${quote.id} failed`);
+    }
+    this.record('executed', { step, quoteId: quote.id });
+
+    const result = await this.monitor(quote, step, options);
+    return { quote, result, resumed: false };
+  }
+
+  /**
+   * Monitors a submitted quote and records its final status. Timeouts are not recorded,
+   * so the quote stays in flight for the next resume.
+   *
+   * @param quote - Quote to monitor, as journaled; its route sets the default timeout
+   * @param step - Step the quote belongs to
+   * @param options - Monitoring timeout, poll interval and early success on EXECUTED
+   * @returns The execution result
+   */
+  async monitor(
+    quote: JournalQuote,
+    step: string | undefined,
+    options: Pick<TransactionMonitorOptions, 'timeout' | 'pollInterval' | 'acceptExecuted'> = {},
+  ): Promise<ExecutionResult> {
+    const quoteId = quote.id;
+    try {
+      const result = await monitorTransactionCompletion(
+        quote as QuoteResponseV3,
+        options.timeout,
+        options.pollInterval,
+        { client: this.journal.client, acceptExecuted: options.acceptExecuted },
+      );
+      this.record('finished', { step, quoteId, status: result.status, result });
+      return result;
+    } catch (error) {
+      if (error instanceof TransactionFailedError) {
+        const { result } = error;
+        this.record('finished', {
+          step,
+          quoteId,
+          status: result.status,
+          failReason: result.failReason,
+          result,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /** Marks the run as done; startOrResume no longer picks it up */
+  complete(): void {
+    this.record('run-completed', {});
+  }
+
+  private record(
+    event: JournalEvent,
+    fields: Omit<JournalEntry, 'at' | 'event' | 'flow' | 'run'>,
+  ): void {
+    this.journal.append({ event, flow: this.flow, run: this.id, ...fields });
+  }
+
+  // The step's last quote, if it was submitted and did not fail
+  private async previousExecution<Q extends JournalQuote>(
+    step: string,
+  ): Promise<{ quote: Q; finished?: ExecutionResult } | undefined> {
+    const entries = this.entries().filter((entry) => entry.step === step);
+    const quoted = entries.filter((entry) => entry.event === 'quoted').pop();
+    if (!quoted?.quote) {
+      return undefined;
+    }
+
+    const quote = quoted.quote as Q;
+    const stages = entries.filter((entry) => entry.quoteId === quote.id);
+    const last = stages[stages.length - 1];
+
+    if (last.event === 'finished') {
+      return last.result?.success ? { quote, finished: last.result } : undefined;
+    }
+    if (last.event === 'executed') {
+      getLogger().info(`♻️ Quote ${quote.id} was submitted before the restart, monitoring it`);
+      return { quote };
+    }
+    if (last.event === 'signed') {
+      // Stopped between signing and recording the submission: ask the API
+      const client = this.journal.client ?? getDefaultClient();
+      if (await wasSubmitted(client, quote.id)) {
+        this.record('executed', { step, quoteId: quote.id });
+        return { quote };
+      }
+      this.record('finished', { step, quoteId: quote.id, failReason: 'Not submitted' });
+    }
+    return undefined;
+  }
+}
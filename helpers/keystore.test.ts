@@ -0,0 +1,159 @@
+import { chmodSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import {
+  KeyStore,
+  KeystoreFile,
+  PASSPHRASE_ENV,
+  decryptKeystore,
+  encryptEvmKey,
+  encryptSolanaKey,
+} from './keystore';
+import { getLogger, setLogger, silentLogger } from './logger';
+
+// Test vector from the Web3 Secret Storage definition. Its scrypt vector uses r = 1 with
+// N = 2^18, which OpenSSL rejects; files written by wallets use r = 8.
+const VECTOR_PRIVATE_KEY = '7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+const vector: KeystoreFile = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+};
+
+// Cheap key derivation so the tests stay fast
+const encryption = { cost: 1024 };
+
+describe('keystore encryption', () => {
+  it('decrypts the Web3 Secret Storage test vector', () => {
+    expect(decryptKeystore(vector, 'testpassword').toString('hex')).toBe(VECTOR_PRIVATE_KEY);
+  });
+
+  it('round-trips EVM keys and rejects a wrong passphrase', () => {
+    const privateKey = generatePrivateKey();
+    const keystore = encryptEvmKey(privateKey, 'secret', { kdf: 'pbkdf2', cost: 1000 });
+
+    expect(keystore.address).toBe(privateKeyToAccount(privateKey).address.slice(2).toLowerCase());
+    expect(keystore.crypto.cipher).toBe('aes-128-ctr');
+    expect(`0x${decryptKeystore(keystore, 'secret').toString('hex')}`).toBe(privateKey);
+    expect(() => decryptKeystore(keystore, 'wrong')).toThrow('Wrong keystore passphrase');
+  });
+
+  it('encrypts Solana keys with AES-GCM', () => {
+    const keypair = Keypair.generate();
+    const keystore = encryptSolanaKey(keypair.secretKey, 'secret', encryption);
+
+    expect(keystore).toMatchObject({
+      publicKey: keypair.publicKey.toBase58(),
+      crypto: { cipher: 'aes-256-gcm' },
+    });
+    expect(new Uint8Array(decryptKeystore(keystore, 'secret'))).toEqual(keypair.secretKey);
+    expect(() => decryptKeystore(keystore, 'wrong')).toThrow('Wrong keystore passphrase');
+  });
+});
+
+describe('KeyStore', () => {
+  const previousLogger = getLogger();
+  let dir: string;
+
+  beforeAll(() => setLogger(silentLogger));
+  afterAll(() => setLogger(previousLogger));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'keystore-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const keyStore = (passphrase = 'secret') => new KeyStore({ dir, passphrase, encryption });
+  const mode = (path: string) => statSync(path).mode & 0o777;
+
+  it('generates encrypted keys readable by their owner only and loads them again', () => {
+    const created = keyStore().loadEvmKey('session');
+    const file = readFileSync(join(dir, 'session-key.json'), 'utf8');
+
+    expect(file).not.toContain(created.privateKey.slice(2));
+    expect(JSON.parse(file).address).toBe(created.address.slice(2).toLowerCase());
+    expect(keyStore().loadEvmKey('session')).toEqual(created);
+    expect(() => keyStore('wrong').loadEvmKey('session')).toThrow('Wrong keystore passphrase');
+    if (process.platform !== 'win32') {
+      expect(mode(join(dir, 'session-key.json'))).toBe(0o600);
+    }
+  });
+
+  it('encrypts plaintext key files in place, keeping the keys', () => {
+    const privateKey = generatePrivateKey();
+    const solana = Keypair.generate();
+    writeFileSync(
+      join(dir, 'admin-key.json'),
+      JSON.stringify({ privateKey, address: privateKeyToAccount(privateKey).address }),
+    );
+    writeFileSync(
+      join(dir, 'solana-key.json'),
+      JSON.stringify({
+        publicKey: solana.publicKey.toBase58(),
+        secretKey: Array.from(solana.secretKey),
+      }),
+    );
+    writeFileSync(join(dir, 'admin-key.example.json'), '{}');
+
+    expect(keyStore().migrate().sort()).toEqual(['admin', 'solana']);
+    expect(keyStore().migrate()).toEqual([]);
+    expect(readFileSync(join(dir, 'admin-key.json'), 'utf8')).not.toContain(privateKey.slice(2));
+    expect(keyStore().loadEvmKey('admin').privateKey).toBe(privateKey);
+    expect(keyStore().loadSolanaKey().publicKey).toBe(solana.publicKey.toBase58());
+  });
+
+  it.skipIf(process.platform === 'win32')('restricts key files readable by others', () => {
+    const path = join(dir, 'session-key.json');
+    keyStore().loadEvmKey('session');
+    chmodSync(path, 0o644);
+
+    keyStore().loadEvmKey('session');
+
+    expect(mode(path)).toBe(0o600);
+  });
+
+  it('keeps the HD wallet mnemonic encrypted', () => {
+    const mnemonic = keyStore().loadMnemonic();
+    const file = readFileSync(join(dir, 'mnemonic-key.json'), 'utf8');
+
+    expect(mnemonic.split(' ')).toHaveLength(12);
+    expect(file).not.toContain(mnemonic);
+    expect(keyStore().loadMnemonic()).toBe(mnemonic);
+    expect(() => keyStore().saveMnemonic('imported', 'not a mnemonic')).toThrow(
+      'Invalid BIP-39 mnemonic',
+    );
+
+    keyStore().loadEvmKey('session');
+    expect(() => keyStore().loadMnemonic('session')).toThrow('does not hold a BIP-39 mnemonic');
+  });
+
+  it('takes the passphrase from the environment and needs one', () => {
+    vi.stubEnv(PASSPHRASE_ENV, 'from-env');
+    const created = new KeyStore({ dir, encryption }).loadEvmKey('session');
+    expect(keyStore('from-env').loadEvmKey('session')).toEqual(created);
+
+    vi.stubEnv(PASSPHRASE_ENV, '');
+    expect(() => new KeyStore({ dir, encryption }).loadEvmKey('session')).toThrow(
+      `No keystore passphrase: set ${PASSPHRASE_ENV} or run in a terminal`,
+    );
+  });
+});
@@ -0,0 +1,562 @@
+import { execSync } from 'node:child_process';
+import {
+  createCipheriv,
+  createDecipheriv,
+  pbkdf2Sync,
+  randomBytes,
+  randomUUID,
+  scryptSync,
+  timingSafeEqual,
+} from 'node:crypto';
+import {
+  chmodSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+  writeSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import { getAddress, keccak256 } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { generateMnemonic, validateMnemonic } from './hd';
+import { getLogger } from './logger';
+import { EOAKeyPair, Hex, SolanaKeyPair } from './types';
+
+/**
+ * Encrypted key files.
+ * EVM keys are written in the Web3 Secret Storage format (version 3), so geth, ethers and
+ * other wallets can import them. Solana keys and HD wallet mnemonics use the same envelope
+ * with AES-256-GCM.
+ */
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+export type KeystoreCipher = 'aes-128-ctr' | 'aes-256-gcm';
+
+export interface ScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: 'hmac-sha256';
+  salt: string;
+}
+
+/**
+ * An encrypted key file. Byte values are hex without 0x, as in Web3 Secret Storage.
+ */
+export interface KeystoreFile {
+  version: 3;
+  id: string;
+  /** EVM address, lowercase without 0x */
+  address?: string;
+  /** Solana public key (base58) */
+  publicKey?: string;
+  crypto: {
+    cipher: KeystoreCipher;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: KeystoreKdf;
+    kdfparams: ScryptParams | Pbkdf2Params;
+    /** keccak256(key[16..32] ++ ciphertext) for aes-128-ctr, the GCM auth tag for aes-256-gcm */
+    mac: string;
+  };
+}
+
+export interface KeystoreEncryptOptions {
+  /** Key derivation function (default: 'scrypt') */
+  kdf?: KeystoreKdf;
+  /** scrypt N or PBKDF2 iterations (default: 131072 for scrypt, 262144 for PBKDF2) */
+  cost?: number;
+}
+
+export const PASSPHRASE_ENV = 'ONEBALANCE_KEYSTORE_PASSPHRASE';
+
+const DEFAULT_COST: Record<KeystoreKdf, number> = { scrypt: 131_072, pbkdf2: 262_144 };
+
+// Owner read/write only; anything more is tightened on load
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+function deriveKey(passphrase: string, kdf: KeystoreKdf, params: ScryptParams | Pbkdf2Params) {
+  const salt = Buffer.from(params.salt, 'hex');
+  if (kdf === 'scrypt') {
+    const { n, r, p, dklen } = params as ScryptParams;
+    return scryptSync(passphrase, salt, dklen, { N: n, r, p, maxmem: 256 * n * r + 1_048_576 });
+  }
+
+  const { c, dklen, prf } = params as Pbkdf2Params;
+  if (prf !== 'hmac-sha256') {
+    throw new Error(`Unsupported keystore PBKDF2 prf: ${prf}`);
+  }
+  return pbkdf2Sync(passphrase, salt, c, dklen, 'sha256');
+}
+
+function ctrMac(key: Buffer, ciphertext: Buffer): Buffer {
+  return Buffer.from(keccak256(Buffer.concat([key.subarray(16, 32), ciphertext]), 'bytes'));
+}
+
+function encrypt(
+  secret: Uint8Array,
+  passphrase: string,
+  cipher: KeystoreCipher,
+  options: KeystoreEncryptOptions,
+): KeystoreFile['crypto'] {
+  const kdf = options.kdf ?? 'scrypt';
+  const cost = options.cost ?? DEFAULT_COST[kdf];
+  const salt = randomBytes(32).toString('hex');
+  const kdfparams: ScryptParams | Pbkdf2Params =
+    kdf === 'scrypt'
+      ? { dklen: 32, n: cost, r: 8, p: 1, salt }
+      : { dklen: 32, c: cost, prf: 'hmac-sha256', salt };
+  const key = deriveKey(passphrase, kdf, kdfparams);
+
+  const iv = randomBytes(cipher === 'aes-128-ctr' ? 16 : 12);
+  let ciphertext: Buffer;
+  let mac: Buffer;
+  if (cipher === 'aes-128-ctr') {
+    const encryptor = createCipheriv(cipher, key.subarray(0, 16), iv);
+    ciphertext = Buffer.concat([encryptor.update(secret), encryptor.final()]);
+    mac = ctrMac(key, ciphertext);
+  } else {
+    const encryptor = createCipheriv(cipher, key, iv);
+    ciphertext = Buffer.concat([encryptor.update(secret), encryptor.final()]);
+    mac = encryptor.getAuthTag();
+  }
+
+  return {
+    cipher,
+    cipherparams: { iv: iv.toString('hex') },
+    ciphertext: ciphertext.toString('hex'),
+    kdf,
+    kdfparams,
+    mac: mac.toString('hex'),
+  };
+}
+
+/**
+ * Encrypt an EVM private key into a Web3 Secret Storage file
+ *
+ * @param privateKey - The private key to encrypt
+ * @param passphrase - Passphrase to derive the encryption key from
+ * @param options - Key derivation function and cost
+ * @returns The keystore file contents
+ */
+export function encryptEvmKey(
+  privateKey: Hex,
+  passphrase: string,
+  options: KeystoreEncryptOptions = {},
+): KeystoreFile {
+  const { address } = privateKeyToAccount(privateKey);
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: address.slice(2).toLowerCase(),
+    crypto: encrypt(Buffer.from(privateKey.slice(2), 'hex'), passphrase, 'aes-128-ctr', options),
+  };
+}
+
+/**
+ * Encrypt a Solana secret key with AES-256-GCM
+ *
+ * @param secretKey - The 64-byte secret key
+ * @param passphrase - Passphrase to derive the encryption key from
+ * @param options - Key derivation function and cost
+ * @returns The keystore file contents
+ */
+export function encryptSolanaKey(
+  secretKey: Uint8Array,
+  passphrase: string,
+  options: KeystoreEncryptOptions = {},
+): KeystoreFile {
+  return {
+    version: 3,
+    id: randomUUID(),
+    publicKey: Keypair.fromSecretKey(secretKey).publicKey.toBase58(),
+    crypto: encrypt(secretKey, passphrase, 'aes-256-gcm', options),
+  };
+}
+
+/**
+ * Encrypt a BIP-39 mnemonic with AES-256-GCM
+ *
+ * @param mnemonic - The mnemonic
+ * @param passphrase - Passphrase to derive the encryption key from
+ * @param options - Key derivation function and cost
+ * @returns The keystore file contents
+ */
+export function encryptMnemonic(
+  mnemonic: string,
+  passphrase: string,
+  options: KeystoreEncryptOptions = {},
+): KeystoreFile {
+  return {
+    version: 3,
+    id: randomUUID(),
+    crypto: encrypt(Buffer.from(mnemonic, 'utf8'), passphrase, 'aes-256-gcm', options),
+  };
+}
+
+/**
+ * Decrypt a keystore file
+ *
+ * @param keystore - Keystore file contents
+ * @param passphrase - Passphrase the file was encrypted with
+ * @returns The secret key bytes
+ */
+export function decryptKeystore(keystore: KeystoreFile, passphrase: string): Buffer {
+  if (keystore.version !== 3) {
+    throw new Error(`Unsupported keystore version: ${keystore.version}`);
+  }
+
+  const { cipher, cipherparams, ciphertext, kdf, kdfparams, mac } = keystore.crypto;
+  const key = deriveKey(passphrase, kdf, kdfparams);
+  const iv = Buffer.from(cipherparams.iv, 'hex');
+  const data = Buffer.from(ciphertext, 'hex');
+  const expectedMac = Buffer.from(mac, 'hex');
+
+  if (cipher === 'aes-128-ctr') {
+    const actualMac = ctrMac(key, data);
+    if (actualMac.length !== expectedMac.length || !timingSafeEqual(actualMac, expectedMac)) {
+      throw new Error('Wrong keystore passphrase');
+    }
+    const decipher = createDecipheriv(cipher, key.subarray(0, 16), iv);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  if (cipher === 'aes-256-gcm') {
+    const decipher = createDecipheriv(cipher, key, iv);
+    decipher.setAuthTag(expectedMac);
+    try {
+      return Buffer.concat([decipher.update(data), decipher.final()]);
+    } catch {
+      throw new Error('Wrong keystore passphrase');
+    }
+  }
+
+  throw new Error(`Unsupported keystore cipher: ${cipher}`);
+}
+
+// Reads a line from the terminal without echoing it; undefined when there is no terminal
+function promptPassphrase(message: string): string | undefined {
+  if (!process.stdin.isTTY || process.platform === 'win32') {
+    return undefined;
+  }
+
+  let fd: number;
+  try {
+    fd = openSync('/dev/tty', 'r+');
+  } catch {
+    return undefined;
+  }
+
+  const stty = (mode: string) => execSync(`stty ${mode}`, { stdio: [fd, 'ignore', 'ignore'] });
+  try {
+    writeSync(fd, message);
+    stty('-echo');
+    const buffer = Buffer.alloc(1);
+    let line = '';
+    while (readSync(fd, buffer, 0, 1, null) === 1 && buffer[0] !== 0x0a) {
+      line += buffer.toString();
+    }
+    return line.replace(/\r$/, '');
+  } finally {
+    stty('echo');
+    writeSync(fd, '\n');
+    closeSync(fd);
+  }
+}
+
+function isKeystoreFile(data: unknown): data is KeystoreFile {
+  return typeof data === 'object' && data !== null && 'crypto' in data;
+}
+
+export interface KeyStoreOptions {
+  /** Directory holding the `<name>-key.json` files (default: helpers/keys) */
+  dir?: string;
+  /**
+   * Passphrase for the key files (default: ONEBALANCE_KEYSTORE_PASSPHRASE, otherwise
+   * prompted for on the terminal once per process)
+   */
+  passphrase?: string;
+  /** Key derivation for files written from now on */
+  encryption?: KeystoreEncryptOptions;
+}
+
+/**
+ * Named key files, encrypted with one passphrase.
+ * Plaintext key files from earlier versions are encrypted in place when first loaded.
+ */
+export class KeyStore {
+  readonly dir: string;
+
+  private passphrase?: string;
+  private readonly encryption: KeystoreEncryptOptions;
+
+  constructor(options: KeyStoreOptions = {}) {
+    this.dir = options.dir ?? join(__dirname, 'keys');
+    this.passphrase = options.passphrase;
+    this.encryption = options.encryption ?? {};
+  }
+
+  /** Path of the key file for a name, e.g. 'session' → keys/session-key.json */
+  path(name: string): string {
+    return join(this.dir, `${name}-key.json`);
+  }
+
+  /**
+   * EVM address of a key file, read without decrypting it
+   *
+   * @param name - Key name
+   * @returns The address, or undefined when there is no such EVM key file
+   */
+  evmAddress(name: string): Hex | undefined {
+    const stored = this.read(name) as { address?: string } | undefined;
+    if (!stored?.address) {
+      return undefined;
+    }
+    return getAddress(stored.address.startsWith('0x') ? stored.address : `0x${stored.address}`);
+  }
+
+  /**
+   * Solana public key of a key file, read without decrypting it
+   *
+   * @param name - Key name (default: 'solana')
+   * @returns The base58 public key, or undefined when there is no such Solana key file
+   */
+  solanaPublicKey(name = 'solana'): string | undefined {
+    return (this.read(name) as { publicKey?: string } | undefined)?.publicKey;
+  }
+
+  /**
+   * Load an EVM key, generating and saving a new one when the file does not exist
+   *
+   * @param name - Key name, e.g. 'session' or 'admin'
+   * @returns The key pair
+   */
+  loadEvmKey(name: string): EOAKeyPair {
+    const stored = this.read(name);
+    if (!stored) {
+      return this.storeEvmKey(name, generatePrivateKey(), 'Generated key file');
+    }
+
+    if (!isKeystoreFile(stored)) {
+      const { privateKey } = stored as EOAKeyPair;
+      return this.storeEvmKey(name, privateKey, 'Encrypted plaintext key file');
+    }
+
+    const privateKey = `0x${decryptKeystore(stored, this.getPassphrase()).toString('hex')}` as Hex;
+    const { address } = privateKeyToAccount(privateKey);
+    if (stored.address && stored.address !== address.slice(2).toLowerCase()) {
+      throw new Error(`Key file ${this.path(name)} does not match its address 0x${stored.address}`);
+    }
+    return { privateKey, address };
+  }
+
+  /**
+   * Encrypt and save an EVM key, replacing the file for the name
+   *
+   * @param name - Key name
+   * @param privateKey - The private key
+   * @returns The key pair
+   */
+  saveEvmKey(name: string, privateKey: Hex): EOAKeyPair {
+    return this.storeEvmKey(name, privateKey, 'Saved key file');
+  }
+
+  /**
+   * Load a Solana key, generating and saving a new one when the file does not exist
+   *
+   * @param name - Key name (default: 'solana')
+   * @returns The keypair
+   */
+  loadSolanaKey(name = 'solana'): SolanaKeyPair {
+    const stored = this.read(name);
+    if (!stored) {
+      return this.storeSolanaKey(name, Keypair.generate().secretKey, 'Generated key file');
+    }
+
+    if (!isKeystoreFile(stored)) {
+      const { secretKey } = stored as { secretKey: number[] };
+      return this.storeSolanaKey(name, new Uint8Array(secretKey), 'Encrypted plaintext key file');
+    }
+
+    const keypair = Keypair.fromSecretKey(decryptKeystore(stored, this.getPassphrase()));
+    const publicKey = keypair.publicKey.toBase58();
+    if (stored.publicKey && stored.publicKey !== publicKey) {
+      throw new Error(
+        `Key file ${this.path(name)} does not match its public key ${stored.publicKey}`,
+      );
+    }
+    return { keypair, publicKey, secretKey: Array.from(keypair.secretKey) };
+  }
+
+  /**
+   * Encrypt and save a Solana key, replacing the file for the name
+   *
+   * @param name - Key name
+   * @param secretKey - The 64-byte secret key
+   * @returns The keypair
+   */
+  saveSolanaKey(name: string, secretKey: Uint8Array): SolanaKeyPair {
+    return this.storeSolanaKey(name, secretKey, 'Saved key file');
+  }
+
+  /**
+   * Load an HD wallet mnemonic, generating and saving a new one when the file does not exist
+   *
+   * @param name - Key name (default: 'mnemonic')
+   * @returns The mnemonic
+   */
+  loadMnemonic(name = 'mnemonic'): string {
+    const stored = this.read(name);
+    if (!stored) {
+      return this.storeMnemonic(name, generateMnemonic(), 'Generated mnemonic file');
+    }
+    if (!isKeystoreFile(stored)) {
+      throw new Error(`Key file ${this.path(name)} is not an encrypted mnemonic`);
+    }
+
+    const mnemonic = decryptKeystore(stored, this.getPassphrase()).toString('utf8');
+    if (!validateMnemonic(mnemonic)) {
+      throw new Error(`Key file ${this.path(name)} does not hold a BIP-39 mnemonic`);
+    }
+    return mnemonic;
+  }
+
+  /**
+   * Encrypt and save an HD wallet mnemonic, e.g. one imported from a wallet
+   *
+   * @param name - Key name
+   * @param mnemonic - The BIP-39 mnemonic
+   * @returns The mnemonic
+   */
+  saveMnemonic(name: string, mnemonic: string): string {
+    if (!validateMnemonic(mnemonic)) {
+      throw new Error('Invalid BIP-39 mnemonic');
+    }
+    return this.storeMnemonic(name, mnemonic, 'Saved mnemonic file');
+  }
+
+  /**
+   * Encrypt every plaintext key file in the directory
+   *
+   * @returns Names of the migrated keys
+   */
+  migrate(): string[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    const migrated: string[] = [];
+    for (const file of readdirSync(this.dir)) {
+      const name = file.match(/^(.+)-key\.json$/)?.[1];
+      const stored = name ? this.read(name) : undefined;
+      if (!name || !stored || isKeystoreFile(stored)) continue;
+
+      if ('secretKey' in stored) {
+        this.loadSolanaKey(name);
+      } else {
+        this.loadEvmKey(name);
+      }
+      migrated.push(name);
+    }
+    return migrated;
+  }
+
+  private storeEvmKey(name: string, privateKey: Hex, reason: string): EOAKeyPair {
+    this.write(name, encryptEvmKey(privateKey, this.getPassphrase(true), this.encryption), reason);
+    return { privateKey, address: privateKeyToAccount(privateKey).address };
+  }
+
+  private storeSolanaKey(name: string, secretKey: Uint8Array, reason: string): SolanaKeyPair {
+    const keystore = encryptSolanaKey(secretKey, this.getPassphrase(true), this.encryption);
+    this.write(name, keystore, reason);
+
+    const keypair = Keypair.fromSecretKey(secretKey);
+    return { keypair, publicKey: keypair.publicKey.toBase58(), secretKey: Array.from(secretKey) };
+  }
+
+  private storeMnemonic(name: string, mnemonic: string, reason: string): string {
+    this.write(name, encryptMnemonic(mnemonic, this.getPassphrase(true), this.encryption), reason);
+    return mnemonic;
+  }
+
+  private getPassphrase(confirm = false): string {
+    if (this.passphrase) {
+      return this.passphrase;
+    }
+
+    const fromEnv = process.env[PASSPHRASE_ENV];
+    if (fromEnv) {
+      return (this.passphrase = fromEnv);
+    }
+
+    const entered = promptPassphrase(`🔐 Keystore passphrase for ${this.dir}: `);
+    if (!entered) {
+      throw new Error(`No keystore passphrase: set ${PASSPHRASE_ENV} or run in a terminal`);
+    }
+    if (confirm && promptPassphrase('🔐 Repeat the passphrase: ') !== entered) {
+      throw new Error('Keystore passphrases do not match');
+    }
+    return (this.passphrase = entered);
+  }
+
+  // Parsed key file, or undefined when there is none; tightens loose permissions first
+  private read(name: string): object | undefined {
+    const path = this.path(name);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+
+    if (process.platform !== 'win32' && (statSync(path).mode & 0o077) !== 0) {
+      chmodSync(path, FILE_MODE);
+      getLogger().warn(`⚠️ Key file ${path} was readable by others, restricted to its owner`);
+    }
+    return JSON.parse(readFileSync(path, 'utf8'));
+  }
+
+  // Writes via a temporary file so a crash never leaves a half-written key
+  private write(name: string, keystore: KeystoreFile, reason: string): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true, mode: DIR_MODE });
+    } else if (process.platform !== 'win32' && (statSync(this.dir).mode & 0o077) !== 0) {
+      chmodSync(this.dir, DIR_MODE);
+    }
+
+    const path = this.path(name);
+    const temporary = `${path}.tmp`;
+    writeFileSync(temporary, JSON.stringify(keystore, null, 2), { mode: FILE_MODE });
+    chmodSync(temporary, FILE_MODE);
+    renameSync(temporary, path);
+    getLogger().info(`🔐 ${reason}: ${path}`);
+  }
+}
+
+// Key store used by readOrCacheEOAKey and loadSolanaKey, created on first use
+let defaultKeyStore: KeyStore | null = null;
+
+export function getDefaultKeyStore(): KeyStore {
+  if (!defaultKeyStore) {
+    defaultKeyStore = new KeyStore();
+  }
+  return defaultKeyStore;
+}
+
+// Replace the key store used by readOrCacheEOAKey and loadSolanaKey
+export function setDefaultKeyStore(keyStore: KeyStore): void {
+  defaultKeyStore = keyStore;
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createConsoleLogger, createJsonLogger, loggerFromEnv, silentLogger } from './logger';
+
+describe('createJsonLogger', () => {
+  it('writes one JSON object per line without leading emoji', () => {
+    const lines: string[] = [];
+    const logger = createJsonLogger({ write: (line) => lines.push(line) });
+
+    logger.info('\n🔍 Checking balance for asset: ob:usdc...', { assetId: 'ob:usdc' });
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: 'info',
+      msg: 'Checking balance for asset: ob:usdc...',
+      assetId: 'ob:usdc',
+    });
+  });
+
+  it('serializes bigints and errors', () => {
+    const lines: string[] = [];
+    const logger = createJsonLogger({ write: (line) => lines.push(line) });
+
+    logger.error('Failed', { raw: 10n ** 18n, error: new TypeError('boom') });
+
+    expect(JSON.parse(lines[0])).toMatchObject({
+      raw: '1000000000000000000',
+      error: { name: 'TypeError', message: 'boom' },
+    });
+  });
+
+  it('drops messages below the configured level', () => {
+    const lines: string[] = [];
+    const logger = createJsonLogger({ level: 'warn', write: (line) => lines.push(line) });
+
+    logger.debug('poll');
+    logger.info('status');
+    logger.warn('slow');
+
+    expect(lines.map((line) => JSON.parse(line).msg)).toEqual(['slow']);
+  });
+});
+
+describe('createConsoleLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prints messages as-is and passes errors along', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = createConsoleLogger();
+    const failure = new Error('boom');
+
+    logger.info('💰 Available USDC balance: 1.500000 USDC', { balance: '1.5' });
+    logger.error('Failed to check balance for ob:usdc:', { error: failure });
+
+    expect(log).toHaveBeenCalledWith('💰 Available USDC balance: 1.500000 USDC');
+    expect(error).toHaveBeenCalledWith('Failed to check balance for ob:usdc:', failure);
+  });
+});
+
+describe('silentLogger', () => {
+  it('writes nothing', () => {
+    const log = vi.spyOn(console, 'log');
+    const error = vi.spyOn(console, 'error');
+
+    silentLogger.info('hello');
+    silentLogger.error('oops');
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('loggerFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('picks the logger from ONEBALANCE_LOG', () => {
+    vi.stubEnv('ONEBALANCE_LOG', 'silent');
+    expect(loggerFromEnv()).toBe(silentLogger);
+  });
+
+  it('rejects unknown modes', () => {
+    vi.stubEnv('ONEBALANCE_LOG', 'verbose');
+    expect(() => loggerFromEnv()).toThrow("ONEBALANCE_LOG must be 'silent', 'pretty' or 'json'");
+  });
+});
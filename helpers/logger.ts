@@ -0,0 +1,117 @@
+/**
+ * Pluggable logging for the helpers.
+ * Examples print human-readable progress by default; services can swap in the silent
+ * or JSON logger with setLogger() or ONEBALANCE_LOG=silent|pretty|json.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Structured context, e.g. { assetId, balance }; an `error` field carries the failure */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  /** Lowest level that is written (default: 'debug', everything) */
+  level?: LogLevel;
+}
+
+export interface JsonLoggerOptions extends LoggerOptions {
+  /** Where each JSON line goes (default: stdout) */
+  write?: (line: string) => void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+function createLogger(
+  minLevel: LogLevel,
+  emit: (level: LogLevel, message: string, fields?: LogFields) => void,
+): Logger {
+  const at = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVELS[level] >= LEVELS[minLevel]) {
+      emit(level, message, fields);
+    }
+  };
+  return { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+}
+
+export const silentLogger: Logger = createLogger('error', () => {});
+
+/**
+ * Human-readable console output, as the examples print it.
+ * Messages already carry their values, so only an `error` field is printed alongside.
+ */
+export function createConsoleLogger(options: LoggerOptions = {}): Logger {
+  return createLogger(options.level ?? 'debug', (level, message, fields) => {
+    const args = fields?.error === undefined ? [message] : [message, fields.error];
+    if (level === 'error') {
+      console.error(...args);
+    } else if (level === 'warn') {
+      console.warn(...args);
+    } else {
+      console.log(...args);
+    }
+  });
+}
+
+// Errors and bigints do not survive JSON.stringify on their own
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
+/**
+ * One JSON object per line: { time, level, msg, ...fields }.
+ * Leading emoji and whitespace are dropped from messages.
+ */
+export function createJsonLogger(options: JsonLoggerOptions = {}): Logger {
+  const write = options.write ?? ((line: string) => process.stdout.write(line + '\n'));
+
+  return createLogger(options.level ?? 'debug', (level, message, fields) => {
+    const msg = message.replace(/^[^\p{L}\p{N}]+/u, '').trimEnd();
+    write(JSON.stringify({ time: new Date().toISOString(), level, msg, ...fields }, toJsonValue));
+  });
+}
+
+/**
+ * Resolve a logger from ONEBALANCE_LOG (silent, pretty or json)
+ */
+export function loggerFromEnv(): Logger {
+  const mode = process.env.ONEBALANCE_LOG || 'pretty';
+
+  switch (mode) {
+    case 'silent':
+      return silentLogger;
+    case 'pretty':
+      return createConsoleLogger();
+    case 'json':
+      return createJsonLogger();
+    default:
+      throw new Error(`ONEBALANCE_LOG must be 'silent', 'pretty' or 'json', got '${mode}'`);
+  }
+}
+
+// Logger used by the helpers, created on first use
+let logger: Logger | null = null;
+
+export function getLogger(): Logger {
+  if (!logger) {
+    logger = loggerFromEnv();
+  }
+  return logger;
+}
+
+// Replace the logger used by the helpers
+export function setLogger(next: Logger): void {
+  logger = next;
+}
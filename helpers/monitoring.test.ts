@@ -0,0 +1,288 @@
+import axios from 'axios';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { getDefaultClient, setDefaultClient } from './api';
+import { OneBalanceClient } from './client';
+import { AuthError } from './errors';
+import { getLogger, setLogger, silentLogger } from './logger';
+import {
+  MonitorEvent,
+  TransactionFailedError,
+  TransactionMonitor,
+  TransactionTimeoutError,
+  monitorTransactionCompletion,
+  waitForTransaction,
+} from './monitoring';
+import { executeQuoteV3, getQuoteV3 } from './onebalance';
+import { signAllOperations } from './signing';
+import { ContractAccountType, Quote, RoleBasedAccount } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+
+const privateKey = generatePrivateKey();
+const signer = privateKeyToAccount(privateKey);
+
+const account: RoleBasedAccount = {
+  type: 'role-based',
+  sessionAddress: signer.address,
+  adminAddress: signer.address,
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+describe('TransactionMonitor', () => {
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    setDefaultClient(new OneBalanceClient({ baseUrl: await server.start() }));
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setBalance(BASE_USDC, 10_000_000n, 10);
+  });
+
+  // Executes a 1 USDC swap from Base to Arbitrum and returns the quote
+  async function swap() {
+    const quote = await getQuoteV3({
+      from: { accounts: [account], asset: { assetId: 'ob:usdc' }, amount: '1000000' },
+      to: { asset: { assetId: ARBITRUM_USDC } },
+    });
+    const signed = await signAllOperations(
+      quote,
+      { privateKey, address: signer.address },
+      null,
+      null,
+      ContractAccountType.RoleBased,
+    );
+    await executeQuoteV3(signed);
+    return quote;
+  }
+
+  it('emits status changes, operations as they appear and the final state', async () => {
+    server.setStatusProgression(['PENDING', 'PENDING', 'IN_PROGRESS', 'EXECUTED', 'COMPLETED']);
+    const quote = await swap();
+    const monitor = new TransactionMonitor(quote, { pollInterval: 1 });
+    const events: string[] = [];
+
+    monitor.on('status', (status) => events.push(`status:${status.status}`));
+    monitor.on('originOperation', (operation) => events.push(`origin:${operation.chain}`));
+    monitor.on('destinationOperation', (operation) =>
+      events.push(`destination:${operation.chain}`),
+    );
+    monitor.on('completed', (status) => events.push(`completed:${status.quoteId}`));
+
+    const final = await monitor.start();
+
+    expect(events).toEqual([
+      'status:PENDING',
+      'status:IN_PROGRESS',
+      'origin:eip155:8453',
+      'status:EXECUTED',
+      'destination:eip155:42161',
+      'status:COMPLETED',
+      `completed:${quote.id}`,
+    ]);
+    expect(final?.status).toBe('COMPLETED');
+    expect(final?.destinationChainOperations?.[0].explorerUrl).toContain('arbiscan.io/tx/');
+    expect(monitor.lastStatus).toBe(final);
+  });
+
+  it('emits failed and refunded as terminal events', async () => {
+    server.setStatusProgression(['IN_PROGRESS', 'REFUNDED']);
+    const monitor = new TransactionMonitor(await swap(), { pollInterval: 1 });
+    const terminal: string[] = [];
+    monitor.on('refunded', (status) => terminal.push(status.status));
+    monitor.on('failed', (status) => terminal.push(status.status));
+
+    expect((await monitor.start())?.status).toBe('REFUNDED');
+    expect(terminal).toEqual(['REFUNDED']);
+  });
+
+  it('emits timeout with the last status seen', async () => {
+    server.setStatusProgression(['IN_PROGRESS']);
+    const monitor = new TransactionMonitor(await swap(), { pollInterval: 5, timeout: 200 });
+    let timedOut: string | undefined;
+    monitor.on('timeout', (status) => (timedOut = status?.status));
+
+    await monitor.start();
+
+    expect(timedOut).toBe('IN_PROGRESS');
+  });
+
+  it('reports poll errors and keeps polling', async () => {
+    const monitor = new TransactionMonitor('0xunknown', { pollInterval: 5, timeout: 200 });
+    const errors: unknown[] = [];
+    monitor.on('pollError', (error) => errors.push(error));
+
+    expect(await monitor.start()).toBeUndefined();
+    expect(errors.length).toBeGreaterThan(1);
+  });
+
+  it('yields events through the async iterator', async () => {
+    server.setStatusProgression(['IN_PROGRESS', 'COMPLETED']);
+    const events: MonitorEvent[] = [];
+
+    for await (const event of new TransactionMonitor(await swap(), { pollInterval: 1 })) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.type)).toEqual([
+      'status',
+      'originOperation',
+      'status',
+      'destinationOperation',
+      'completed',
+    ]);
+  });
+
+  it('stops polling when the iterator is left early', async () => {
+    server.setStatusProgression(['IN_PROGRESS']);
+    const monitor = new TransactionMonitor(await swap(), { pollInterval: 1 });
+
+    for await (const event of monitor) {
+      if (event.type === 'status') break;
+    }
+    const polls = server.requests.length;
+    await monitor.start();
+
+    expect(server.requests.length).toBe(polls);
+  });
+
+  it('calls onStatusUpdate from waitForTransaction', async () => {
+    server.setStatusProgression(['PENDING', 'IN_PROGRESS', 'COMPLETED']);
+    const updates: string[] = [];
+
+    await waitForTransaction(await swap(), {
+      pollInterval: 1,
+      onStatusUpdate: (status) => updates.push(status),
+    });
+
+    expect(updates).toEqual(['PENDING', 'IN_PROGRESS', 'COMPLETED']);
+  });
+
+  it('rejects waitForTransaction on a failed transaction without retrying', async () => {
+    server.setStatusProgression(['FAILED']);
+    const quote = await swap();
+
+    await expect(waitForTransaction(quote, { pollInterval: 1 })).rejects.toThrow(
+      'Transaction failed',
+    );
+    expect(
+      server.requests.filter((request) => request.path === '/api/status/get-execution-status'),
+    ).toHaveLength(1);
+  });
+
+  describe('monitorTransactionCompletion', () => {
+    const statusPolls = () =>
+      server.requests.filter((request) => request.path === '/api/status/get-execution-status');
+
+    it('returns the final status with every operation and the elapsed time', async () => {
+      server.setStatusProgression(['PENDING', 'IN_PROGRESS', 'COMPLETED']);
+      const quote = await swap();
+
+      const result = await monitorTransactionCompletion(quote, 5_000, 1);
+
+      expect(result).toMatchObject({ quoteId: quote.id, status: 'COMPLETED', success: true });
+      expect(result.originChainOperations.map((operation) => operation.chain)).toEqual([
+        'eip155:8453',
+      ]);
+      expect(result.destinationChainOperations.map((operation) => operation.chain)).toEqual([
+        'eip155:42161',
+      ]);
+      expect(result.hashes).toEqual([
+        result.originChainOperations[0].hash,
+        result.destinationChainOperations[0].hash,
+      ]);
+      expect(result.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('rejects as soon as the transaction fails, with the fail reason', async () => {
+      server.setStatusProgression(['IN_PROGRESS', 'FAILED']);
+      const quote = await swap();
+
+      const error = await monitorTransactionCompletion(quote, 5_000, 1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionFailedError);
+      expect(error.message).toBe('Transaction failed: Mock execution failure');
+      expect(error.result).toMatchObject({ status: 'FAILED', success: false });
+      expect(statusPolls()).toHaveLength(2);
+    });
+
+    it('can treat EXECUTED as success', async () => {
+      server.setStatusProgression(['IN_PROGRESS', 'EXECUTED', 'COMPLETED']);
+      const quote = await swap();
+
+      const result = await monitorTransactionCompletion(quote, 5_000, 1, { acceptExecuted: true });
+
+      expect(result).toMatchObject({ status: 'EXECUTED', success: true });
+      expect(result.destinationChainOperations).toHaveLength(1);
+      expect(statusPolls()).toHaveLength(2);
+    });
+
+    it('rejects with the last status on timeout', async () => {
+      server.setStatusProgression(['IN_PROGRESS']);
+      const quote = await swap();
+
+      const error = await monitorTransactionCompletion(quote, 50, 5).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionTimeoutError);
+      expect(error.lastStatus.status).toBe('IN_PROGRESS');
+      expect(error.lastError).toBeUndefined();
+    });
+
+    it('names chains with the monitoring client, not the default one', async () => {
+      server.setStatusProgression(['COMPLETED']);
+      const quote = await swap();
+      const client = getDefaultClient();
+      const elsewhere: string[] = [];
+      setDefaultClient(
+        new OneBalanceClient({
+          axiosInstance: axios.create({
+            adapter: async (config) => {
+              elsewhere.push(config.url!);
+              throw new Error('Request to the default client');
+            },
+          }),
+        }),
+      );
+
+      try {
+        await monitorTransactionCompletion(quote, 5_000, 1, { client });
+      } finally {
+        setDefaultClient(client);
+      }
+
+      expect(elsewhere).toEqual([]);
+    });
+
+    it('stops on authentication errors instead of polling until timeout', async () => {
+      const rejected = new AuthError('{"message":"Invalid API key"}', {
+        endpoint: '',
+        status: 401,
+      });
+      let polls = 0;
+      const client = {
+        fetchExecutionStatus: async () => {
+          polls++;
+          throw rejected;
+        },
+      } as unknown as OneBalanceClient;
+
+      await expect(
+        monitorTransactionCompletion({ id: '0x01' } as Quote, 5_000, 1, { client }),
+      ).rejects.toBe(rejected);
+      expect(polls).toBe(1);
+    });
+  });
+});
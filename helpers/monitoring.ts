@@ -1,84 +1,579 @@
+import { EventEmitter } from 'node:events';
 import { fetchExecutionStatus } from './onebalance';
-import { Quote, QuoteResponseV1, QuoteResponseV3, ExecutionStatusResponse } from './types';
+import { getChainRegistry } from './chains';
+import { OneBalanceClient } from './client';
+import { formatChainOperation } from './display';
+import { AuthError } from './errors';
+import { getLogger } from './logger';
+import {
+  DEFAULT_MONITOR_TIMEOUT_MS,
+  PollBackoff,
+  PollInterval,
+  PollOutcome,
+  PollTarget,
+  QuoteRoute,
+  StatusPoller,
+  estimateMonitorTimeout,
+  nextPollDelay,
+  resolvePollBackoff,
+} from './polling';
+import {
+  OperationStatus,
+  Quote,
+  QuoteResponseV1,
+  QuoteResponseV3,
+  ExecutionStatusResponse,
+  ExecutionStatusResponseV3,
+  OperationDetailsV3,
+} from './types';
 
 /**
  * Transaction monitoring utilities for OneBalance operations
  */
 
+export type TransactionMonitorEvents = {
+  /** Every status change, starting with the first status seen */
+  status: [status: ExecutionStatusResponseV3];
+  /** Each origin chain operation, once, when its hash first appears */
+  originOperation: [operation: OperationDetailsV3, status: ExecutionStatusResponseV3];
+  /** Each destination chain operation, once, when its hash first appears */
+  destinationOperation: [operation: OperationDetailsV3, status: ExecutionStatusResponseV3];
+  /** COMPLETED, or EXECUTED when the monitor accepts it */
+  completed: [status: ExecutionStatusResponseV3];
+  refunded: [status: ExecutionStatusResponseV3];
+  failed: [status: ExecutionStatusResponseV3];
+  /** Gave up waiting; carries the last status seen, if any */
+  timeout: [status: ExecutionStatusResponseV3 | undefined];
+  /** A status request failed; polling continues */
+  pollError: [error: unknown];
+};
+
 /**
- * Monitor transaction completion status with polling
+ * Monitor events as yielded by the async iterator
+ */
+export type MonitorEvent =
+  | { type: 'status' | 'completed' | 'refunded' | 'failed'; status: ExecutionStatusResponseV3 }
+  | {
+      type: 'originOperation' | 'destinationOperation';
+      operation: OperationDetailsV3;
+      status: ExecutionStatusResponseV3;
+    }
+  | { type: 'timeout'; status: ExecutionStatusResponseV3 | undefined };
+
+export interface TransactionMonitorOptions {
+  /**
+   * Maximum time to wait in milliseconds
+   * (default: estimated from the quote's route, 60 seconds for a bare quote id)
+   */
+  timeout?: number;
+  /**
+   * Time between status checks: a fixed number of milliseconds or a backoff
+   * (default: DEFAULT_POLL_BACKOFF, starting at 500 ms and backing off to 10 seconds)
+   */
+  pollInterval?: PollInterval;
+  /** Client to poll with, when no poller is given (default: the default client) */
+  client?: OneBalanceClient;
+  /** Shared polling loop, e.g. for many quotes at once (default: one per monitor) */
+  poller?: StatusPoller;
+  /**
+   * Finish successfully at EXECUTED, once the destination chain operation landed,
+   * without waiting for the origin chain operations to settle (default: false)
+   */
+  acceptExecuted?: boolean;
+}
+
+/**
+ * Final state of a monitored transaction
+ */
+export interface ExecutionResult {
+  quoteId: string;
+  status: OperationStatus;
+  /** True for COMPLETED, and for EXECUTED when accepted as success */
+  success: boolean;
+  failReason?: string;
+  /** Every origin chain operation seen while polling */
+  originChainOperations: OperationDetailsV3[];
+  /** Every destination chain operation seen while polling */
+  destinationChainOperations: OperationDetailsV3[];
+  /** Hashes of all operations, origin first */
+  hashes: string[];
+  /** Time from the start of monitoring to the final status, in milliseconds */
+  elapsedMs: number;
+}
+
+/** The transaction reached FAILED or REFUNDED */
+export class TransactionFailedError extends Error {
+  readonly result: ExecutionResult;
+
+  constructor(result: ExecutionResult) {
+    const reason = result.failReason ? `: ${result.failReason}` : '';
+    super(`Transaction ${result.status.toLowerCase()}${reason}`);
+    this.name = 'TransactionFailedError';
+    this.result = result;
+  }
+}
+
+/** No final status within the timeout; the transaction may still complete */
+export class TransactionTimeoutError extends Error {
+  readonly quoteId: string;
+  /** Last status received, if any */
+  readonly lastStatus?: ExecutionStatusResponseV3;
+  /** Error of the last status request, if it failed */
+  readonly lastError?: unknown;
+  readonly elapsedMs: number;
+
+  constructor(monitor: TransactionMonitor) {
+    const lastError = monitor.lastError;
+    const detail = lastError
+      ? ` (last status request failed: ${lastError instanceof Error ? lastError.message : String(lastError)})`
+      : '';
+    super(`Transaction monitoring timeout - check status manually${detail}`);
+    this.name = 'TransactionTimeoutError';
+    this.quoteId = monitor.quoteId;
+    this.lastStatus = monitor.lastStatus;
+    this.lastError = lastError;
+    this.elapsedMs = monitor.elapsedMs;
+  }
+}
+
+// The status endpoint answers in the V1 shape for V1 quotes; give both the V3 shape
+function toStatusV3(
+  status: ExecutionStatusResponse | ExecutionStatusResponseV3,
+): ExecutionStatusResponseV3 {
+  if ('originChainOperations' in status) {
+    return status;
+  }
+  return {
+    quoteId: status.id,
+    status: status.status,
+    user: '',
+    recipientAccountId: '',
+    originChainOperations: [],
+  };
+}
+
+const TERMINAL_EVENTS: Partial<Record<OperationStatus, 'completed' | 'refunded' | 'failed'>> = {
+  COMPLETED: 'completed',
+  REFUNDED: 'refunded',
+  FAILED: 'failed',
+};
+
+/**
+ * Polls the execution status of a quote and emits events as it progresses:
+ * status changes, origin and destination operations as their hashes appear,
+ * and a final completed, refunded, failed or timeout event. Failed status
+ * requests are reported as pollError and retried, except authentication errors,
+ * which stop the monitor and reject start().
  *
- * @param quote - The quote to monitor (contains the quote ID)
- * @param timeout - Maximum time to wait in milliseconds (default: 60 seconds)
- * @param pollInterval - Time between status checks in milliseconds (default: 2 seconds)
- * @returns Promise that resolves when transaction completes or rejects on failure/timeout
+ *   const monitor = new TransactionMonitor(quote, { timeout: 120_000 });
+ *   monitor.on('originOperation', (operation) => console.log(operation.explorerUrl));
+ *   const final = await monitor.start();
+ *
+ * or as an async iterator:
+ *
+ *   for await (const event of new TransactionMonitor(quote)) { ... }
  */
-export async function monitorTransactionCompletion(
-  quote: Quote | QuoteResponseV1 | QuoteResponseV3,
-  timeout: number = 60_000,
-  pollInterval: number = 2_000,
-): Promise<void> {
-  console.log('\n🔍 Monitoring transaction completion...');
-  console.log('Quote ID:', quote.id);
+export class TransactionMonitor extends EventEmitter<TransactionMonitorEvents> {
+  readonly quoteId: string;
+  /** Maximum time to wait in milliseconds */
+  readonly timeout: number;
+
+  private readonly backoff: PollBackoff;
+  private readonly poller: StatusPoller;
+  private readonly acceptExecuted: boolean;
+  private readonly operations = {
+    origin: new Map<string, OperationDetailsV3>(),
+    destination: new Map<string, OperationDetailsV3>(),
+  };
+  private last?: ExecutionStatusResponseV3;
+  private error?: unknown;
+  private startedAt?: number;
+  private finishedAt?: number;
+  private running?: Promise<ExecutionStatusResponseV3 | undefined>;
+  private stopped = false;
+  private delay?: number;
+  private target?: PollTarget;
+  private unwatch?: () => void;
+  private settle?: {
+    resolve: (status: ExecutionStatusResponseV3 | undefined) => void;
+    reject: (error: unknown) => void;
+  };
+
+  constructor(
+    quote: string | ({ id: string } & QuoteRoute),
+    options: TransactionMonitorOptions = {},
+  ) {
+    super();
+    this.quoteId = typeof quote === 'string' ? quote : quote.id;
+    this.timeout =
+      options.timeout ??
+      (typeof quote === 'string' ? DEFAULT_MONITOR_TIMEOUT_MS : estimateMonitorTimeout(quote));
+    this.backoff = resolvePollBackoff(options.pollInterval);
+    this.poller = options.poller ?? new StatusPoller({ client: options.client });
+    this.acceptExecuted = options.acceptExecuted ?? false;
+  }
+
+  /** Last status received, if any */
+  get lastStatus(): ExecutionStatusResponseV3 | undefined {
+    return this.last;
+  }
+
+  /** Error of the last status request, cleared by the next successful one */
+  get lastError(): unknown {
+    return this.error;
+  }
+
+  /** Time since start(), frozen once the monitor finishes */
+  get elapsedMs(): number {
+    return this.startedAt === undefined ? 0 : (this.finishedAt ?? Date.now()) - this.startedAt;
+  }
+
+  /** Whether a status counts as success under this monitor's options */
+  isSuccess(status: OperationStatus): boolean {
+    return status === 'COMPLETED' || (this.acceptExecuted && status === 'EXECUTED');
+  }
+
+  /**
+   * The last status with every operation seen so far
+   *
+   * @returns The result, or undefined before the first status
+   */
+  toResult(): ExecutionResult | undefined {
+    if (!this.last) return undefined;
 
-  const startTime = Date.now();
-  let completed = false;
+    const originChainOperations = [...this.operations.origin.values()];
+    const destinationChainOperations = [...this.operations.destination.values()];
+    return {
+      quoteId: this.quoteId,
+      status: this.last.status,
+      success: this.isSuccess(this.last.status),
+      failReason: this.last.failReason,
+      originChainOperations,
+      destinationChainOperations,
+      hashes: [...originChainOperations, ...destinationChainOperations].map((op) => op.hash),
+      elapsedMs: this.elapsedMs,
+    };
+  }
+
+  /**
+   * Starts polling; calling it again returns the same run
+   *
+   * @returns The terminal status, or the last status seen on timeout or stop
+   */
+  start(): Promise<ExecutionStatusResponseV3 | undefined> {
+    this.running ??= new Promise((resolve, reject) => {
+      this.settle = { resolve, reject };
+      this.startedAt = Date.now();
+      if (this.stopped) {
+        this.finish();
+        return;
+      }
+      this.target = {
+        quoteId: this.quoteId,
+        dueAt: this.startedAt,
+        deadline: this.startedAt + this.timeout,
+        receive: (outcome) => this.receive(outcome),
+        expire: () => {
+          this.emit('timeout', this.last);
+          this.finish();
+        },
+      };
+      this.unwatch = this.poller.watch(this.target);
+    });
+    return this.running;
+  }
+
+  /** Stops polling; a request in flight is ignored and no further events are emitted */
+  stop(): void {
+    this.stopped = true;
+    this.finish();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<MonitorEvent> {
+    const queue: MonitorEvent[] = [];
+    let notify: (() => void) | undefined;
+    let finished = false;
+
+    const push = (event: MonitorEvent) => {
+      queue.push(event);
+      notify?.();
+    };
+    const listeners = {
+      status: (status: ExecutionStatusResponseV3) => push({ type: 'status', status }),
+      originOperation: (operation: OperationDetailsV3, status: ExecutionStatusResponseV3) =>
+        push({ type: 'originOperation', operation, status }),
+      destinationOperation: (operation: OperationDetailsV3, status: ExecutionStatusResponseV3) =>
+        push({ type: 'destinationOperation', operation, status }),
+      completed: (status: ExecutionStatusResponseV3) => push({ type: 'completed', status }),
+      refunded: (status: ExecutionStatusResponseV3) => push({ type: 'refunded', status }),
+      failed: (status: ExecutionStatusResponseV3) => push({ type: 'failed', status }),
+      timeout: (status: ExecutionStatusResponseV3 | undefined) => push({ type: 'timeout', status }),
+    };
+
+    this.on('status', listeners.status);
+    this.on('originOperation', listeners.originOperation);
+    this.on('destinationOperation', listeners.destinationOperation);
+    this.on('completed', listeners.completed);
+    this.on('refunded', listeners.refunded);
+    this.on('failed', listeners.failed);
+    this.on('timeout', listeners.timeout);
+
+    const run = this.start().finally(() => {
+      finished = true;
+      notify?.();
+    });
 
-  while (!completed && Date.now() - startTime < timeout) {
     try {
-      const executionStatus = await fetchExecutionStatus(quote.id);
-      console.log(`📊 Current status: ${executionStatus.status}`);
-
-      if (executionStatus.status === 'COMPLETED') {
-        console.log('🎉 Transaction completed successfully!');
-        completed = true;
-        break;
-      } else if (executionStatus.status === 'FAILED' || executionStatus.status === 'REFUNDED') {
-        console.log(`❌ Transaction ${executionStatus.status.toLowerCase()}`);
-        throw new Error(`Transaction ${executionStatus.status.toLowerCase()}`);
+      while (queue.length > 0 || !finished) {
+        if (queue.length === 0) {
+          await new Promise<void>((resolve) => (notify = resolve));
+          notify = undefined;
+          continue;
+        }
+        yield queue.shift()!;
+      }
+      await run;
+    } finally {
+      // Breaking out of the loop means nobody is listening anymore
+      if (!finished) {
+        this.stop();
+        run.catch(() => undefined);
       }
+      this.off('status', listeners.status);
+      this.off('originOperation', listeners.originOperation);
+      this.off('destinationOperation', listeners.destinationOperation);
+      this.off('completed', listeners.completed);
+      this.off('refunded', listeners.refunded);
+      this.off('failed', listeners.failed);
+      this.off('timeout', listeners.timeout);
+    }
+  }
+
+  private receive(outcome: PollOutcome): void {
+    if (this.stopped || this.finishedAt !== undefined) return;
+
+    try {
+      if (outcome.response === undefined) {
+        this.error = outcome.error;
+        this.emit('pollError', outcome.error);
+        // Polling again will not fix a rejected API key
+        if (outcome.error instanceof AuthError) {
+          this.finish(outcome.error);
+          return;
+        }
+        this.schedule(false);
+        return;
+      }
+
+      this.error = undefined;
+      const status = toStatusV3(outcome.response);
+      const changed = this.last?.status !== status.status;
+      if (this.handle(status)) {
+        this.finish();
+        return;
+      }
+      this.schedule(changed);
     } catch (error) {
-      console.log('⚠️ Error checking transaction status:', error);
+      // A throwing listener ends the run instead of the shared polling loop
+      this.finish(error);
+    }
+  }
+
+  private schedule(changed: boolean): void {
+    this.delay = nextPollDelay(this.backoff, this.delay, changed);
+    this.target!.dueAt = Date.now() + this.delay;
+  }
+
+  private finish(error?: unknown): void {
+    if (!this.settle || this.finishedAt !== undefined) return;
+
+    this.finishedAt = Date.now();
+    this.unwatch?.();
+    if (error === undefined) {
+      this.settle.resolve(this.last);
+    } else {
+      this.settle.reject(error);
+    }
+  }
+
+  // Emits the events for a new status; true once it is terminal
+  private handle(status: ExecutionStatusResponseV3): boolean {
+    const changed = this.last?.status !== status.status;
+    this.last = status;
+
+    if (changed) {
+      this.emit('status', status);
+    }
+
+    for (const operation of status.originChainOperations) {
+      if (this.firstSeen(this.operations.origin, operation)) {
+        this.emit('originOperation', operation, status);
+      }
+    }
+    for (const operation of status.destinationChainOperations ?? []) {
+      if (this.firstSeen(this.operations.destination, operation)) {
+        this.emit('destinationOperation', operation, status);
+      }
+    }
+
+    const terminal = this.isSuccess(status.status) ? 'completed' : TERMINAL_EVENTS[status.status];
+    if (terminal) {
+      this.emit(terminal, status);
+      return true;
     }
+    return false;
+  }
+
+  private firstSeen(seen: Map<string, OperationDetailsV3>, operation: OperationDetailsV3): boolean {
+    const key = `${operation.chain}:${operation.hash}`;
+    if (seen.has(key)) return false;
+    seen.set(key, operation);
+    return true;
+  }
+}
+
+// V3 statuses carry the on-chain operations; log them with chain names and explorer links,
+// taken from the chain list of the client that polled them
+async function logOperations(
+  status: ExecutionStatusResponse | ExecutionStatusResponseV3,
+  client: OneBalanceClient | undefined,
+): Promise<void> {
+  if (!('originChainOperations' in status)) {
+    return;
+  }
+
+  const logger = getLogger();
+  const chains = await getChainRegistry({ client });
+  const groups = [
+    { label: '🔗 Origin chain transactions:', operations: status.originChainOperations },
+    { label: '🔗 Destination chain transactions:', operations: status.destinationChainOperations },
+  ];
 
-    if (!completed) {
-      console.log(`⏳ Waiting ${pollInterval / 1000} seconds before next check...`);
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  for (const { label, operations } of groups) {
+    if (operations?.length) {
+      logger.info(label);
+      operations.forEach((operation) =>
+        logger.info(`  - ${formatChainOperation(operation, chains)}`, {
+          quoteId: status.quoteId,
+          chain: operation.chain,
+          hash: operation.hash,
+        }),
+      );
     }
   }
+}
+
+// Waits for the monitor and turns its final state into a result or a typed error
+async function settle(monitor: TransactionMonitor): Promise<ExecutionResult> {
+  await monitor.start();
+  const result = monitor.toResult();
+
+  if (result?.success) {
+    return result;
+  }
+  if (result && TERMINAL_EVENTS[result.status]) {
+    throw new TransactionFailedError(result);
+  }
+  throw new TransactionTimeoutError(monitor);
+}
+
+/**
+ * Monitor transaction completion status with polling
+ *
+ * @param quote - The quote to monitor (contains the quote ID)
+ * @param timeout - Maximum time to wait in milliseconds (default: estimated from the route)
+ * @param pollInterval - Fixed milliseconds between status checks, or a backoff
+ * (default: DEFAULT_POLL_BACKOFF)
+ * @param options - Client or shared poller, and whether EXECUTED counts as success
+ * @returns The final status, failReason, operations and elapsed time. Rejects with
+ * TransactionFailedError on FAILED/REFUNDED, TransactionTimeoutError on timeout and
+ * AuthError when the API key is rejected.
+ */
+export async function monitorTransactionCompletion(
+  quote: Quote | QuoteResponseV1 | QuoteResponseV3,
+  timeout?: number,
+  pollInterval?: PollInterval,
+  options: Pick<TransactionMonitorOptions, 'client' | 'poller' | 'acceptExecuted'> = {},
+): Promise<ExecutionResult> {
+  const logger = getLogger();
+  logger.info('\n🔍 Monitoring transaction completion...', { quoteId: quote.id });
+  logger.info(`Quote ID: ${quote.id}`);
 
-  if (!completed) {
-    console.log('⏰ Transaction monitoring timeout - check status manually');
-    throw new Error('Transaction monitoring timeout - check status manually');
+  const monitor = new TransactionMonitor(quote, { ...options, timeout, pollInterval });
+  monitor.on('status', (status) =>
+    logger.info(`📊 Current status: ${status.status}`, {
+      quoteId: quote.id,
+      status: status.status,
+    }),
+  );
+  monitor.on('pollError', (error) =>
+    logger.warn('⚠️ Error checking transaction status:', { quoteId: quote.id, error }),
+  );
+
+  try {
+    const result = await settle(monitor);
+    logger.info('🎉 Transaction completed successfully!', {
+      quoteId: quote.id,
+      status: result.status,
+      elapsedMs: result.elapsedMs,
+    });
+    await logOperations(monitor.lastStatus!, options.client);
+    return result;
+  } catch (error) {
+    if (error instanceof TransactionFailedError) {
+      logger.error(`❌ ${error.message}`, {
+        quoteId: quote.id,
+        status: error.result.status,
+        failReason: error.result.failReason,
+      });
+      await logOperations(monitor.lastStatus!, options.client);
+    } else if (error instanceof TransactionTimeoutError) {
+      logger.error('⏰ Transaction monitoring timeout - check status manually', {
+        quoteId: quote.id,
+        status: error.lastStatus?.status,
+      });
+    }
+    throw error;
   }
 }
 
 /**
- * Monitor multiple transactions concurrently
+ * Monitor multiple transactions concurrently, sharing one polling loop
  *
  * @param quotes - Array of quotes to monitor
- * @param timeout - Maximum time to wait for each transaction
- * @param pollInterval - Time between status checks
- * @returns Promise that resolves when all transactions complete
+ * @param timeout - Maximum time to wait for each transaction (default: estimated per route)
+ * @param pollInterval - Fixed milliseconds between status checks, or a backoff
+ * @param options - Client to poll with and whether EXECUTED counts as success
+ * @returns Results in quote order, once all transactions complete
  */
 export async function monitorMultipleTransactions(
   quotes: Array<Quote | QuoteResponseV1 | QuoteResponseV3>,
-  timeout: number = 60_000,
-  pollInterval: number = 2_000,
-): Promise<void> {
-  console.log(`\n🔍 Monitoring ${quotes.length} transactions...`);
+  timeout?: number,
+  pollInterval?: PollInterval,
+  options: Pick<TransactionMonitorOptions, 'client' | 'acceptExecuted'> = {},
+): Promise<ExecutionResult[]> {
+  const logger = getLogger();
+  logger.info(`\n🔍 Monitoring ${quotes.length} transactions...`);
 
+  const poller = new StatusPoller({ client: options.client });
   const monitoringPromises = quotes.map((quote, index) =>
-    monitorTransactionCompletion(quote, timeout, pollInterval)
-      .then(() => console.log(`✅ Transaction ${index + 1} completed`))
+    monitorTransactionCompletion(quote, timeout, pollInterval, { ...options, poller })
+      .then((result) => {
+        logger.info(`✅ Transaction ${index + 1} completed`, { quoteId: quote.id });
+        return result;
+      })
       .catch((error) => {
-        console.error(`❌ Transaction ${index + 1} failed:`, error.message);
+        logger.error(`❌ Transaction ${index + 1} failed: ${error.message}`, {
+          quoteId: quote.id,
+          error,
+        });
         throw error;
       }),
   );
 
-  await Promise.all(monitoringPromises);
-  console.log('🎉 All transactions completed successfully!');
+  const results = await Promise.all(monitoringPromises);
+  logger.info('🎉 All transactions completed successfully!');
+  return results;
 }
 
 /**
@@ -90,48 +585,61 @@ export async function monitorMultipleTransactions(
 export async function getTransactionStatus(quoteId: string): Promise<ExecutionStatusResponse> {
   try {
     const status = await fetchExecutionStatus(quoteId);
-    console.log(`📊 Transaction ${quoteId} status: ${status.status}`);
+    getLogger().info(`📊 Transaction ${quoteId} status: ${status.status}`, {
+      quoteId,
+      status: status.status,
+    });
     return status;
   } catch (error) {
-    console.error(`Failed to get status for transaction ${quoteId}:`, error);
+    getLogger().error(`Failed to get status for transaction ${quoteId}:`, { quoteId, error });
     throw error;
   }
 }
 
 /**
- * Wait for transaction with custom retry logic
+ * Wait for transaction with custom retry logic. Timeouts are retried; a failed or
+ * refunded transaction rejects right away with TransactionFailedError.
  *
  * @param quote - The quote to monitor
- * @param options - Monitoring options
- * @returns Promise that resolves when transaction completes
+ * @param options - Monitoring options; onStatusUpdate is called on every status change
+ * @returns The final execution result
  */
 export async function waitForTransaction(
   quote: Quote | QuoteResponseV1 | QuoteResponseV3,
   options?: {
     timeout?: number;
-    pollInterval?: number;
+    pollInterval?: PollInterval;
     maxRetries?: number;
+    acceptExecuted?: boolean;
     onStatusUpdate?: (status: string) => void;
   },
-): Promise<void> {
-  const { timeout = 60_000, pollInterval = 2_000, maxRetries = 3, onStatusUpdate } = options || {};
+): Promise<ExecutionResult> {
+  const { timeout, pollInterval, maxRetries = 3, acceptExecuted, onStatusUpdate } = options || {};
+  const retryDelay = resolvePollBackoff(pollInterval).initialMs;
 
-  let retries = 0;
+  for (let attempt = 1; ; attempt++) {
+    const monitor = new TransactionMonitor(quote, { timeout, pollInterval, acceptExecuted });
+    if (onStatusUpdate) {
+      monitor.on('status', (status) => onStatusUpdate(status.status));
+    }
 
-  while (retries < maxRetries) {
     try {
-      await monitorTransactionCompletion(quote, timeout, pollInterval);
-      return; // Success, exit
+      return await settle(monitor);
     } catch (error) {
-      retries++;
-      console.log(`⚠️ Monitoring attempt ${retries} failed:`, (error as Error).message);
+      if (!(error instanceof TransactionTimeoutError)) {
+        throw error;
+      }
 
-      if (retries >= maxRetries) {
+      getLogger().warn(`⚠️ Monitoring attempt ${attempt} failed: ${error.message}`, {
+        quoteId: quote.id,
+        error,
+      });
+      if (attempt >= maxRetries) {
         throw new Error(`Failed to monitor transaction after ${maxRetries} attempts`);
       }
 
-      console.log(`🔄 Retrying in ${pollInterval / 1000} seconds...`);
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      getLogger().info(`🔄 Retrying in ${retryDelay / 1000} seconds...`);
+      await new Promise((resolve) => setTimeout(resolve, retryDelay));
     }
   }
 }
@@ -5,17 +5,14 @@ import {
   Quote,
   BundleResponse,
   HistoryResponse,
+  HistoryRequestV3,
+  HistoryResponseV3,
   ExecutionStatusResponse,
-  Hex,
-  PredictAddressRoleBasedRequest,
-  PredictAddressStandardRequest,
-  PredictAddressResponse,
   QuoteRequestV1,
   QuoteResponseV1,
   QuoteRequestV3,
   QuoteResponseV3,
   AggregatedBalanceResponseV2,
-  AggregatedBalanceRequestV3,
   AggregatedBalanceResponseV3,
   AggregatedAsset,
   AggregatedAssetBalance,
@@ -25,82 +22,90 @@ import {
   CallRequestV3,
   CallQuoteResponseV3,
 } from './types';
-import { apiPost, apiGet } from './api';
+import { getDefaultClient } from './api';
+import { RequestOptions } from './client';
 
-// OneBalance API methods
+// OneBalance API methods (thin wrappers over the default OneBalanceClient)
 export async function predictAddress(
   sessionAddress: string,
   adminAddress: string,
+  options?: RequestOptions,
 ): Promise<string> {
-  const response = await apiPost<PredictAddressRoleBasedRequest, PredictAddressResponse>(
-    '/api/account/predict-address',
-    {
-      sessionAddress: sessionAddress as Hex,
-      adminAddress: adminAddress as Hex,
-    },
-  );
-
-  return response.predictedAddress;
+  return getDefaultClient().predictAddress(sessionAddress, adminAddress, options);
 }
 
-export async function predictStandardAddress(type: string, signerAddress: string): Promise<string> {
-  const response = await apiPost<PredictAddressStandardRequest, PredictAddressResponse>(
-    '/api/account/predict-address',
-    {
-      type,
-      signerAddress: signerAddress as Hex,
-    },
-  );
-
-  return response.predictedAddress;
+export async function predictStandardAddress(
+  type: string,
+  signerAddress: string,
+  options?: RequestOptions,
+): Promise<string> {
+  return getDefaultClient().predictStandardAddress(type, signerAddress, options);
 }
 
-export async function prepareCallQuote(quoteRequest: PrepareCallRequest): Promise<TargetCallQuote> {
-  return apiPost<PrepareCallRequest, TargetCallQuote>(
-    '/api/quotes/prepare-call-quote',
-    quoteRequest,
-  );
+export async function prepareCallQuote(
+  quoteRequest: PrepareCallRequest,
+  options?: RequestOptions,
+): Promise<TargetCallQuote> {
+  return getDefaultClient().prepareCallQuote(quoteRequest, options);
 }
 
-export async function fetchCallQuote(callRequest: CallRequest): Promise<Quote> {
-  return apiPost<CallRequest, Quote>('/api/quotes/call-quote', callRequest);
+export async function fetchCallQuote(
+  callRequest: CallRequest,
+  options?: RequestOptions,
+): Promise<Quote> {
+  return getDefaultClient().fetchCallQuote(callRequest, options);
 }
 
-export async function getQuote(quoteRequest: QuoteRequestV1): Promise<QuoteResponseV1> {
-  return apiPost<QuoteRequestV1, QuoteResponseV1>('/api/v1/quote', quoteRequest);
+export async function getQuote(
+  quoteRequest: QuoteRequestV1,
+  options?: RequestOptions,
+): Promise<QuoteResponseV1> {
+  return getDefaultClient().getQuote(quoteRequest, options);
 }
 
-export async function executeQuote(quote: QuoteResponseV1): Promise<BundleResponse> {
-  return apiPost<QuoteResponseV1, BundleResponse>('/api/quotes/execute-quote', quote);
+export async function executeQuote(
+  quote: QuoteResponseV1,
+  options?: RequestOptions,
+): Promise<BundleResponse> {
+  return getDefaultClient().executeQuote(quote, options);
 }
 
 // V3 quote endpoint that supports Solana and multi-account operations
-export async function getQuoteV3(quoteRequest: QuoteRequestV3): Promise<QuoteResponseV3> {
-  return apiPost<QuoteRequestV3, QuoteResponseV3>('/api/v3/quote', quoteRequest);
+export async function getQuoteV3(
+  quoteRequest: QuoteRequestV3,
+  options?: RequestOptions,
+): Promise<QuoteResponseV3> {
+  return getDefaultClient().getQuoteV3(quoteRequest, options);
+}
+
+// V3 execute quote endpoint that supports Solana and multi-account operations.
+// With `retry`, a failed submission is resent only if the backend has no status for the quote
+export async function executeQuoteV3(
+  signedQuote: QuoteResponseV3,
+  options?: RequestOptions,
+): Promise<BundleResponse> {
+  return getDefaultClient().executeQuoteV3(signedQuote, options);
 }
 
-// V3 execute quote endpoint that supports Solana and multi-account operations
-export async function executeQuoteV3(signedQuote: QuoteResponseV3): Promise<BundleResponse> {
-  return apiPost<QuoteResponseV3, BundleResponse>('/api/v3/quote/execute-quote', signedQuote);
+export async function fetchTransactionHistory(
+  address: string,
+  options?: RequestOptions,
+): Promise<HistoryResponse> {
+  return getDefaultClient().fetchTransactionHistory(address, options);
 }
 
-export async function fetchTransactionHistory(address: string): Promise<HistoryResponse> {
-  return apiGet<{ user: string; limit: number; sortBy: string }, HistoryResponse>(
-    '/api/status/get-tx-history',
-    {
-      user: address,
-      limit: 10,
-      sortBy: 'createdAt',
-    },
-  );
+export async function fetchTransactionHistoryV3(
+  request: HistoryRequestV3,
+  options?: RequestOptions,
+): Promise<HistoryResponseV3> {
+  return getDefaultClient().fetchTransactionHistoryV3(request, options);
 }
 
-export async function fetchBalances(address: string): Promise<AggregatedBalanceResponseV2> {
-  const response = await apiGet<{ address: string }, AggregatedBalanceResponseV2>(
-    '/api/v2/balances/aggregated-balance',
-    { address },
-  );
-  return response;
+export async function fetchBalances(
+  address: string,
+  options?: RequestOptions,
+): Promise<AggregatedBalanceResponseV2> {
+  return getDefaultClient().fetchBalances(address, options);
 }
 
 // V3 aggregated balance that supports Solana accounts
@@ -108,57 +113,46 @@ export async function fetchAggregatedBalanceV3(
   account: string,
   aggregatedAssetId?: string,
   assetId?: string,
+  options?: RequestOptions,
 ): Promise<AggregatedBalanceResponseV3> {
-  const params: AggregatedBalanceRequestV3 = { account };
-
-  if (aggregatedAssetId) {
-    params.aggregatedAssetId = aggregatedAssetId;
-  }
-
-  if (assetId) {
-    params.assetId = assetId;
-  }
-
-  const response = await apiGet<AggregatedBalanceRequestV3, AggregatedBalanceResponseV3>(
-    '/api/v3/balances/aggregated-balance',
-    params,
-  );
-  return response;
+  return getDefaultClient().fetchAggregatedBalanceV3(account, aggregatedAssetId, assetId, options);
 }
 
 export async function fetchUSDCBalance(
   address: string,
+  options?: RequestOptions,
 ): Promise<AggregatedAssetBalance | undefined> {
-  const response = await fetchBalances(address);
-  return response.balanceByAggregatedAsset.find((asset) => asset.aggregatedAssetId === 'ob:usdc');
+  return getDefaultClient().fetchUSDCBalance(address, options);
 }
 
-export async function fetchExecutionStatus(quoteId: string): Promise<ExecutionStatusResponse> {
-  return apiGet<{ quoteId: string }, ExecutionStatusResponse>('/api/status/get-execution-status', {
-    quoteId,
-  });
+export async function fetchExecutionStatus(
+  quoteId: string,
+  options?: RequestOptions,
+): Promise<ExecutionStatusResponse> {
+  return getDefaultClient().fetchExecutionStatus(quoteId, options);
 }
 
 // List all aggregated assets
-export async function listAggregatedAssets(): Promise<AggregatedAsset[]> {
-  return apiGet<{}, AggregatedAsset[]>('/api/assets/list', {});
+export async function listAggregatedAssets(options?: RequestOptions): Promise<AggregatedAsset[]> {
+  return getDefaultClient().listAggregatedAssets(options);
 }
 
 // List supported chains
-export async function listSupportedChains(): Promise<SupportedChain[]> {
-  return apiGet<{}, SupportedChain[]>('/api/chains/supported-list', {});
+export async function listSupportedChains(options?: RequestOptions): Promise<SupportedChain[]> {
+  return getDefaultClient().listSupportedChains(options);
 }
 
 // V3 calldata endpoints
 export async function prepareCallQuoteV3(
   quoteRequest: PrepareCallRequestV3,
+  options?: RequestOptions,
 ): Promise<TargetCallQuoteV3> {
-  return apiPost<PrepareCallRequestV3, TargetCallQuoteV3>(
-    '/api/v3/quote/prepare-call-quote',
-    quoteRequest,
-  );
+  return getDefaultClient().prepareCallQuoteV3(quoteRequest, options);
 }
 
-export async function fetchCallQuoteV3(callRequest: CallRequestV3): Promise<CallQuoteResponseV3> {
-  return apiPost<CallRequestV3, CallQuoteResponseV3>('/api/v3/quote/call-quote', callRequest);
+export async function fetchCallQuoteV3(
+  callRequest: CallRequestV3,
+  options?: RequestOptions,
+): Promise<CallQuoteResponseV3> {
+  return getDefaultClient().fetchCallQuoteV3(callRequest, options);
 }
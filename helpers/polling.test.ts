@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getDefaultClient, setDefaultClient } from './api';
+import { OneBalanceClient } from './client';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { TransactionMonitor, monitorMultipleTransactions } from './monitoring';
+import {
+  DEFAULT_MONITOR_TIMEOUT_MS,
+  DEFAULT_POLL_BACKOFF,
+  StatusPoller,
+  estimateMonitorTimeout,
+  nextPollDelay,
+  resolvePollBackoff,
+} from './polling';
+import { ExecutionStatusResponseV3, OperationStatus, Quote } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETHEREUM_USDC = 'eip155:1/erc20:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const SOLANA_USDC =
+  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const route = (origins: string[], destination: string) => ({
+  originChainsOperations: origins.map((assetType) => ({ assetType })),
+  destinationToken: { assetType: destination },
+});
+
+// Client whose quotes move through the given statuses, one step per request
+function progressingClient(statuses: OperationStatus[]) {
+  const polls = new Map<string, number>();
+  const client = {
+    fetchExecutionStatus: async (quoteId: string): Promise<ExecutionStatusResponseV3> => {
+      const count = polls.get(quoteId) ?? 0;
+      polls.set(quoteId, count + 1);
+      return {
+        quoteId,
+        status: statuses[Math.min(count, statuses.length - 1)],
+        user: '0x2222222222222222222222222222222222222222',
+        recipientAccountId: '',
+        originChainOperations: [],
+      };
+    },
+  } as unknown as OneBalanceClient;
+  return { client, polls };
+}
+
+describe('poll backoff', () => {
+  it('starts at the initial delay and grows up to the maximum while nothing changes', () => {
+    const backoff = resolvePollBackoff({ initialMs: 100, maxMs: 300, factor: 2 });
+    const delays: number[] = [];
+    let delay: number | undefined;
+    for (let i = 0; i < 4; i++) {
+      delay = nextPollDelay(backoff, delay, false);
+      delays.push(delay);
+    }
+
+    expect(delays).toEqual([100, 200, 300, 300]);
+    expect(nextPollDelay(backoff, 300, true)).toBe(100);
+  });
+
+  it('polls at a fixed rate for a number and fills in defaults otherwise', () => {
+    expect(resolvePollBackoff(2_000)).toEqual({ initialMs: 2_000, maxMs: 2_000, factor: 1 });
+    expect(resolvePollBackoff()).toEqual(DEFAULT_POLL_BACKOFF);
+    expect(resolvePollBackoff({ maxMs: 5_000 })).toEqual({ ...DEFAULT_POLL_BACKOFF, maxMs: 5_000 });
+  });
+});
+
+describe('estimateMonitorTimeout', () => {
+  it('allows confirmations on the slowest chain on top of the route window', () => {
+    expect(estimateMonitorTimeout(route([ARBITRUM_USDC], ARBITRUM_USDC))).toBe(62_500);
+    expect(estimateMonitorTimeout(route([BASE_USDC], ARBITRUM_USDC))).toBe(140_000);
+    expect(estimateMonitorTimeout(route([ETHEREUM_USDC], ARBITRUM_USDC))).toBe(240_000);
+  });
+
+  it('gives cross-VM routes the longest window', () => {
+    expect(estimateMonitorTimeout(route([SOLANA_USDC], ARBITRUM_USDC))).toBe(184_000);
+  });
+
+  it('falls back to the default without a route', () => {
+    expect(estimateMonitorTimeout({})).toBe(DEFAULT_MONITOR_TIMEOUT_MS);
+    expect(new TransactionMonitor('0x01').timeout).toBe(DEFAULT_MONITOR_TIMEOUT_MS);
+  });
+});
+
+describe('StatusPoller', () => {
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+
+  beforeAll(() => setLogger(silentLogger));
+
+  afterAll(() => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+  });
+
+  it('fetches a quote watched by several monitors once per round', async () => {
+    const { client, polls } = progressingClient(['PENDING', 'IN_PROGRESS', 'COMPLETED']);
+    const poller = new StatusPoller({ client });
+    const monitors = [1, 2, 3].map(
+      () => new TransactionMonitor('0x01', { poller, pollInterval: 1, timeout: 5_000 }),
+    );
+
+    const finals = await Promise.all(monitors.map((monitor) => monitor.start()));
+
+    expect(finals.map((final) => final?.status)).toEqual(['COMPLETED', 'COMPLETED', 'COMPLETED']);
+    expect(polls.get('0x01')).toBe(3);
+    expect(poller.requests).toBe(3);
+    expect(poller.size).toBe(0);
+  });
+
+  it('shares one loop across the quotes of monitorMultipleTransactions', async () => {
+    const { client, polls } = progressingClient(['IN_PROGRESS', 'COMPLETED']);
+    // Operations are logged with chain names from the default client's registry
+    setDefaultClient(client);
+    const quotes = ['0x01', '0x02', '0x01'].map((id) => ({ id }) as Quote);
+
+    const results = await monitorMultipleTransactions(quotes, 5_000, 1, { client });
+
+    expect(results.map((result) => [result.quoteId, result.status])).toEqual([
+      ['0x01', 'COMPLETED'],
+      ['0x02', 'COMPLETED'],
+      ['0x01', 'COMPLETED'],
+    ]);
+    expect(Object.fromEntries(polls)).toEqual({ '0x01': 2, '0x02': 2 });
+  });
+
+  it('backs off while the status stays the same', async () => {
+    const { client, polls } = progressingClient(['IN_PROGRESS']);
+    const monitor = new TransactionMonitor('0x01', {
+      poller: new StatusPoller({ client, coalesceMs: 0 }),
+      pollInterval: { initialMs: 20, maxMs: 1_000, factor: 4 },
+      timeout: 250,
+    });
+
+    await monitor.start();
+
+    // Requests at 0, 20, 100 and 420 ms; the last one falls after the timeout
+    expect(polls.get('0x01')).toBe(3);
+  });
+});
@@ -0,0 +1,267 @@
+import { getDefaultClient } from './api';
+import { formatChainId, getChainOf } from './caip';
+import { ChainRegistry } from './chains';
+import { OneBalanceClient } from './client';
+import { ExecutionStatusResponse, ExecutionStatusResponseV3 } from './types';
+
+/**
+ * Execution status polling: backoff schedules, route-based timeouts and a shared
+ * polling loop for many quotes
+ */
+
+/**
+ * Exponential backoff between status requests
+ */
+export interface PollBackoff {
+  /** Delay after the first request and after every status change, in milliseconds */
+  initialMs: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxMs: number;
+  /** Multiplier applied to the delay while the status stays the same */
+  factor: number;
+}
+
+/**
+ * Poll interval option: a fixed number of milliseconds, or a (partial) backoff
+ */
+export type PollInterval = number | Partial<PollBackoff>;
+
+export const DEFAULT_POLL_BACKOFF: PollBackoff = {
+  initialMs: 500,
+  maxMs: 10_000,
+  factor: 1.5,
+};
+
+/**
+ * Resolve a poll interval option into a backoff; a number polls at a fixed rate
+ *
+ * @param interval - Fixed interval or backoff overrides (default: DEFAULT_POLL_BACKOFF)
+ * @returns The backoff to poll with
+ */
+export function resolvePollBackoff(interval?: PollInterval): PollBackoff {
+  if (typeof interval === 'number') {
+    return { initialMs: interval, maxMs: interval, factor: 1 };
+  }
+  return { ...DEFAULT_POLL_BACKOFF, ...interval };
+}
+
+/**
+ * The next delay of a backoff
+ *
+ * @param backoff - Backoff schedule
+ * @param previousMs - Previous delay, undefined before the first one
+ * @param changed - Whether the last response changed the status
+ * @returns Delay before the next request, in milliseconds
+ */
+export function nextPollDelay(
+  backoff: PollBackoff,
+  previousMs: number | undefined,
+  changed: boolean,
+): number {
+  if (previousMs === undefined || changed) {
+    return backoff.initialMs;
+  }
+  return Math.min(previousMs * backoff.factor, backoff.maxMs);
+}
+
+/**
+ * The route parts of a quote that decide how long it takes to settle
+ */
+export interface QuoteRoute {
+  originChainsOperations?: Array<{ assetType: string }>;
+  destinationToken?: { assetType: string };
+}
+
+export const DEFAULT_MONITOR_TIMEOUT_MS = 60_000;
+
+// Base monitoring window by route; bridging between VMs (e.g. Solana → EVM) takes longest
+const ROUTE_TIMEOUT_MS = {
+  sameChain: 60_000,
+  crossChain: 120_000,
+  crossVm: 180_000,
+};
+
+// Blocks of the slowest chain on the route to allow for confirmations
+const CONFIRMATION_BLOCKS = 10;
+
+/**
+ * How long to monitor a quote before giving up, from the chains on its route:
+ * a base window for same-chain, cross-chain and cross-VM routes, plus
+ * confirmation time on the slowest chain
+ *
+ * @param quote - Quote with origin operations and destination token
+ * @param chains - Registry with block times (default: the bundled chain metadata)
+ * @returns Timeout in milliseconds; DEFAULT_MONITOR_TIMEOUT_MS when the route is unknown
+ */
+export function estimateMonitorTimeout(
+  quote: QuoteRoute,
+  chains: ChainRegistry = new ChainRegistry(),
+): number {
+  const assetTypes = [
+    ...(quote.originChainsOperations ?? []).map((operation) => operation.assetType),
+    ...(quote.destinationToken ? [quote.destinationToken.assetType] : []),
+  ];
+  const routeChains = [
+    ...new Set(
+      assetTypes.flatMap((assetType) => {
+        const chain = getChainOf(assetType);
+        return chain ? [formatChainId(chain)] : [];
+      }),
+    ),
+  ];
+  if (routeChains.length === 0) {
+    return DEFAULT_MONITOR_TIMEOUT_MS;
+  }
+
+  const namespaces = new Set(routeChains.map((chain) => chain.split(':')[0]));
+  const base =
+    namespaces.size > 1
+      ? ROUTE_TIMEOUT_MS.crossVm
+      : routeChains.length > 1
+        ? ROUTE_TIMEOUT_MS.crossChain
+        : ROUTE_TIMEOUT_MS.sameChain;
+  const slowestBlockMs = Math.max(
+    ...routeChains.map((chain) => chains.get(chain)?.blockTimeMs ?? 0),
+  );
+
+  return base + CONFIRMATION_BLOCKS * slowestBlockMs;
+}
+
+/**
+ * Outcome of one status request: the response, or the error it failed with
+ */
+export type PollOutcome =
+  | { response: ExecutionStatusResponse | ExecutionStatusResponseV3; error?: undefined }
+  | { response?: undefined; error: unknown };
+
+/**
+ * A quote watched by a StatusPoller. The poller reads dueAt and deadline before each
+ * round, so a target reschedules itself by updating dueAt in receive().
+ */
+export interface PollTarget {
+  readonly quoteId: string;
+  /** When the next request is due, in epoch milliseconds */
+  dueAt: number;
+  /** When to give up, in epoch milliseconds */
+  readonly deadline: number;
+  /** Called with the outcome of each request made for the target */
+  receive(outcome: PollOutcome): void;
+  /** Called once the deadline passes; the target is no longer watched */
+  expire(): void;
+}
+
+export interface StatusPollerOptions {
+  /** Client to poll with (default: the default client) */
+  client?: OneBalanceClient;
+  /** Targets due within this window are fetched in the same round (default: 250 ms) */
+  coalesceMs?: number;
+}
+
+/**
+ * One polling loop for any number of quotes. Each round fetches every due quote once,
+ * however many targets watch it, then sleeps until the next one is due.
+ */
+export class StatusPoller {
+  private readonly client?: OneBalanceClient;
+  private readonly coalesceMs: number;
+  private readonly targets = new Set<PollTarget>();
+  private looping = false;
+  private timer?: NodeJS.Timeout;
+  private wake?: () => void;
+  private requestCount = 0;
+
+  constructor(options: StatusPollerOptions = {}) {
+    this.client = options.client;
+    this.coalesceMs = options.coalesceMs ?? 250;
+  }
+
+  /** Status requests made so far */
+  get requests(): number {
+    return this.requestCount;
+  }
+
+  /** Targets currently watched */
+  get size(): number {
+    return this.targets.size;
+  }
+
+  /**
+   * Watches a target until it expires or is unwatched
+   *
+   * @param target - Quote to poll and the callbacks for its outcomes
+   * @returns Function that stops watching the target
+   */
+  watch(target: PollTarget): () => void {
+    this.targets.add(target);
+    this.interrupt();
+    if (!this.looping) {
+      this.looping = true;
+      void this.loop();
+    }
+
+    return () => {
+      this.targets.delete(target);
+      this.interrupt();
+    };
+  }
+
+  private async loop(): Promise<void> {
+    try {
+      while (this.targets.size > 0) {
+        await this.round();
+        if (this.targets.size === 0) break;
+
+        const wakeAt = Math.min(
+          ...[...this.targets].map((target) => Math.min(target.dueAt, target.deadline)),
+        );
+        await this.sleep(wakeAt - Date.now());
+      }
+    } finally {
+      this.looping = false;
+    }
+  }
+
+  private async round(): Promise<void> {
+    const now = Date.now();
+    const due = new Map<string, PollTarget[]>();
+
+    for (const target of this.targets) {
+      if (now >= target.deadline) {
+        this.targets.delete(target);
+        target.expire();
+      } else if (target.dueAt <= now + this.coalesceMs) {
+        due.set(target.quoteId, [...(due.get(target.quoteId) ?? []), target]);
+      }
+    }
+
+    const client = this.client ?? getDefaultClient();
+    await Promise.all(
+      [...due].map(async ([quoteId, targets]) => {
+        this.requestCount++;
+        let outcome: PollOutcome;
+        try {
+          outcome = { response: await client.fetchExecutionStatus(quoteId) };
+        } catch (error) {
+          outcome = { error };
+        }
+        // Targets unwatched while the request was in flight get nothing
+        for (const target of targets) {
+          if (this.targets.has(target)) target.receive(outcome);
+        }
+      }),
+    );
+  }
+
+  // Cut the current sleep short so new or removed targets are picked up
+  private interrupt(): void {
+    clearTimeout(this.timer);
+    this.wake?.();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.wake = resolve;
+      this.timer = setTimeout(resolve, Math.max(0, ms));
+    });
+  }
+}
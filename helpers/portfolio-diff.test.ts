@@ -0,0 +1,219 @@
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { getDefaultClient, setDefaultClient } from './api';
+import { getAssetRegistry } from './assets';
+import { OneBalanceClient } from './client';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { executeQuoteV3, getQuoteV3 } from './onebalance';
+import { getPortfolio } from './portfolio';
+import { diffPortfolios, explainPortfolioChange } from './portfolio-diff';
+import { signAllOperations } from './signing';
+import { ContractAccountType, RoleBasedAccount } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ARBITRUM_ETH = 'eip155:42161/slip44:60';
+const BSC_USDC = 'eip155:56/erc20:0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d';
+
+const privateKey = generatePrivateKey();
+const signer = privateKeyToAccount(privateKey);
+
+const account: RoleBasedAccount = {
+  type: 'role-based',
+  sessionAddress: signer.address,
+  adminAddress: signer.address,
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+describe('portfolio diff', () => {
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    const client = new OneBalanceClient({ baseUrl: await server.start() });
+    setDefaultClient(client);
+    await getAssetRegistry({ client, cacheFile: false });
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setStatusProgression(['COMPLETED']);
+    server.setBalance(BASE_USDC, 10_000_000n, 10);
+  });
+
+  // Consolidates 10 USDC from Base to Arbitrum (or another chain) and returns the executed quote
+  async function consolidate(toAssetId = ARBITRUM_USDC) {
+    const quote = await getQuoteV3({
+      from: { accounts: [account], asset: { assetId: 'ob:usdc' }, amount: '10000000' },
+      to: { asset: { assetId: toAssetId } },
+    });
+    const signed = await signAllOperations(
+      quote,
+      { privateKey, address: signer.address },
+      null,
+      null,
+      ContractAccountType.RoleBased,
+    );
+    await executeQuoteV3(signed);
+    return quote;
+  }
+
+  describe('diffPortfolios', () => {
+    it('reports per-asset and per-chain deltas', async () => {
+      const before = await getPortfolio([account]);
+      server.setBalance(BASE_USDC, 0n, 0);
+      server.setBalance(ARBITRUM_USDC, 9_500_000n, 9.5);
+      const after = await getPortfolio([account]);
+
+      const diff = diffPortfolios(before, after);
+
+      expect(diff.fiatDelta).toBe(-0.5);
+      expect(diff.assets).toHaveLength(1);
+      expect(diff.assets[0]).toMatchObject({
+        assetId: 'ob:usdc',
+        before: '10000000',
+        after: '9500000',
+        delta: '-500000',
+        formattedDelta: '-0.5',
+      });
+      expect(diff.assets[0].chains.map((chain) => [chain.chainName, chain.formattedDelta])).toEqual(
+        [
+          ['Base', '-10'],
+          ['Arbitrum', '9.5'],
+        ],
+      );
+    });
+
+    it('includes assets that appeared or disappeared', async () => {
+      const before = await getPortfolio([account]);
+      server.setBalance(ARBITRUM_ETH, 10n ** 16n, 30);
+      const after = await getPortfolio([account]);
+
+      expect(diffPortfolios(before, after).assets).toMatchObject([
+        { assetId: 'ob:eth', before: '0', after: '10000000000000000', fiatDelta: 30 },
+      ]);
+      expect(diffPortfolios(after, before).assets[0]).toMatchObject({
+        delta: '-10000000000000000',
+        fiatDelta: -30,
+      });
+    });
+
+    it('is empty when nothing changed', async () => {
+      const snapshot = await getPortfolio([account]);
+
+      expect(diffPortfolios(snapshot, snapshot).assets).toEqual([]);
+    });
+  });
+
+  describe('explainPortfolioChange', () => {
+    it('checks what the quote promised against what moved, net of fees', async () => {
+      const before = await getPortfolio([account]);
+      const quote = await consolidate();
+      server.setBalance(BASE_USDC, 0n, 0);
+      server.setBalance(ARBITRUM_USDC, 10_000_000n, 9.99);
+      server.setBalance(ARBITRUM_ETH, 10n ** 16n, 30);
+      const after = await getPortfolio([account]);
+
+      const report = await explainPortfolioChange(before, after, [quote]);
+
+      expect(report.quotes).toHaveLength(1);
+      expect(report.quotes[0]).toMatchObject({
+        quoteId: quote.id,
+        status: 'COMPLETED',
+        type: 'SWAP',
+        sent: {
+          assetId: 'ob:usdc',
+          assetTypes: [BASE_USDC],
+          expected: '10000000',
+          observed: '10000000',
+        },
+        received: { assetTypes: [ARBITRUM_USDC], expected: '10000000', observed: '10000000' },
+        feesUSD: 0.01,
+        fulfilled: true,
+      });
+      expect(report.expectedFiatDelta).toBe(-0.01);
+      // The ETH that arrived is not explained by the quote
+      expect(report.unattributed.map((change) => change.assetType)).toEqual([ARBITRUM_ETH]);
+      expect(report.unexplainedFiatDelta).toBeCloseTo(30);
+    });
+
+    it('falls back to the promised fiat values when the quote has no fees', async () => {
+      const before = await getPortfolio([account]);
+      const quote = await consolidate();
+      delete quote.fees;
+      quote.destinationToken = { ...quote.destinationToken!, fiatValue: '9.98' };
+      server.setBalance(BASE_USDC, 0n, 0);
+      server.setBalance(ARBITRUM_USDC, 10_000_000n, 9.98);
+      const after = await getPortfolio([account]);
+
+      const report = await explainPortfolioChange(before, after, [quote]);
+
+      expect(report.quotes[0].feesUSD).toBeUndefined();
+      expect(report.expectedFiatDelta).toBeCloseTo(-0.02);
+      expect(report.unexplainedFiatDelta).toBeCloseTo(0);
+    });
+
+    it('compares the received amount in the native decimals of the destination', async () => {
+      const before = await getPortfolio([account]);
+      const quote = await consolidate(BSC_USDC);
+      // BSC USDC has 18 decimals, the aggregated asset 6
+      quote.destinationToken = { ...quote.destinationToken!, amount: '9990000000000000000' };
+      server.setBalance(BASE_USDC, 0n, 0);
+      server.setBalance(BSC_USDC, 10n ** 19n, 10);
+      const after = await getPortfolio([account]);
+
+      const [attribution] = (await explainPortfolioChange(before, after, [quote])).quotes;
+
+      expect(attribution.sent).toMatchObject({ decimals: 6, observed: '10000000' });
+      expect(attribution.received).toMatchObject({
+        assetTypes: [BSC_USDC],
+        decimals: 18,
+        expected: '9990000000000000000',
+        observed: '10000000000000000000',
+      });
+      expect(attribution.fulfilled).toBe(true);
+    });
+
+    it('flags quotes that delivered less than promised', async () => {
+      const before = await getPortfolio([account]);
+      const quote = await consolidate();
+      server.setBalance(BASE_USDC, 0n, 0);
+      server.setBalance(ARBITRUM_USDC, 5_000_000n, 5);
+      const after = await getPortfolio([account]);
+
+      const [attribution] = (await explainPortfolioChange(before, after, [quote.id])).quotes;
+
+      expect(attribution.received?.observed).toBe('5000000');
+      expect(attribution.feesUSD).toBeUndefined();
+      expect(attribution.fulfilled).toBe(false);
+    });
+
+    it('leaves quotes that have not executed unchecked', async () => {
+      server.setStatusProgression(['PENDING']);
+      const before = await getPortfolio([account]);
+      const quote = await consolidate();
+
+      const [attribution] = (await explainPortfolioChange(before, before, [quote])).quotes;
+
+      expect(attribution.status).toBe('PENDING');
+      expect(attribution.fulfilled).toBeUndefined();
+    });
+
+    it('rejects quote ids missing from the history', async () => {
+      const snapshot = await getPortfolio([account]);
+
+      await expect(explainPortfolioChange(snapshot, snapshot, ['0xunknown'])).rejects.toThrow(
+        'Quote 0xunknown not found in the transaction history',
+      );
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { formatUnits } from 'viem';
+import { getAssetRegistry } from './assets';
+import { normalizeDecimals } from './balance';
+import { parseAccountId } from './caip';
+import { RequestOptions } from './client';
+import { iterateHistory } from './history';
+import { PortfolioChainBalance, PortfolioSnapshot } from './portfolio';
+import {
+  DestinationTokenInfo,
+  HistoryTransactionV3,
+  OperationStatus,
+  OriginTokenInfo,
+  QuoteResponseV3,
+  TransactionType,
+} from './types';
+
+/**
+ * Balance changes between two portfolio snapshots, attributed to the quotes that ran in between
+ */
+
+export interface ChainChange {
+  assetType: string;
+  chainId: string;
+  chainName: string;
+  decimals?: number;
+  /** Signed change in the smallest unit */
+  delta: string;
+  /** Undefined when the asset's decimals are unknown */
+  formattedDelta?: string;
+  fiatDelta: number;
+}
+
+export interface AssetChange {
+  /** Aggregated asset id (ob:usdc) or chain-specific asset type */
+  assetId: string;
+  symbol: string;
+  decimals?: number;
+  /** Balances in the smallest unit */
+  before: string;
+  after: string;
+  /** Signed change in the smallest unit */
+  delta: string;
+  formattedDelta?: string;
+  fiatDelta: number;
+  /** Chains whose balance changed */
+  chains: ChainChange[];
+}
+
+export interface PortfolioDiff {
+  /** takenAt of the two snapshots */
+  from: string;
+  to: string;
+  fiatDelta: number;
+  /** Assets whose balance changed, largest fiat change first */
+  assets: AssetChange[];
+}
+
+/**
+ * One side of a quote: what it promised to take or deliver, and what the snapshots show
+ */
+export interface QuoteLeg {
+  /** Asset id named by the quote, aggregated or chain-specific */
+  assetId: string;
+  /** Chain-specific assets the leg moves */
+  assetTypes: string[];
+  /** Promised amount, in the smallest unit of `decimals` */
+  expected: string;
+  /** Lowest acceptable amount (destination only) */
+  minimum?: string;
+  /**
+   * Precision of the amounts: the source asset's for the sent leg, the delivered asset type's
+   * (its native decimals) for the received leg. Undefined when unknown.
+   */
+  decimals?: number;
+  /**
+   * Amount moved across assetTypes between the snapshots, in the same unit.
+   * Undefined when decimals are unknown or the recipient is not part of the snapshots.
+   */
+  observed?: string;
+  fiatValue: number;
+}
+
+export interface QuoteAttribution {
+  quoteId: string;
+  /** Undefined when the quote is not in the transaction history since the first snapshot */
+  status?: OperationStatus;
+  type?: TransactionType;
+  sent?: QuoteLeg;
+  received?: QuoteLeg;
+  /** fees.cumulativeUSD, known when the quote response was passed in */
+  feesUSD?: number;
+  /**
+   * Whether the snapshots show no more sent than promised and at least the minimum received.
+   * Undefined until the quote has executed or when nothing could be observed.
+   */
+  fulfilled?: boolean;
+}
+
+export interface PortfolioChangeReport {
+  diff: PortfolioDiff;
+  quotes: QuoteAttribution[];
+  /** Fiat change the quotes account for: their fees, or received minus sent value without fees */
+  expectedFiatDelta: number;
+  /** Fiat change left over, e.g. price moves or transfers outside the quotes */
+  unexplainedFiatDelta: number;
+  /** Chain balances that changed without any of the quotes touching them */
+  unattributed: ChainChange[];
+}
+
+export interface PortfolioChangeOptions {
+  /** Request options for the transaction history calls */
+  request?: RequestOptions;
+}
+
+function formatDelta(delta: bigint, decimals: number | undefined): string | undefined {
+  return decimals === undefined ? undefined : formatUnits(delta, decimals);
+}
+
+function diffChains(
+  before: PortfolioChainBalance[],
+  after: PortfolioChainBalance[],
+): ChainChange[] {
+  const previous = new Map(before.map((chain) => [chain.assetType, chain]));
+  const current = new Map(after.map((chain) => [chain.assetType, chain]));
+  const changes: ChainChange[] = [];
+
+  for (const assetType of new Set([...previous.keys(), ...current.keys()])) {
+    const old = previous.get(assetType);
+    const now = current.get(assetType);
+    const reference = (now ?? old)!;
+    const delta = BigInt(now?.balance ?? '0') - BigInt(old?.balance ?? '0');
+    const fiatDelta = (now?.fiatValue ?? 0) - (old?.fiatValue ?? 0);
+    if (delta === 0n && fiatDelta === 0) continue;
+
+    changes.push({
+      assetType,
+      chainId: reference.chainId,
+      chainName: reference.chainName,
+      decimals: reference.decimals,
+      delta: delta.toString(),
+      formattedDelta: formatDelta(delta, reference.decimals),
+      fiatDelta,
+    });
+  }
+
+  return changes.sort((a, b) => Math.abs(b.fiatDelta) - Math.abs(a.fiatDelta));
+}
+
+/**
+ * Per-asset and per-chain balance changes between two snapshots
+ *
+ * @param before - Earlier snapshot
+ * @param after - Later snapshot of the same accounts
+ * @returns Raw and fiat deltas of every asset that changed, largest fiat change first
+ */
+export function diffPortfolios(before: PortfolioSnapshot, after: PortfolioSnapshot): PortfolioDiff {
+  const previous = new Map(before.assets.map((asset) => [asset.assetId, asset]));
+  const current = new Map(after.assets.map((asset) => [asset.assetId, asset]));
+  const assets: AssetChange[] = [];
+
+  for (const assetId of new Set([...previous.keys(), ...current.keys()])) {
+    const old = previous.get(assetId);
+    const now = current.get(assetId);
+    const reference = (now ?? old)!;
+    const chains = diffChains(old?.chains ?? [], now?.chains ?? []);
+    const delta = BigInt(now?.balance ?? '0') - BigInt(old?.balance ?? '0');
+    const fiatDelta = (now?.fiatValue ?? 0) - (old?.fiatValue ?? 0);
+    if (delta === 0n && fiatDelta === 0 && chains.length === 0) continue;
+
+    assets.push({
+      assetId,
+      symbol: reference.symbol,
+      decimals: reference.decimals,
+      before: old?.balance ?? '0',
+      after: now?.balance ?? '0',
+      delta: delta.toString(),
+      formattedDelta: formatDelta(delta, reference.decimals),
+      fiatDelta,
+      chains,
+    });
+  }
+
+  return {
+    from: before.takenAt,
+    to: after.takenAt,
+    fiatDelta: after.totalFiatValue - before.totalFiatValue,
+    assets: assets.sort((a, b) => Math.abs(b.fiatDelta) - Math.abs(a.fiatDelta)),
+  };
+}
+
+// Sum of a token's fiat value, given either per asset type or as a total
+function fiatValueOf(value: OriginTokenInfo['fiatValue']): number {
+  if (!Array.isArray(value)) return Number(value);
+  return value.reduce((sum, entry) => sum + Number(entry.fiatValue), 0);
+}
+
+function legOf(
+  token: OriginTokenInfo | DestinationTokenInfo,
+  decimals: number | undefined,
+): QuoteLeg {
+  return {
+    assetId: token.aggregatedAssetId,
+    assetTypes: [token.assetType].flat(),
+    expected: token.amount,
+    decimals,
+    minimum: 'minimumAmount' in token ? token.minimumAmount : undefined,
+    fiatValue: fiatValueOf(token.fiatValue),
+  };
+}
+
+/**
+ * Attributes the change between two snapshots to the quotes executed in between.
+ * Status and executed amounts come from the transaction history of the snapshot accounts;
+ * passing the quote responses instead of ids adds their fees to the check.
+ *
+ * @param before - Snapshot taken before the quotes ran
+ * @param after - Snapshot taken after they finished
+ * @param quotes - Quote responses or quote ids executed between the snapshots
+ * @param options - Request options for the history calls
+ * @returns The diff, what each quote promised against what moved, and the unexplained rest
+ */
+export async function explainPortfolioChange(
+  before: PortfolioSnapshot,
+  after: PortfolioSnapshot,
+  quotes: Array<QuoteResponseV3 | string>,
+  options: PortfolioChangeOptions = {},
+): Promise<PortfolioChangeReport> {
+  const diff = diffPortfolios(before, after);
+  const addresses = [
+    ...new Set(after.accounts.map((account) => parseAccountId(account).address.toLowerCase())),
+  ];
+
+  const registry = await getAssetRegistry();
+
+  // Only quotes that ran after the first snapshot can explain the change
+  const history = new Map<string, HistoryTransactionV3>();
+  for await (const transaction of iterateHistory(after.accounts, {
+    from: before.takenAt,
+    request: options.request,
+  })) {
+    history.set(transaction.quoteId, transaction);
+  }
+
+  const chainChanges = diff.assets.flatMap((asset) => asset.chains);
+  const touched = new Set<string>();
+
+  // Net movement across the given chain assets, in the leg's smallest unit
+  const observe = (leg: QuoteLeg, sign: 1n | -1n): string | undefined => {
+    const { decimals } = leg;
+    if (decimals === undefined) return undefined;
+
+    let total = 0n;
+    for (const change of chainChanges.filter((entry) => leg.assetTypes.includes(entry.assetType))) {
+      if (change.decimals === undefined) return undefined;
+      total += normalizeDecimals(BigInt(change.delta), change.decimals, decimals);
+    }
+    return (total * sign).toString();
+  };
+
+  const attributions = quotes.map((quote): QuoteAttribution => {
+    const quoteId = typeof quote === 'string' ? quote : quote.id;
+    const transaction = history.get(quoteId);
+    const promised = typeof quote === 'string' ? transaction : quote;
+    if (!promised) {
+      throw new Error(`Quote ${quoteId} not found in the transaction history`);
+    }
+
+    const { originToken, destinationToken } = promised;
+    const sent = originToken
+      ? legOf(originToken, registry.findDecimals(originToken.aggregatedAssetId))
+      : undefined;
+    // The delivered amount is in the destination chain's native decimals
+    const received = destinationToken
+      ? legOf(
+          destinationToken,
+          destinationToken.decimals ?? registry.findDecimals(destinationToken.assetType),
+        )
+      : undefined;
+    sent?.assetTypes.forEach((assetType) => touched.add(assetType));
+    received?.assetTypes.forEach((assetType) => touched.add(assetType));
+
+    const recipient = transaction?.recipientAccountId;
+    const recipientIncluded =
+      !recipient || addresses.includes(parseAccountId(recipient).address.toLowerCase());
+
+    if (sent) sent.observed = observe(sent, -1n);
+    if (received && recipientIncluded) received.observed = observe(received, 1n);
+
+    const executed = transaction?.status === 'COMPLETED' || transaction?.status === 'EXECUTED';
+    const checks = [
+      sent?.observed === undefined ? undefined : BigInt(sent.observed) <= BigInt(sent.expected),
+      received?.observed === undefined
+        ? undefined
+        : BigInt(received.observed) >= BigInt(received.minimum ?? received.expected),
+    ].filter((check): check is boolean => check !== undefined);
+
+    return {
+      quoteId,
+      status: transaction?.status,
+      type: transaction?.type,
+      sent,
+      received,
+      // Unknown fees stay undefined so the fiat fallback below applies
+      feesUSD:
+        typeof quote !== 'string' && quote.fees ? Number(quote.fees.cumulativeUSD) : undefined,
+      fulfilled: executed && checks.length > 0 ? checks.every(Boolean) : undefined,
+    };
+  });
+
+  const expectedFiatDelta = attributions.reduce(
+    (sum, quote) =>
+      sum - (quote.feesUSD ?? (quote.sent?.fiatValue ?? 0) - (quote.received?.fiatValue ?? 0)),
+    0,
+  );
+
+  return {
+    diff,
+    quotes: attributions,
+    expectedFiatDelta,
+    unexplainedFiatDelta: diff.fiatDelta - expectedFiatDelta,
+    unattributed: chainChanges.filter((change) => !touched.has(change.assetType)),
+  };
+}
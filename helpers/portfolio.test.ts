@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { getDefaultClient, setDefaultClient } from './api';
+import { getAssetRegistry } from './assets';
+import { OneBalanceClient } from './client';
+import { getPortfolio } from './portfolio';
+import { SolanaAccount, StandardAccount } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const SOLANA_USDC =
+  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BASE_AERO = 'eip155:8453/erc20:0x940181a94A35A4569E4529A3CDfB74e38FD98631';
+
+const evmAccount: StandardAccount = {
+  type: 'kernel-v3.1-ecdsa',
+  deploymentType: 'ERC4337',
+  signerAddress: '0x1111111111111111111111111111111111111111',
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+const solanaAccount: SolanaAccount = {
+  type: 'solana',
+  accountAddress: 'J5CCzBULFax899tcirb6wMbenQUd8whbaetG7EfSick5',
+};
+
+describe('getPortfolio', () => {
+  const server = new MockOneBalanceServer();
+  const previousClient = getDefaultClient();
+
+  beforeAll(async () => {
+    const client = new OneBalanceClient({ baseUrl: await server.start() });
+    setDefaultClient(client);
+    // Keep the asset list out of the on-disk cache
+    await getAssetRegistry({ client, cacheFile: false });
+  });
+
+  afterAll(async () => {
+    setDefaultClient(previousClient);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setBalance(ARBITRUM_USDC, 30_000_000n, 30);
+    server.setBalance(SOLANA_USDC, 10_000_000n, 10);
+    server.setBalance('eip155:42161/slip44:60', 10n ** 17n, 50);
+    server.setBalance(BASE_AERO, 10n ** 19n, 10);
+  });
+
+  it('merges aggregated and chain-specific balances without double counting', async () => {
+    const portfolio = await getPortfolio([evmAccount, solanaAccount]);
+
+    expect(portfolio.accounts).toEqual([
+      'eip155:1:0x2222222222222222222222222222222222222222',
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:J5CCzBULFax899tcirb6wMbenQUd8whbaetG7EfSick5',
+    ]);
+    expect(portfolio.totalFiatValue).toBe(100);
+    expect(portfolio.assets.map(({ assetId, allocation }) => ({ assetId, allocation }))).toEqual([
+      { assetId: 'ob:eth', allocation: 50 },
+      { assetId: 'ob:usdc', allocation: 40 },
+      { assetId: BASE_AERO, allocation: 10 },
+    ]);
+  });
+
+  it('resolves symbols and decimals from the asset list', async () => {
+    const { assets } = await getPortfolio([evmAccount, solanaAccount]);
+    const usdc = assets.find((asset) => asset.assetId === 'ob:usdc');
+    const aero = assets.find((asset) => asset.assetId === BASE_AERO);
+
+    expect(usdc).toMatchObject({
+      symbol: 'USDC',
+      decimals: 6,
+      balance: '40000000',
+      formatted: '40',
+    });
+    expect(usdc?.chains.map((chain) => [chain.chainName, chain.formatted])).toEqual([
+      ['Arbitrum', '30'],
+      ['Solana', '10'],
+    ]);
+    // Not part of an aggregated asset, so its decimals are unknown
+    expect(aero).toMatchObject({
+      decimals: undefined,
+      formatted: undefined,
+      balance: '10000000000000000000',
+    });
+  });
+
+  it('computes per-chain allocation', async () => {
+    const { chains } = await getPortfolio([evmAccount, solanaAccount]);
+
+    expect(
+      chains.map(({ chainName, fiatValue, allocation }) => [chainName, fiatValue, allocation]),
+    ).toEqual([
+      ['Arbitrum', 80, 80],
+      ['Solana', 10, 10],
+      ['Base', 10, 10],
+    ]);
+  });
+
+  it('returns a JSON-serializable snapshot', async () => {
+    const portfolio = await getPortfolio(['eip155:1:0x2222222222222222222222222222222222222222']);
+
+    expect(JSON.parse(JSON.stringify(portfolio))).toEqual(portfolio);
+  });
+
+  it('drops zero balances unless asked to keep them', async () => {
+    server.reset();
+    server.setBalance(ARBITRUM_USDC, 0n, 0);
+
+    expect((await getPortfolio([evmAccount])).assets).toEqual([]);
+
+    const { assets, totalFiatValue } = await getPortfolio([evmAccount], { includeZero: true });
+    expect(assets.map((asset) => [asset.assetId, asset.balance, asset.allocation])).toEqual([
+      ['ob:usdc', '0', 0],
+    ]);
+    expect(totalFiatValue).toBe(0);
+  });
+
+  it('requires at least one valid account', async () => {
+    await expect(getPortfolio([])).rejects.toThrow('At least one account is required');
+    await expect(getPortfolio(['0x2222'])).rejects.toThrow('Invalid CAIP-10 account id');
+  });
+});
@@ -0,0 +1,172 @@
+import { formatUnits } from 'viem';
+import { toAccountId } from './account';
+import { getAssetRegistry } from './assets';
+import { formatAssetSymbol } from './balance';
+import { getChainRegistry } from './chains';
+import { formatChainId, getChainOf } from './caip';
+import { RequestOptions } from './client';
+import { fetchAggregatedBalanceV3 } from './onebalance';
+import { Account } from './types';
+
+/**
+ * Portfolio snapshots across every aggregated asset an account set holds
+ */
+
+export interface PortfolioChainBalance {
+  assetType: string;
+  /** CAIP-2 chain id, e.g. 'eip155:42161' */
+  chainId: string;
+  chainName: string;
+  /** Undefined when the asset is not in the asset list */
+  decimals?: number;
+  /** Amount in the smallest unit */
+  balance: string;
+  /** Undefined when the asset's decimals are unknown */
+  formatted?: string;
+  fiatValue: number;
+}
+
+export interface PortfolioAsset {
+  /** Aggregated asset id (ob:usdc) or chain-specific asset type */
+  assetId: string;
+  symbol: string;
+  /** Undefined when the asset is not in the asset list */
+  decimals?: number;
+  /** Amount in the smallest unit */
+  balance: string;
+  formatted?: string;
+  fiatValue: number;
+  /** Share of the portfolio's fiat value, in percent */
+  allocation: number;
+  chains: PortfolioChainBalance[];
+}
+
+export interface PortfolioChainAllocation {
+  chainId: string;
+  chainName: string;
+  fiatValue: number;
+  /** Share of the portfolio's fiat value, in percent */
+  allocation: number;
+}
+
+/**
+ * Point-in-time view of a set of accounts. Plain JSON (amounts are strings),
+ * so snapshots can be stored and compared later.
+ */
+export interface PortfolioSnapshot {
+  takenAt: string;
+  /** CAIP-10 ids of the accounts included */
+  accounts: string[];
+  totalFiatValue: number;
+  /** Sorted by fiat value, largest first */
+  assets: PortfolioAsset[];
+  /** Sorted by fiat value, largest first */
+  chains: PortfolioChainAllocation[];
+}
+
+export interface PortfolioOptions {
+  /** Keep assets with a zero balance (default: false) */
+  includeZero?: boolean;
+  /** Request options for the balance call */
+  request?: RequestOptions;
+}
+
+function percentOf(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
+const byFiatValue = (a: { fiatValue: number }, b: { fiatValue: number }) =>
+  b.fiatValue - a.fiatValue;
+
+/**
+ * Snapshot of every aggregated and chain-specific asset held by a set of accounts
+ *
+ * @param accounts - EVM and/or Solana accounts, as Account objects or CAIP-10 ids
+ * @param options - Zero-balance handling and request options
+ * @returns Balances with symbols, decimals and fiat allocation per asset and per chain
+ */
+export async function getPortfolio(
+  accounts: Array<Account | string>,
+  options: PortfolioOptions = {},
+): Promise<PortfolioSnapshot> {
+  if (accounts.length === 0) {
+    throw new Error('At least one account is required');
+  }
+
+  const accountIds = accounts.map(toAccountId);
+  const [response, registry, chainRegistry] = await Promise.all([
+    fetchAggregatedBalanceV3(accountIds.join(','), undefined, undefined, options.request),
+    getAssetRegistry(),
+    getChainRegistry(),
+  ]);
+
+  const chainBalance = (assetType: string, balance: string, fiatValue: number) => {
+    const chain = getChainOf(assetType);
+    const decimals = registry.findDecimals(assetType);
+    return {
+      assetType,
+      chainId: chain ? formatChainId(chain) : '',
+      chainName: chainRegistry.nameOf(assetType),
+      decimals,
+      balance,
+      formatted: decimals === undefined ? undefined : formatUnits(BigInt(balance), decimals),
+      fiatValue,
+    };
+  };
+
+  const describe = (assetId: string, balance: string, fiatValue: number) => {
+    const decimals = registry.findDecimals(assetId);
+    return {
+      assetId,
+      symbol: registry.has(assetId) ? registry.symbolOf(assetId) : formatAssetSymbol(assetId),
+      decimals,
+      balance,
+      formatted: decimals === undefined ? undefined : formatUnits(BigInt(balance), decimals),
+      fiatValue,
+    };
+  };
+
+  const aggregated = response.balanceByAggregatedAsset ?? [];
+  const aggregatedIds = new Set(aggregated.map((asset) => asset.aggregatedAssetId));
+
+  const assets = [
+    ...aggregated.map((asset) => ({
+      ...describe(asset.aggregatedAssetId, asset.balance, asset.fiatValue),
+      chains: (asset.individualAssetBalances ?? []).map((individual) =>
+        chainBalance(individual.assetType, individual.balance, individual.fiatValue),
+      ),
+    })),
+    // Specific balances already counted in an aggregated asset would be double counted
+    ...(response.balanceBySpecificAsset ?? [])
+      .filter((asset) => !aggregatedIds.has(registry.aggregatedIdOf(asset.assetType) ?? ''))
+      .map((asset) => ({
+        ...describe(asset.assetType, asset.balance, asset.fiatValue),
+        chains: [chainBalance(asset.assetType, asset.balance, asset.fiatValue)],
+      })),
+  ].filter((asset) => options.includeZero || BigInt(asset.balance) > 0n);
+
+  const totalFiatValue = assets.reduce((sum, asset) => sum + asset.fiatValue, 0);
+
+  const chainTotals = new Map<string, PortfolioChainAllocation>();
+  for (const { chainId, chainName, fiatValue } of assets.flatMap((asset) => asset.chains)) {
+    const entry = chainTotals.get(chainId) ?? { chainId, chainName, fiatValue: 0, allocation: 0 };
+    entry.fiatValue += fiatValue;
+    chainTotals.set(chainId, entry);
+  }
+
+  return {
+    takenAt: new Date().toISOString(),
+    accounts: accountIds,
+    totalFiatValue,
+    assets: assets
+      .map((asset) => ({
+        ...asset,
+        allocation: percentOf(asset.fiatValue, totalFiatValue),
+        chains: asset.chains.sort(byFiatValue),
+      }))
+      .sort(byFiatValue),
+    chains: [...chainTotals.values()]
+      .map((chain) => ({ ...chain, allocation: percentOf(chain.fiatValue, totalFiatValue) }))
+      .sort(byFiatValue),
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuoteRequest, validateQuoteRequest } from './quote';
+import { Account, QuoteRequestV3 } from './types';
+
+const account: Account = {
+  type: 'kernel-v3.1-ecdsa',
+  deploymentType: 'ERC4337',
+  signerAddress: '0x1111111111111111111111111111111111111111',
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+const swapParams = { fromAssetId: 'ob:usdc', toAssetId: 'ob:eth', amount: '1000000' };
+
+describe('buildQuoteRequest', () => {
+  it('builds a V3 request from swap params and accounts', () => {
+    expect(buildQuoteRequest(swapParams, [account])).toEqual({
+      from: { accounts: [account], asset: { assetId: 'ob:usdc' }, amount: '1000000' },
+      to: { asset: { assetId: 'ob:eth' } },
+    });
+  });
+
+  it('adds slippage tolerance and recipient when given', () => {
+    const request = buildQuoteRequest(swapParams, [account], {
+      slippageTolerance: 50,
+      recipientAccount: 'eip155:8453:0x3333333333333333333333333333333333333333',
+    });
+
+    expect(request.slippageTolerance).toBe(50);
+    expect(request.to.account).toBe('eip155:8453:0x3333333333333333333333333333333333333333');
+  });
+
+  it('omits a zero slippage tolerance', () => {
+    expect(buildQuoteRequest(swapParams, [account], { slippageTolerance: 0 })).not.toHaveProperty(
+      'slippageTolerance',
+    );
+  });
+});
+
+describe('validateQuoteRequest', () => {
+  const valid = (): QuoteRequestV3 => buildQuoteRequest(swapParams, [account]);
+
+  it('accepts a complete request', () => {
+    expect(() => validateQuoteRequest(valid())).not.toThrow();
+  });
+
+  it('requires an account', () => {
+    const request = valid();
+    request.from.accounts = [];
+    expect(() => validateQuoteRequest(request)).toThrow('At least one account is required');
+  });
+
+  it('requires source and destination assets', () => {
+    const noSource = valid();
+    noSource.from.asset.assetId = '';
+    expect(() => validateQuoteRequest(noSource)).toThrow('Source asset ID is required');
+
+    const noDestination = valid();
+    noDestination.to.asset.assetId = '';
+    expect(() => validateQuoteRequest(noDestination)).toThrow('Destination asset ID is required');
+  });
+
+  it('rejects a zero amount', () => {
+    const request = valid();
+    request.from.amount = '0';
+    expect(() => validateQuoteRequest(request)).toThrow('Amount must be greater than 0');
+  });
+
+  it('rejects slippage outside 0-100', () => {
+    const request = valid();
+    request.slippageTolerance = 101;
+    expect(() => validateQuoteRequest(request)).toThrow(
+      'Slippage tolerance must be between 0 and 100',
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { copyFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockOneBalanceServer } from '../mock/server';
+import { getBalanceCheckAddress, loadAccounts } from './account';
+import { getDefaultClient, setDefaultClient } from './api';
+import { checkAssetBalance } from './balance';
+import { OneBalanceClient } from './client';
+import { MNEMONIC_ENV, generateMnemonic } from './hd';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { monitorTransactionCompletion } from './monitoring';
+import { executeQuoteV3, getQuoteV3 } from './onebalance';
+import { buildQuoteRequest } from './quote';
+import { FixtureFile, redact } from './recorder';
+import { signAllOperations } from './signing';
+import { QuoteResponseV3, SwapParams } from './types';
+import { QuoteVerificationError } from './verification';
+
+// Synthetic: recorded from the in-repo mock server, not the OneBalance API, so replaying it
+// checks recording and replay rather than the real backend. UPDATE_FIXTURES=1 records it again
+const FIXTURE = join(__dirname, '../fixtures/simple-swap.mock.json');
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+
+const swapParams: SwapParams = {
+  fromAssetId: 'ob:usdc',
+  toAssetId: ARBITRUM_USDC,
+  amount: '1000000',
+  decimals: 6,
+};
+
+// The steps of swap/simple-swap.ts, with HD account 0 of the test mnemonic
+async function simpleSwap() {
+  const { accounts, evmAccount, solanaAccount, signerKey, solanaKeypair } = await loadAccounts(
+    swapParams,
+    0,
+  );
+  await checkAssetBalance(
+    getBalanceCheckAddress(swapParams.fromAssetId, evmAccount, solanaAccount),
+    swapParams.fromAssetId,
+    swapParams.decimals,
+  );
+  const quote = await getQuoteV3(buildQuoteRequest(swapParams, accounts));
+  const signedQuote = await signAllOperations(quote, signerKey, solanaKeypair, solanaAccount);
+  const bundle = await executeQuoteV3(signedQuote);
+  const result = await monitorTransactionCompletion(quote, 5_000, 1);
+  return { quote, bundle, result };
+}
+
+const readFixture = (file: string) => JSON.parse(readFileSync(file, 'utf8')) as FixtureFile;
+
+describe('redact', () => {
+  it('blanks signatures and keys, keeping hex values hex', () => {
+    expect(
+      redact({
+        userOp: { sender: '0x12', signature: '0xabcd' },
+        tamperProofSignature: 'base64==',
+        headers: { 'x-api-key': 'secret' },
+        privateKey: ['0x01', 2],
+      }),
+    ).toEqual({
+      userOp: { sender: '0x12', signature: '0x0000' },
+      tamperProofSignature: '[REDACTED]',
+      headers: { 'x-api-key': '[REDACTED]' },
+      privateKey: ['0x00', 2],
+    });
+  });
+});
+
+describe('synthetic swap fixture', () => {
+  const previousClient = getDefaultClient();
+  const previousLogger = getLogger();
+  let dir: string;
+
+  // Client that fails any request reaching the network
+  const replayClient = (file: string, verifySignatures?: boolean) =>
+    new OneBalanceClient({
+      fixtures: { mode: 'replay', file },
+      verifySignatures,
+      axiosInstance: axios.create({
+        adapter: async (config) => {
+          throw new Error(`Network request during replay: ${config.url}`);
+        },
+      }),
+    });
+
+  beforeAll(() => {
+    setLogger(silentLogger);
+  });
+
+  afterAll(() => {
+    setDefaultClient(previousClient);
+    setLogger(previousLogger);
+  });
+
+  beforeEach(() => {
+    vi.stubEnv(MNEMONIC_ENV, TEST_MNEMONIC);
+    dir = mkdtempSync(join(tmpdir(), 'fixtures-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays the committed mock server recording without network access', async () => {
+    const { interactions } = readFixture(FIXTURE);
+    setDefaultClient(replayClient(FIXTURE));
+
+    const { quote, bundle, result } = await simpleSwap();
+
+    const recordedQuote = interactions.find(({ endpoint }) => endpoint === '/api/v3/quote');
+    expect(quote.id).toBe((recordedQuote?.response as QuoteResponseV3).id);
+    expect(bundle.success).toBe(true);
+    expect(result.status).toBe('COMPLETED');
+  });
+
+  it('replays with other keys, skipping signature verification unless asked', async () => {
+    vi.stubEnv(MNEMONIC_ENV, generateMnemonic());
+    setDefaultClient(replayClient(FIXTURE));
+
+    expect((await simpleSwap()).result.status).toBe('COMPLETED');
+
+    setDefaultClient(replayClient(FIXTURE, true));
+    await expect(simpleSwap()).rejects.toBeInstanceOf(QuoteVerificationError);
+  });
+
+  it('records a mock server run that replays the same way', async () => {
+    const server = new MockOneBalanceServer();
+    server.setBalance(ARBITRUM_USDC, 5_000_000n, 5);
+    server.setStatusProgression(['IN_PROGRESS', 'COMPLETED']);
+    const file = join(dir, 'simple-swap.json');
+
+    try {
+      setDefaultClient(
+        new OneBalanceClient({
+          baseUrl: await server.start(),
+          fixtures: { mode: 'record', file },
+        }),
+      );
+      const recorded = await simpleSwap();
+
+      const fixture = readFixture(file);
+      expect(fixture.interactions.map(({ method, endpoint }) => `${method} ${endpoint}`)).toEqual([
+        'post /api/account/predict-address',
+        'get /api/assets/list',
+        'get /api/chains/supported-list',
+        'get /api/v3/balances/aggregated-balance',
+        'post /api/v3/quote',
+        'post /api/v3/quote/execute-quote',
+        'get /api/status/get-execution-status',
+        'get /api/status/get-execution-status',
+      ]);
+      const [{ userOp }] = (
+        fixture.interactions[5].request as {
+          originChainsOperations: { userOp: { signature: string } }[];
+        }
+      ).originChainsOperations;
+      expect(userOp.signature).toMatch(/^0x0+$/);
+
+      setDefaultClient(replayClient(file));
+      const replayed = await simpleSwap();
+      expect(replayed.quote.id).toBe(recorded.quote.id);
+      expect(replayed.result.status).toBe('COMPLETED');
+
+      if (process.env.UPDATE_FIXTURES) {
+        copyFileSync(file, FIXTURE);
+      }
+    } finally {
+      await server.stop();
+    }
+  });
+});
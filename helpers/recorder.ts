@@ -0,0 +1,182 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Record-and-replay of API traffic.
+ * 'record' captures every request/response pair into a fixture file, 'replay' serves
+ * them back in order without touching the network.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  /** Fixture file path, e.g. 'fixtures/euler-vault-v3.json' */
+  file: string;
+}
+
+export interface RecordedInteraction {
+  method: 'get' | 'post';
+  endpoint: string;
+  /** Request body (POST) or query params (GET), redacted */
+  request: unknown;
+  status: number;
+  /** Response body, redacted */
+  response: unknown;
+  requestId?: string;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  interactions: RecordedInteraction[];
+}
+
+// Keys whose values never leave the process
+const SENSITIVE_KEY = /signature|api-?key|private-?key|secret/i;
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    // Keep hex values hex so replayed payloads still match their schemas
+    return /^0x[0-9a-f]*$/i.test(value) ? `0x${'0'.repeat(value.length - 2)}` : '[REDACTED]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, redactValue(entry)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Replace signatures, API keys and private keys anywhere in a payload
+ *
+ * @param value - Request or response payload
+ * @returns A copy with sensitive values blanked out
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? redactValue(entry) : redact(entry),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolve fixture options from ONEBALANCE_FIXTURES (mode) and ONEBALANCE_FIXTURE_FILE
+ */
+export function fixtureOptionsFromEnv(): FixtureOptions | undefined {
+  const mode = process.env.ONEBALANCE_FIXTURES as FixtureMode | undefined;
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`ONEBALANCE_FIXTURES must be 'record', 'replay' or 'off', got '${mode}'`);
+  }
+
+  const file = process.env.ONEBALANCE_FIXTURE_FILE;
+  if (!file) {
+    throw new Error('ONEBALANCE_FIXTURE_FILE is required when ONEBALANCE_FIXTURES is set');
+  }
+
+  return { mode, file };
+}
+
+/**
+ * Writes interactions to a fixture file, rewriting it after each one so an
+ * interrupted run still leaves a usable recording
+ */
+export class FixtureRecorder {
+  private readonly interactions: RecordedInteraction[] = [];
+
+  constructor(readonly file: string) {}
+
+  record(interaction: RecordedInteraction): void {
+    this.interactions.push({
+      ...interaction,
+      request: redact(interaction.request),
+      response: redact(interaction.response),
+    });
+
+    const fixture: FixtureFile = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(fixture, null, 2) + '\n');
+  }
+}
+
+/**
+ * Serves recorded interactions back in recording order, per method and endpoint.
+ * Request bodies are not matched since keys and signatures differ between runs;
+ * once an endpoint's recordings are used up its last one is repeated (e.g. status polls).
+ */
+export class FixtureReplayer {
+  private readonly queues = new Map<string, RecordedInteraction[]>();
+  private readonly last = new Map<string, RecordedInteraction>();
+
+  constructor(readonly file: string) {
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as FixtureFile;
+
+    for (const interaction of fixture.interactions) {
+      const key = `${interaction.method.toUpperCase()} ${interaction.endpoint}`;
+      const queue = this.queues.get(key) || [];
+      queue.push(interaction);
+      this.queues.set(key, queue);
+    }
+  }
+
+  next(method: 'get' | 'post', endpoint: string): RecordedInteraction {
+    const key = `${method.toUpperCase()} ${endpoint}`;
+    const interaction = this.queues.get(key)?.shift() || this.last.get(key);
+
+    if (!interaction) {
+      throw new Error(`No recorded response for ${key} in ${this.file}`);
+    }
+
+    this.last.set(key, interaction);
+    return interaction;
+  }
+
+  /**
+   * Replay an interaction the way axios would have delivered it
+   *
+   * @returns The response data for 2xx recordings
+   * @throws AxiosError carrying the recorded response for error recordings
+   */
+  respond<ResponseData>(interaction: RecordedInteraction): ResponseData {
+    if (interaction.status < 400) {
+      return interaction.response as ResponseData;
+    }
+
+    const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+    const response: AxiosResponse = {
+      data: interaction.response,
+      status: interaction.status,
+      statusText: '',
+      headers: interaction.requestId ? { 'x-request-id': interaction.requestId } : {},
+      config,
+    };
+
+    throw new AxiosError(
+      `Request failed with status code ${interaction.status}`,
+      interaction.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response,
+    );
+  }
+}
@@ -0,0 +1,274 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MOCK_ERRORS, MockOneBalanceServer } from '../mock/server';
+import { OneBalanceClient } from './client';
+import { OneBalanceApiError, RateLimitError } from './errors';
+import { getLogger, setLogger, silentLogger } from './logger';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  computeBackoffDelay,
+  getRetryAfterMs,
+  isRetryableError,
+} from './retry';
+import { signAllOperations } from './signing';
+import { ContractAccountType, QuoteRequestV3, QuoteResponseV3, RoleBasedAccount } from './types';
+
+const BASE_USDC = 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+
+const privateKey = generatePrivateKey();
+const signer = privateKeyToAccount(privateKey);
+
+const account: RoleBasedAccount = {
+  type: 'role-based',
+  sessionAddress: signer.address,
+  adminAddress: signer.address,
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+
+const quoteRequest: QuoteRequestV3 = {
+  from: { accounts: [account], asset: { assetId: 'ob:usdc' }, amount: '1000000' },
+  to: { asset: { assetId: ARBITRUM_USDC } },
+};
+
+const sign = (quote: QuoteResponseV3) =>
+  signAllOperations(
+    quote,
+    { privateKey, address: signer.address },
+    null,
+    null,
+    ContractAccountType.RoleBased,
+  );
+
+// An HTTP error response as axios reports it
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers,
+    data: {},
+    config: {},
+  } as AxiosResponse);
+
+const policy = (override: Partial<RetryPolicy> = {}): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...override,
+});
+
+describe('computeBackoffDelay', () => {
+  it('doubles the delay after each attempt up to maxDelayMs', () => {
+    const noJitter = policy({ jitter: false, baseDelayMs: 500, maxDelayMs: 3_000 });
+
+    expect([1, 2, 3, 4, 5].map((attempt) => computeBackoffDelay(attempt, noJitter))).toEqual([
+      500, 1_000, 2_000, 3_000, 3_000,
+    ]);
+  });
+
+  it('keeps jittered delays between 0 and the backoff', () => {
+    const jittered = policy({ baseDelayMs: 500 });
+
+    expect(computeBackoffDelay(3, jittered, () => 0)).toBe(0);
+    expect(computeBackoffDelay(3, jittered, () => 0.5)).toBe(1_000);
+    expect(computeBackoffDelay(3, jittered, () => 0.999_999)).toBeLessThan(2_000);
+    for (let i = 0; i < 100; i++) {
+      const delay = computeBackoffDelay(10, jittered);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(jittered.maxDelayMs);
+    }
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  it('reads delta-seconds and HTTP dates', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '3' }), now)).toBe(3_000);
+    expect(
+      getRetryAfterMs(httpError(503, { 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' }), now),
+    ).toBe(5_000);
+    expect(
+      getRetryAfterMs(httpError(503, { 'retry-after': 'Tue, 31 Dec 2024 23:59:00 GMT' }), now),
+    ).toBe(0);
+  });
+
+  it('ignores missing and invalid headers', () => {
+    expect(getRetryAfterMs(httpError(429), now)).toBeUndefined();
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': 'soon' }), now)).toBeUndefined();
+    expect(getRetryAfterMs(new Error('boom'), now)).toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries network failures and the policy statuses only', () => {
+    expect(isRetryableError(new AxiosError('socket hang up', 'ECONNRESET'), policy())).toBe(true);
+    expect(isRetryableError(new AxiosError('canceled', 'ERR_CANCELED'), policy())).toBe(false);
+    expect(isRetryableError(httpError(503), policy())).toBe(true);
+    expect(isRetryableError(httpError(400), policy())).toBe(false);
+    expect(isRetryableError(new Error('boom'), policy())).toBe(false);
+  });
+});
+
+describe('OneBalanceClient retries', () => {
+  const server = new MockOneBalanceServer();
+  const previousLogger = getLogger();
+  const retry = { baseDelayMs: 1, maxDelayMs: 1_000 };
+  let baseUrl: string;
+
+  const requestsTo = (path: string) => server.requests.filter((request) => request.path === path);
+
+  beforeAll(async () => {
+    setLogger(silentLogger);
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    setLogger(previousLogger);
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setBalance(BASE_USDC, 10_000_000n, 10);
+  });
+
+  it('retries POST requests that opt in, waiting for Retry-After', async () => {
+    const client = new OneBalanceClient({ baseUrl, retry });
+    server.queueQuoteOutcome(
+      { ...MOCK_ERRORS.rateLimited, headers: { 'retry-after': '0' } },
+      MOCK_ERRORS.serverError,
+    );
+
+    const quote = await client.getQuoteV3(quoteRequest, { retry: true });
+
+    expect(quote.id).toBeDefined();
+    expect(requestsTo('/api/v3/quote')).toHaveLength(3);
+  });
+
+  it('gives up when Retry-After exceeds the longest delay', async () => {
+    const client = new OneBalanceClient({ baseUrl, retry });
+    server.queueQuoteOutcome({ ...MOCK_ERRORS.rateLimited, headers: { 'retry-after': '60' } });
+
+    const error = await client.getQuoteV3(quoteRequest, { retry: true }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(60_000);
+    expect(requestsTo('/api/v3/quote')).toHaveLength(1);
+  });
+
+  it('does not retry POST requests by default and stops after maxAttempts', async () => {
+    const client = new OneBalanceClient({ baseUrl, retry: { ...retry, maxAttempts: 2 } });
+    server.queueQuoteOutcome(
+      MOCK_ERRORS.serverError,
+      MOCK_ERRORS.serverError,
+      MOCK_ERRORS.serverError,
+    );
+
+    await expect(client.getQuoteV3(quoteRequest)).rejects.toMatchObject({ status: 500 });
+    expect(requestsTo('/api/v3/quote')).toHaveLength(1);
+
+    await expect(client.getQuoteV3(quoteRequest, { retry: true })).rejects.toMatchObject({
+      status: 500,
+    });
+    expect(requestsTo('/api/v3/quote')).toHaveLength(3);
+  });
+
+  describe('executeQuoteV3', () => {
+    // Client whose transport turns matching responses into errors with the given status
+    const clientFailing = (failures: Array<{ path: string; status: number }>) => {
+      const http = axios.create();
+      const fail = (config: { url?: string }, status: number) =>
+        Promise.reject(
+          new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+            status,
+            statusText: '',
+            headers: {},
+            data: { message: 'Bad gateway', statusCode: status },
+            config,
+          } as AxiosResponse),
+        );
+      const take = (url: string | undefined) => {
+        const index = failures.findIndex(({ path }) => url?.endsWith(path));
+        return index < 0 ? undefined : failures.splice(index, 1)[0];
+      };
+      http.interceptors.response.use(
+        (response) => {
+          const failure = take(response.config.url);
+          return failure ? fail(response.config, failure.status) : response;
+        },
+        (error: AxiosError) => {
+          const failure = take(error.config?.url);
+          return failure ? fail(error.config ?? {}, failure.status) : Promise.reject(error);
+        },
+      );
+      return new OneBalanceClient({ baseUrl, retry, axiosInstance: http });
+    };
+
+    const signedQuote = async (client: OneBalanceClient) =>
+      sign(await client.getQuoteV3(quoteRequest));
+
+    it('resubmits once the status probe shows the quote never arrived', async () => {
+      const client = new OneBalanceClient({ baseUrl, retry });
+      const quote = await signedQuote(client);
+      server.queueExecuteOutcome(MOCK_ERRORS.serverError);
+
+      const bundle = await client.executeQuoteV3(quote, { retry: true });
+
+      expect(bundle.success).toBe(true);
+      expect(server.requests.slice(1).map(({ path }) => path)).toEqual([
+        '/api/v3/quote/execute-quote',
+        '/api/status/get-execution-status',
+        '/api/v3/quote/execute-quote',
+      ]);
+    });
+
+    it('does not resubmit a quote the backend already received', async () => {
+      const client = clientFailing([{ path: '/execute-quote', status: 502 }]);
+      const quote = await signedQuote(client);
+
+      const bundle = await client.executeQuoteV3(quote, { retry: true });
+
+      expect(bundle).toEqual({ success: true, guarantees: null, error: null });
+      expect(requestsTo('/api/v3/quote/execute-quote')).toHaveLength(1);
+      expect(requestsTo('/api/status/get-execution-status')).toHaveLength(1);
+    });
+
+    it('does not resubmit when the status probe cannot tell', async () => {
+      const client = clientFailing([{ path: '/get-execution-status', status: 503 }]);
+      const quote = await signedQuote(client);
+      server.queueExecuteOutcome(MOCK_ERRORS.serverError);
+
+      const error = await client.executeQuoteV3(quote, { retry: true }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OneBalanceApiError);
+      expect(error.status).toBe(500);
+      expect(requestsTo('/api/v3/quote/execute-quote')).toHaveLength(1);
+    });
+
+    it.each([401, 403, 408, 429])(
+      'does not resubmit when the status probe answers %i',
+      async (status) => {
+        const client = clientFailing([{ path: '/get-execution-status', status }]);
+        const quote = await signedQuote(client);
+        server.queueExecuteOutcome(MOCK_ERRORS.serverError);
+
+        await expect(client.executeQuoteV3(quote, { retry: true })).rejects.toMatchObject({
+          status: 500,
+        });
+        expect(requestsTo('/api/v3/quote/execute-quote')).toHaveLength(1);
+        expect(requestsTo('/api/status/get-execution-status')).toHaveLength(1);
+      },
+    );
+
+    it('submits only once without the retry option', async () => {
+      const client = new OneBalanceClient({ baseUrl, retry });
+      const quote = await signedQuote(client);
+      server.queueExecuteOutcome(MOCK_ERRORS.serverError);
+
+      await expect(client.executeQuoteV3(quote)).rejects.toMatchObject({ status: 500 });
+      expect(requestsTo('/api/v3/quote/execute-quote')).toHaveLength(1);
+      expect(requestsTo('/api/status/get-execution-status')).toHaveLength(0);
+    });
+  });
+});
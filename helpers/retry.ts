@@ -0,0 +1,159 @@
+import axios from 'axios';
+
+/**
+ * Retry utilities for OneBalance API calls
+ */
+
+/**
+ * Retry policy with exponential backoff
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  baseDelayMs: number;
+  /** Upper bound for a single delay in milliseconds (default: 10 seconds) */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  factor: number;
+  /** Randomise each delay between 0 and the computed backoff ("full jitter") (default: true) */
+  jitter: boolean;
+  /** HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses: number[];
+  /** Wait for the server's Retry-After header when present; gives up if it exceeds maxDelayMs (default: true) */
+  respectRetryAfter: boolean;
+}
+
+/**
+ * Per-request retry option: true/false toggles the client policy, an object overrides parts of it
+ */
+export type RetryOption = boolean | Partial<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  factor: 2,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Merge a partial policy over a base policy
+ */
+export function resolveRetryPolicy(
+  base: RetryPolicy,
+  override?: Partial<RetryPolicy>,
+): RetryPolicy {
+  return { ...base, ...override };
+}
+
+/**
+ * Check whether an error is transient: a network failure without a response
+ * or a response whose status is in the policy's retryable list
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  if (!error.response) {
+    // No response means a network failure, unless the caller cancelled the request
+    return error.code !== 'ERR_CANCELED';
+  }
+
+  return policy.retryableStatuses.includes(error.response.status);
+}
+
+/**
+ * Parse the Retry-After header (delta-seconds or HTTP date) into milliseconds
+ *
+ * @param error - The failed request error
+ * @param now - Current time in milliseconds (default: Date.now())
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return undefined;
+  }
+
+  const header = error.response.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+
+  const value = String(header).trim();
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - The retry policy
+ * @param random - Random source in [0, 1) used for jitter (default: Math.random)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.baseDelayMs * policy.factor ** (attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return policy.jitter ? Math.floor(random() * capped) : capped;
+}
+
+/**
+ * Run an async operation, retrying transient failures according to the policy
+ *
+ * @param operation - The operation to run, receives the current attempt number (1-based)
+ * @param policy - The retry policy
+ * @param options - Hooks to veto a retry or observe it before waiting
+ * @returns The operation result
+ * @throws The last error when attempts are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options?: {
+    shouldRetry?: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  },
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const canRetry = attempt < policy.maxAttempts && isRetryableError(error, policy);
+      if (!canRetry || (options?.shouldRetry && !(await options.shouldRetry(error, attempt)))) {
+        throw error;
+      }
+
+      const retryAfter = policy.respectRetryAfter ? getRetryAfterMs(error) : undefined;
+      if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+        // Server asked for a longer pause than we are willing to wait
+        throw error;
+      }
+
+      const delay = retryAfter ?? computeBackoffDelay(attempt, policy);
+
+      options?.onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
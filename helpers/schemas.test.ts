@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { OneBalanceClient } from './client';
+import { ResponseValidationError } from './errors';
+import { LogFields, getLogger, setLogger, silentLogger } from './logger';
+import { validateResponse } from './schemas';
+
+const STATUS_ENDPOINT = '/api/status/get-execution-status';
+
+const status = {
+  quoteId: '0xquote',
+  status: 'COMPLETED',
+  user: '0x2222222222222222222222222222222222222222',
+  recipientAccountId: 'eip155:42161:0x2222222222222222222222222222222222222222',
+  originChainOperations: [],
+};
+
+// The backend renamed a field and changed the type of another
+const drifted = { ...status, status: 42, originChainOperations: undefined, originOps: [] };
+
+// Client whose transport answers every request with the given body
+const clientReturning = (data: unknown, validation?: 'strict' | 'lenient' | 'off') =>
+  new OneBalanceClient({
+    baseUrl: 'http://onebalance.test',
+    validation,
+    axiosInstance: axios.create({
+      adapter: async (config) => ({ data, status: 200, statusText: 'OK', headers: {}, config }),
+    }),
+  });
+
+// Warnings reach the configured logger
+const warnings: Array<{ message: string; fields?: LogFields }> = [];
+const previousLogger = getLogger();
+
+beforeAll(() => {
+  setLogger({ ...silentLogger, warn: (message, fields) => warnings.push({ message, fields }) });
+});
+
+afterAll(() => {
+  setLogger(previousLogger);
+});
+
+beforeEach(() => {
+  warnings.length = 0;
+});
+
+describe('validateResponse', () => {
+  it('accepts responses matching the schema in every mode', () => {
+    for (const mode of ['strict', 'lenient', 'off'] as const) {
+      expect(() => validateResponse(STATUS_ENDPOINT, status, mode)).not.toThrow();
+    }
+    expect(warnings).toEqual([]);
+  });
+
+  it('throws the schema issues in strict mode', () => {
+    const error = (() => {
+      try {
+        validateResponse(STATUS_ENDPOINT, drifted, 'strict');
+      } catch (e) {
+        return e as ResponseValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error).toMatchObject({ endpoint: STATUS_ENDPOINT, payload: drifted });
+    expect(error!.issues).toEqual([
+      expect.stringMatching(/^status: /),
+      expect.stringMatching(/^originChainOperations: /),
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('logs drift in lenient mode and skips endpoints without a schema', () => {
+    validateResponse(STATUS_ENDPOINT, drifted, 'lenient');
+
+    expect(warnings).toEqual([
+      {
+        message: expect.stringContaining(`Response from ${STATUS_ENDPOINT} does not match`),
+        fields: {
+          endpoint: STATUS_ENDPOINT,
+          issues: [
+            expect.stringMatching(/^status: /),
+            expect.stringMatching(/^originChainOperations: /),
+          ],
+        },
+      },
+    ]);
+    expect(warnings[0].message).toContain('\n   - status: ');
+
+    warnings.length = 0;
+    validateResponse(STATUS_ENDPOINT, drifted, 'off');
+    validateResponse('/api/unknown', drifted, 'strict');
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('OneBalanceClient validation', () => {
+  it('rejects drifted responses in strict mode', async () => {
+    await expect(
+      clientReturning(drifted, 'strict').fetchExecutionStatus('0xquote'),
+    ).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+  it('passes drifted responses through in lenient mode, the default', async () => {
+    expect(await clientReturning(drifted).fetchExecutionStatus('0xquote')).toEqual(drifted);
+    expect(warnings).toHaveLength(1);
+    expect(await clientReturning(drifted, 'off').fetchExecutionStatus('0xquote')).toEqual(drifted);
+    expect(warnings).toHaveLength(1);
+  });
+});
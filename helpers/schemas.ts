@@ -0,0 +1,510 @@
+import { z } from 'zod';
+import { HashTypedDataParameters } from 'viem';
+import { ResponseValidationError } from './errors';
+import { getLogger } from './logger';
+import {
+  Account,
+  AggregatedAsset,
+  AggregatedBalanceResponseV2,
+  AggregatedBalanceResponseV3,
+  BundleResponse,
+  CallQuoteResponseV3,
+  ChainOperation,
+  ExecutionStatusResponse,
+  ExecutionStatusResponseV3,
+  Hex,
+  HistoryResponse,
+  HistoryResponseV3,
+  OperationStatus,
+  PredictAddressResponse,
+  Quote,
+  QuoteResponseV1,
+  QuoteResponseV3,
+  SolanaOperation,
+  SupportedChain,
+  TargetCallQuote,
+  TargetCallQuoteV3,
+  CallType,
+  Delegation,
+  DelegationSignatureType,
+  EvmAccount,
+} from './types';
+
+/**
+ * Runtime schemas for OneBalance API responses.
+ *
+ * Each schema is annotated with the matching interface from types.ts, so the
+ * compiler flags any schema that falls out of sync with the types.
+ * Schemas only validate: the raw response (including unknown fields) is what callers receive.
+ */
+
+const hex = z.custom<Hex>((value) => typeof value === 'string' && value.startsWith('0x'), {
+  message: 'Expected 0x-prefixed hex string',
+});
+
+// Amounts are serialized as decimal strings
+const amount = z.string();
+
+const operationStatus: z.ZodType<OperationStatus> = z.enum([
+  'PENDING',
+  'IN_PROGRESS',
+  'EXECUTED',
+  'COMPLETED',
+  'REFUNDED',
+  'FAILED',
+]);
+
+const transactionType = z.enum(['SWAP', 'TRANSFER', 'CALL']);
+
+const roleBasedAccount = z.object({
+  type: z.literal('role-based'),
+  sessionAddress: hex,
+  adminAddress: hex,
+  accountAddress: hex,
+});
+
+const standardAccount = z.object({
+  type: z.literal('kernel-v3.1-ecdsa'),
+  deploymentType: z.literal('ERC4337').optional(),
+  signerAddress: hex,
+  accountAddress: hex,
+});
+
+const eip7702Account = z.object({
+  type: z.literal('kernel-v3.3-ecdsa'),
+  deploymentType: z.literal('EIP7702'),
+  accountAddress: hex,
+  signerAddress: hex,
+});
+
+const solanaAccount = z.object({
+  type: z.literal('solana'),
+  accountAddress: z.string(),
+});
+
+const evmAccount: z.ZodType<EvmAccount> = z.union([
+  roleBasedAccount,
+  standardAccount,
+  eip7702Account,
+]);
+
+const account: z.ZodType<Account> = z.union([
+  roleBasedAccount,
+  standardAccount,
+  eip7702Account,
+  solanaAccount,
+]);
+
+const typedData = z.custom<HashTypedDataParameters>(
+  (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    'types' in value &&
+    'primaryType' in value &&
+    'message' in value,
+  { message: 'Expected EIP-712 typed data' },
+);
+
+const serializedUserOperation = z.object({
+  sender: hex,
+  nonce: z.string(),
+  factory: hex.optional(),
+  factoryData: hex.optional(),
+  callData: hex,
+  callGasLimit: z.string(),
+  verificationGasLimit: z.string(),
+  preVerificationGas: z.string(),
+  maxFeePerGas: z.string(),
+  maxPriorityFeePerGas: z.string(),
+  paymaster: hex.optional(),
+  paymasterVerificationGasLimit: z.string().optional(),
+  paymasterPostOpGasLimit: z.string().optional(),
+  paymasterData: hex.optional(),
+  signature: hex,
+  initCode: hex.optional(),
+  paymasterAndData: hex.optional(),
+});
+
+const delegation: z.ZodType<Delegation> = z.object({
+  contractAddress: hex,
+  nonce: z.number(),
+  signature: z
+    .object({
+      chainId: z.number(),
+      contractAddress: hex,
+      nonce: z.number(),
+      r: hex,
+      s: hex,
+      v: hex,
+      yParity: z.number(),
+      type: z.nativeEnum(DelegationSignatureType),
+    })
+    .optional(),
+});
+
+export const chainOperationSchema: z.ZodType<ChainOperation> = z.object({
+  userOp: serializedUserOperation,
+  typedDataToSign: typedData,
+  assetType: z.string(),
+  amount,
+  delegation: delegation.optional(),
+});
+
+export const solanaOperationSchema: z.ZodType<SolanaOperation> = z.object({
+  type: z.literal('solana'),
+  instructions: z.array(
+    z.object({
+      keys: z.array(
+        z.object({
+          pubkey: z.string(),
+          isSigner: z.boolean(),
+          isWritable: z.boolean(),
+        }),
+      ),
+      programId: z.string(),
+      data: z.string(),
+    }),
+  ),
+  recentBlockHash: z.string(),
+  feePayer: z.string(),
+  signature: z.string().optional(),
+  addressLookupTableAddresses: z.array(z.string()).optional(),
+  assetType: z.string(),
+  amount,
+  dataToSign: z.string().optional(),
+});
+
+// assetType and fiatValue are either per-chain arrays or a single value
+const originTokenInfo = z.object({
+  aggregatedAssetId: z.string(),
+  amount,
+  assetType: z.union([z.array(z.string()), z.string()]),
+  fiatValue: z.union([
+    z.array(z.object({ assetType: z.string(), fiatValue: z.string() })),
+    z.string(),
+  ]),
+});
+
+const destinationTokenInfo = z.object({
+  aggregatedAssetId: z.string(),
+  amount,
+  assetType: z.string(),
+  fiatValue: z.string(),
+  minimumAmount: amount.optional(),
+  minimumFiatValue: z.string().optional(),
+  symbol: z.string().optional(),
+  name: z.string().optional(),
+  decimals: z.number().optional(),
+  recipientAccount: z.string().optional(),
+});
+
+const slippageSide = z.object({ percent: z.string(), usd: z.string(), value: z.string() });
+
+const quoteV3Shape = {
+  id: z.string(),
+  accounts: z.array(account),
+  originChainsOperations: z.array(z.union([solanaOperationSchema, chainOperationSchema])),
+  destinationChainOperation: chainOperationSchema.optional(),
+  originToken: originTokenInfo.optional(),
+  destinationToken: destinationTokenInfo.optional(),
+  expirationTimestamp: z.string(),
+  slippage: z.object({ origin: slippageSide, destination: slippageSide }).optional(),
+  fees: z
+    .object({ assets: z.record(z.string(), z.string()), cumulativeUSD: z.string() })
+    .optional(),
+  tamperProofSignature: z.string(),
+};
+
+export const quoteResponseV3Schema: z.ZodType<QuoteResponseV3> = z.object(quoteV3Shape);
+
+export const callQuoteResponseV3Schema: z.ZodType<CallQuoteResponseV3> = z.object(quoteV3Shape);
+
+export const quoteResponseV1Schema: z.ZodType<QuoteResponseV1> = z.object({
+  id: z.string(),
+  account,
+  originChainsOperations: z.array(chainOperationSchema),
+  destinationChainOperation: chainOperationSchema.optional(),
+  originToken: originTokenInfo.optional(),
+  destinationToken: destinationTokenInfo.optional(),
+  validUntil: z.string().optional(),
+  validAfter: z.string().optional(),
+  expirationTimestamp: z.string(),
+  tamperProofSignature: z.string(),
+});
+
+const originAssetUsed = z.object({
+  aggregatedAssetId: z.string(),
+  assetType: z.array(z.string()),
+  amount,
+  minimumAmount: amount.optional(),
+  fiatValue: z.array(z.object({ fiatValue: z.string(), amount })),
+});
+
+const destinationAssetUsed = z.object({
+  aggregatedAssetId: z.string(),
+  assetType: z.string(),
+  amount,
+  minimumAmount: amount.optional(),
+  fiatValue: z.string(),
+  minimumFiatValue: z.string().optional(),
+});
+
+export const quoteSchema: z.ZodType<Quote> = z.object({
+  id: z.string(),
+  account: evmAccount,
+  originChainsOperations: z.array(chainOperationSchema),
+  destinationChainOperation: chainOperationSchema.optional(),
+  originToken: originAssetUsed.optional(),
+  destinationToken: destinationAssetUsed.optional(),
+  validUntil: z.string().optional(),
+  validAfter: z.string().optional(),
+  expirationTimestamp: z.string(),
+  tamperProofSignature: z.string(),
+});
+
+export const targetCallQuoteSchema: z.ZodType<TargetCallQuote> = z.object({
+  account: evmAccount,
+  chainOperation: chainOperationSchema,
+  tamperProofSignature: z.string(),
+});
+
+export const targetCallQuoteV3Schema: z.ZodType<TargetCallQuoteV3> = z.object({
+  accounts: z.array(account),
+  chainOperation: chainOperationSchema,
+  tamperProofSignature: z.string(),
+  callType: z.nativeEnum(CallType).optional(),
+  sourceAssetBalances: z
+    .array(
+      z.object({
+        assetType: z.string(),
+        balance: amount,
+        decimals: z.number(),
+        fiatValue: z.number(),
+      }),
+    )
+    .optional(),
+  delegation: delegation.optional(),
+});
+
+export const bundleResponseSchema: z.ZodType<BundleResponse> = z.object({
+  success: z.boolean(),
+  guarantees: z
+    .record(
+      z.string(),
+      z.object({
+        non_equivocation: z.boolean(),
+        reorg_protection: z.boolean(),
+        valid_until: z.number().optional(),
+        valid_after: z.number().optional(),
+      }),
+    )
+    .nullable(),
+  error: z.string().nullable(),
+});
+
+export const predictAddressResponseSchema: z.ZodType<PredictAddressResponse> = z.object({
+  predictedAddress: hex,
+});
+
+const individualAssetBalance = z.object({
+  assetType: z.string(),
+  balance: amount,
+  fiatValue: z.number(),
+});
+
+const aggregatedAssetBalance = z.object({
+  aggregatedAssetId: z.string(),
+  balance: amount,
+  individualAssetBalances: z.array(individualAssetBalance),
+  fiatValue: z.number(),
+});
+
+const balanceShape = {
+  balanceByAggregatedAsset: z.array(aggregatedAssetBalance),
+  balanceBySpecificAsset: z.array(individualAssetBalance),
+  totalBalance: z.object({ fiatValue: z.number() }),
+};
+
+export const aggregatedBalanceResponseV2Schema: z.ZodType<AggregatedBalanceResponseV2> =
+  z.object(balanceShape);
+
+export const aggregatedBalanceResponseV3Schema: z.ZodType<AggregatedBalanceResponseV3> = z.object({
+  accounts: z.object({ evm: z.string().optional(), solana: z.string().optional() }).optional(),
+  ...balanceShape,
+});
+
+export const executionStatusResponseSchema: z.ZodType<ExecutionStatusResponse> = z.object({
+  id: z.string(),
+  status: operationStatus,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const operationDetailsV3 = z.object({
+  hash: z.string(),
+  chain: z.string(),
+  explorerUrl: z.string(),
+});
+
+export const executionStatusResponseV3Schema: z.ZodType<ExecutionStatusResponseV3> = z.object({
+  quoteId: z.string(),
+  status: operationStatus,
+  user: z.string(),
+  recipientAccountId: z.string(),
+  failReason: z.string().optional(),
+  originChainOperations: z.array(operationDetailsV3),
+  destinationChainOperations: z.array(operationDetailsV3).optional(),
+});
+
+export const historyResponseSchema: z.ZodType<HistoryResponse> = z.object({
+  transactions: z.array(
+    z.object({
+      quoteId: z.string(),
+      type: transactionType,
+      originToken: originAssetUsed.optional(),
+      destinationToken: destinationAssetUsed.optional(),
+      status: operationStatus,
+      user: hex,
+      recipientAccountId: z.string(),
+      originChainOperations: z.array(operationDetailsV3.extend({ chainId: z.number() })).optional(),
+      destinationChainOperations: z
+        .array(operationDetailsV3.extend({ chainId: z.number() }))
+        .optional(),
+    }),
+  ),
+  continuation: z.string().optional(),
+});
+
+export const historyResponseV3Schema: z.ZodType<HistoryResponseV3> = z.object({
+  transactions: z.array(
+    z.object({
+      quoteId: z.string(),
+      status: operationStatus,
+      user: z.string(),
+      recipientAccountId: z.string(),
+      originChainOperations: z.array(operationDetailsV3),
+      destinationChainOperations: z.array(operationDetailsV3).optional(),
+      type: transactionType,
+      originToken: originTokenInfo.optional(),
+      destinationToken: destinationTokenInfo.optional(),
+      timestamp: z.string(),
+    }),
+  ),
+  continuation: z.string().optional(),
+});
+
+const individualAsset = z.object({
+  assetType: z.string(),
+  decimals: z.number(),
+  name: z.string(),
+  symbol: z.string(),
+});
+
+export const aggregatedAssetListSchema: z.ZodType<AggregatedAsset[]> = z.array(
+  z.object({
+    aggregatedAssetId: z.string(),
+    symbol: z.string(),
+    name: z.string(),
+    decimals: z.number(),
+    logoUrl: z.string().optional(),
+    aggregatedEntities: z.array(individualAsset),
+  }),
+);
+
+export const supportedChainListSchema: z.ZodType<SupportedChain[]> = z.array(
+  z.object({
+    chain: z.object({
+      chain: z.string(),
+      namespace: z.string(),
+      reference: z.string(),
+    }),
+    isTestnet: z.boolean(),
+  }),
+);
+
+/**
+ * Response schema for each endpoint, keyed by path
+ */
+export const RESPONSE_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  '/api/account/predict-address': predictAddressResponseSchema,
+  '/api/quotes/prepare-call-quote': targetCallQuoteSchema,
+  '/api/quotes/call-quote': quoteSchema,
+  '/api/v1/quote': quoteResponseV1Schema,
+  '/api/quotes/execute-quote': bundleResponseSchema,
+  '/api/v3/quote': quoteResponseV3Schema,
+  '/api/v3/quote/execute-quote': bundleResponseSchema,
+  '/api/v3/quote/prepare-call-quote': targetCallQuoteV3Schema,
+  '/api/v3/quote/call-quote': callQuoteResponseV3Schema,
+  '/api/status/get-tx-history': historyResponseSchema,
+  '/api/v3/status/get-tx-history': historyResponseV3Schema,
+  '/api/v2/balances/aggregated-balance': aggregatedBalanceResponseV2Schema,
+  '/api/v3/balances/aggregated-balance': aggregatedBalanceResponseV3Schema,
+  // The backend serves both status shapes depending on the quote version
+  '/api/status/get-execution-status': z.union([
+    executionStatusResponseV3Schema,
+    executionStatusResponseSchema,
+  ]),
+  '/api/assets/list': aggregatedAssetListSchema,
+  '/api/chains/supported-list': supportedChainListSchema,
+};
+
+/**
+ * How responses are checked against their schema:
+ * - 'strict': throw a ResponseValidationError on mismatch
+ * - 'lenient': log the mismatch and return the response anyway
+ * - 'off': skip validation
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+function formatIssues(issues: z.ZodIssue[]): string[] {
+  return issues.flatMap((issue) => {
+    // For unions, report the branch that came closest to matching
+    if (issue.code === 'invalid_union' && issue.unionErrors.length > 0) {
+      const closest = issue.unionErrors.reduce((best, candidate) =>
+        candidate.issues.length < best.issues.length ? candidate : best,
+      );
+      return formatIssues(closest.issues);
+    }
+    return [`${issue.path.join('.') || '(root)'}: ${issue.message}`];
+  });
+}
+
+/**
+ * Validate a response against the schema registered for its endpoint
+ *
+ * @param endpoint - The endpoint path the response came from
+ * @param data - The raw response body
+ * @param mode - Validation mode (default: 'lenient')
+ * @throws ResponseValidationError in strict mode when the response does not match
+ */
+export function validateResponse(
+  endpoint: string,
+  data: unknown,
+  mode: ValidationMode = 'lenient',
+): void {
+  const schema = RESPONSE_SCHEMAS[endpoint];
+  if (mode === 'off' || !schema) {
+    return;
+  }
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return;
+  }
+
+  const issues = formatIssues(result.error.issues);
+
+  if (mode === 'strict') {
+    throw new ResponseValidationError(`Unexpected response shape from ${endpoint}`, {
+      endpoint,
+      payload: data,
+      issues,
+    });
+  }
+
+  getLogger().warn(
+    `⚠️ Response from ${endpoint} does not match the expected schema:\n` +
+      issues.map((issue) => `   - ${issue}`).join('\n'),
+    { endpoint, issues },
+  );
+}
@@ -0,0 +1,184 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { recoverMessageAddress, recoverTypedDataAddress } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { recoverAuthorizationAddress } from 'viem/utils';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { buildChainOperation, buildSolanaOperation } from '../mock/fixtures';
+import { RemoteSignerServer } from '../mock/remote-signer';
+import { KeyStore } from './keystore';
+import { getLogger, setLogger, silentLogger } from './logger';
+import { KeystoreSigner, LocalSigner, RemoteSigner, Signer } from './signer';
+import { signOperation, signSolanaOperation } from './signing';
+import { ContractAccountType, Hex } from './types';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const SOLANA_SOL = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501';
+
+const privateKey = generatePrivateKey();
+const account = privateKeyToAccount(privateKey);
+const keypair = Keypair.generate();
+
+const roleBasedOperation = () =>
+  buildChainOperation(
+    {
+      type: 'role-based',
+      sessionAddress: account.address,
+      adminAddress: account.address,
+      accountAddress: '0x2222222222222222222222222222222222222222',
+    },
+    42161,
+    ARBITRUM_USDC,
+    '1000000',
+  );
+
+const eip7702Operation = () =>
+  buildChainOperation(
+    {
+      type: 'kernel-v3.3-ecdsa',
+      deploymentType: 'EIP7702',
+      signerAddress: account.address,
+      accountAddress: account.address,
+    },
+    42161,
+    ARBITRUM_USDC,
+    '1000000',
+  );
+
+// Signs one operation of each kind and checks every signature against the keys
+async function expectSignsLikeTheKeys(signer: Signer) {
+  expect(signer.address).toBe(account.address);
+  expect(signer.solanaPublicKey).toBe(keypair.publicKey.toBase58());
+
+  const roleBased = roleBasedOperation();
+  const signedRoleBased = await signOperation(roleBased, signer, ContractAccountType.RoleBased);
+  expect(
+    await recoverTypedDataAddress({
+      ...roleBased.typedDataToSign,
+      signature: signedRoleBased.userOp.signature as Hex,
+    } as Parameters<typeof recoverTypedDataAddress>[0]),
+  ).toBe(account.address);
+
+  const eip7702 = eip7702Operation();
+  const expected = await signOperation(
+    eip7702Operation(),
+    privateKey,
+    ContractAccountType.KernelV33,
+  );
+  const signed = await signOperation(eip7702, signer, ContractAccountType.KernelV33);
+  expect(signed.userOp.signature).toBe(expected.userOp.signature);
+  const delegation = signed.delegation!.signature!;
+  expect(delegation).toEqual(expected.delegation!.signature);
+  expect(
+    await recoverAuthorizationAddress({
+      authorization: {
+        address: delegation.contractAddress,
+        chainId: delegation.chainId,
+        nonce: delegation.nonce,
+        r: delegation.r,
+        s: delegation.s,
+        yParity: delegation.yParity,
+      },
+    }),
+  ).toBe(account.address);
+
+  const solana = buildSolanaOperation(keypair.publicKey.toBase58(), SOLANA_SOL, '1000000');
+  const signedSolana = await signSolanaOperation(keypair.publicKey.toBase58(), signer, solana);
+  expect(signedSolana.signature).toBe(
+    signSolanaOperation(keypair.publicKey.toBase58(), bs58.encode(keypair.secretKey), solana)
+      .signature,
+  );
+}
+
+describe('LocalSigner', () => {
+  it('signs like the raw keys', async () => {
+    await expectSignsLikeTheKeys(new LocalSigner({ evm: privateKey, solana: keypair }));
+  });
+
+  it('signs messages with the EVM key', async () => {
+    const signer = new LocalSigner({ evm: account });
+    const signature = await signer.signMessage('hello');
+
+    expect(await recoverMessageAddress({ message: 'hello', signature })).toBe(account.address);
+  });
+
+  it('refuses accounts that do not sign the transaction and keys it does not hold', async () => {
+    const signer = new LocalSigner({ solana: keypair });
+    const operation = buildSolanaOperation(keypair.publicKey.toBase58(), SOLANA_SOL, '1');
+
+    await expect(
+      signSolanaOperation(Keypair.generate().publicKey.toBase58(), signer, operation),
+    ).rejects.toThrow('not required to sign');
+    await expect(signer.signMessage('hello')).rejects.toThrow('Signer has no EVM key');
+  });
+});
+
+describe('KeystoreSigner', () => {
+  const previousLogger = getLogger();
+  let dir: string;
+  let keyStore: KeyStore;
+
+  beforeAll(() => setLogger(silentLogger));
+  afterAll(() => setLogger(previousLogger));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'signer-'));
+    keyStore = new KeyStore({ dir, passphrase: 'secret', encryption: { cost: 1024 } });
+    keyStore.saveEvmKey('session', privateKey);
+    keyStore.saveSolanaKey('solana', keypair.secretKey);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('signs with keys decrypted from the key store', async () => {
+    await expectSignsLikeTheKeys(
+      new KeystoreSigner({ keyStore, evmKey: 'session', solanaKey: 'solana' }),
+    );
+  });
+
+  it('needs the key files to exist', () => {
+    expect(() => new KeystoreSigner({ keyStore, evmKey: 'admin' })).toThrow(
+      `No EVM key file ${join(dir, 'admin-key.json')}`,
+    );
+  });
+});
+
+describe('RemoteSigner', () => {
+  const token = 'signer-token';
+  const server = new RemoteSignerServer(new LocalSigner({ evm: privateKey, solana: keypair }), {
+    token,
+  });
+  let url: string;
+
+  beforeAll(async () => {
+    url = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('signs through the signing service', async () => {
+    await expectSignsLikeTheKeys(await RemoteSigner.connect({ url, token }));
+
+    expect(server.calls).toEqual([
+      'signTypedData',
+      'signAuthorization',
+      'signMessage',
+      'signSolanaMessage',
+    ]);
+  });
+
+  it('reports the errors of the signing service', async () => {
+    const signer = new RemoteSigner({ url, token: 'wrong' });
+
+    await expect(signer.signMessage('hello')).rejects.toThrow(
+      'Remote signer signMessage failed: Invalid signer token',
+    );
+  });
+});
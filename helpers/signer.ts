@@ -0,0 +1,283 @@
+import { createPrivateKey, sign as signEd25519 } from 'node:crypto';
+import axios from 'axios';
+import { Keypair } from '@solana/web3.js';
+import {
+  AuthorizationRequest,
+  HashTypedDataParameters,
+  PrivateKeyAccount,
+  SignableMessage,
+  SignedAuthorization,
+  stringify,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { KeyStore, getDefaultKeyStore } from './keystore';
+import { Hex } from './types';
+
+/**
+ * Signers: where signatures come from, decoupled from where keys live.
+ * The signing helpers accept a Signer wherever they take a private key, so keys can stay
+ * in an encrypted keystore or behind a remote signing service.
+ */
+
+export interface Signer {
+  /** EVM address, when the signer holds an EVM key */
+  readonly address?: Hex;
+  /** Solana public key (base58), when the signer holds a Solana key */
+  readonly solanaPublicKey?: string;
+  /** EIP-191 personal signature */
+  signMessage(message: SignableMessage): Promise<Hex>;
+  /** EIP-712 typed data signature */
+  signTypedData(typedData: HashTypedDataParameters): Promise<Hex>;
+  /** EIP-7702 authorization to delegate the EOA to a contract */
+  signAuthorization(authorization: AuthorizationRequest): Promise<SignedAuthorization>;
+  /** Ed25519 signature over a serialized Solana transaction message */
+  signSolanaMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+export type SignerMethod = Exclude<keyof Signer, 'address' | 'solanaPublicKey'>;
+
+// PKCS#8 prefix of an Ed25519 private key; the 32-byte seed follows
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/**
+ * Whether a key argument is a Signer rather than a private key or viem account
+ */
+export function isSigner(key: unknown): key is Signer {
+  return typeof key === 'object' && key !== null && 'signSolanaMessage' in key;
+}
+
+/**
+ * Signs with keys held in process memory
+ */
+export class LocalSigner implements Signer {
+  readonly address?: Hex;
+  readonly solanaPublicKey?: string;
+
+  private readonly account?: PrivateKeyAccount;
+  private readonly solanaKeypair?: Keypair;
+
+  /**
+   * @param keys - EVM private key or viem account, and Solana keypair; either is optional
+   */
+  constructor(keys: { evm?: Hex | PrivateKeyAccount; solana?: Keypair }) {
+    this.account = typeof keys.evm === 'string' ? privateKeyToAccount(keys.evm) : keys.evm;
+    this.address = this.account?.address;
+    this.solanaKeypair = keys.solana;
+    this.solanaPublicKey = keys.solana?.publicKey.toBase58();
+  }
+
+  async signMessage(message: SignableMessage): Promise<Hex> {
+    return this.evm().signMessage({ message });
+  }
+
+  async signTypedData(typedData: HashTypedDataParameters): Promise<Hex> {
+    return this.evm().signTypedData(typedData);
+  }
+
+  async signAuthorization(authorization: AuthorizationRequest): Promise<SignedAuthorization> {
+    return this.evm().signAuthorization(authorization);
+  }
+
+  async signSolanaMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.solanaKeypair) {
+      throw new Error('Signer has no Solana key');
+    }
+    const seed = this.solanaKeypair.secretKey.subarray(0, 32);
+    const key = createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: 'der',
+      type: 'pkcs8',
+    });
+    return new Uint8Array(signEd25519(null, message, key));
+  }
+
+  private evm(): PrivateKeyAccount {
+    if (!this.account) {
+      throw new Error('Signer has no EVM key');
+    }
+    return this.account;
+  }
+}
+
+/**
+ * Turns any accepted key argument into a Signer
+ *
+ * @param key - Private key, viem account or Signer
+ * @returns A Signer for the key
+ */
+export function toSigner(key: Hex | PrivateKeyAccount | Signer): Signer {
+  return isSigner(key) ? key : new LocalSigner({ evm: key });
+}
+
+export interface KeystoreSignerOptions {
+  /** Key store holding the key files (default: the default key store) */
+  keyStore?: KeyStore;
+  /** Name of the EVM key file, e.g. 'session' */
+  evmKey?: string;
+  /** Name of the Solana key file, e.g. 'solana' */
+  solanaKey?: string;
+}
+
+/**
+ * Signs with keys from the encrypted key store. Keys are decrypted for each signature and
+ * not kept in memory between signatures.
+ */
+export class KeystoreSigner implements Signer {
+  readonly address?: Hex;
+  readonly solanaPublicKey?: string;
+
+  private readonly keyStore: KeyStore;
+  private readonly evmKey?: string;
+  private readonly solanaKey?: string;
+
+  constructor(options: KeystoreSignerOptions) {
+    this.keyStore = options.keyStore ?? getDefaultKeyStore();
+    this.evmKey = options.evmKey;
+    this.solanaKey = options.solanaKey;
+
+    if (this.evmKey) {
+      this.address = this.keyStore.evmAddress(this.evmKey);
+      if (!this.address) {
+        throw new Error(`No EVM key file ${this.keyStore.path(this.evmKey)}`);
+      }
+    }
+    if (this.solanaKey) {
+      this.solanaPublicKey = this.keyStore.solanaPublicKey(this.solanaKey);
+      if (!this.solanaPublicKey) {
+        throw new Error(`No Solana key file ${this.keyStore.path(this.solanaKey)}`);
+      }
+    }
+  }
+
+  async signMessage(message: SignableMessage): Promise<Hex> {
+    return this.unlock().signMessage(message);
+  }
+
+  async signTypedData(typedData: HashTypedDataParameters): Promise<Hex> {
+    return this.unlock().signTypedData(typedData);
+  }
+
+  async signAuthorization(authorization: AuthorizationRequest): Promise<SignedAuthorization> {
+    return this.unlock().signAuthorization(authorization);
+  }
+
+  async signSolanaMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.solanaKey) {
+      throw new Error('Signer has no Solana key');
+    }
+    const { keypair } = this.keyStore.loadSolanaKey(this.solanaKey);
+    return new LocalSigner({ solana: keypair }).signSolanaMessage(message);
+  }
+
+  private unlock(): LocalSigner {
+    if (!this.evmKey) {
+      throw new Error('Signer has no EVM key');
+    }
+    return new LocalSigner({ evm: this.keyStore.loadEvmKey(this.evmKey).privateKey });
+  }
+}
+
+export interface RemoteSignerOptions {
+  /** Base URL of the signing service, e.g. 'http://127.0.0.1:4020' */
+  url: string;
+  /** Bearer token sent with every request */
+  token?: string;
+  /** Request timeout in milliseconds (default: 30 seconds) */
+  timeout?: number;
+}
+
+/** A signed authorization as JSON, with v as a decimal string */
+export interface WireAuthorization {
+  address: Hex;
+  chainId: number;
+  nonce: number;
+  r: Hex;
+  s: Hex;
+  v: string;
+  yParity: number;
+}
+
+/** Addresses a remote signer serves, from GET /signer */
+export interface RemoteSignerInfo {
+  address?: Hex;
+  solanaPublicKey?: string;
+}
+
+/**
+ * Signs through a signing service over HTTP, so keys never enter this process.
+ * Requests are POST /sign with { method, params } and answer { result }; see
+ * mock/remote-signer.ts for a local stand-in.
+ */
+export class RemoteSigner implements Signer {
+  readonly address?: Hex;
+  readonly solanaPublicKey?: string;
+
+  private readonly options: RemoteSignerOptions;
+
+  constructor(options: RemoteSignerOptions, info: RemoteSignerInfo = {}) {
+    this.options = options;
+    this.address = info.address;
+    this.solanaPublicKey = info.solanaPublicKey;
+  }
+
+  /**
+   * Connects to a signing service and reads the addresses it signs for
+   *
+   * @param options - Service URL and token
+   * @returns A signer for the service's keys
+   */
+  static async connect(options: RemoteSignerOptions): Promise<RemoteSigner> {
+    const { data } = await axios.get<RemoteSignerInfo>(`${options.url}/signer`, {
+      headers: RemoteSigner.headers(options),
+      timeout: options.timeout ?? 30_000,
+    });
+    return new RemoteSigner(options, data);
+  }
+
+  async signMessage(message: SignableMessage): Promise<Hex> {
+    return this.request('signMessage', message);
+  }
+
+  async signTypedData(typedData: HashTypedDataParameters): Promise<Hex> {
+    return this.request('signTypedData', typedData);
+  }
+
+  async signAuthorization(authorization: AuthorizationRequest): Promise<SignedAuthorization> {
+    const { v, ...signed } = await this.request<WireAuthorization>(
+      'signAuthorization',
+      authorization,
+    );
+    return { ...signed, v: BigInt(v) };
+  }
+
+  async signSolanaMessage(message: Uint8Array): Promise<Uint8Array> {
+    const signature = await this.request<string>(
+      'signSolanaMessage',
+      Buffer.from(message).toString('base64'),
+    );
+    return new Uint8Array(Buffer.from(signature, 'base64'));
+  }
+
+  private async request<T>(method: SignerMethod, params: unknown): Promise<T> {
+    try {
+      const { data } = await axios.post<{ result: T }>(
+        `${this.options.url}/sign`,
+        stringify({ method, params }),
+        {
+          headers: { 'content-type': 'application/json', ...RemoteSigner.headers(this.options) },
+          timeout: this.options.timeout ?? 30_000,
+        },
+      );
+      return data.result;
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? ((error.response?.data as { message?: string } | undefined)?.message ?? error.message)
+        : String(error);
+      throw new Error(`Remote signer ${method} failed: ${message}`);
+    }
+  }
+
+  private static headers(options: RemoteSignerOptions): Record<string, string> {
+    return options.token ? { authorization: `Bearer ${options.token}` } : {};
+  }
+}
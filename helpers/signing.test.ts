@@ -0,0 +1,184 @@
+import crypto from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { recoverMessageAddress, recoverTypedDataAddress } from 'viem';
+import { entryPoint07Address, getUserOperationHash } from 'viem/account-abstraction';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { recoverAuthorizationAddress } from 'viem/utils';
+import { Keypair, MessageV0 } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { signOperation, signSolanaOperation } from './signing';
+import { ChainOperation, ContractAccountType, DelegationSignatureType, Hex } from './types';
+import { buildChainOperation, buildSolanaOperation } from '../mock/fixtures';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+
+const privateKey = generatePrivateKey();
+const signer = privateKeyToAccount(privateKey);
+
+function userOpHash(operation: ChainOperation): Hex {
+  const { userOp } = operation;
+  return getUserOperationHash({
+    userOperation: {
+      sender: userOp.sender,
+      nonce: BigInt(userOp.nonce),
+      callData: userOp.callData,
+      callGasLimit: BigInt(userOp.callGasLimit),
+      verificationGasLimit: BigInt(userOp.verificationGasLimit),
+      preVerificationGas: BigInt(userOp.preVerificationGas),
+      maxFeePerGas: BigInt(userOp.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(userOp.maxPriorityFeePerGas),
+      signature: '0x',
+    },
+    entryPointAddress: entryPoint07Address,
+    entryPointVersion: '0.7',
+    chainId: Number(operation.typedDataToSign.domain?.chainId),
+  });
+}
+
+describe('signOperation', () => {
+  it('signs the typed data for role-based accounts', async () => {
+    const operation = buildChainOperation(
+      {
+        type: 'role-based',
+        sessionAddress: signer.address,
+        adminAddress: signer.address,
+        accountAddress: '0x2222222222222222222222222222222222222222',
+      },
+      42161,
+      ARBITRUM_USDC,
+      '1000000',
+    );
+
+    const signed = await signOperation(operation, privateKey, ContractAccountType.RoleBased);
+
+    const recovered = await recoverTypedDataAddress({
+      ...operation.typedDataToSign,
+      signature: signed.userOp.signature as Hex,
+    } as Parameters<typeof recoverTypedDataAddress>[0]);
+    expect(recovered).toBe(signer.address);
+  });
+
+  it('signs the UserOperation hash for Kernel v3.1 accounts', async () => {
+    const operation = buildChainOperation(
+      {
+        type: 'kernel-v3.1-ecdsa',
+        deploymentType: 'ERC4337',
+        signerAddress: signer.address,
+        accountAddress: '0x2222222222222222222222222222222222222222',
+      },
+      8453,
+      'eip155:8453/slip44:60',
+      '1000',
+    );
+
+    const signed = await signOperation(operation, signer, ContractAccountType.KernelV31);
+
+    const recovered = await recoverMessageAddress({
+      message: { raw: userOpHash(operation) },
+      signature: signed.userOp.signature as Hex,
+    });
+    expect(recovered).toBe(signer.address);
+    expect(signed.delegation).toBeUndefined();
+  });
+
+  it('signs the delegation and the UserOperation hash for Kernel v3.3 accounts', async () => {
+    const operation = buildChainOperation(
+      {
+        type: 'kernel-v3.3-ecdsa',
+        deploymentType: 'EIP7702',
+        signerAddress: signer.address,
+        accountAddress: signer.address,
+      },
+      42161,
+      ARBITRUM_USDC,
+      '1000000',
+    );
+
+    const signed = await signOperation(operation, privateKey, ContractAccountType.KernelV33);
+
+    const delegation = signed.delegation!.signature!;
+    expect(delegation.type).toBe(DelegationSignatureType.Signed);
+    expect(delegation.chainId).toBe(42161);
+
+    const delegationSigner = await recoverAuthorizationAddress({
+      authorization: {
+        address: delegation.contractAddress,
+        chainId: delegation.chainId,
+        nonce: delegation.nonce,
+        r: delegation.r,
+        s: delegation.s,
+        yParity: delegation.yParity,
+      },
+    });
+    expect(delegationSigner).toBe(signer.address);
+
+    const recovered = await recoverMessageAddress({
+      message: { raw: userOpHash(operation) },
+      signature: signed.userOp.signature as Hex,
+    });
+    expect(recovered).toBe(signer.address);
+  });
+
+  it('requires typed data for role-based accounts', async () => {
+    const operation = buildChainOperation(
+      {
+        type: 'role-based',
+        sessionAddress: signer.address,
+        adminAddress: signer.address,
+        accountAddress: signer.address,
+      },
+      1,
+      'eip155:1/slip44:60',
+      '1',
+    );
+
+    await expect(
+      signOperation({ ...operation, typedDataToSign: undefined! }, privateKey),
+    ).rejects.toThrow('TypedData is required for role-based account signing.');
+  });
+});
+
+describe('signSolanaOperation', () => {
+  it('signs the message with the account key', () => {
+    const keypair = Keypair.generate();
+    const address = keypair.publicKey.toBase58();
+    const operation = buildSolanaOperation(
+      address,
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501',
+      '1000000',
+    );
+
+    const signed = signSolanaOperation(address, bs58.encode(keypair.secretKey), operation);
+
+    // Ed25519 public key wrapped in a DER SubjectPublicKeyInfo
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.concat([
+        Buffer.from('302a300506032b6570032100', 'hex'),
+        keypair.publicKey.toBuffer(),
+      ]),
+      format: 'der',
+      type: 'spki',
+    });
+    const message = MessageV0.deserialize(Buffer.from(operation.dataToSign!, 'base64'));
+
+    expect(
+      crypto.verify(null, message.serialize(), publicKey, bs58.decode(signed.signature!)),
+    ).toBe(true);
+  });
+
+  it('requires dataToSign', () => {
+    const keypair = Keypair.generate();
+    const operation = buildSolanaOperation(
+      keypair.publicKey.toBase58(),
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501',
+      '1',
+    );
+
+    expect(() =>
+      signSolanaOperation(keypair.publicKey.toBase58(), bs58.encode(keypair.secretKey), {
+        ...operation,
+        dataToSign: '',
+      }),
+    ).toThrow('dataToSign is required for Solana operation signing');
+  });
+});
@@ -1,8 +1,9 @@
 import { PrivateKeyAccount } from 'viem';
 import { entryPoint07Address, getUserOperationHash, UserOperation } from 'viem/account-abstraction';
-import { privateKeyToAccount } from 'viem/accounts';
 import { MessageV0, PublicKey, VersionedTransaction, Keypair } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { getLogger } from './logger';
+import { Signer, isSigner, toSigner } from './signer';
 import {
   Hex,
   ContractAccountType,
@@ -42,19 +43,48 @@ function deserializeUserOp(userOp: SerializedUserOperation): UserOperation<'0.7'
   };
 }
 
+/**
+ * ERC-4337 v0.7 UserOperation hash of a chain operation, which Kernel accounts sign
+ *
+ * @param operation - The chain operation; its typed data domain gives the chain id
+ * @returns The UserOperation hash
+ */
+export function getOperationHash(operation: ChainOperation): Hex {
+  if (!operation.userOp || !operation.typedDataToSign?.domain?.chainId) {
+    throw new Error('UserOperation and Chain ID are required for Kernel signing.');
+  }
+
+  return getUserOperationHash<'0.7'>({
+    userOperation: deserializeUserOp(operation.userOp),
+    entryPointAddress: entryPoint07Address,
+    entryPointVersion: '0.7',
+    chainId: Number(operation.typedDataToSign.domain.chainId),
+  });
+}
+
 /**
  * Signs a Solana chain operation with a private key (v3 compatible)
  *
  * @param accountAddress - The address of the account to sign the chain operation
- * @param privateKey - The private key to sign the chain operation
+ * @param privateKey - The private key (base58) or Signer to sign the chain operation with
  * @param chainOp - The chain operation to sign
- * @returns The signed chain operation
+ * @returns The signed chain operation; a promise of it when signing with a Signer
  */
 export function signSolanaOperation(
   accountAddress: string,
   privateKey: string,
   chainOp: SolanaOperation,
-): SolanaOperation {
+): SolanaOperation;
+export function signSolanaOperation(
+  accountAddress: string,
+  signer: Signer,
+  chainOp: SolanaOperation,
+): Promise<SolanaOperation>;
+export function signSolanaOperation(
+  accountAddress: string,
+  key: string | Signer,
+  chainOp: SolanaOperation,
+): SolanaOperation | Promise<SolanaOperation> {
   if (!chainOp.dataToSign) {
     throw new Error('dataToSign is required for Solana operation signing');
   }
@@ -65,7 +95,15 @@ export function signSolanaOperation(
 
   const transaction = new VersionedTransaction(message);
 
-  const decodedKey = bs58.decode(privateKey);
+  if (isSigner(key)) {
+    return key.signSolanaMessage(message.serialize()).then((signature) => {
+      // Throws unless the account is a required signer of the transaction
+      transaction.addSignature(new PublicKey(accountAddress), signature);
+      return { ...chainOp, signature: bs58.encode(signature) };
+    });
+  }
+
+  const decodedKey = bs58.decode(key);
   transaction.sign([
     {
       publicKey: new PublicKey(accountAddress),
@@ -89,10 +127,10 @@ export function signSolanaOperation(
  */
 export async function signOperation(
   operation: ChainOperation,
-  key: Hex | PrivateKeyAccount,
+  key: Hex | PrivateKeyAccount | Signer,
   accountType: ContractAccountType = ContractAccountType.RoleBased,
 ): Promise<ChainOperation> {
-  const signerAccount = typeof key === 'string' ? privateKeyToAccount(key) : key;
+  const signer = toSigner(key);
 
   if (
     accountType === ContractAccountType.KernelV31 ||
@@ -111,7 +149,7 @@ export async function signOperation(
         nonce: operation.delegation.nonce,
         chainId: chainId,
       };
-      const signedTuple = await signerAccount.signAuthorization(authTuple);
+      const signedTuple = await signer.signAuthorization(authTuple);
 
       if (signedTuple.yParity == null) {
         throw new Error('Y parity is required');
@@ -130,19 +168,11 @@ export async function signOperation(
     }
 
     // Sign UserOperation hash for Kernel accounts
-    const deserializedUserOp = deserializeUserOp(operation.userOp);
-    const userOpHash = getUserOperationHash<'0.7'>({
-      userOperation: deserializedUserOp,
-      entryPointAddress: entryPoint07Address,
-      entryPointVersion: '0.7',
-      chainId: chainId,
-    });
-
     return {
       ...operation,
       userOp: {
         ...operation.userOp,
-        signature: await signerAccount.signMessage({ message: { raw: userOpHash } }),
+        signature: await signer.signMessage({ raw: getOperationHash(operation) }),
       },
     };
   }
@@ -156,7 +186,7 @@ export async function signOperation(
     ...operation,
     userOp: {
       ...operation.userOp,
-      signature: await signerAccount.signTypedData(operation.typedDataToSign),
+      signature: await signer.signTypedData(operation.typedDataToSign),
     },
   };
 }
@@ -165,20 +195,24 @@ export async function signOperation(
  * Signs all operations in a quote (EVM and Solana)
  *
  * @param quote - The quote containing operations to sign
- * @param signerKey - EVM signer key for signing EVM operations
- * @param solanaKeypair - Solana keypair for signing Solana operations
+ * @param signerKey - EVM signer key or Signer for signing EVM operations
+ * @param solanaKeypair - Solana keypair or Signer for signing Solana operations
  * @param solanaAccount - Solana account information
  * @param accountType - EVM account type (default: KernelV31)
  * @returns The quote with all operations signed
  */
 export async function signAllOperations(
   quote: QuoteResponseV3,
-  signerKey: EOAKeyPair,
-  solanaKeypair: Keypair | null,
+  signerKey: EOAKeyPair | Signer,
+  solanaKeypair: Keypair | Signer | null,
   solanaAccount: SolanaAccount | null,
   accountType: ContractAccountType = ContractAccountType.KernelV31,
 ): Promise<QuoteResponseV3> {
-  console.log('🔐 Signing operations...');
+  const logger = getLogger();
+  logger.info('🔐 Signing operations...', {
+    quoteId: quote.id,
+    operations: quote.originChainsOperations?.length ?? 0,
+  });
 
   if (!quote.originChainsOperations || quote.originChainsOperations.length === 0) {
     throw new Error('No origin operations to sign');
@@ -189,20 +223,23 @@ export async function signAllOperations(
 
     if ('type' in operation && operation.type === 'solana' && solanaKeypair && solanaAccount) {
       // Sign Solana operation
-      const privateKeyString = bs58.encode(solanaKeypair.secretKey);
-      const signedOperation = signSolanaOperation(
-        solanaAccount.accountAddress,
-        privateKeyString,
-        operation as SolanaOperation,
-      );
+      const solanaOperation = operation as SolanaOperation;
+      const signedOperation = isSigner(solanaKeypair)
+        ? await signSolanaOperation(solanaAccount.accountAddress, solanaKeypair, solanaOperation)
+        : signSolanaOperation(
+            solanaAccount.accountAddress,
+            bs58.encode(solanaKeypair.secretKey),
+            solanaOperation,
+          );
       quote.originChainsOperations[i] = signedOperation;
     } else if ('userOp' in operation && 'typedDataToSign' in operation) {
       // Sign EVM operation
-      const signedOperation = await signOperation(operation, signerKey.privateKey, accountType);
+      const evmSigner = isSigner(signerKey) ? signerKey : signerKey.privateKey;
+      const signedOperation = await signOperation(operation, evmSigner, accountType);
       quote.originChainsOperations[i] = signedOperation;
     }
   }
 
-  console.log('✅ All operations signed successfully');
+  logger.info('✅ All operations signed successfully', { quoteId: quote.id });
   return quote;
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { formatSolanaAssetSymbol, isSolanaInvolved } from './solana';
+
+const SOLANA_USDC =
+  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('isSolanaInvolved', () => {
+  it('detects Solana assets on either side', () => {
+    expect(isSolanaInvolved(SOLANA_USDC, 'ob:usdc')).toBe(true);
+    expect(isSolanaInvolved('ob:usdc', SOLANA_USDC)).toBe(true);
+  });
+
+  it('detects the aggregated SOL asset', () => {
+    expect(isSolanaInvolved('ob:sol', 'ob:usdc')).toBe(true);
+    expect(isSolanaInvolved('ob:usdc', 'ob:sol')).toBe(true);
+  });
+
+  it('is false for EVM-only swaps', () => {
+    expect(isSolanaInvolved('ob:usdc', 'eip155:8453/slip44:60')).toBe(false);
+  });
+});
+
+describe('formatSolanaAssetSymbol', () => {
+  it('formats aggregated and native SOL', () => {
+    expect(formatSolanaAssetSymbol('ob:sol')).toBe('SOL');
+    expect(formatSolanaAssetSymbol('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501')).toBe(
+      'SOL',
+    );
+  });
+
+  it('shortens SPL token addresses', () => {
+    expect(formatSolanaAssetSymbol(SOLANA_USDC)).toBe('SOL-EPjFWd...');
+  });
+
+  it('returns other asset ids unchanged', () => {
+    expect(formatSolanaAssetSymbol('ob:usdc')).toBe('ob:usdc');
+  });
+});
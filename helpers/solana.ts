@@ -1,3 +1,5 @@
+import { getChainOf, tryParseAssetId } from './caip';
+
 /**
  * Solana-specific utility functions for OneBalance operations
  */
@@ -10,12 +12,7 @@
  * @returns True if any of the assets involve Solana
  */
 export function isSolanaInvolved(fromAssetId: string, toAssetId: string): boolean {
-  return (
-    fromAssetId.startsWith('solana:') ||
-    toAssetId.startsWith('solana:') ||
-    fromAssetId === 'ob:sol' ||
-    toAssetId === 'ob:sol'
-  );
+  return isSolanaAsset(fromAssetId) || isSolanaAsset(toAssetId);
 }
 
 /**
@@ -25,7 +22,7 @@ export function isSolanaInvolved(fromAssetId: string, toAssetId: string): boolea
  * @returns True if the asset is Solana-based
  */
 export function isSolanaAsset(assetId: string): boolean {
-  return assetId.startsWith('solana:') || assetId === 'ob:sol';
+  return assetId === 'ob:sol' || getChainOf(assetId)?.namespace === 'solana';
 }
 
 /**
@@ -35,12 +32,12 @@ export function isSolanaAsset(assetId: string): boolean {
  * @returns Token address or null if not a valid Solana token asset
  */
 export function extractSolanaTokenAddress(assetId: string): string | null {
-  if (!assetId.startsWith('solana:')) {
+  const asset = tryParseAssetId(assetId);
+  if (asset?.chainId.namespace !== 'solana' || asset.assetNamespace !== 'token') {
     return null;
   }
 
-  const parts = assetId.split('/token:');
-  return parts.length === 2 ? parts[1] : null;
+  return asset.assetReference;
 }
 
 /**
@@ -54,15 +51,15 @@ export function formatSolanaAssetSymbol(assetId: string): string {
     return 'SOL';
   }
 
-  if (assetId.startsWith('solana:')) {
-    const tokenAddress = extractSolanaTokenAddress(assetId);
-    if (tokenAddress) {
-      return `SOL-${tokenAddress.slice(0, 6)}...`;
+  const asset = tryParseAssetId(assetId);
+  if (asset?.chainId.namespace === 'solana') {
+    if (asset.assetNamespace === 'token') {
+      return `SOL-${asset.assetReference.slice(0, 6)}...`;
     }
 
     // Handle SLIP-44 format
-    if (assetId.includes('/slip44:')) {
-      const slip44Code = assetId.split('/slip44:')[1];
+    if (asset.assetNamespace === 'slip44') {
+      const slip44Code = asset.assetReference;
       const slip44Map: Record<string, string> = {
         '501': 'SOL',
         '0': 'BTC',
@@ -301,6 +301,13 @@ export interface HistoryResponseV3 {
   continuation?: string;
 }
 
+export interface HistoryRequestV3 {
+  user: string; // CAIP-10 account id(s), comma-separated for EVM + Solana
+  limit?: number;
+  continuation?: string; // token from the previous page
+  sortBy?: 'createdAt' | 'updatedAt';
+}
+
 // Chain Types
 export interface ChainInfo {
   chainId: number;
@@ -0,0 +1,178 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildChainOperation, buildSolanaOperation } from '../mock/fixtures';
+import { MockOneBalanceServer } from '../mock/server';
+import { OneBalanceClient } from './client';
+import { signOperation, signSolanaOperation } from './signing';
+import {
+  Account,
+  ContractAccountType,
+  EIP7702Account,
+  QuoteResponseV3,
+  RoleBasedAccount,
+  SolanaAccount,
+  StandardAccount,
+} from './types';
+import { QuoteVerificationError, findSignatureIssues, verifySignedQuote } from './verification';
+
+const ARBITRUM_USDC = 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const SOLANA_SOL = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp/slip44:501';
+
+const sessionKey = generatePrivateKey();
+const adminKey = generatePrivateKey();
+const otherKey = generatePrivateKey();
+const session = privateKeyToAccount(sessionKey);
+const keypair = Keypair.generate();
+
+const roleBased: RoleBasedAccount = {
+  type: 'role-based',
+  sessionAddress: session.address,
+  adminAddress: privateKeyToAccount(adminKey).address,
+  accountAddress: '0x2222222222222222222222222222222222222222',
+};
+const standard: StandardAccount = {
+  type: 'kernel-v3.1-ecdsa',
+  deploymentType: 'ERC4337',
+  signerAddress: session.address,
+  accountAddress: '0x3333333333333333333333333333333333333333',
+};
+const eip7702: EIP7702Account = {
+  type: 'kernel-v3.3-ecdsa',
+  deploymentType: 'EIP7702',
+  signerAddress: session.address,
+  accountAddress: session.address,
+};
+const solana: SolanaAccount = { type: 'solana', accountAddress: keypair.publicKey.toBase58() };
+
+const quoteOf = (
+  accounts: Account[],
+  originChainsOperations: QuoteResponseV3['originChainsOperations'],
+): QuoteResponseV3 => ({
+  id: 'quote-1',
+  accounts,
+  originChainsOperations,
+  expirationTimestamp: String(Math.floor(Date.now() / 1000) + 60),
+  tamperProofSignature: '0x',
+});
+
+const signed = (
+  account: Exclude<Account, SolanaAccount>,
+  key = sessionKey,
+  accountType = ContractAccountType.RoleBased,
+) => signOperation(buildChainOperation(account, 42161, ARBITRUM_USDC, '1000000'), key, accountType);
+
+const signedSolana = (secretKey = keypair.secretKey) =>
+  signSolanaOperation(
+    solana.accountAddress,
+    bs58.encode(secretKey),
+    buildSolanaOperation(solana.accountAddress, SOLANA_SOL, '1000000'),
+  );
+
+describe('verifySignedQuote', () => {
+  it('accepts quotes signed by the keys of their accounts', async () => {
+    const quote = quoteOf(
+      [roleBased, standard, eip7702, solana],
+      [
+        await signed(roleBased),
+        await signed(roleBased, adminKey),
+        await signed(standard, sessionKey, ContractAccountType.KernelV31),
+        await signed(eip7702, sessionKey, ContractAccountType.KernelV33),
+        signedSolana(),
+      ],
+    );
+
+    await expect(verifySignedQuote(quote)).resolves.toBeUndefined();
+  });
+
+  it('reports operations signed by other keys or changed after signing', async () => {
+    const tampered = await signed(roleBased);
+    tampered.typedDataToSign.message = { ...tampered.typedDataToSign.message, amount: '9000000' };
+    const other = privateKeyToAccount(otherKey).address;
+
+    const issues = await findSignatureIssues(
+      quoteOf(
+        [roleBased, standard],
+        [
+          await signed(roleBased, otherKey),
+          tampered,
+          await signed(standard, otherKey, ContractAccountType.KernelV31),
+          buildChainOperation(standard, 42161, ARBITRUM_USDC, '1'),
+        ],
+      ),
+    );
+
+    expect(issues).toEqual([
+      {
+        operation: 'originChainsOperations[0]',
+        message: `signed by ${other}, expected ${roleBased.sessionAddress} or ${roleBased.adminAddress}`,
+      },
+      { operation: 'originChainsOperations[1]', message: expect.stringContaining('signed by 0x') },
+      {
+        operation: 'originChainsOperations[2]',
+        message: `signed by ${other}, expected ${standard.signerAddress}`,
+      },
+      { operation: 'originChainsOperations[3]', message: 'not signed' },
+    ]);
+  });
+
+  it('checks the EIP-7702 delegation tuple', async () => {
+    const unsigned = await signed(eip7702, sessionKey, ContractAccountType.KernelV33);
+    delete unsigned.delegation!.signature;
+    const replayed = await signed(eip7702, sessionKey, ContractAccountType.KernelV33);
+    replayed.delegation!.nonce = 1;
+    const foreign = await signed(eip7702, sessionKey, ContractAccountType.KernelV33);
+    foreign.delegation!.signature = (
+      await signed(eip7702, otherKey, ContractAccountType.KernelV33)
+    ).delegation!.signature;
+
+    const issues = await findSignatureIssues(quoteOf([eip7702], [unsigned, replayed, foreign]));
+
+    expect(issues.map(({ operation, message }) => `${operation}: ${message}`)).toEqual([
+      'originChainsOperations[0]: EIP-7702 delegation is not signed',
+      'originChainsOperations[1]: EIP-7702 delegation signed with nonce 0, expected 1',
+      `originChainsOperations[2]: EIP-7702 delegation signed by ${privateKeyToAccount(otherKey).address}, expected ${session.address}`,
+    ]);
+  });
+
+  it('checks Solana signatures against the Solana account', async () => {
+    const forged = signedSolana();
+    forged.signature = bs58.encode(new Uint8Array(64).fill(1));
+
+    await expect(verifySignedQuote(quoteOf([solana], [forged]))).rejects.toThrow(
+      `Signed quote quote-1 failed verification:\n  - originChainsOperations[0]: signature does not match ${solana.accountAddress}`,
+    );
+    expect(await findSignatureIssues(quoteOf([], [signedSolana()]))).toEqual([
+      { operation: 'originChainsOperations[0]', message: 'no Solana account in the quote' },
+    ]);
+  });
+});
+
+describe('OneBalanceClient.executeQuoteV3', () => {
+  const server = new MockOneBalanceServer();
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('refuses to submit quotes that fail verification', async () => {
+    const quote = quoteOf([roleBased], [await signed(roleBased, otherKey)]);
+
+    await expect(new OneBalanceClient({ baseUrl }).executeQuoteV3(quote)).rejects.toBeInstanceOf(
+      QuoteVerificationError,
+    );
+    expect(server.requests).toHaveLength(0);
+
+    // Without verification the backend gets to reject it
+    await expect(
+      new OneBalanceClient({ baseUrl, verifySignatures: false }).executeQuoteV3(quote),
+    ).rejects.toThrow();
+    expect(server.requests.map(({ path }) => path)).toEqual(['/api/v3/quote/execute-quote']);
+  });
+});
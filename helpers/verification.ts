@@ -0,0 +1,227 @@
+import { verify as verifyEd25519 } from 'node:crypto';
+import { MessageV0, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { isAddressEqual, recoverMessageAddress, recoverTypedDataAddress } from 'viem';
+import { recoverAuthorizationAddress } from 'viem/utils';
+import { getOperationHash } from './signing';
+import {
+  Account,
+  ChainOperation,
+  DelegationSignatureType,
+  EvmAccount,
+  Hex,
+  SolanaOperation,
+} from './types';
+
+/**
+ * Pre-execution signature checks: every signature of a signed quote is recovered and
+ * compared with the signer its account expects, so a quote signed with the wrong key, or
+ * tampered with after signing, is never submitted.
+ */
+
+/** A signature that does not match its account */
+export interface SignatureIssue {
+  /** The operation, e.g. 'originChainsOperations[1]' or 'destinationChainOperation' */
+  operation: string;
+  message: string;
+}
+
+/** A signed quote failed verification; nothing was submitted */
+export class QuoteVerificationError extends Error {
+  readonly quoteId: string;
+  readonly issues: SignatureIssue[];
+
+  constructor(quoteId: string, issues: SignatureIssue[]) {
+    super(
+      `Signed quote ${quoteId} failed verification:\n` +
+        issues.map((issue) => `  - ${issue.operation}: ${issue.message}`).join('\n'),
+    );
+    this.name = 'QuoteVerificationError';
+    this.quoteId = quoteId;
+    this.issues = issues;
+  }
+}
+
+/** Any signed quote: V1 quotes carry one account, V3 quotes several */
+export interface SignedQuote {
+  id: string;
+  account?: Account;
+  accounts?: Account[];
+  originChainsOperations: Array<ChainOperation | SolanaOperation>;
+  destinationChainOperation?: ChainOperation;
+}
+
+// SPKI prefix of an Ed25519 public key; the 32-byte key follows
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const isUnsigned = (signature: string | undefined) => !signature || signature === '0x';
+
+// Addresses allowed to sign for an EVM account: the admin key can act for role-based accounts
+function expectedSigners(account: EvmAccount): Hex[] {
+  return account.type === 'role-based'
+    ? [account.sessionAddress, account.adminAddress]
+    : [account.signerAddress];
+}
+
+async function verifyChainOperation(
+  operation: ChainOperation,
+  accounts: Account[],
+): Promise<string[]> {
+  const sender = operation.userOp?.sender;
+  const account = accounts.find(
+    (candidate): candidate is EvmAccount =>
+      candidate.type !== 'solana' && !!sender && isAddressEqual(candidate.accountAddress, sender),
+  );
+  if (!account) {
+    return [`no account in the quote for sender ${sender}`];
+  }
+
+  const issues: string[] = [];
+  const signature = operation.userOp.signature;
+  if (isUnsigned(signature)) {
+    issues.push('not signed');
+  } else {
+    const expected = expectedSigners(account);
+    try {
+      const recovered =
+        account.type === 'role-based'
+          ? await recoverTypedDataAddress({
+              ...operation.typedDataToSign,
+              signature,
+            } as Parameters<typeof recoverTypedDataAddress>[0])
+          : await recoverMessageAddress({
+              message: { raw: getOperationHash(operation) },
+              signature,
+            });
+      if (!expected.some((address) => isAddressEqual(address, recovered))) {
+        issues.push(`signed by ${recovered}, expected ${expected.join(' or ')}`);
+      }
+    } catch (error) {
+      issues.push(`invalid signature: ${(error as Error).message}`);
+    }
+  }
+
+  if (account.type === 'kernel-v3.3-ecdsa' && operation.delegation) {
+    issues.push(...(await verifyDelegation(operation, account.signerAddress)));
+  }
+  return issues;
+}
+
+// Checks the EIP-7702 authorization tuple matches the requested delegation and the EOA signed it
+async function verifyDelegation(operation: ChainOperation, signerAddress: Hex): Promise<string[]> {
+  const { contractAddress, nonce, signature } = operation.delegation!;
+  if (!signature || signature.type !== DelegationSignatureType.Signed) {
+    return ['EIP-7702 delegation is not signed'];
+  }
+
+  const issues: string[] = [];
+  const chainId = Number(operation.typedDataToSign?.domain?.chainId);
+  if (!isAddressEqual(signature.contractAddress, contractAddress)) {
+    issues.push(
+      `EIP-7702 delegation signed for ${signature.contractAddress}, expected ${contractAddress}`,
+    );
+  }
+  if (signature.nonce !== nonce) {
+    issues.push(`EIP-7702 delegation signed with nonce ${signature.nonce}, expected ${nonce}`);
+  }
+  if (signature.chainId !== chainId) {
+    issues.push(`EIP-7702 delegation signed for chain ${signature.chainId}, expected ${chainId}`);
+  }
+
+  try {
+    const recovered = await recoverAuthorizationAddress({
+      authorization: {
+        address: signature.contractAddress,
+        chainId: signature.chainId,
+        nonce: signature.nonce,
+        r: signature.r,
+        s: signature.s,
+        yParity: signature.yParity,
+      },
+    });
+    if (!isAddressEqual(recovered, signerAddress)) {
+      issues.push(`EIP-7702 delegation signed by ${recovered}, expected ${signerAddress}`);
+    }
+  } catch (error) {
+    issues.push(`invalid EIP-7702 delegation signature: ${(error as Error).message}`);
+  }
+  return issues;
+}
+
+function verifySolanaOperation(operation: SolanaOperation, accounts: Account[]): string[] {
+  const account = accounts.find((candidate) => candidate.type === 'solana');
+  if (!account) {
+    return ['no Solana account in the quote'];
+  }
+  if (isUnsigned(operation.signature) || !operation.dataToSign) {
+    return ['not signed'];
+  }
+
+  try {
+    const message = MessageV0.deserialize(Buffer.from(operation.dataToSign, 'base64'));
+    const signerIndex = message.staticAccountKeys.findIndex((key) =>
+      key.equals(new PublicKey(account.accountAddress)),
+    );
+    if (signerIndex < 0 || signerIndex >= message.header.numRequiredSignatures) {
+      return [`${account.accountAddress} is not a signer of the transaction`];
+    }
+
+    const publicKey = Buffer.concat([ED25519_SPKI_PREFIX, bs58.decode(account.accountAddress)]);
+    const valid = verifyEd25519(
+      null,
+      message.serialize(),
+      { key: publicKey, format: 'der', type: 'spki' },
+      bs58.decode(operation.signature!),
+    );
+    return valid ? [] : [`signature does not match ${account.accountAddress}`];
+  } catch (error) {
+    return [`invalid signature: ${(error as Error).message}`];
+  }
+}
+
+/**
+ * Recover every signature of a signed quote and compare it with the signer of its account:
+ * typed data for role-based accounts (session or admin key), the UserOperation hash for
+ * Kernel v3.1/v3.3 accounts, the EIP-7702 authorization for delegations, and Ed25519 for
+ * Solana operations.
+ *
+ * @param quote - The signed quote (V1 or V3, including call quotes)
+ * @returns Every mismatch; empty when all signatures check out
+ */
+export async function findSignatureIssues(quote: SignedQuote): Promise<SignatureIssue[]> {
+  const accounts = quote.accounts ?? (quote.account ? [quote.account] : []);
+  const operations = new Map<string, ChainOperation | SolanaOperation>(
+    (quote.originChainsOperations ?? []).map((operation, index) => [
+      `originChainsOperations[${index}]`,
+      operation,
+    ]),
+  );
+  // Call quotes carry the target call, signed by the account
+  const destination = quote.destinationChainOperation;
+  if (destination && !isUnsigned(destination.userOp?.signature)) {
+    operations.set('destinationChainOperation', destination);
+  }
+
+  const issues: SignatureIssue[] = [];
+  for (const [name, operation] of operations) {
+    const messages =
+      'type' in operation && operation.type === 'solana'
+        ? verifySolanaOperation(operation, accounts)
+        : await verifyChainOperation(operation as ChainOperation, accounts);
+    issues.push(...messages.map((message) => ({ operation: name, message })));
+  }
+  return issues;
+}
+
+/**
+ * Verify a signed quote before submitting it
+ *
+ * @param quote - The signed quote
+ * @throws QuoteVerificationError listing every mismatch
+ */
+export async function verifySignedQuote(quote: SignedQuote): Promise<void> {
+  const issues = await findSignatureIssues(quote);
+  if (issues.length > 0) {
+    throw new QuoteVerificationError(quote.id, issues);
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  loadMultiChainAccounts,
+  getAllHistory,
+  getAssetRegistry,
+  getChainRegistry,
+  writeHistoryExport,
+} from '../helpers';
+
+/**
+ * Export transaction history for spreadsheets and accounting tools
+ *
+ * Walks the full V3 history of the EVM and Solana accounts and writes it as CSV or
+ * JSON Lines, depending on the file extension.
+ *
+ * Usage: pnpm run history:export [file] [from-date]
+ *   pnpm run history:export exports/history.csv 2026-01-01
+ */
+
+async function exportHistory(file: string, from?: string) {
+  const { accounts } = await loadMultiChainAccounts({ needsEvm: true, needsSolana: true });
+
+  console.log(`📜 Fetching history${from ? ` since ${from}` : ''}...`);
+  const transactions = await getAllHistory(accounts, { from });
+
+  writeHistoryExport(file, transactions, {
+    assets: await getAssetRegistry(),
+    chains: await getChainRegistry(),
+  });
+
+  console.log(`✅ Exported ${transactions.length} transactions to ${file}`);
+}
+
+async function main() {
+  try {
+    const [file = 'exports/history.csv', from] = process.argv.slice(2);
+    await exportHistory(file, from);
+  } catch (error) {
+    console.error('Export failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,48 @@
+import { ExecutionJournal } from '../helpers';
+
+/**
+ * Resume quotes left in flight by a crashed script
+ *
+ * Reads the execution journal, continues monitoring every quote that was signed or
+ * executed but never reached a final status, and records the outcome. Rerun the
+ * original script afterwards to carry on with its next step.
+ *
+ * Usage: pnpm run journal:resume [journal-file]
+ */
+
+async function resume(file?: string) {
+  const journal = new ExecutionJournal({ file });
+  const pending = journal.inFlight();
+
+  if (pending.length === 0) {
+    console.log(`✅ Nothing in flight in ${journal.file}`);
+    return;
+  }
+
+  console.log(`♻️ Resuming ${pending.length} in-flight quote(s) from ${journal.file}`);
+  const outcomes = await journal.resumeInFlight();
+
+  for (const outcome of outcomes) {
+    const label = `${outcome.flow}${outcome.step ? `/${outcome.step}` : ''} ${outcome.quoteId}`;
+    if (outcome.result) {
+      console.log(`  ✅ ${label}: ${outcome.result.status}`);
+    } else if (outcome.error) {
+      console.log(`  ❌ ${label}: ${outcome.error.message}`);
+    } else {
+      console.log(`  ⏭️ ${label}: never submitted`);
+    }
+  }
+}
+
+async function main() {
+  try {
+    await resume(process.argv[2]);
+  } catch (error) {
+    console.error('Resume failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
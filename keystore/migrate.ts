@@ -0,0 +1,42 @@
+import { KeyStore, PASSPHRASE_ENV } from '../helpers';
+
+/**
+ * Encrypt plaintext key files
+ *
+ * Earlier versions stored private keys as plaintext JSON in helpers/keys/. This encrypts
+ * every such file in place with the keystore passphrase (from ONEBALANCE_KEYSTORE_PASSPHRASE
+ * or prompted for) and restricts it to its owner. Encrypted files are left as they are.
+ *
+ * Usage: pnpm run keystore:migrate [keys-dir]
+ */
+
+function migrate(dir?: string) {
+  const keyStore = new KeyStore({ dir });
+  const migrated = keyStore.migrate();
+
+  if (migrated.length === 0) {
+    console.log(`✅ No plaintext key files in ${keyStore.dir}`);
+    return;
+  }
+
+  console.log(`🔐 Encrypted ${migrated.length} key file(s) in ${keyStore.dir}:`);
+  for (const name of migrated) {
+    console.log(`  - ${keyStore.path(name)}`);
+  }
+  if (!process.env[PASSPHRASE_ENV]) {
+    console.log(`Set ${PASSPHRASE_ENV} to run the examples without a passphrase prompt`);
+  }
+}
+
+function main() {
+  try {
+    migrate(process.argv[2]);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,306 @@
+import { keccak256, getAddress, toHex, Hex } from 'viem';
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  Keypair,
+  LAMPORTS_PER_SOL,
+} from '@solana/web3.js';
+import {
+  Account,
+  AggregatedAsset,
+  AggregatedAssetBalance,
+  ChainOperation,
+  SolanaOperation,
+  SpecificAssetBalance,
+  SupportedChain,
+} from '../helpers/types';
+import { isSameAssetId } from '../helpers/caip';
+
+/**
+ * Default data and payload builders for the mock OneBalance server
+ */
+
+export const SOLANA_MAINNET = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+export const DEFAULT_ASSETS: AggregatedAsset[] = [
+  {
+    aggregatedAssetId: 'ob:usdc',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    aggregatedEntities: [
+      {
+        assetType: 'eip155:1/erc20:0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+        decimals: 6,
+        name: 'USD Coin',
+        symbol: 'USDC',
+      },
+      {
+        assetType: 'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+        decimals: 6,
+        name: 'USD Coin',
+        symbol: 'USDC',
+      },
+      {
+        assetType: 'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+        decimals: 6,
+        name: 'USD Coin',
+        symbol: 'USDC',
+      },
+      {
+        assetType: 'eip155:137/erc20:0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+        decimals: 6,
+        name: 'USD Coin',
+        symbol: 'USDC',
+      },
+      {
+        assetType: 'eip155:56/erc20:0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+        decimals: 18,
+        name: 'USD Coin',
+        symbol: 'USDC',
+      },
+      {
+        assetType: `${SOLANA_MAINNET}/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v`,
+        decimals: 6,
+        name: 'USD Coin',
+        symbol: 'USDC',
+      },
+    ],
+  },
+  {
+    aggregatedAssetId: 'ob:usdt',
+    symbol: 'USDT',
+    name: 'Tether USD',
+    decimals: 6,
+    aggregatedEntities: [
+      {
+        assetType: 'eip155:1/erc20:0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        decimals: 6,
+        name: 'Tether USD',
+        symbol: 'USDT',
+      },
+      {
+        assetType: 'eip155:42161/erc20:0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+        decimals: 6,
+        name: 'Tether USD',
+        symbol: 'USDT',
+      },
+    ],
+  },
+  {
+    aggregatedAssetId: 'ob:eth',
+    symbol: 'ETH',
+    name: 'Ether',
+    decimals: 18,
+    aggregatedEntities: [
+      { assetType: 'eip155:1/slip44:60', decimals: 18, name: 'Ether', symbol: 'ETH' },
+      { assetType: 'eip155:42161/slip44:60', decimals: 18, name: 'Ether', symbol: 'ETH' },
+      { assetType: 'eip155:8453/slip44:60', decimals: 18, name: 'Ether', symbol: 'ETH' },
+    ],
+  },
+  {
+    aggregatedAssetId: 'ob:sol',
+    symbol: 'SOL',
+    name: 'Solana',
+    decimals: 9,
+    aggregatedEntities: [
+      { assetType: `${SOLANA_MAINNET}/slip44:501`, decimals: 9, name: 'Solana', symbol: 'SOL' },
+    ],
+  },
+];
+
+export const DEFAULT_CHAINS: SupportedChain[] = [
+  ['eip155', '1'],
+  ['eip155', '10'],
+  ['eip155', '56'],
+  ['eip155', '137'],
+  ['eip155', '8453'],
+  ['eip155', '42161'],
+  ['eip155', '43114'],
+  ['solana', '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'],
+].map(([namespace, reference]) => ({
+  chain: { chain: `${namespace}:${reference}`, namespace, reference },
+  isTestnet: false,
+}));
+
+/**
+ * Scriptable balance state: aggregated balances are derived from per-asset balances
+ */
+export class BalanceBook {
+  private readonly balances = new Map<string, { balance: bigint; fiatValue: number }>();
+
+  constructor(private readonly assets: () => AggregatedAsset[]) {}
+
+  set(assetType: string, balance: bigint | string, fiatValue: number = 0): void {
+    this.balances.set(assetType, { balance: BigInt(balance), fiatValue });
+  }
+
+  clear(): void {
+    this.balances.clear();
+  }
+
+  specific(assetIds?: string[]): SpecificAssetBalance[] {
+    return [...this.balances.entries()]
+      .filter(([assetType]) => !assetIds || assetIds.some((id) => isSameAssetId(id, assetType)))
+      .map(([assetType, { balance, fiatValue }]) => ({
+        assetType,
+        balance: balance.toString(),
+        fiatValue,
+      }));
+  }
+
+  aggregated(aggregatedAssetIds?: string[]): AggregatedAssetBalance[] {
+    return this.assets()
+      .filter(
+        (asset) => !aggregatedAssetIds || aggregatedAssetIds.includes(asset.aggregatedAssetId),
+      )
+      .map((asset) => {
+        const individualAssetBalances = asset.aggregatedEntities
+          .filter((entity) => this.balances.has(entity.assetType))
+          .map((entity) => {
+            const { balance, fiatValue } = this.balances.get(entity.assetType)!;
+            return { assetType: entity.assetType, balance: balance.toString(), fiatValue };
+          });
+
+        // Aggregated totals are expressed in the aggregated asset decimals
+        const total = asset.aggregatedEntities.reduce((sum, entity) => {
+          const entry = this.balances.get(entity.assetType);
+          if (!entry) return sum;
+          const diff = asset.decimals - entity.decimals;
+          return diff >= 0
+            ? sum + entry.balance * 10n ** BigInt(diff)
+            : sum + entry.balance / 10n ** BigInt(-diff);
+        }, 0n);
+
+        return {
+          aggregatedAssetId: asset.aggregatedAssetId,
+          balance: total.toString(),
+          individualAssetBalances,
+          fiatValue: individualAssetBalances.reduce((sum, entry) => sum + entry.fiatValue, 0),
+        };
+      })
+      .filter((asset) => asset.individualAssetBalances.length > 0);
+  }
+}
+
+/**
+ * Deterministic account address for a signer, mimicking address prediction
+ */
+export function predictMockAddress(...parts: string[]): Hex {
+  const hash = keccak256(toHex(parts.join(':').toLowerCase()));
+  return getAddress(`0x${hash.slice(-40)}`);
+}
+
+export function randomHash(): Hex {
+  return toHex(Keypair.generate().publicKey.toBytes());
+}
+
+/**
+ * Build an unsigned EVM chain operation for an account on a chain
+ */
+export function buildChainOperation(
+  account: Exclude<Account, { type: 'solana' }>,
+  chainId: number,
+  assetType: string,
+  amount: string,
+): ChainOperation {
+  const operation: ChainOperation = {
+    userOp: {
+      sender: account.accountAddress,
+      nonce: '0',
+      callData: '0x',
+      callGasLimit: '100000',
+      verificationGasLimit: '100000',
+      preVerificationGas: '50000',
+      maxFeePerGas: '1000000000',
+      maxPriorityFeePerGas: '1000000',
+      signature: '0x',
+    },
+    typedDataToSign: {
+      domain: {
+        name: 'OneBalance Mock',
+        version: '1',
+        chainId,
+        verifyingContract: account.accountAddress,
+      },
+      types: {
+        Operation: [
+          { name: 'sender', type: 'address' },
+          { name: 'assetType', type: 'string' },
+          { name: 'amount', type: 'string' },
+        ],
+      },
+      primaryType: 'Operation',
+      message: { sender: account.accountAddress, assetType, amount },
+    },
+    assetType,
+    amount,
+  };
+
+  if (account.type === 'kernel-v3.3-ecdsa') {
+    operation.delegation = {
+      contractAddress: '0xd6CEDDe84be40893d153Be9d467CD6aD37875b28',
+      nonce: 0,
+    };
+  }
+
+  return operation;
+}
+
+/**
+ * Build an unsigned Solana operation whose dataToSign is a real V0 message
+ */
+export function buildSolanaOperation(
+  accountAddress: string,
+  assetType: string,
+  amount: string,
+): SolanaOperation {
+  const payer = new PublicKey(accountAddress);
+  const recentBlockhash = Keypair.generate().publicKey.toBase58();
+  const instruction = SystemProgram.transfer({
+    fromPubkey: payer,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: LAMPORTS_PER_SOL / 1000,
+  });
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash,
+    instructions: [instruction],
+  }).compileToV0Message();
+
+  return {
+    type: 'solana',
+    instructions: [
+      {
+        keys: instruction.keys.map((key) => ({
+          pubkey: key.pubkey.toBase58(),
+          isSigner: key.isSigner,
+          isWritable: key.isWritable,
+        })),
+        programId: instruction.programId.toBase58(),
+        data: instruction.data.toString('base64'),
+      },
+    ],
+    recentBlockHash: recentBlockhash,
+    feePayer: accountAddress,
+    assetType,
+    amount,
+    dataToSign: Buffer.from(message.serialize()).toString('base64'),
+  };
+}
+
+/**
+ * Whether every signature slot of an operation has been filled
+ */
+export function isOperationSigned(operation: ChainOperation | SolanaOperation): boolean {
+  if ('type' in operation && operation.type === 'solana') {
+    return Boolean(operation.signature);
+  }
+
+  const evmOperation = operation as ChainOperation;
+  if (evmOperation.delegation && !evmOperation.delegation.signature) {
+    return false;
+  }
+  return Boolean(evmOperation.userOp?.signature) && evmOperation.userOp.signature !== '0x';
+}
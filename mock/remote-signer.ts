@@ -0,0 +1,153 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AuthorizationRequest, HashTypedDataParameters, SignableMessage } from 'viem';
+import { KeystoreSigner, Signer, SignerMethod, WireAuthorization } from '../helpers/signer';
+
+/**
+ * Local stand-in for a remote signing service (an HSM, KMS or wallet backend) that holds
+ * the keys and answers the RemoteSigner protocol:
+ *
+ *   GET  /signer  →  { address, solanaPublicKey }
+ *   POST /sign    { method, params }  →  { result }
+ *
+ *   const server = new RemoteSignerServer(new LocalSigner({ evm: privateKey }), { token });
+ *   const signer = await RemoteSigner.connect({ url: await server.start(), token });
+ */
+
+export interface RemoteSignerServerOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Bearer token every request must carry (default: none required) */
+  token?: string;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export class RemoteSignerServer {
+  /** Methods called so far, for assertions */
+  readonly calls: SignerMethod[] = [];
+
+  private readonly server: http.Server;
+  private readonly signer: Signer;
+  private readonly options: RemoteSignerServerOptions;
+
+  constructor(signer: Signer, options: RemoteSignerServerOptions = {}) {
+    this.signer = signer;
+    this.options = options;
+    this.server = http.createServer((req, res) => {
+      this.handle(req)
+        .then((body) => respond(res, 200, body))
+        .catch((error) =>
+          respond(res, error instanceof HttpError ? error.status : 500, {
+            message: (error as Error).message,
+          }),
+        );
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(this.options.port ?? 0, resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  private async handle(req: http.IncomingMessage): Promise<unknown> {
+    if (this.options.token && req.headers.authorization !== `Bearer ${this.options.token}`) {
+      throw new HttpError(401, 'Invalid signer token');
+    }
+
+    if (req.method === 'GET' && req.url === '/signer') {
+      return { address: this.signer.address, solanaPublicKey: this.signer.solanaPublicKey };
+    }
+    if (req.method !== 'POST' || req.url !== '/sign') {
+      throw new HttpError(404, `No route for ${req.method} ${req.url}`);
+    }
+
+    const { method, params } = (await readJson(req)) as { method: SignerMethod; params: unknown };
+    this.calls.push(method);
+
+    switch (method) {
+      case 'signMessage':
+        return { result: await this.signer.signMessage(params as SignableMessage) };
+      case 'signTypedData':
+        return { result: await this.signer.signTypedData(params as HashTypedDataParameters) };
+      case 'signAuthorization': {
+        const signed = await this.signer.signAuthorization(params as AuthorizationRequest);
+        const yParity = signed.yParity ?? Number(signed.v! - 27n);
+        const wire: WireAuthorization = {
+          address: signed.address,
+          chainId: signed.chainId,
+          nonce: signed.nonce,
+          r: signed.r,
+          s: signed.s,
+          v: String(signed.v ?? BigInt(yParity + 27)),
+          yParity,
+        };
+        return { result: wire };
+      }
+      case 'signSolanaMessage': {
+        const message = Buffer.from(params as string, 'base64');
+        const signature = await this.signer.signSolanaMessage(message);
+        return { result: Buffer.from(signature).toString('base64') };
+      }
+      default:
+        throw new HttpError(400, `Unknown signer method: ${method}`);
+    }
+  }
+}
+
+function respond(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+/**
+ * Serve the keystore's session and Solana keys standalone
+ */
+async function main() {
+  const signer = new KeystoreSigner({
+    evmKey: process.env.SIGNER_EVM_KEY || 'session',
+    solanaKey: process.env.SIGNER_SOLANA_KEY || undefined,
+  });
+  const server = new RemoteSignerServer(signer, {
+    port: Number(process.env.PORT) || 4020,
+    token: process.env.SIGNER_TOKEN,
+  });
+
+  const url = await server.start();
+  console.log(`🔏 Remote signer for ${signer.address} listening on ${url}`);
+  console.log(`   Connect with: await RemoteSigner.connect({ url: '${url}' })`);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,826 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { formatUnits } from 'viem';
+import {
+  Account,
+  AggregatedAsset,
+  BundleResponse,
+  CallQuoteResponseV3,
+  CallRequestV3,
+  CallType,
+  ChainOperation,
+  ExecutionStatusResponseV3,
+  HistoryResponse,
+  HistoryResponseV3,
+  HistoryTransaction,
+  HistoryTransactionV3,
+  Hex,
+  OperationStatus,
+  PrepareCallRequestV3,
+  QuoteRequestV3,
+  QuoteResponseV3,
+  SolanaOperation,
+  SupportedChain,
+  TargetCallQuoteV3,
+  TransactionType,
+} from '../helpers/types';
+import {
+  SOLANA_MAINNET as SOLANA_MAINNET_CHAIN,
+  evmChain,
+  formatAccountId,
+  formatChainId,
+  getChainOf,
+  isAggregatedAssetId,
+  parseAccountId,
+  parseChainId,
+} from '../helpers/caip';
+import { ChainRegistry } from '../helpers/chains';
+import {
+  BalanceBook,
+  DEFAULT_ASSETS,
+  DEFAULT_CHAINS,
+  SOLANA_MAINNET,
+  buildChainOperation,
+  buildSolanaOperation,
+  isOperationSigned,
+  predictMockAddress,
+  randomHash,
+} from './fixtures';
+
+/**
+ * Local mock of the OneBalance backend for offline development and tests.
+ *
+ * Balances, quote outcomes and execution status progressions are scriptable:
+ *
+ *   const server = new MockOneBalanceServer();
+ *   const url = await server.start();
+ *   server.setBalance('eip155:42161/erc20:0xaf88...', 5_000_000n, 5);
+ *   server.queueQuoteOutcome(MOCK_ERRORS.noRoute);
+ *   setDefaultClient(new OneBalanceClient({ baseUrl: url }));
+ */
+
+/**
+ * Scripted response for the next quote or execution: succeed, or fail with an HTTP error
+ * (optionally with response headers such as Retry-After)
+ */
+export type MockOutcome =
+  | 'success'
+  | { status: number; body: unknown; headers?: Record<string, string> };
+
+export const MOCK_ERRORS = {
+  noRoute: { status: 400, body: { message: 'No routes found', statusCode: 400 } },
+  insufficientBalance: { status: 400, body: { message: 'Insufficient balance', statusCode: 400 } },
+  quoteExpired: { status: 400, body: { message: 'Quote expired', statusCode: 400 } },
+  rateLimited: { status: 429, body: { message: 'Too many requests', statusCode: 429 } },
+  serverError: { status: 500, body: { message: 'Internal server error', statusCode: 500 } },
+} satisfies Record<string, MockOutcome>;
+
+export const DEFAULT_STATUS_PROGRESSION: OperationStatus[] = [
+  'PENDING',
+  'IN_PROGRESS',
+  'COMPLETED',
+];
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockServerOptions {
+  /** Port to listen on (default: 0, a random free port) */
+  port?: number;
+  /** Quote lifetime in seconds (default: 60) */
+  quoteTtlSeconds?: number;
+}
+
+interface IssuedQuote {
+  quote: QuoteResponseV3 | CallQuoteResponseV3;
+  type: TransactionType;
+  recipientAccountId: string;
+}
+
+interface Execution {
+  quote: QuoteResponseV3 | CallQuoteResponseV3;
+  type: TransactionType;
+  recipientAccountId: string;
+  progression: OperationStatus[];
+  step: number;
+  originHashes: string[];
+  destinationHash: string;
+  executedAt: string;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(JSON.stringify(body));
+  }
+}
+
+function notFound(message: string): HttpError {
+  return new HttpError(404, { message, statusCode: 404 });
+}
+
+function badRequest(message: string): HttpError {
+  return new HttpError(400, { message, statusCode: 400 });
+}
+
+const chainMetadata = new ChainRegistry();
+
+function explorerUrl(chain: string, hash: string): string {
+  return chainMetadata.txUrl(chain, hash) ?? `https://blockscan.com/tx/${hash}`;
+}
+
+export class MockOneBalanceServer {
+  readonly requests: MockRequest[] = [];
+
+  private readonly server: http.Server;
+  private readonly options: Required<MockServerOptions>;
+  private assets: AggregatedAsset[] = DEFAULT_ASSETS;
+  private chains: SupportedChain[] = DEFAULT_CHAINS;
+  private readonly balances = new BalanceBook(() => this.assets);
+  private quoteOutcomes: MockOutcome[] = [];
+  private executeOutcomes: MockOutcome[] = [];
+  private statusOutcomes: MockOutcome[] = [];
+  private defaultProgression: OperationStatus[] = DEFAULT_STATUS_PROGRESSION;
+  private readonly progressions = new Map<string, OperationStatus[]>();
+  private callType: CallType = CallType.SameChainExcludeSolver;
+  private readonly quotes = new Map<string, IssuedQuote>();
+  private readonly executions = new Map<string, Execution>();
+  private quoteCounter = 0;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = { port: 0, quoteTtlSeconds: 60, ...options };
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ message: (error as Error).message, statusCode: 500 }));
+      });
+    });
+  }
+
+  // Lifecycle
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(this.options.port, resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  // Scripting
+
+  /** Set the balance of a chain-specific asset (in its native decimals) */
+  setBalance(assetType: string, balance: bigint | string, fiatValue: number = 0): void {
+    this.balances.set(assetType, balance, fiatValue);
+  }
+
+  setAssets(assets: AggregatedAsset[]): void {
+    this.assets = assets;
+  }
+
+  setChains(chains: SupportedChain[]): void {
+    this.chains = chains;
+  }
+
+  /** Queue outcomes for the next /quote and /call-quote requests */
+  queueQuoteOutcome(...outcomes: MockOutcome[]): void {
+    this.quoteOutcomes.push(...outcomes);
+  }
+
+  /** Queue outcomes for the next /execute-quote requests */
+  queueExecuteOutcome(...outcomes: MockOutcome[]): void {
+    this.executeOutcomes.push(...outcomes);
+  }
+
+  /** Queue outcomes for the next /get-execution-status requests */
+  queueStatusOutcome(...outcomes: MockOutcome[]): void {
+    this.statusOutcomes.push(...outcomes);
+  }
+
+  /**
+   * Set the statuses returned by successive execution status polls.
+   * Without a quote id it applies to every quote executed afterwards.
+   */
+  setStatusProgression(statuses: OperationStatus[], quoteId?: string): void {
+    if (statuses.length === 0) {
+      throw new Error('Status progression needs at least one status');
+    }
+
+    if (!quoteId) {
+      this.defaultProgression = statuses;
+      return;
+    }
+
+    this.progressions.set(quoteId, statuses);
+    const execution = this.executions.get(quoteId);
+    if (execution) {
+      execution.progression = statuses;
+      execution.step = 0;
+    }
+  }
+
+  /** Call type reported by /prepare-call-quote */
+  setCallType(callType: CallType): void {
+    this.callType = callType;
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.assets = DEFAULT_ASSETS;
+    this.chains = DEFAULT_CHAINS;
+    this.balances.clear();
+    this.quoteOutcomes = [];
+    this.executeOutcomes = [];
+    this.statusOutcomes = [];
+    this.defaultProgression = DEFAULT_STATUS_PROGRESSION;
+    this.progressions.clear();
+    this.callType = CallType.SameChainExcludeSolver;
+    this.quotes.clear();
+    this.executions.clear();
+  }
+
+  // HTTP handling
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      const request: MockRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams.entries()),
+        body: req.method === 'POST' ? await readJson(req) : undefined,
+      };
+      this.requests.push(request);
+
+      const result = this.route(request);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      res.writeHead(error.status, { ...error.headers, 'content-type': 'application/json' });
+      res.end(JSON.stringify(error.body));
+    }
+  }
+
+  private route({ method, path, query, body }: MockRequest): unknown {
+    const key = `${method} ${path}`;
+
+    switch (key) {
+      case 'POST /api/account/predict-address':
+        return this.predictAddress(body as Record<string, string>);
+      case 'POST /api/v3/quote':
+        return this.quote(body as QuoteRequestV3);
+      case 'POST /api/v3/quote/execute-quote':
+        return this.execute(body as QuoteResponseV3);
+      case 'POST /api/v3/quote/prepare-call-quote':
+        return this.prepareCallQuote(body as PrepareCallRequestV3);
+      case 'POST /api/v3/quote/call-quote':
+        return this.callQuote(body as CallRequestV3);
+      case 'GET /api/v3/balances/aggregated-balance':
+        return this.aggregatedBalance(query);
+      case 'GET /api/status/get-execution-status':
+        return this.executionStatus(query.quoteId);
+      case 'GET /api/status/get-tx-history':
+        return this.transactionHistory(query);
+      case 'GET /api/v3/status/get-tx-history':
+        return this.transactionHistoryV3(query);
+      case 'GET /api/assets/list':
+        return this.assets;
+      case 'GET /api/chains/supported-list':
+        return this.chains;
+      default:
+        throw notFound(`Cannot ${method} ${path}`);
+    }
+  }
+
+  // Endpoints
+
+  private predictAddress(body: Record<string, string>) {
+    if (body.sessionAddress && body.adminAddress) {
+      return {
+        predictedAddress: predictMockAddress('role-based', body.sessionAddress, body.adminAddress),
+      };
+    }
+
+    if (body.type && body.signerAddress) {
+      return { predictedAddress: predictMockAddress(body.type, body.signerAddress) };
+    }
+
+    throw badRequest('sessionAddress/adminAddress or type/signerAddress are required');
+  }
+
+  private takeOutcome(queue: MockOutcome[]): void {
+    const outcome = queue.shift();
+    if (outcome && outcome !== 'success') {
+      throw new HttpError(outcome.status, outcome.body, outcome.headers);
+    }
+  }
+
+  private quote(request: QuoteRequestV3): QuoteResponseV3 {
+    this.takeOutcome(this.quoteOutcomes);
+
+    if (!request?.from?.accounts?.length || !request.from.asset?.assetId || !request.to?.asset) {
+      throw badRequest('from.accounts, from.asset and to.asset are required');
+    }
+
+    const fromAssetId = request.from.asset.assetId;
+    const toAssetId = request.to.asset.assetId;
+    const amount = request.from.amount;
+    const operations = this.originOperations(request.from.accounts, fromAssetId, amount);
+
+    if (operations.length === 0) {
+      throw new HttpError(MOCK_ERRORS.noRoute.status, MOCK_ERRORS.noRoute.body);
+    }
+
+    const quote: QuoteResponseV3 = {
+      id: this.nextQuoteId(),
+      accounts: request.from.accounts,
+      originChainsOperations: operations,
+      originToken: {
+        aggregatedAssetId: fromAssetId,
+        amount,
+        assetType: operations.map((operation) => operation.assetType),
+        fiatValue: operations.map((operation) => ({
+          assetType: operation.assetType,
+          fiatValue: this.fiatValueOf(operation.assetType, operation.amount),
+        })),
+      },
+      destinationToken: {
+        aggregatedAssetId: toAssetId,
+        amount,
+        assetType: this.entityFor(toAssetId),
+        fiatValue: this.fiatValueOf(fromAssetId, amount),
+        recipientAccount: request.to.account,
+      },
+      expirationTimestamp: this.expiration(),
+      fees: { assets: {}, cumulativeUSD: '0.01' },
+      tamperProofSignature: randomHash(),
+    };
+
+    this.quotes.set(quote.id, {
+      quote,
+      type: 'SWAP',
+      recipientAccountId: request.to.account || this.defaultRecipient(request.from.accounts),
+    });
+    return quote;
+  }
+
+  private execute(signedQuote: QuoteResponseV3): BundleResponse {
+    const issued = this.quotes.get(signedQuote?.id);
+    if (!issued) {
+      throw notFound(`Quote ${signedQuote?.id} not found`);
+    }
+
+    if (this.executions.has(signedQuote.id)) {
+      throw badRequest(`Quote ${signedQuote.id} was already executed`);
+    }
+
+    if (Number(issued.quote.expirationTimestamp) * 1000 < Date.now()) {
+      throw new HttpError(MOCK_ERRORS.quoteExpired.status, MOCK_ERRORS.quoteExpired.body);
+    }
+
+    const unsigned = (signedQuote.originChainsOperations || []).filter(
+      (operation) => !isOperationSigned(operation),
+    );
+    if (unsigned.length > 0 || signedQuote.originChainsOperations?.length === 0) {
+      throw badRequest('Missing signature on origin chain operation');
+    }
+
+    this.takeOutcome(this.executeOutcomes);
+
+    this.executions.set(signedQuote.id, {
+      quote: issued.quote,
+      type: issued.type,
+      recipientAccountId: issued.recipientAccountId,
+      progression: this.progressions.get(signedQuote.id) || this.defaultProgression,
+      step: 0,
+      originHashes: signedQuote.originChainsOperations.map(() => randomHash()),
+      destinationHash: randomHash(),
+      executedAt: new Date().toISOString(),
+    });
+
+    return { success: true, guarantees: null, error: null };
+  }
+
+  private prepareCallQuote(request: PrepareCallRequestV3): TargetCallQuoteV3 {
+    if (!request?.accounts?.length || !request.targetChain || !request.calls?.length) {
+      throw badRequest('accounts, targetChain and calls are required');
+    }
+
+    const evmAccount = request.accounts.find((account) => account.type !== 'solana');
+    if (!evmAccount) {
+      throw badRequest('An EVM account is required for call quotes');
+    }
+
+    const chainId = Number(parseChainId(request.targetChain).reference);
+    const required = request.tokensRequired?.[0];
+    const chainOperation = buildChainOperation(
+      evmAccount,
+      chainId,
+      required?.assetType || `${request.targetChain}/slip44:60`,
+      required?.amount || '0',
+    );
+
+    return {
+      accounts: request.accounts,
+      chainOperation,
+      tamperProofSignature: randomHash(),
+      callType: this.callType,
+      sourceAssetBalances: this.sourceBalancesFor(required?.assetType),
+      ...(chainOperation.delegation ? { delegation: chainOperation.delegation } : {}),
+    };
+  }
+
+  private callQuote(request: CallRequestV3): CallQuoteResponseV3 {
+    this.takeOutcome(this.quoteOutcomes);
+
+    if (!request?.chainOperation || !isOperationSigned(request.chainOperation)) {
+      throw badRequest('chainOperation must be signed');
+    }
+
+    const fromAssetId = request.fromAssetId || request.fromAggregatedAssetId || 'ob:usdc';
+    const amount = request.chainOperation.amount;
+    const operations = this.originOperations(request.accounts, fromAssetId, amount);
+
+    const quote: CallQuoteResponseV3 = {
+      id: this.nextQuoteId(),
+      accounts: request.accounts,
+      originChainsOperations: operations,
+      destinationChainOperation: request.chainOperation,
+      originToken: {
+        aggregatedAssetId: fromAssetId,
+        amount,
+        assetType: operations.map((operation) => operation.assetType),
+        fiatValue: this.fiatValueOf(fromAssetId, amount),
+      },
+      destinationToken: {
+        aggregatedAssetId: fromAssetId,
+        amount,
+        assetType: request.chainOperation.assetType,
+        fiatValue: this.fiatValueOf(request.chainOperation.assetType, amount),
+      },
+      expirationTimestamp: this.expiration(),
+      fees: { assets: {}, cumulativeUSD: '0.01' },
+      tamperProofSignature: randomHash(),
+    };
+
+    this.quotes.set(quote.id, {
+      quote,
+      type: 'CALL',
+      recipientAccountId: this.defaultRecipient(request.accounts),
+    });
+    return quote;
+  }
+
+  private aggregatedBalance(query: Record<string, string>) {
+    if (!query.account) {
+      throw badRequest('account is required');
+    }
+
+    const aggregatedIds = query.aggregatedAssetId?.split(',');
+    const assetIds = query.assetId?.split(',');
+    const balanceByAggregatedAsset = this.balances.aggregated(aggregatedIds);
+    const balanceBySpecificAsset = this.balances.specific(assetIds);
+    const accounts = query.account.split(',');
+
+    return {
+      accounts: {
+        evm: accounts.find((account) => getChainOf(account)?.namespace === 'eip155'),
+        solana: accounts.find((account) => getChainOf(account)?.namespace === 'solana'),
+      },
+      balanceByAggregatedAsset,
+      balanceBySpecificAsset,
+      totalBalance: {
+        fiatValue: balanceByAggregatedAsset.reduce((sum, asset) => sum + asset.fiatValue, 0),
+      },
+    };
+  }
+
+  private executionStatus(quoteId: string | undefined): ExecutionStatusResponseV3 {
+    this.takeOutcome(this.statusOutcomes);
+
+    const execution = quoteId ? this.executions.get(quoteId) : undefined;
+    if (!quoteId || !execution) {
+      throw notFound(`Quote ${quoteId} not found`);
+    }
+
+    const status = execution.progression[execution.step];
+    execution.step = Math.min(execution.step + 1, execution.progression.length - 1);
+
+    return {
+      quoteId,
+      status,
+      user: execution.quote.accounts[0]?.accountAddress || '',
+      recipientAccountId: execution.recipientAccountId,
+      ...(status === 'FAILED' || status === 'REFUNDED'
+        ? { failReason: 'Mock execution failure' }
+        : {}),
+      ...this.operationsOf(execution, status),
+    };
+  }
+
+  // Executed quotes of a user, newest first. Reading the history does not advance statuses
+  private transactionHistory(query: Record<string, string>): HistoryResponse {
+    if (!query.user) {
+      throw badRequest('user is required');
+    }
+
+    const user = query.user.toLowerCase();
+    const limit = Number(query.limit) || 10;
+    const transactions = [...this.executions.entries()]
+      .filter(([, execution]) =>
+        execution.quote.accounts.some((account) => account.accountAddress.toLowerCase() === user),
+      )
+      .reverse()
+      .slice(0, limit)
+      .map(([quoteId, execution]) => this.historyEntry(quoteId, execution));
+
+    return { transactions };
+  }
+
+  private historyEntry(quoteId: string, execution: Execution): HistoryTransaction {
+    const { quote } = execution;
+    const status = execution.progression[execution.step];
+    const { originToken, destinationToken } = quote;
+
+    return {
+      quoteId,
+      type: execution.type,
+      originToken: originToken && {
+        aggregatedAssetId: originToken.aggregatedAssetId,
+        assetType: [originToken.assetType].flat(),
+        amount: originToken.amount,
+        fiatValue: Array.isArray(originToken.fiatValue)
+          ? originToken.fiatValue.map(({ fiatValue }) => ({
+              fiatValue,
+              amount: originToken.amount,
+            }))
+          : [{ fiatValue: originToken.fiatValue, amount: originToken.amount }],
+      },
+      destinationToken: destinationToken && {
+        aggregatedAssetId: destinationToken.aggregatedAssetId,
+        assetType: destinationToken.assetType,
+        amount: destinationToken.amount,
+        fiatValue: destinationToken.fiatValue,
+        minimumAmount: destinationToken.minimumAmount,
+      },
+      status,
+      user: (quote.accounts.find((account) => account.type !== 'solana')?.accountAddress ||
+        '0x') as Hex,
+      recipientAccountId: execution.recipientAccountId,
+    };
+  }
+
+  // V3 history across comma-separated CAIP-10 accounts, newest first.
+  // The continuation token is the offset of the next page
+  private transactionHistoryV3(query: Record<string, string>): HistoryResponseV3 {
+    if (!query.user) {
+      throw badRequest('user is required');
+    }
+
+    const users = query.user.split(',').map((account) => {
+      try {
+        return parseAccountId(account).address.toLowerCase();
+      } catch {
+        throw badRequest(`Invalid account id: ${account}`);
+      }
+    });
+    const limit = Number(query.limit) || 10;
+    const offset = Number(query.continuation) || 0;
+    const matching = [...this.executions.entries()]
+      .filter(([, execution]) =>
+        execution.quote.accounts.some((account) =>
+          users.includes(account.accountAddress.toLowerCase()),
+        ),
+      )
+      .reverse();
+
+    const transactions = matching
+      .slice(offset, offset + limit)
+      .map(([quoteId, execution]): HistoryTransactionV3 => {
+        const status = execution.progression[execution.step];
+        return {
+          quoteId,
+          status,
+          user: execution.quote.accounts[0]?.accountAddress || '',
+          recipientAccountId: execution.recipientAccountId,
+          ...this.operationsOf(execution, status),
+          type: execution.type,
+          originToken: execution.quote.originToken,
+          destinationToken: execution.quote.destinationToken,
+          timestamp: execution.executedAt,
+        };
+      });
+
+    return {
+      transactions,
+      ...(offset + limit < matching.length ? { continuation: String(offset + limit) } : {}),
+    };
+  }
+
+  // Helpers
+
+  // Origin operations once started, the destination operation once delivered
+  private operationsOf(execution: Execution, status: OperationStatus) {
+    const started = status !== 'PENDING';
+    const delivered = status === 'EXECUTED' || status === 'COMPLETED';
+    const recipientChain = getChainOf(execution.recipientAccountId);
+    const destinationChain = recipientChain ? formatChainId(recipientChain) : '';
+
+    return {
+      originChainOperations: started
+        ? execution.quote.originChainsOperations.map((operation, index) => {
+            const assetChain = getChainOf(operation.assetType);
+            const chain = assetChain ? formatChainId(assetChain) : '';
+            return {
+              hash: execution.originHashes[index],
+              chain,
+              explorerUrl: explorerUrl(chain, execution.originHashes[index]),
+            };
+          })
+        : [],
+      destinationChainOperations: delivered
+        ? [
+            {
+              hash: execution.destinationHash,
+              chain: destinationChain,
+              explorerUrl: explorerUrl(destinationChain, execution.destinationHash),
+            },
+          ]
+        : [],
+    };
+  }
+
+  private nextQuoteId(): string {
+    this.quoteCounter += 1;
+    return `0xmock${this.quoteCounter.toString().padStart(6, '0')}`;
+  }
+
+  private expiration(): string {
+    return Math.floor(Date.now() / 1000 + this.options.quoteTtlSeconds).toString();
+  }
+
+  // Chain-specific asset for an asset id, resolving aggregated ids to their first entity
+  private entityFor(assetId: string): string {
+    if (!isAggregatedAssetId(assetId)) {
+      return assetId;
+    }
+    const asset = this.assets.find((entry) => entry.aggregatedAssetId === assetId);
+    return asset?.aggregatedEntities[0]?.assetType || assetId;
+  }
+
+  private fiatValueOf(assetId: string, amount: string): string {
+    const asset = this.assets.find(
+      (entry) =>
+        entry.aggregatedAssetId === assetId ||
+        entry.aggregatedEntities.some((entity) => entity.assetType === assetId),
+    );
+    const decimals =
+      asset?.aggregatedEntities.find((entity) => entity.assetType === assetId)?.decimals ??
+      asset?.decimals ??
+      18;
+    const isStable = asset?.symbol === 'USDC' || asset?.symbol === 'USDT';
+    return isStable ? formatUnits(BigInt(amount || '0'), decimals) : '0';
+  }
+
+  private sourceBalancesFor(assetType: string | undefined) {
+    const asset = this.assets.find((entry) =>
+      entry.aggregatedEntities.some((entity) => entity.assetType === assetType),
+    );
+    if (!asset) return [];
+
+    const [aggregated] = this.balances.aggregated([asset.aggregatedAssetId]);
+    return (aggregated?.individualAssetBalances || [])
+      .filter((entry) => BigInt(entry.balance) > 0n)
+      .map((entry) => ({
+        assetType: entry.assetType,
+        balance: entry.balance,
+        decimals:
+          asset.aggregatedEntities.find((entity) => entity.assetType === entry.assetType)
+            ?.decimals ?? asset.decimals,
+        fiatValue: entry.fiatValue,
+      }));
+  }
+
+  private defaultRecipient(accounts: Account[]): string {
+    const evm = accounts.find((account) => account.type !== 'solana');
+    if (evm) return formatAccountId({ chainId: evmChain(42161), address: evm.accountAddress });
+    return formatAccountId({
+      chainId: SOLANA_MAINNET_CHAIN,
+      address: accounts[0]?.accountAddress || '',
+    });
+  }
+
+  /**
+   * One origin operation per account that can pay for the source asset:
+   * Solana assets are paid by the Solana account, EVM assets by the EVM account,
+   * aggregated assets by every account that holds one of its entities (EVM by default).
+   */
+  private originOperations(
+    accounts: Account[],
+    fromAssetId: string,
+    amount: string,
+  ): Array<ChainOperation | SolanaOperation> {
+    const operations: Array<ChainOperation | SolanaOperation> = [];
+    const evmAccount = accounts.find((account) => account.type !== 'solana');
+    const solanaAccount = accounts.find((account) => account.type === 'solana');
+
+    let evmAssetType: string | undefined;
+    let solanaAssetType: string | undefined;
+
+    const fromChain = getChainOf(fromAssetId);
+
+    if (fromChain?.namespace === 'solana') {
+      solanaAssetType = fromAssetId;
+    } else if (fromChain?.namespace === 'eip155') {
+      evmAssetType = fromAssetId;
+    } else {
+      const asset = this.assets.find((entry) => entry.aggregatedAssetId === fromAssetId);
+      const held = new Set(this.balances.specific().map((entry) => entry.assetType));
+      const entities = asset?.aggregatedEntities || [];
+      const evmEntities = entities.filter(
+        (entity) => getChainOf(entity.assetType)?.namespace === 'eip155',
+      );
+      const solanaEntities = entities.filter(
+        (entity) => getChainOf(entity.assetType)?.namespace === 'solana',
+      );
+
+      evmAssetType = (evmEntities.find((entity) => held.has(entity.assetType)) || evmEntities[0])
+        ?.assetType;
+      solanaAssetType = solanaEntities.find((entity) => held.has(entity.assetType))?.assetType;
+    }
+
+    if (evmAccount && evmAssetType) {
+      const chainId = Number(getChainOf(evmAssetType)?.reference);
+      operations.push(buildChainOperation(evmAccount, chainId, evmAssetType, amount));
+    }
+
+    if (solanaAccount && solanaAssetType) {
+      operations.push(buildSolanaOperation(solanaAccount.accountAddress, solanaAssetType, amount));
+    }
+
+    return operations;
+  }
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw badRequest('Invalid JSON body');
+  }
+}
+
+/**
+ * Run the mock server standalone with a few funded balances
+ */
+async function main() {
+  const server = new MockOneBalanceServer({ port: Number(process.env.PORT) || 4010 });
+
+  server.setBalance(
+    'eip155:42161/erc20:0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    25_000_000n,
+    25,
+  );
+  server.setBalance(
+    'eip155:8453/erc20:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+    10_000_000n,
+    10,
+  );
+  server.setBalance(
+    `${SOLANA_MAINNET}/token:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v`,
+    5_000_000n,
+    5,
+  );
+  server.setBalance('eip155:42161/slip44:60', 10n ** 17n, 350);
+
+  const url = await server.start();
+  console.log(`🧪 Mock OneBalance server listening on ${url}`);
+  console.log(`   Point the examples at it: ONEBALANCE_BASE_URL=${url} pnpm run swap:simple`);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -2,13 +2,13 @@ import { formatUnits, parseUnits } from 'viem';
 import {
   loadMultiChainAccounts,
   monitorTransactionCompletion,
-  fetchAggregatedBalanceV3,
   getQuoteV3,
   executeQuoteV3,
   signAllOperations,
-  buildAccountParam,
   checkCrossChainBalance,
   displaySwapQuote,
+  getAssetRegistry,
+  getPortfolio,
   QuoteRequestV3,
   ContractAccountType,
 } from '../helpers';
@@ -20,8 +20,8 @@ interface SwapSolanaAssetsParams {
   toAssetId: string;
   /** Amount to swap in smallest unit (wei-equivalent) */
   amount: string;
-  /** Decimals of the source asset */
-  fromDecimals: number;
+  /** Decimals of the source asset (default: looked up in the asset registry) */
+  fromDecimals?: number;
   /** Slippage tolerance in basis points (default: 50 = 0.5%) */
   slippageTolerance?: number;
   /** Recipient account for cross-chain swaps */
@@ -29,118 +29,37 @@ interface SwapSolanaAssetsParams {
 }
 
 /**
- * Get standard decimals for aggregated assets
- * Note: API returns aggregated balances in native token decimals
- */
-function getAggregatedAssetDecimals(assetId: string): number {
-  const decimalsMap: Record<string, number> = {
-    'ob:usdc': 6, // USDC uses 6 decimals
-    'ob:usdt': 6, // USDT uses 6 decimals
-    'ob:sol': 9, // SOL uses 9 decimals
-    'ob:eth': 18, // ETH uses 18 decimals
-    'ob:weth': 18, // WETH uses 18 decimals
-  };
-  return decimalsMap[assetId] || 18;
-}
-
-/**
- * Get decimals for any asset (aggregated or chain-specific)
- */
-function getAssetDecimals(assetId: string): number {
-  // Check if it's an aggregated asset
-  if (assetId.startsWith('ob:')) {
-    return getAggregatedAssetDecimals(assetId);
-  }
-  // For chain-specific assets, use native decimals
-  return getNativeAssetDecimals(assetId);
-}
-
-/**
- * Get native decimals for a chain-specific asset
- */
-function getNativeAssetDecimals(assetType: string): number {
-  // Solana assets
-  if (assetType.includes('slip44:501')) return 9; // SOL
-  if (assetType.startsWith('solana:') && assetType.includes('token:')) return 6; // Most Solana tokens
-
-  // BSC USDC/USDT has 18 decimals
-  if (assetType.includes('eip155:56')) return 18;
-
-  // Most EVM tokens have 6 decimals (USDC, USDT)
-  if (assetType.includes('erc20:') || assetType.includes('token:')) return 6;
-
-  // Native ETH and similar have 18 decimals
-  return 18;
-}
-
-/**
- * Display balances for multiple aggregated assets across EVM and Solana
+ * Display the portfolio of the EVM and Solana accounts
  */
 async function displayMultiChainBalances(evmAccount: any, solanaAccount: any) {
   try {
     console.log('\n💰 Fetching balances for EVM and Solana accounts...\n');
 
-    const accountParam = buildAccountParam(evmAccount, solanaAccount);
-    const assetsToCheck = ['ob:usdc', 'ob:usdt', 'ob:sol'];
-
-    // Fetch balances for all assets
-    const balanceResponse = await fetchAggregatedBalanceV3(accountParam, assetsToCheck.join(','));
+    const portfolio = await getPortfolio([evmAccount, solanaAccount]);
 
     console.log('📊 Account Balances:\n');
     console.log(`EVM Account: ${evmAccount.accountAddress}`);
     console.log(`Solana Account: ${solanaAccount.accountAddress}\n`);
 
-    if (
-      !balanceResponse.balanceByAggregatedAsset ||
-      balanceResponse.balanceByAggregatedAsset.length === 0
-    ) {
-      console.log('No balances found for specified assets\n');
+    if (portfolio.assets.length === 0) {
+      console.log('No balances found\n');
       return;
     }
 
-    // Display each asset balance
-    for (const asset of balanceResponse.balanceByAggregatedAsset) {
-      const assetId = asset.aggregatedAssetId;
-      const totalBalance = BigInt(asset.balance);
-      const decimals = getAggregatedAssetDecimals(assetId);
-      const formattedBalance = formatUnits(totalBalance, decimals);
-
-      console.log(`${assetId.toUpperCase()}:`);
-      console.log(`  Total: ${formattedBalance}`);
+    console.log(`Total value: $${portfolio.totalFiatValue.toFixed(2)}\n`);
 
-      // Show breakdown by chain
-      if (asset.individualAssetBalances && asset.individualAssetBalances.length > 0) {
+    // Display each asset balance
+    for (const asset of portfolio.assets) {
+      console.log(`${asset.symbol}:`);
+      console.log(`  Total: ${asset.formatted ?? asset.balance}`);
+      console.log(`  Value: $${asset.fiatValue.toFixed(2)} (${asset.allocation.toFixed(1)}%)`);
+
+      // Show breakdown by chain, skipping zero balances
+      const held = asset.chains.filter((chain) => BigInt(chain.balance) > 0n);
+      if (held.length > 0) {
         console.log('  Breakdown:');
-        for (const chainBalance of asset.individualAssetBalances) {
-          const chainAmount = BigInt(chainBalance.balance);
-          const chainDecimals = getNativeAssetDecimals(chainBalance.assetType);
-          const chainFormatted = formatUnits(chainAmount, chainDecimals);
-
-          // Skip zero balances in breakdown
-          if (parseFloat(chainFormatted) === 0) continue;
-
-          // Extract chain info from assetType
-          let chainName = 'Unknown';
-          if (chainBalance.assetType.startsWith('solana:')) {
-            chainName = 'Solana';
-          } else if (chainBalance.assetType.includes('eip155:')) {
-            const chainIdMatch = chainBalance.assetType.match(/eip155:(\d+)/);
-            if (chainIdMatch) {
-              const chainId = chainIdMatch[1];
-              const chainNames: Record<string, string> = {
-                '1': 'Ethereum',
-                '10': 'Optimism',
-                '56': 'BSC',
-                '137': 'Polygon',
-                '8453': 'Base',
-                '42161': 'Arbitrum',
-                '43114': 'Avalanche',
-              };
-              chainName = chainNames[chainId] || `Chain ${chainId}`;
-            }
-          }
-
-          console.log(`    - ${chainName}: ${chainFormatted}`);
+        for (const chain of held) {
+          console.log(`    - ${chain.chainName}: ${chain.formatted ?? chain.balance}`);
         }
       }
       console.log('');
@@ -158,13 +77,16 @@ async function swapSolanaAssets({
   fromAssetId,
   toAssetId,
   amount,
-  fromDecimals,
+  fromDecimals: fromDecimalsOverride,
   slippageTolerance = 50,
   recipientAccount,
 }: SwapSolanaAssetsParams) {
   try {
     console.log('🚀 Starting Solana swap...\n');
 
+    const registry = await getAssetRegistry();
+    const fromDecimals = fromDecimalsOverride ?? registry.decimalsOf(fromAssetId);
+
     // Load multi-chain accounts (EVM + Solana)
     const { accounts, evmAccount, signerKey, solanaAccount, solanaKeypair } =
       await loadMultiChainAccounts({
@@ -232,7 +154,7 @@ async function swapSolanaAssets({
       toAssetId,
       fromAmount: amount,
       fromDecimals,
-      toDecimals: getAssetDecimals(toAssetId),
+      toDecimals: registry.decimalsOf(toAssetId),
     });
 
     // Step 2: Sign all operations (both EVM and Solana if needed)
@@ -304,7 +226,7 @@ async function main() {
       fromAssetId: PUMP_SOLANA_ASSET_ID,
       toAssetId: 'ob:usdt',
       amount: parseUnits('120', 6).toString(),
-      fromDecimals: 6,
+      fromDecimals: 6, // PUMP is not part of an aggregated asset, so the registry does not know it
       slippageTolerance: 50,
       // recipientAccount: EVM_WALLET_ADDRESS,
     });
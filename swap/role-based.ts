@@ -1,7 +1,8 @@
-import { formatUnits, parseUnits } from 'viem';
+import { parseUnits } from 'viem';
 import {
   readOrCacheEOAKey,
-  fetchAggregatedBalanceV3,
+  getAssetBalance,
+  hasSufficientBalance,
   getQuoteV3,
   executeQuoteV3,
   monitorTransactionCompletion,
@@ -11,32 +12,28 @@ import {
   ContractAccountType,
   QuoteRequestV3,
   ChainOperation,
+  type Balance,
 } from '../helpers';
 
 /**
  * Check USDC balance using aggregated balance endpoint
  */
-async function checkUSDCBalance(accountAddress: string) {
+async function checkUSDCBalance(accountAddress: string): Promise<Balance> {
   try {
     console.log('🔍 Checking USDC balance...');
 
-    const response = await fetchAggregatedBalanceV3(
+    const usdcBalance = await getAssetBalance(
       `eip155:42161:${accountAddress}`, // Using Arbitrum as primary chain
       'ob:usdc', // Aggregated USDC asset ID
     );
 
-    const usdcBalance = response.balanceByAggregatedAsset?.find(
-      (asset) => asset.aggregatedAssetId === 'ob:usdc',
-    );
-
-    if (!usdcBalance) {
+    if (usdcBalance.raw === 0n) {
       throw new Error('No USDC balance found');
     }
 
-    const balanceInUSDC = parseFloat(formatUnits(BigInt(usdcBalance.balance), 6));
-    console.log(`💰 Available USDC balance: ${balanceInUSDC.toFixed(2)} USDC`);
+    console.log(`💰 Available USDC balance: ${usdcBalance.formatted} USDC`);
 
-    return balanceInUSDC;
+    return usdcBalance;
   } catch (error) {
     console.error('Failed to check balance:', error);
     throw error;
@@ -72,11 +69,11 @@ async function swapUSDCtoUSDT() {
 
     // Check USDC balance
     const balance = await checkUSDCBalance(account.accountAddress);
-    const swapAmount = 1.0; // 1 USDC
+    const swapAmount = '1'; // 1 USDC
 
-    if (balance < swapAmount) {
+    if (!hasSufficientBalance(balance, swapAmount)) {
       throw new Error(
-        `Insufficient balance. Need ${swapAmount} USDC, have ${balance.toFixed(2)} USDC`,
+        `Insufficient balance. Need ${swapAmount} USDC, have ${balance.formatted} USDC`,
       );
     }
 
@@ -98,7 +95,7 @@ async function swapUSDCtoUSDT() {
         asset: {
           assetId: 'ob:usdc', // Aggregated USDC
         },
-        amount: parseUnits(swapAmount.toString(), 6).toString(), // USDC has 6 decimals
+        amount: parseUnits(swapAmount, balance.decimals).toString(), // In ob:usdc decimals
       },
       to: {
         asset: {
@@ -114,8 +111,8 @@ async function swapUSDCtoUSDT() {
       quote,
       fromAssetId: 'ob:usdc',
       toAssetId: 'ob:usdt',
-      fromAmount: parseUnits(swapAmount.toString(), 6).toString(),
-      fromDecimals: 6,
+      fromAmount: parseUnits(swapAmount, balance.decimals).toString(),
+      fromDecimals: balance.decimals,
     });
 
     // Step 2: Sign all chain operations